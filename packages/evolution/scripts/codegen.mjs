@@ -8,21 +8,21 @@
  * - Cardano transaction builders
  * - Constants from blockchain parameters
  * - API client code from OpenAPI specs
+ *
+ * Usage:
+ *   node scripts/codegen.mjs                                  generate src/generated
+ *   node scripts/codegen.mjs blueprint <plutus.json> [out.ts] generate typed validators from a CIP-57 blueprint
  */
 
-import { dirname, join } from "path"
-import { existsSync, mkdirSync, writeFileSync } from "fs"
+import { basename, dirname, join } from "path"
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs"
 import { fileURLToPath } from "url"
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = dirname(__filename)
 const srcDir = join(__dirname, "..", "src")
 
-// Ensure generated directory exists
 const generatedDir = join(srcDir, "generated")
-if (!existsSync(generatedDir)) {
-  mkdirSync(generatedDir, { recursive: true })
-}
 
 /**
  * Generate version constants
@@ -183,6 +183,11 @@ export * from './types.js';
 async function main() {
   console.log("🚀 Starting code generation...")
 
+  // Ensure generated directory exists
+  if (!existsSync(generatedDir)) {
+    mkdirSync(generatedDir, { recursive: true })
+  }
+
   try {
     await generateVersionInfo()
     generateNetworkConfigs()
@@ -197,4 +202,187 @@ async function main() {
   }
 }
 
-main()
+// ============================================================================
+// CIP-57 Blueprints
+// ============================================================================
+
+const RESERVED = new Set(["Schema", "TSchema", "Blueprint"])
+
+const pascalCase = (text) =>
+  text
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join("")
+
+/**
+ * Assign a TypeScript identifier to every definition: its last path segment,
+ * or its full name when that is taken
+ */
+function identifiers(names) {
+  const taken = new Set(RESERVED)
+  const result = new Map()
+  for (const name of names) {
+    const candidates = [pascalCase(name.split("/").pop()), pascalCase(name)].map((id) => (/^[0-9]/.test(id) ? `_${id}` : id))
+    let id = candidates.find((candidate) => candidate && !taken.has(candidate))
+    for (let suffix = 2; id === undefined; suffix++) {
+      if (!taken.has(`${candidates[1]}${suffix}`)) id = `${candidates[1]}${suffix}`
+    }
+    taken.add(id)
+    result.set(name, id)
+  }
+  return result
+}
+
+const refName = (ref) => {
+  if (!ref.startsWith("#/definitions/")) throw new Error(`Unsupported reference ${ref}`)
+  return ref.slice("#/definitions/".length).replaceAll("~1", "/").replaceAll("~0", "~")
+}
+
+const isConstructor = (definition, index, title, arity) =>
+  definition.dataType === "constructor" &&
+  definition.index === index &&
+  definition.title === title &&
+  (definition.fields ?? []).length === arity
+
+/**
+ * Keys of a constructor's fields: their titles, or their positions when untitled
+ */
+const fieldKeys = (fields) => {
+  const keys = fields.map((field, position) => field.title ?? String(position))
+  if (new Set(keys).size !== keys.length) throw new Error(`Duplicate field titles: ${keys.join(", ")}`)
+  return keys
+}
+
+/**
+ * Emit the definitions of a blueprint in dependency order, mirroring the schema
+ * derivation of `sdk/Blueprint.ts`; test/Blueprint.test.ts checks the generated
+ * module type-checks and encodes like the runtime loader
+ */
+function emitDefinitions(definitions) {
+  const ids = identifiers(Object.keys(definitions))
+  const emitted = new Set()
+  const emitting = new Set()
+  const declarations = []
+
+  const reference = (name) => {
+    if (!(name in definitions)) throw new Error(`Undefined definition ${name}`)
+    const id = ids.get(name)
+    if (emitted.has(name)) return id
+    // A recursive type refers to itself while being emitted
+    if (emitting.has(name)) return `Schema.suspend((): Blueprint.DataSchema => ${id})`
+    emitting.add(name)
+    const expression = emit(definitions[name])
+    emitting.delete(name)
+    emitted.add(name)
+    const description = definitions[name].description ? `/** ${definitions[name].description} */\n` : ""
+    declarations.push(
+      `${description}export const ${id} = ${expression}\nexport type ${id} = Schema.Schema.Type<typeof ${id}>`
+    )
+    return id
+  }
+
+  const fields = (constructor) => {
+    const keys = fieldKeys(constructor.fields ?? [])
+    const entries = (constructor.fields ?? []).map((field, position) => `${JSON.stringify(keys[position])}: ${emit(field)}`)
+    return `{ ${entries.join(", ")} }`
+  }
+
+  const sum = (constructors) => {
+    if (constructors.length === 2 && isConstructor(constructors[0], 0, "False", 0) && isConstructor(constructors[1], 1, "True", 0)) {
+      return "TSchema.Boolean"
+    }
+    if (constructors.length === 2 && isConstructor(constructors[0], 0, "Some", 1) && isConstructor(constructors[1], 1, "None", 0)) {
+      return `TSchema.NullOr(${emit(constructors[0].fields[0])})`
+    }
+    if (constructors.length === 1) return emit(constructors[0])
+    const members = constructors.map((constructor, position) => {
+      if (constructor.dataType !== "constructor" || constructor.title === undefined) {
+        throw new Error(`Sum member ${position} is not a titled constructor`)
+      }
+      const index = constructor.index ?? position
+      const title = JSON.stringify(constructor.title)
+      return (constructor.fields ?? []).length === 0
+        ? `Blueprint.Tag(${index}, ${title})`
+        : `Blueprint.Variant(${index}, ${title}, ${fields(constructor)})`
+    })
+    return `Blueprint.Sum(${members.join(", ")})`
+  }
+
+  const emit = (definition) => {
+    if (definition.$ref !== undefined) return reference(refName(definition.$ref))
+    if (definition.anyOf !== undefined) return sum(definition.anyOf)
+    switch (definition.dataType) {
+      case undefined:
+        return "Blueprint.AnyData"
+      case "integer":
+        return "TSchema.Integer"
+      case "bytes":
+        return "TSchema.ByteArray"
+      case "list":
+        if (definition.items === undefined) return "TSchema.Array(Blueprint.AnyData)"
+        return Array.isArray(definition.items)
+          ? `TSchema.Tuple([${definition.items.map(emit).join(", ")}])`
+          : `TSchema.Array(${emit(definition.items)})`
+      case "map":
+        return `TSchema.Map(${definition.keys ? emit(definition.keys) : "Blueprint.AnyData"}, ${definition.values ? emit(definition.values) : "Blueprint.AnyData"})`
+      case "constructor":
+        return `Blueprint.Constructor(${definition.index ?? 0}, ${fields(definition)})`
+      default:
+        throw new Error(`Unsupported data type ${definition.dataType}`)
+    }
+  }
+
+  for (const name of Object.keys(definitions)) reference(name)
+  return { declarations, emit, taken: new Set([...RESERVED, ...ids.values()]) }
+}
+
+/**
+ * Generate a TypeScript module with a schema per definition and a typed
+ * validator per blueprint validator
+ */
+function generateBlueprint(input, output) {
+  if (input === undefined) {
+    console.error("Usage: node scripts/codegen.mjs blueprint <plutus.json> [out.ts]")
+    process.exit(1)
+  }
+  const blueprint = JSON.parse(readFileSync(input, "utf8"))
+  const { declarations, emit, taken } = emitDefinitions(blueprint.definitions ?? {})
+
+  const validators = blueprint.validators.map((validator) => {
+    let id = pascalCase(validator.title)
+    while (taken.has(id)) id = `${id}Validator`
+    taken.add(id)
+    const lines = [
+      `  title: ${JSON.stringify(validator.title)},`,
+      `  plutusVersion: ${JSON.stringify(blueprint.preamble.plutusVersion ?? "v3")},`,
+      `  compiledCode: ${JSON.stringify(validator.compiledCode)},`,
+      `  parameters: [${(validator.parameters ?? []).map((parameter) => emit(parameter.schema)).join(", ")}],`,
+      validator.datum && `  datum: ${emit(validator.datum.schema)},`,
+      validator.redeemer && `  redeemer: ${emit(validator.redeemer.schema)},`
+    ].filter(Boolean)
+    return `export const ${id} = Blueprint.makeValidator({\n${lines.join("\n").replace(/,$/, "")}\n})`
+  })
+
+  const content = `// This file is auto-generated from ${basename(input)}. Do not edit manually.
+// Generated at: ${new Date().toISOString()}
+
+import { Schema, TSchema } from "@evolution-sdk/evolution"
+import * as Blueprint from "@evolution-sdk/evolution/sdk/Blueprint"
+
+// ${blueprint.preamble.title} ${blueprint.preamble.version}
+
+${[...declarations, ...validators].join("\n\n")}
+`
+
+  const target = output ?? join(dirname(input), `${basename(input, ".json")}.ts`)
+  writeFileSync(target, content)
+  console.log(`✅ Generated ${target}`)
+}
+
+const [command, ...args] = process.argv.slice(2)
+if (command === "blueprint") {
+  generateBlueprint(...args)
+} else {
+  main()
+}
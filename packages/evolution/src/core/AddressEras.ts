@@ -202,6 +202,18 @@ export const FromBech32 = Schema.transformOrFail(Schema.String, Schema.typeSchem
   description: "Transforms Bech32 string to Address"
 })
 
+/**
+ * Schema for encoding/decoding addresses in their textual form: base58 for Byron
+ * addresses and Bech32 for every other era.
+ *
+ * @since 2.0.0
+ * @category schema
+ */
+export const FromString = Schema.Union(ByronAddress.FromBase58, FromBech32).annotations({
+  identifier: "Address.FromString",
+  description: "Transforms a base58 (Byron) or Bech32 string to Address"
+})
+
 /**
  * Checks if two addresses are equal.
  *
@@ -222,7 +234,7 @@ export const equals = (a: AddressEras, b: AddressEras): boolean => {
     case "RewardAccount":
       return RewardAccount.equals(a, b as RewardAccount.RewardAccount)
     case "ByronAddress":
-      return false
+      return ByronAddress.equals(a, b as ByronAddress.ByronAddress)
   }
 }
 
@@ -268,6 +280,15 @@ export const fromHex = Function.makeDecodeSync(FromHex, AddressError, "Address.f
  */
 export const fromBech32 = Function.makeDecodeSync(FromBech32, AddressError, "Address.fromBech32")
 
+/**
+ * Parse an Address from its textual form, accepting base58 Byron addresses as
+ * well as Bech32.
+ *
+ * @since 2.0.0
+ * @category parsing
+ */
+export const fromString = Function.makeDecodeSync(FromString, AddressError, "Address.fromString")
+
 // ============================================================================
 // Encoding Functions
 // ============================================================================
@@ -296,6 +317,15 @@ export const toHex = Function.makeEncodeSync(FromHex, AddressError, "Address.toH
  */
 export const toBech32 = Function.makeEncodeSync(FromBech32, AddressError, "Address.toBech32")
 
+/**
+ * Convert an Address to its textual form: base58 for Byron addresses, Bech32
+ * otherwise.
+ *
+ * @since 2.0.0
+ * @category encoding
+ */
+export const toString = Function.makeEncodeSync(FromString, AddressError, "Address.toString")
+
 /**
  * Effect-based error handling variants for functions that can fail.
  *
@@ -306,8 +336,10 @@ export namespace Either {
   export const fromBytes = Function.makeDecodeEither(FromBytes, AddressError)
   export const fromHex = Function.makeDecodeEither(FromHex, AddressError)
   export const fromBech32 = Function.makeDecodeEither(FromBech32, AddressError)
+  export const fromString = Function.makeDecodeEither(FromString, AddressError)
 
   export const toBytes = Function.makeEncodeEither(FromBytes, AddressError)
   export const toHex = Function.makeEncodeEither(FromHex, AddressError)
   export const toBech32 = Function.makeEncodeEither(FromBech32, AddressError)
+  export const toString = Function.makeEncodeEither(FromString, AddressError)
 }
@@ -1,6 +1,7 @@
 import { mod } from "@noble/curves/abstract/modular.js"
 import { ed25519 } from "@noble/curves/ed25519.js"
-import { bytesToNumberLE } from "@noble/curves/utils.js"
+import { bytesToNumberLE, numberToBytesLE } from "@noble/curves/utils.js"
+import { blake2b } from "@noble/hashes/blake2"
 import { hmac } from "@noble/hashes/hmac.js"
 import { pbkdf2 } from "@noble/hashes/pbkdf2"
 import { sha512 } from "@noble/hashes/sha2"
@@ -9,6 +10,7 @@ import { Data, Effect, FastCheck, Schema } from "effect"
 import * as Bip32PublicKey from "./Bip32PublicKey.js"
 import * as Bytes from "./Bytes.js"
 import * as Bytes96 from "./Bytes96.js"
+import * as CBOR from "./CBOR.js"
 import * as Function from "./Function.js"
 import * as PrivateKey from "./PrivateKey.js"
 
@@ -26,7 +28,8 @@ export class Bip32PrivateKeyError extends Data.TaggedError("Bip32PrivateKeyError
 /**
  * Schema for Bip32PrivateKey representing a BIP32-Ed25519 extended private key.
  * Always 96 bytes: 32-byte scalar + 32-byte IV + 32-byte chain code.
- * Derivation implements the V2 scheme for CML compatibility.
+ * Derivation implements the V2 scheme for CML compatibility; legacy Daedalus
+ * wallets derive with the V1 scheme instead.
  *
  * @since 2.0.0
  * @category schemas
@@ -130,6 +133,28 @@ const add256 = (a: Uint8Array, b: Uint8Array): Uint8Array => {
   return out
 }
 
+const FIELD_PRIME = (1n << 255n) - 19n
+const FIELD_MASK = (1n << 255n) - 1n
+
+// add_28_mul8_v1(kl, zl): V1 multiplies each byte of zl by 8 without carrying between
+// bytes and adds modulo the curve's field prime instead of as plain integers
+const add28Mul8V1 = (kl: Uint8Array, zl: Uint8Array): Uint8Array => {
+  const zl8 = zl.map((byte) => (byte << 3) & 0xff)
+  const sum = (bytesToNumberLE(kl) & FIELD_MASK) + (bytesToNumberLE(zl8) & FIELD_MASK)
+  return numberToBytesLE(sum % FIELD_PRIME, 32)
+}
+
+// add_256bits_v1(kr, zr): bytewise addition, dropping every carry
+const add256V1 = (a: Uint8Array, b: Uint8Array): Uint8Array => a.map((byte, i) => (byte + b[i]) & 0xff)
+
+/**
+ * Derivation scheme: V2 is used by Icarus and Shelley wallets, V1 by legacy Daedalus wallets.
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export type DerivationScheme = "V1" | "V2"
+
 // ============================================================================
 // Constructors / Equality
 // ============================================================================
@@ -183,6 +208,17 @@ export const fromBip39Entropy = (entropy: Uint8Array, password: string = ""): Bi
   return Effect.runSync(Either.fromBip39Entropy(entropy, password))
 }
 
+/**
+ * Create the root key of a legacy Daedalus wallet from its 12-word mnemonic entropy.
+ * Derive its children with `deriveV1`.
+ *
+ * @since 2.0.0
+ * @category bip39
+ */
+export const fromDaedalusEntropy = (entropy: Uint8Array): Bip32PrivateKey => {
+  return Effect.runSync(Either.fromDaedalusEntropy(entropy))
+}
+
 /**
  * Derive a child private key using a single derivation index (V2 scheme).
  * Supports hardened (index >= 0x80000000) and soft derivation.
@@ -204,6 +240,16 @@ export const derive = (bip32PrivateKey: Bip32PrivateKey, indices: Array<number>)
   return Effect.runSync(Either.derive(bip32PrivateKey, indices))
 }
 
+/**
+ * Derive a child private key of a legacy Daedalus wallet using multiple indices (V1 scheme).
+ *
+ * @since 2.0.0
+ * @category bip32
+ */
+export const deriveV1 = (bip32PrivateKey: Bip32PrivateKey, indices: Array<number>): Bip32PrivateKey => {
+  return Effect.runSync(Either.deriveV1(bip32PrivateKey, indices))
+}
+
 /**
  * Derive a child private key using a BIP32 path string.
  * Supports paths like "m/1852'/1815'/0'/0/0" or "1852'/1815'/0'/0/0".
@@ -284,7 +330,27 @@ export namespace Either {
       })
     })
 
-  export const deriveChild = (bip32PrivateKey: Bip32PrivateKey, index: number) =>
+  export const fromDaedalusEntropy = (entropy: Uint8Array) =>
+    Effect.gen(function* () {
+      const seed = yield* Effect.try({
+        try: () => CBOR.toCBORBytes(blake2b(CBOR.toCBORBytes(entropy), { dkLen: 32 })),
+        catch: (cause) => new Bip32PrivateKeyError({ message: "fromDaedalusEntropy failed", cause })
+      })
+      // Retry until the scalar has its third highest bit clear, as V1 derivation requires
+      for (let iteration = 1; ; iteration++) {
+        const block = hmac(sha512, seed, new TextEncoder().encode(`Root Seed Chain ${iteration}`))
+        const extended = sha512(block.slice(0, 32))
+        if ((extended[31] & 0b0010_0000) === 0) {
+          const out = new Uint8Array(96)
+          out.set(clampScalar(extended.slice(0, 32)), 0)
+          out.set(extended.slice(32, 64), 32)
+          out.set(block.slice(32, 64), 64)
+          return new Bip32PrivateKey({ bytes: out }, { disableValidation: true })
+        }
+      }
+    })
+
+  export const deriveChild = (bip32PrivateKey: Bip32PrivateKey, index: number, scheme: DerivationScheme = "V2") =>
     Effect.gen(function* () {
       const keyBytes = yield* Effect.try({
         try: () => Schema.encodeSync(FromBytes)(bip32PrivateKey),
@@ -296,12 +362,13 @@ export namespace Either {
 
       const isHardened = index >= 0x80000000
 
-      // Serialize index (little-endian, V2 scheme)
+      // Serialize index (little-endian in V2, big-endian in V1)
       const indexBytes = new Uint8Array(4)
       indexBytes[0] = index & 0xff
       indexBytes[1] = (index >>> 8) & 0xff
       indexBytes[2] = (index >>> 16) & 0xff
       indexBytes[3] = (index >>> 24) & 0xff
+      if (scheme === "V1") indexBytes.reverse()
 
       // Z computation
       const zTag = new Uint8Array([isHardened ? 0x00 : 0x02])
@@ -329,8 +396,8 @@ export namespace Either {
       const zr = z.slice(32, 64)
 
       // New left/right parts
-      const newLeft = add28Mul8V2(scalar, zl)
-      const newRight = add256(iv, zr)
+      const newLeft = scheme === "V1" ? add28Mul8V1(scalar, zl) : add28Mul8V2(scalar, zl)
+      const newRight = scheme === "V1" ? add256V1(iv, zr) : add256(iv, zr)
 
       // Chain code derivation
       const ccTag = new Uint8Array([isHardened ? 0x01 : 0x03])
@@ -372,6 +439,15 @@ export namespace Either {
       return current
     })
 
+  export const deriveV1 = (bip32PrivateKey: Bip32PrivateKey, indices: Array<number>) =>
+    Effect.gen(function* () {
+      let current = bip32PrivateKey
+      for (const idx of indices) {
+        current = yield* deriveChild(current, idx, "V1")
+      }
+      return current
+    })
+
   const parsePath = (path: string) =>
     Effect.try({
       try: () => {
@@ -490,10 +566,11 @@ export namespace Either {
 /**
  * Utility functions to build Cardano BIP44 derivation indices.
  * Standard path: m/1852'/1815'/account'/role/index
+ * Roles: 0 = external (receiving), 1 = internal (change), 2 = staking
  */
 export const CardanoPath = {
   harden: (n: number) => (0x8000_0000 + n) >>> 0,
-  indices: (account: number = 0, role: 0 | 2 = 0, index: number = 0): Array<number> => [
+  indices: (account: number = 0, role: 0 | 1 | 2 | 3 = 0, index: number = 0): Array<number> => [
     (0x8000_0000 + 1852) >>> 0,
     (0x8000_0000 + 1815) >>> 0,
     (0x8000_0000 + account) >>> 0,
@@ -501,7 +578,20 @@ export const CardanoPath = {
     index
   ],
   paymentIndices: (account: number = 0, index: number = 0): Array<number> =>
-    (CardanoPath.indices as (a?: number, r?: 0 | 2, i?: number) => Array<number>)(account, 0, index),
+    (CardanoPath.indices as (a?: number, r?: 0 | 1 | 2 | 3, i?: number) => Array<number>)(account, 0, index),
+  changeIndices: (account: number = 0, index: number = 0): Array<number> =>
+    (CardanoPath.indices as (a?: number, r?: 0 | 1 | 2 | 3, i?: number) => Array<number>)(account, 1, index),
   stakeIndices: (account: number = 0, index: number = 0): Array<number> =>
-    (CardanoPath.indices as (a?: number, r?: 0 | 2, i?: number) => Array<number>)(account, 2, index)
+    (CardanoPath.indices as (a?: number, r?: 0 | 1 | 2 | 3, i?: number) => Array<number>)(account, 2, index),
+  /** CIP-105 DRep key path: m/1852'/1815'/account'/3/index */
+  drepIndices: (account: number = 0, index: number = 0): Array<number> =>
+    (CardanoPath.indices as (a?: number, r?: 0 | 1 | 2 | 3, i?: number) => Array<number>)(account, 3, index),
+  /** Byron-era Icarus path: m/44'/1815'/account'/role/index */
+  icarusIndices: (account: number = 0, role: 0 | 1 = 0, index: number = 0): Array<number> => [
+    (0x8000_0000 + 44) >>> 0,
+    (0x8000_0000 + 1815) >>> 0,
+    (0x8000_0000 + account) >>> 0,
+    role,
+    index
+  ]
 }
@@ -1,10 +1,26 @@
-import { Schema } from "effect"
+import { blake2b } from "@noble/hashes/blake2"
+import { Data, Either as E, identity, Schema } from "effect"
 
+import * as AuxiliaryData from "./AuxiliaryData.js"
+import * as Bytes from "./Bytes.js"
+import * as CBOR from "./CBOR.js"
 import * as Header from "./Header.js"
+import * as Transaction from "./Transaction.js"
 import * as TransactionBody from "./TransactionBody.js"
-// import * as TransactionWitnessSet from "./TransactionWitnessSet.js";
-// import * as AuxiliaryData from "./AuxiliaryData.js";
+import * as TransactionHash from "./TransactionHash.js"
 import * as TransactionIndex from "./TransactionIndex.js"
+import * as TransactionWitnessSet from "./TransactionWitnessSet.js"
+
+/**
+ * Error class for Block related operations.
+ *
+ * @since 2.0.0
+ * @category errors
+ */
+export class BlockError extends Data.TaggedError("BlockError")<{
+  message?: string
+  cause?: unknown
+}> {}
 
 /**
  * Block based on Conway CDDL specification
@@ -31,12 +47,223 @@ import * as TransactionIndex from "./TransactionIndex.js"
 export class BlockClass extends Schema.TaggedClass<BlockClass>()("Block", {
   header: Header.Header,
   transactionBodies: Schema.Array(TransactionBody.TransactionBody),
-  // transactionWitnessSets: Schema.Array(TransactionWitnessSet.TransactionWitnessSet),
-  // auxiliaryDataSet: Schema.Record({
-  //   key: TransactionIndex.TransactionIndexSchema,
-  //   value: AuxiliaryData.AuxiliaryData,
-  // }),
+  transactionWitnessSets: Schema.Array(TransactionWitnessSet.TransactionWitnessSet),
+  auxiliaryDataSet: Schema.MapFromSelf({
+    key: TransactionIndex.TransactionIndex,
+    value: AuxiliaryData.AuxiliaryData
+  }),
   invalidTransactions: Schema.Array(TransactionIndex.TransactionIndex)
 }) {}
 
 export type Block = Schema.Schema.Type<typeof BlockClass>
+
+/**
+ * A transaction of a block, rebuilt from its body, witness set, auxiliary data
+ * and validity flag.
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export interface BlockTransaction {
+  readonly index: TransactionIndex.TransactionIndex
+  readonly hash: TransactionHash.TransactionHash
+  readonly transaction: Transaction.Transaction
+}
+
+// ============================================================================
+// Original Encoding
+// ============================================================================
+
+// Blocks and their parts are decoded in preserve-encoding mode: transaction hashes
+// commit to the exact body bytes on chain, which re-encoding a body does not
+// reproduce when the producer used a different (e.g. indefinite) encoding.
+const OPTIONS = CBOR.PRESERVE_ENCODING_OPTIONS
+
+const decodeIndex = (bytes: Uint8Array): TransactionIndex.TransactionIndex => {
+  const index = CBOR.fromCBORBytes(bytes)
+  if (!TransactionIndex.is(index)) {
+    throw new BlockError({ message: `Invalid transaction index: ${String(index)}` })
+  }
+  return index
+}
+
+const parseBytes = (bytes: Uint8Array): Block => {
+  const { items, newOffset } = CBOR.containerItemBytes(bytes)
+  if (newOffset !== bytes.length) {
+    throw new BlockError({ message: `Unexpected ${bytes.length - newOffset} trailing bytes after block` })
+  }
+  if (items.length !== 5) {
+    throw new BlockError({ message: `Block must be a five-element array, found ${items.length} elements` })
+  }
+  const [headerBytes, bodiesBytes, witnessSetsBytes, auxiliaryDataBytes, invalidBytes] = items
+
+  const header = Header.fromCBORBytes(headerBytes, OPTIONS)
+  const transactionBodies = CBOR.containerItemBytes(bodiesBytes).items.map((body) =>
+    TransactionBody.fromCBORBytes(body, OPTIONS)
+  )
+  const transactionWitnessSets = CBOR.containerItemBytes(witnessSetsBytes).items.map((witnessSet) =>
+    TransactionWitnessSet.fromCBORBytes(witnessSet, OPTIONS)
+  )
+  if (transactionBodies.length !== transactionWitnessSets.length) {
+    throw new BlockError({
+      message: `Block has ${transactionBodies.length} transaction bodies but ${transactionWitnessSets.length} witness sets`
+    })
+  }
+
+  const auxiliaryDataSet = new Map<TransactionIndex.TransactionIndex, AuxiliaryData.AuxiliaryData>()
+  const auxiliaryItems = CBOR.containerItemBytes(auxiliaryDataBytes).items
+  for (let i = 0; i < auxiliaryItems.length; i += 2) {
+    const data = auxiliaryItems[i + 1]
+    auxiliaryDataSet.set(decodeIndex(auxiliaryItems[i]), AuxiliaryData.fromCBORBytes(data, OPTIONS))
+  }
+
+  const invalidTransactions = CBOR.containerItemBytes(invalidBytes).items.map(decodeIndex)
+  for (const index of [...auxiliaryDataSet.keys(), ...invalidTransactions]) {
+    if (index >= BigInt(transactionBodies.length)) {
+      throw new BlockError({ message: `Transaction index ${index} is out of range` })
+    }
+  }
+
+  const block = new BlockClass(
+    { header, transactionBodies, transactionWitnessSets, auxiliaryDataSet, invalidTransactions },
+    { disableValidation: true }
+  )
+  return CBOR.rememberEncoding(block, bytes)
+}
+
+const encodeBlock = (block: Block): Uint8Array => {
+  const preserved = CBOR.preservedEncoding(block, OPTIONS)
+  if (preserved !== undefined) return preserved
+
+  // Parts keep their original bytes through their own encoders
+  return CBOR.encodeArrayAsDefinite([
+    Header.toCBORBytes(block.header, OPTIONS),
+    CBOR.encodeArrayAsDefinite(block.transactionBodies.map((body) => TransactionBody.toCBORBytes(body, OPTIONS))),
+    CBOR.encodeArrayAsDefinite(
+      block.transactionWitnessSets.map((witnessSet) => TransactionWitnessSet.toCBORBytes(witnessSet, OPTIONS))
+    ),
+    CBOR.encodeMapAsDefinite(
+      [...block.auxiliaryDataSet].map(
+        ([index, data]) => [CBOR.toCBORBytes(index), AuxiliaryData.toCBORBytes(data, OPTIONS)] as const
+      )
+    ),
+    CBOR.encodeArrayAsDefinite(block.invalidTransactions.map((index) => CBOR.toCBORBytes(index)))
+  ])
+}
+
+const attempt =
+  <A, B>(f: (input: A) => B, functionName: string) =>
+  (input: A): E.Either<B, BlockError> =>
+    E.try({
+      try: () => f(input),
+      catch: (cause) =>
+        new BlockError({
+          message: `${functionName} failed: ${cause instanceof Error ? cause.message : String(cause)}`,
+          cause
+        })
+    })
+
+// ============================================================================
+// Parsing & Encoding Functions
+// ============================================================================
+
+/**
+ * Parse a block from CBOR bytes, such as a block read from a node's chain database.
+ *
+ * The block remembers the bytes of its parts, so an unmodified block encodes back to
+ * the same bytes and transaction hashes are computed from the bodies as they appeared.
+ *
+ * @since 2.0.0
+ * @category parsing
+ */
+export const fromCBORBytes = (bytes: Uint8Array): Block => E.getOrThrowWith(Either.fromCBORBytes(bytes), identity)
+
+/**
+ * Parse a block from a CBOR hex string.
+ *
+ * @since 2.0.0
+ * @category parsing
+ */
+export const fromCBORHex = (hex: string): Block => E.getOrThrowWith(Either.fromCBORHex(hex), identity)
+
+/**
+ * Convert a block to CBOR bytes, reusing the original bytes of every part that was
+ * decoded and not replaced.
+ *
+ * @since 2.0.0
+ * @category encoding
+ */
+export const toCBORBytes = (block: Block): Uint8Array => E.getOrThrowWith(Either.toCBORBytes(block), identity)
+
+/**
+ * Convert a block to a CBOR hex string.
+ *
+ * @since 2.0.0
+ * @category encoding
+ */
+export const toCBORHex = (block: Block): string => E.getOrThrowWith(Either.toCBORHex(block), identity)
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
+/**
+ * Hash of the transaction at `index`, computed from the body bytes the block was
+ * decoded from when available.
+ *
+ * @since 2.0.0
+ * @category utils
+ */
+export const transactionHash = (block: Block, index: number): TransactionHash.TransactionHash => {
+  const body = block.transactionBodies[index]
+  if (body === undefined) throw new BlockError({ message: `Block has no transaction at index ${index}` })
+  return new TransactionHash.TransactionHash({ hash: blake2b(TransactionBody.toCBORBytes(body, OPTIONS), { dkLen: 32 }) })
+}
+
+/**
+ * Rebuild the full transactions of a block in order, pairing each body with its
+ * witness set and auxiliary data. Transactions listed as invalid (phase-2 failures
+ * that only collected collateral) have `isValid` set to `false`.
+ *
+ * @since 2.0.0
+ * @category utils
+ */
+export const transactions = (block: Block): ReadonlyArray<BlockTransaction> => {
+  if (block.transactionBodies.length !== block.transactionWitnessSets.length) {
+    throw new BlockError({ message: "Block must have one witness set per transaction body" })
+  }
+  const invalid = new Set(block.invalidTransactions)
+  return block.transactionBodies.map((body, i) => {
+    const index = TransactionIndex.make(BigInt(i))
+    return {
+      index,
+      hash: transactionHash(block, i),
+      transaction: new Transaction.Transaction({
+        body,
+        witnessSet: block.transactionWitnessSets[i],
+        isValid: !invalid.has(index),
+        auxiliaryData: block.auxiliaryDataSet.get(index) ?? null
+      })
+    }
+  })
+}
+
+// ============================================================================
+// Either Namespace - Either-based Error Handling
+// ============================================================================
+
+/**
+ * Either-based error handling variants for functions that can fail.
+ *
+ * @since 2.0.0
+ * @category either
+ */
+export namespace Either {
+  export const fromCBORBytes = attempt(parseBytes, "Block.fromCBORBytes")
+  export const fromCBORHex = attempt(
+    (hex: string) => parseBytes(Bytes.fromHex(hex)),
+    "Block.fromCBORHex"
+  )
+  export const toCBORBytes = attempt(encodeBlock, "Block.toCBORBytes")
+  export const toCBORHex = attempt((block: Block) => Bytes.toHex(encodeBlock(block)), "Block.toCBORHex")
+}
@@ -1,9 +1,14 @@
 import { Effect as Eff, FastCheck, ParseResult, Schema } from "effect"
 
+import * as Bip32PrivateKey from "./Bip32PrivateKey.js"
+import * as Bip32PublicKey from "./Bip32PublicKey.js"
+import * as ByronAddress from "./ByronAddress.js"
 import * as Bytes32 from "./Bytes32.js"
 import * as CBOR from "./CBOR.js"
 import * as Ed25519Signature from "./Ed25519Signature.js"
 import * as Function from "./Function.js"
+import * as PrivateKey from "./PrivateKey.js"
+import type * as TransactionHash from "./TransactionHash.js"
 import * as VKey from "./VKey.js"
 
 /**
@@ -80,6 +85,28 @@ export const toCBORHex = Function.makeCBOREncodeHexSync(
   "BootstrapWitness.toCBORHex"
 )
 
+/**
+ * Witness spending from a Byron address: signs the transaction body hash with the
+ * address key and carries the chain code and attributes the address root commits to.
+ * Works for keys of both Icarus (V2) and Daedalus (V1) wallets.
+ *
+ * @since 2.0.0
+ * @category constructors
+ */
+export const make = (
+  txBodyHash: TransactionHash.TransactionHash,
+  address: ByronAddress.ByronAddress,
+  key: Bip32PrivateKey.Bip32PrivateKey
+): BootstrapWitness => {
+  const privateKey = Bip32PrivateKey.toPrivateKey(key)
+  return new BootstrapWitness({
+    publicKey: VKey.fromPrivateKey(privateKey),
+    signature: PrivateKey.sign(privateKey, txBodyHash.hash),
+    chainCode: Bip32PublicKey.chainCode(Bip32PrivateKey.toPublicKey(key)),
+    attributes: ByronAddress.attributesToCBORBytes(address)
+  })
+}
+
 /**
  * Arbitrary generator for BootstrapWitness instances.
  */
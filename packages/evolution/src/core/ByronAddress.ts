@@ -1,6 +1,12 @@
+import { blake2b } from "@noble/hashes/blake2"
+import { sha3_256 } from "@noble/hashes/sha3"
+import { base58 } from "@scure/base"
 import { Data, Effect as Eff, ParseResult, Schema } from "effect"
 
+import * as Bip32PublicKey from "./Bip32PublicKey.js"
 import * as Bytes from "./Bytes.js"
+import * as CBOR from "./CBOR.js"
+import * as Function from "./Function.js"
 import * as NetworkId from "./NetworkId.js"
 
 /**
@@ -14,25 +20,174 @@ export class ByronAddressError extends Data.TaggedError("ByronAddressError")<{
   cause?: unknown
 }> {}
 
+/**
+ * Protocol magic of mainnet. Mainnet addresses omit it from their attributes.
+ *
+ * @since 2.0.0
+ * @category constants
+ */
+export const MAINNET_PROTOCOL_MAGIC = 764824073
+
+/**
+ * Kind of spending data the address root commits to: public key, script or redeem key.
+ *
+ * @since 2.0.0
+ * @category schemas
+ */
+export const AddressType = Schema.Literal(0, 1, 2)
+
+export type AddressType = typeof AddressType.Type
+
+/**
+ * Byron address attributes: the encrypted derivation path of Daedalus addresses
+ * (attribute 1) and the protocol magic of non-mainnet addresses (attribute 2).
+ *
+ * @since 2.0.0
+ * @category schemas
+ */
+export const Attributes = Schema.Struct({
+  derivationPath: Schema.optional(Bytes.HexSchema),
+  protocolMagic: Schema.optional(Schema.Number)
+})
+
+export type Attributes = typeof Attributes.Type
+
 /**
  * Byron legacy address format
  *
+ * ```
+ * address = [ #6.24(bytes .cbor [root, attributes, type]), crc32 ]
+ * root    = blake2b-224(sha3-256([type, spending_data, attributes]))
+ * ```
+ *
+ * `bytes` keeps the address exactly as it appeared on chain.
+ *
  * @since 2.0.0
  * @category schemas
  */
 export class ByronAddress extends Schema.TaggedClass<ByronAddress>("ByronAddress")("ByronAddress", {
   networkId: NetworkId.NetworkId,
+  root: Bytes.HexSchema,
+  attributes: Attributes,
+  addrType: AddressType,
   bytes: Bytes.HexSchema
 }) {
   [Symbol.for("nodejs.util.inspect.custom")]() {
     return {
       _tag: "ByronAddress",
       networkId: this.networkId,
+      root: this.root,
+      attributes: this.attributes,
+      addrType: this.addrType,
       bytes: this.bytes
     }
   }
 }
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+/**
+ * CRC32 (IEEE) checksum guarding the address payload.
+ *
+ * @since 2.0.0
+ * @category utils
+ */
+export const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const networkIdOf = (attributes: Attributes) =>
+  NetworkId.NetworkId.make(
+    attributes.protocolMagic === undefined || attributes.protocolMagic === MAINNET_PROTOCOL_MAGIC ? 1 : 0
+  )
+
+// Attribute values are themselves CBOR, wrapped in a byte string
+const encodeAttributes = (attributes: Attributes): ReadonlyMap<CBOR.CBOR, CBOR.CBOR> => {
+  const map = new Map<CBOR.CBOR, CBOR.CBOR>()
+  if (attributes.derivationPath !== undefined) {
+    map.set(1n, CBOR.toCBORBytes(Bytes.fromHex(attributes.derivationPath)))
+  }
+  if (attributes.protocolMagic !== undefined) {
+    map.set(2n, CBOR.toCBORBytes(BigInt(attributes.protocolMagic)))
+  }
+  return map
+}
+
+const decodeAttributes = (map: ReadonlyMap<CBOR.CBOR, CBOR.CBOR>): Attributes => {
+  const derivationPath = map.get(1n)
+  const protocolMagic = map.get(2n)
+  const inner = (value: CBOR.CBOR | undefined) => {
+    if (value === undefined) return undefined
+    if (!(value instanceof Uint8Array)) throw new ByronAddressError({ message: "Attribute values must be bytes" })
+    return CBOR.fromCBORBytes(value)
+  }
+  const path = inner(derivationPath)
+  const magic = inner(protocolMagic)
+  if (path !== undefined && !(path instanceof Uint8Array)) {
+    throw new ByronAddressError({ message: "Derivation path attribute must hold bytes" })
+  }
+  if (magic !== undefined && typeof magic !== "bigint") {
+    throw new ByronAddressError({ message: "Protocol magic attribute must hold an integer" })
+  }
+  return {
+    ...(path !== undefined && { derivationPath: Bytes.toHex(path) }),
+    ...(magic !== undefined && { protocolMagic: Number(magic) })
+  }
+}
+
+// Decode the tag-24 payload, checking its CRC, into [root, attributes, type]
+const decodePayload = (bytes: Uint8Array) => {
+  const address = CBOR.fromCBORBytes(bytes)
+  if (!Array.isArray(address) || address.length !== 2) {
+    throw new ByronAddressError({ message: "Byron address must be a two-element array" })
+  }
+  const [payload, crc] = address
+  if (!CBOR.isTag(payload) || payload.tag !== 24 || !(payload.value instanceof Uint8Array)) {
+    throw new ByronAddressError({ message: "Byron address payload must be a tag 24 byte string" })
+  }
+  if (typeof crc !== "bigint" || Number(crc) !== crc32(payload.value)) {
+    throw new ByronAddressError({ message: `CRC32 mismatch: expected ${crc32(payload.value)}, found ${crc}` })
+  }
+  const content = CBOR.fromCBORBytes(payload.value)
+  if (
+    !Array.isArray(content) ||
+    content.length !== 3 ||
+    !(content[0] instanceof Uint8Array) ||
+    content[0].length !== 28 ||
+    !CBOR.isMap(content[1]) ||
+    typeof content[2] !== "bigint"
+  ) {
+    throw new ByronAddressError({ message: "Byron address content must be [root, attributes, type]" })
+  }
+  return content as [Uint8Array, ReadonlyMap<CBOR.CBOR, CBOR.CBOR>, bigint]
+}
+
+const parseBytes = (bytes: Uint8Array): ByronAddress => {
+  const [root, attributesMap, addrType] = decodePayload(bytes)
+  const attributes = decodeAttributes(attributesMap)
+  return new ByronAddress({
+    networkId: networkIdOf(attributes),
+    root: Bytes.toHex(root),
+    attributes,
+    addrType: Schema.decodeUnknownSync(AddressType)(Number(addrType)),
+    bytes: Bytes.toHex(bytes)
+  })
+}
+
+// ============================================================================
+// Schemas
+// ============================================================================
+
 /**
  * Schema for encoding/decoding Byron addresses as bytes.
  *
@@ -43,12 +198,10 @@ export const BytesSchema = Schema.transformOrFail(Schema.Uint8ArrayFromSelf, Byr
   strict: true,
   encode: (_, __, ___, toA) => ParseResult.decode(Bytes.FromHex)(toA.bytes),
   decode: (_, __, ast, fromA) =>
-    Eff.gen(function* () {
-      const hexString = yield* ParseResult.encode(Bytes.FromHex)(fromA)
-      return new ByronAddress({
-        networkId: NetworkId.NetworkId.make(0),
-        bytes: hexString
-      })
+    Eff.try({
+      try: () => parseBytes(fromA),
+      catch: (cause) =>
+        new ParseResult.Type(ast, fromA, `Invalid Byron address: ${(cause as ByronAddressError).message}`)
     })
 })
 
@@ -60,6 +213,72 @@ export const BytesSchema = Schema.transformOrFail(Schema.Uint8ArrayFromSelf, Byr
  */
 export const FromHex = Schema.compose(Bytes.FromHex, BytesSchema)
 
+/**
+ * Schema for encoding/decoding Byron addresses as base58 strings (`Ae2...`, `DdzFF...`).
+ *
+ * @since 2.0.0
+ * @category schemas
+ */
+export const FromBase58 = Schema.transformOrFail(Schema.String, Schema.typeSchema(ByronAddress), {
+  strict: true,
+  encode: (_, __, ___, toA) => ParseResult.succeed(base58.encode(Bytes.fromHex(toA.bytes))),
+  decode: (fromA, _, ast) =>
+    Eff.gen(function* () {
+      const bytes = yield* Eff.try({
+        try: () => base58.decode(fromA),
+        catch: (error) => new ParseResult.Type(ast, fromA, `Failed to decode base58: ${(error as Error).message}`)
+      })
+      return yield* ParseResult.decode(BytesSchema)(bytes)
+    })
+})
+
+// ============================================================================
+// Constructors
+// ============================================================================
+
+/**
+ * Compute the address root committing to a public key and the address attributes.
+ *
+ * @since 2.0.0
+ * @category constructors
+ */
+export const rootFromPublicKey = (
+  publicKey: Bip32PublicKey.Bip32PublicKey,
+  attributes: Attributes = {},
+  addrType: AddressType = 0
+): string => {
+  const spendingData = [0n, Bip32PublicKey.toBytes(publicKey)]
+  const preimage = CBOR.toCBORBytes([BigInt(addrType), spendingData, encodeAttributes(attributes)])
+  return Bytes.toHex(blake2b(sha3_256(preimage), { dkLen: 28 }))
+}
+
+/**
+ * Build a Byron address from its root, attributes and type, computing the payload and CRC.
+ *
+ * @since 2.0.0
+ * @category constructors
+ */
+export const make = (parts: { root: string; attributes?: Attributes; addrType?: AddressType }): ByronAddress => {
+  const { addrType = 0, attributes = {}, root } = parts
+  const content = CBOR.toCBORBytes([Bytes.fromHex(root), encodeAttributes(attributes), BigInt(addrType)])
+  const bytes = CBOR.toCBORBytes([CBOR.Tag.make({ tag: 24, value: content }), BigInt(crc32(content))])
+  return new ByronAddress({ networkId: networkIdOf(attributes), root, attributes, addrType, bytes: Bytes.toHex(bytes) })
+}
+
+/**
+ * Build the Byron address of a public key, as Icarus wallets do (no derivation path) or,
+ * given an encrypted derivation path, as Daedalus wallets do.
+ *
+ * @since 2.0.0
+ * @category constructors
+ */
+export const fromPublicKey = (publicKey: Bip32PublicKey.Bip32PublicKey, attributes: Attributes = {}): ByronAddress =>
+  make({ root: rootFromPublicKey(publicKey, attributes), attributes })
+
+// ============================================================================
+// Utilities
+// ============================================================================
+
 /**
  * Checks if two Byron addresses are equal.
  *
@@ -69,3 +288,49 @@ export const FromHex = Schema.compose(Bytes.FromHex, BytesSchema)
 export const equals = (a: ByronAddress, b: ByronAddress): boolean => {
   return a.networkId === b.networkId && a.bytes === b.bytes
 }
+
+/**
+ * Check whether an address root commits to the given public key.
+ *
+ * @since 2.0.0
+ * @category utils
+ */
+export const isOwnedBy = (address: ByronAddress, publicKey: Bip32PublicKey.Bip32PublicKey): boolean =>
+  address.addrType === 0 && rootFromPublicKey(publicKey, address.attributes) === address.root
+
+/**
+ * CBOR of the address attributes as they appear in the address, used by bootstrap witnesses.
+ *
+ * @since 2.0.0
+ * @category encoding
+ */
+export const attributesToCBORBytes = (address: ByronAddress): Uint8Array =>
+  CBOR.toCBORBytes(decodePayload(Bytes.fromHex(address.bytes))[1])
+
+// ============================================================================
+// Parsing & Encoding Functions
+// ============================================================================
+
+/**
+ * Parse a Byron address from bytes, validating its CRC.
+ *
+ * @since 2.0.0
+ * @category parsing
+ */
+export const fromBytes = Function.makeDecodeSync(BytesSchema, ByronAddressError, "ByronAddress.fromBytes")
+
+/**
+ * Parse a Byron address from a base58 string.
+ *
+ * @since 2.0.0
+ * @category parsing
+ */
+export const fromBase58 = Function.makeDecodeSync(FromBase58, ByronAddressError, "ByronAddress.fromBase58")
+
+/**
+ * Convert a Byron address to its base58 string.
+ *
+ * @since 2.0.0
+ * @category encoding
+ */
+export const toBase58 = Function.makeEncodeSync(FromBase58, ByronAddressError, "ByronAddress.toBase58")
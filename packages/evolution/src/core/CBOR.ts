@@ -67,6 +67,7 @@ export type CodecOptions =
   | {
       readonly mode: "canonical"
       readonly mapsAsObjects?: boolean
+      readonly preserveEncoding?: boolean
     }
   | {
       readonly mode: "custom"
@@ -76,6 +77,7 @@ export type CodecOptions =
       readonly sortMapKeys: boolean
       readonly useMinimalEncoding: boolean
       readonly mapsAsObjects?: boolean
+      readonly preserveEncoding?: boolean
     }
 
 /**
@@ -136,6 +138,19 @@ export const STRUCT_FRIENDLY_OPTIONS: CodecOptions = {
   mapsAsObjects: true
 } as const
 
+/**
+ * CML default options in preserve-encoding mode: decoded values remember the exact
+ * bytes they were read from (see {@link rememberEncoding}), and encoding an unmodified
+ * value reproduces them instead of re-encoding it.
+ *
+ * @since 2.0.0
+ * @category constants
+ */
+export const PRESERVE_ENCODING_OPTIONS: CodecOptions = {
+  ...CML_DEFAULT_OPTIONS,
+  preserveEncoding: true
+} as const
+
 const DEFAULT_OPTIONS: CodecOptions = {
   mode: "custom",
   useIndefiniteArrays: false,
@@ -158,6 +173,40 @@ const FLOAT64_BUF = new ArrayBuffer(8)
 const FLOAT64_VIEW = new DataView(FLOAT64_BUF)
 const FLOAT64_BYTES = new Uint8Array(FLOAT64_BUF)
 
+// Bytes that values decoded in preserve-encoding mode were read from
+const ORIGINAL_ENCODINGS = new WeakMap<object, Uint8Array>()
+
+/**
+ * Remember the bytes a decoded value was read from, so that encoding the value
+ * reproduces them. Only objects can be remembered; other values are returned as is.
+ *
+ * @since 2.0.0
+ * @category preserve encoding
+ */
+export const rememberEncoding = <A>(value: A, bytes: Uint8Array): A => {
+  if (typeof value === "object" && value !== null) ORIGINAL_ENCODINGS.set(value, bytes.slice())
+  return value
+}
+
+/**
+ * The bytes a value was decoded from in preserve-encoding mode, if any.
+ *
+ * @since 2.0.0
+ * @category preserve encoding
+ */
+export const originalEncoding = (value: unknown): Uint8Array | undefined =>
+  typeof value === "object" && value !== null ? ORIGINAL_ENCODINGS.get(value)?.slice() : undefined
+
+/**
+ * The bytes to reuse when encoding `value` with `options`: original bytes are only
+ * reused in preserve-encoding mode, so encoding without options always re-encodes.
+ *
+ * @since 2.0.0
+ * @category preserve encoding
+ */
+export const preservedEncoding = (value: unknown, options?: CodecOptions): Uint8Array | undefined =>
+  options?.preserveEncoding ? originalEncoding(value) : undefined
+
 /**
  * Encode a CBOR definite-length array from already-encoded item bytes.
  * This is a low-level function that constructs: definite_array_header + items.
@@ -267,6 +316,63 @@ export const encodeTaggedValue = (tag: number, valueBytes: Uint8Array): Uint8Arr
   return out
 }
 
+/**
+ * Encode a CBOR definite-length map from already-encoded key and value bytes.
+ * This is a low-level function that constructs: definite_map_header + (key + value)*.
+ *
+ */
+export const encodeMapAsDefinite = (entries: ReadonlyArray<readonly [Uint8Array, Uint8Array]>): Uint8Array => {
+  // The map header counts entries and differs from the array header only in its major type (5)
+  const header = encodeArrayAsDefinite(entries.map(() => new Uint8Array(0)))
+  header[0] |= 0x20
+
+  const totalEntriesLen = entries.reduce((acc, [k, v]) => acc + k.length + v.length, 0)
+  const out = new Uint8Array(header.length + totalEntriesLen)
+  out.set(header, 0)
+  let offset = header.length
+  for (const [key, value] of entries) {
+    out.set(key, offset)
+    out.set(value, offset + key.length)
+    offset += key.length + value.length
+  }
+  return out
+}
+
+/**
+ * Split the CBOR array or map starting at `offset` into the exact bytes of its items
+ * (map keys and values alternate), without re-encoding them.
+ * Returns the items along with the offset just past the container.
+ *
+ */
+export const containerItemBytes = (
+  data: Uint8Array,
+  offset: number = 0
+): { items: Array<Uint8Array>; newOffset: number } => {
+  const majorType = (data[offset] >> 5) & 0x07
+  if (majorType !== CBOR_MAJOR_TYPE.ARRAY && majorType !== CBOR_MAJOR_TYPE.MAP) {
+    throw new CBORError({ message: `Expected an array or map, found major type ${majorType}` })
+  }
+  const items: Array<Uint8Array> = []
+  const readItem = (cur: number): number => {
+    const { newOffset } = decodeItemAt(data, cur, DEFAULT_OPTIONS)
+    items.push(data.subarray(cur, newOffset))
+    return newOffset
+  }
+  if ((data[offset] & 0x1f) === CBOR_ADDITIONAL_INFO.INDEFINITE) {
+    let cur = offset + 1
+    while (data[cur] !== 0xff) {
+      if (cur >= data.length) throw new CBORError({ message: "Indefinite container missing break byte (0xff)" })
+      cur = readItem(cur)
+    }
+    return { items, newOffset: cur + 1 }
+  }
+  const { bytesRead, length } = decodeLengthAt(data, offset)
+  let cur = offset + bytesRead
+  const count = majorType === CBOR_MAJOR_TYPE.MAP ? length * 2 : length
+  for (let i = 0; i < count; i++) cur = readItem(cur)
+  return { items, newOffset: cur }
+}
+
 /**
  * Type representing a CBOR value with simplified, non-tagged structure
  *
@@ -79,6 +79,8 @@ export const makeCBOREncodeSync = <A, T extends CBOR.CBOR, E extends Error>(
   const fn = {
     [functionName]: (input: A, options?: CBOR.CodecOptions): Uint8Array => {
       try {
+        const preserved = CBOR.preservedEncoding(input, options)
+        if (preserved !== undefined) return preserved
         const cborValue = encode(input)
         return CBOR.internalEncodeSync(cborValue, options || defaultOptions)
       } catch (e) {
@@ -127,7 +129,8 @@ export const makeCBORDecodeSync = <A, T extends CBOR.CBOR, E extends Error>(
     [functionName]: (bytes: Uint8Array, options?: CBOR.CodecOptions): A => {
       try {
         const cborValue = CBOR.internalDecodeSync(bytes, options || defaultOptions)
-        return decode(cborValue as T)
+        const value = decode(cborValue as T)
+        return options?.preserveEncoding ? CBOR.rememberEncoding(value, bytes) : value
       } catch (e) {
         const error = new ErrorClass({ message: `Failed to decode in ${functionName}`, cause: e })
         if (Error.captureStackTrace) {
@@ -155,6 +158,8 @@ export const makeCBOREncodeHexSync = <A, T extends CBOR.CBOR, E extends Error>(
   const fn = {
     [functionName]: (input: A, options?: CBOR.CodecOptions): string => {
       try {
+        const preserved = CBOR.preservedEncoding(input, options)
+        if (preserved !== undefined) return Bytes.toHexUnsafe(preserved)
         const cborValue = encode(input)
         const bytes = CBOR.internalEncodeSync(cborValue, options || defaultOptions)
         return Bytes.toHexUnsafe(bytes)
@@ -186,7 +191,8 @@ export const makeCBORDecodeHexSync = <A, T extends CBOR.CBOR, E extends Error>(
       try {
         const bytes = Bytes.fromHex(hex)
         const cborValue = CBOR.internalDecodeSync(bytes, options || defaultOptions)
-        return decode(cborValue as T)
+        const value = decode(cborValue as T)
+        return options?.preserveEncoding ? CBOR.rememberEncoding(value, bytes) : value
       } catch (e) {
         const error = new ErrorClass({ message: `Failed to decode hex in ${functionName}`, cause: e })
         if (Error.captureStackTrace) {
@@ -212,6 +218,7 @@ export const makeCBORDecodeEither =
   (bytes: Uint8Array, options?: CBOR.CodecOptions) =>
     Either.try(() => CBOR.internalDecodeSync(bytes, options || defaultOptions)).pipe(
       Either.flatMap((cbor) => Schema.decodeEither(schemaTransformer)(cbor as T)),
+      Either.map((value) => (options?.preserveEncoding ? CBOR.rememberEncoding(value, bytes) : value)),
       Either.mapLeft((e) => new ErrorClass({ message: (e as Error).message, cause: e as Error }))
     )
 
@@ -226,8 +233,12 @@ export const makeCBORDecodeHexEither =
   ) =>
   (hex: string, options?: CBOR.CodecOptions) =>
     Either.try(() => Bytes.fromHex(hex)).pipe(
-      Either.flatMap((bytes) => Either.try(() => CBOR.internalDecodeSync(bytes, options || defaultOptions))),
-      Either.flatMap((cbor) => Schema.decodeEither(schemaTransformer)(cbor as T)),
+      Either.flatMap((bytes) =>
+        Either.try(() => CBOR.internalDecodeSync(bytes, options || defaultOptions)).pipe(
+          Either.flatMap((cbor) => Schema.decodeEither(schemaTransformer)(cbor as T)),
+          Either.map((value) => (options?.preserveEncoding ? CBOR.rememberEncoding(value, bytes) : value))
+        )
+      ),
       Either.mapLeft((e) => new ErrorClass({ message: (e as Error).message, cause: e as Error }))
     )
 
@@ -240,11 +251,14 @@ export const makeCBOREncodeEither =
     ErrorClass: ErrorCtor<E>,
     defaultOptions?: CBOR.CodecOptions
   ) =>
-  (value: A, options?: CBOR.CodecOptions) =>
-    Schema.encodeEither(schemaTransformer)(value).pipe(
+  (value: A, options?: CBOR.CodecOptions) => {
+    const preserved = CBOR.preservedEncoding(value, options)
+    if (preserved !== undefined) return Either.right(preserved)
+    return Schema.encodeEither(schemaTransformer)(value).pipe(
       Either.flatMap((cbor) => Either.try(() => CBOR.internalEncodeSync(cbor, options || defaultOptions))),
       Either.mapLeft((e) => new ErrorClass({ message: (e as Error).message, cause: e as Error }))
     )
+  }
 
 /**
  * Creates a function that encodes a value to CBOR hex string using a schema, returning Either.
@@ -255,9 +269,12 @@ export const makeCBOREncodeHexEither =
     ErrorClass: ErrorCtor<E>,
     defaultOptions?: CBOR.CodecOptions
   ) =>
-  (input: A, options?: CBOR.CodecOptions) =>
-    Schema.encodeEither(schemaTransformer)(input).pipe(
+  (input: A, options?: CBOR.CodecOptions) => {
+    const preserved = CBOR.preservedEncoding(input, options)
+    if (preserved !== undefined) return Either.right(Bytes.toHexUnsafe(preserved))
+    return Schema.encodeEither(schemaTransformer)(input).pipe(
       Either.flatMap((cborValue) => Either.try(() => CBOR.internalEncodeSync(cborValue, options || defaultOptions))),
       Either.map((bytes) => Bytes.toHexUnsafe(bytes)),
       Either.mapLeft((e) => new ErrorClass({ message: (e as Error).message, cause: e as Error }))
     )
+  }
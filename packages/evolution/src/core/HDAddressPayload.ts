@@ -0,0 +1,163 @@
+import { pbkdf2 } from "@noble/hashes/pbkdf2"
+import { sha512 } from "@noble/hashes/sha2"
+import { Data } from "effect"
+
+import * as Bip32PublicKey from "./Bip32PublicKey.js"
+import * as Bytes from "./Bytes.js"
+import * as CBOR from "./CBOR.js"
+
+/**
+ * Error class for HDAddressPayload related operations.
+ *
+ * @since 2.0.0
+ * @category errors
+ */
+export class HDAddressPayloadError extends Data.TaggedError("HDAddressPayloadError")<{
+  message?: string
+  cause?: unknown
+}> {}
+
+/**
+ * Encrypted derivation path carried in the attributes of Daedalus (random) Byron addresses.
+ *
+ * The path is CBOR-encoded as an indefinite-length array of indices and sealed with
+ * ChaCha20-Poly1305 under a key stretched from the wallet's root public key, so only
+ * the owning wallet can tell which key an address belongs to.
+ */
+
+const NONCE = new TextEncoder().encode("serokellfore")
+const SALT = new TextEncoder().encode("address-hashing")
+const PBKDF2_ITERATIONS = 500
+const KEY_SIZE = 32
+const TAG_SIZE = 16
+
+// ============================================================================
+// ChaCha20-Poly1305 (RFC 8439)
+// ============================================================================
+
+const rotl = (value: number, shift: number): number => (value << shift) | (value >>> (32 - shift))
+
+const chachaBlock = (key: Uint8Array, counter: number, nonce: Uint8Array): Uint8Array => {
+  const keyWords = new DataView(key.buffer, key.byteOffset, key.byteLength)
+  const nonceWords = new DataView(nonce.buffer, nonce.byteOffset, nonce.byteLength)
+  const state = new Uint32Array(16)
+  state.set([0x61707865, 0x3320646e, 0x79622d32, 0x6b206574])
+  for (let i = 0; i < 8; i++) state[4 + i] = keyWords.getUint32(i * 4, true)
+  state[12] = counter
+  for (let i = 0; i < 3; i++) state[13 + i] = nonceWords.getUint32(i * 4, true)
+
+  const x = new Uint32Array(state)
+  const quarterRound = (a: number, b: number, c: number, d: number) => {
+    x[a] += x[b]
+    x[d] = rotl(x[d] ^ x[a], 16)
+    x[c] += x[d]
+    x[b] = rotl(x[b] ^ x[c], 12)
+    x[a] += x[b]
+    x[d] = rotl(x[d] ^ x[a], 8)
+    x[c] += x[d]
+    x[b] = rotl(x[b] ^ x[c], 7)
+  }
+  for (let round = 0; round < 10; round++) {
+    quarterRound(0, 4, 8, 12)
+    quarterRound(1, 5, 9, 13)
+    quarterRound(2, 6, 10, 14)
+    quarterRound(3, 7, 11, 15)
+    quarterRound(0, 5, 10, 15)
+    quarterRound(1, 6, 11, 12)
+    quarterRound(2, 7, 8, 13)
+    quarterRound(3, 4, 9, 14)
+  }
+
+  const out = new Uint8Array(64)
+  const view = new DataView(out.buffer)
+  for (let i = 0; i < 16; i++) view.setUint32(i * 4, (x[i] + state[i]) >>> 0, true)
+  return out
+}
+
+const chacha20 = (key: Uint8Array, nonce: Uint8Array, input: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(input.length)
+  for (let offset = 0; offset < input.length; offset += 64) {
+    const stream = chachaBlock(key, 1 + offset / 64, nonce)
+    for (let i = offset; i < Math.min(offset + 64, input.length); i++) out[i] = input[i] ^ stream[i - offset]
+  }
+  return out
+}
+
+const littleEndian = (bytes: Uint8Array): bigint =>
+  bytes.reduceRight((acc, byte) => (acc << 8n) | BigInt(byte), 0n)
+
+const poly1305 = (key: Uint8Array, message: Uint8Array): Uint8Array => {
+  const p = (1n << 130n) - 5n
+  const r = littleEndian(key.subarray(0, 16)) & 0x0ffffffc0ffffffc0ffffffc0fffffffn
+  const s = littleEndian(key.subarray(16, 32))
+  let acc = 0n
+  for (let offset = 0; offset < message.length; offset += 16) {
+    const block = message.subarray(offset, offset + 16)
+    acc = ((acc + littleEndian(block) + (1n << BigInt(8 * block.length))) * r) % p
+  }
+  let tag = (acc + s) & ((1n << 128n) - 1n)
+  const out = new Uint8Array(TAG_SIZE)
+  for (let i = 0; i < TAG_SIZE; i++, tag >>= 8n) out[i] = Number(tag & 0xffn)
+  return out
+}
+
+// Tag over an empty AAD: ciphertext padded to 16 bytes, then both lengths as 64-bit little endian
+const authenticate = (key: Uint8Array, ciphertext: Uint8Array): Uint8Array => {
+  const padded = Math.ceil(ciphertext.length / 16) * 16
+  const message = new Uint8Array(padded + 16)
+  message.set(ciphertext)
+  new DataView(message.buffer).setBigUint64(padded + 8, BigInt(ciphertext.length), true)
+  return poly1305(chachaBlock(key, 0, NONCE).subarray(0, 32), message)
+}
+
+// ============================================================================
+// Payload Encryption
+// ============================================================================
+
+/**
+ * Derive the key that seals derivation paths from a wallet's root public key.
+ *
+ * @since 2.0.0
+ * @category encryption
+ */
+export const passphrase = (rootPublicKey: Bip32PublicKey.Bip32PublicKey): Uint8Array =>
+  pbkdf2(sha512, Bip32PublicKey.toBytes(rootPublicKey), SALT, { c: PBKDF2_ITERATIONS, dkLen: KEY_SIZE })
+
+/**
+ * Encrypt a derivation path into the payload stored under attribute 1 of a Byron address.
+ *
+ * @since 2.0.0
+ * @category encryption
+ */
+export const encrypt = (path: ReadonlyArray<number>, rootPublicKey: Bip32PublicKey.Bip32PublicKey): Uint8Array => {
+  const key = passphrase(rootPublicKey)
+  const plaintext = CBOR.encodeArrayAsIndefinite(path.map((index) => CBOR.toCBORBytes(BigInt(index))))
+  const ciphertext = chacha20(key, NONCE, plaintext)
+  const payload = new Uint8Array(ciphertext.length + TAG_SIZE)
+  payload.set(ciphertext)
+  payload.set(authenticate(key, ciphertext), ciphertext.length)
+  return payload
+}
+
+/**
+ * Decrypt the derivation path of a Byron address payload.
+ * Returns `undefined` when the payload was not sealed for the given root key.
+ *
+ * @since 2.0.0
+ * @category encryption
+ */
+export const decrypt = (
+  payload: Uint8Array,
+  rootPublicKey: Bip32PublicKey.Bip32PublicKey
+): Array<number> | undefined => {
+  if (payload.length < TAG_SIZE) return undefined
+  const key = passphrase(rootPublicKey)
+  const ciphertext = payload.subarray(0, payload.length - TAG_SIZE)
+  if (!Bytes.equals(authenticate(key, ciphertext), payload.subarray(payload.length - TAG_SIZE))) return undefined
+
+  const path = CBOR.fromCBORBytes(chacha20(key, NONCE, ciphertext))
+  if (!Array.isArray(path) || !path.every((index) => typeof index === "bigint")) {
+    throw new HDAddressPayloadError({ message: "Decrypted payload is not a derivation path" })
+  }
+  return path.map(Number)
+}
@@ -26,13 +26,14 @@ export type MetadataLabel = typeof MetadataLabel.Type
 
 /**
  * Schema for transaction metadatum label (uint .size 8).
+ * `.size 8` bounds the encoded size to 8 bytes, so labels are 64-bit (e.g. 674, 721).
  *
  * @since 2.0.0
  * @category schemas
  */
-export const MetadataLabel = Numeric.Uint8Schema.annotations({
+export const MetadataLabel = Numeric.Uint64Schema.annotations({
   identifier: "Metadata.MetadataLabel",
-  description: "A transaction metadatum label (0-255)"
+  description: "A transaction metadatum label (0 to 2^64-1)"
 })
 
 /**
@@ -156,7 +157,7 @@ export const equals = (a: Metadata, b: Metadata): boolean => {
  */
 export const arbitrary: FastCheck.Arbitrary<Metadata> = FastCheck.array(
   FastCheck.tuple(
-    FastCheck.bigInt({ min: 0n, max: 255n }), // MetadataLabel (uint8)
+    FastCheck.bigInt({ min: 0n, max: 18446744073709551615n }), // MetadataLabel (uint64)
     TransactionMetadatum.arbitrary
   ),
   { maxLength: 5 }
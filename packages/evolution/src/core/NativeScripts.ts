@@ -245,6 +245,118 @@ export const toJSON = (script: NativeScriptVariants): any => {
   }
 }
 
+// ============================================================================
+// Script Analysis
+// ============================================================================
+
+/**
+ * Distinct key hashes referenced by `ScriptPubKey` leaves, in script order.
+ * This is an upper bound on the signatures needed to satisfy the script.
+ *
+ * @since 2.0.0
+ * @category utils
+ */
+export const keyHashes = (script: NativeScriptVariants): Array<Uint8Array> => {
+  const seen = new Set<string>()
+  const result: Array<Uint8Array> = []
+  const visit = (node: NativeScriptVariants): void => {
+    switch (node._tag) {
+      case "ScriptPubKey": {
+        const hex = Bytes.toHex(node.keyHash)
+        if (!seen.has(hex)) {
+          seen.add(hex)
+          result.push(node.keyHash)
+        }
+        return
+      }
+      case "ScriptAll":
+      case "ScriptAny":
+      case "ScriptNOfK":
+        node.scripts.forEach(visit)
+        return
+      default:
+        return
+    }
+  }
+  visit(script)
+  return result
+}
+
+/**
+ * Timelocks every satisfying transaction must respect: `InvalidBefore` and `InvalidHereafter`
+ * reached through `ScriptAll` (or an N-of-N `ScriptNOfK`) only. Timelocks under `ScriptAny`
+ * or a partial `ScriptNOfK` depend on which branch is satisfied and are not reported.
+ *
+ * @since 2.0.0
+ * @category utils
+ */
+export const requiredValidityInterval = (
+  script: NativeScriptVariants
+): { readonly invalidBefore?: bigint; readonly invalidHereafter?: bigint } => {
+  let invalidBefore: bigint | undefined
+  let invalidHereafter: bigint | undefined
+  const visit = (node: NativeScriptVariants): void => {
+    switch (node._tag) {
+      case "InvalidBefore":
+        invalidBefore = invalidBefore === undefined || node.slot > invalidBefore ? node.slot : invalidBefore
+        return
+      case "InvalidHereafter":
+        invalidHereafter =
+          invalidHereafter === undefined || node.slot < invalidHereafter ? node.slot : invalidHereafter
+        return
+      case "ScriptAll":
+        node.scripts.forEach(visit)
+        return
+      case "ScriptNOfK":
+        if (node.required >= BigInt(node.scripts.length)) node.scripts.forEach(visit)
+        return
+      case "ScriptAny":
+        if (node.scripts.length === 1) visit(node.scripts[0])
+        return
+      default:
+        return
+    }
+  }
+  visit(script)
+  return { invalidBefore, invalidHereafter }
+}
+
+/**
+ * Evaluate a native script as the ledger does in phase-1 validation: key leaves need
+ * a signature from their key hash, and timelocks need the transaction's validity interval
+ * to lie within them (`InvalidBefore` against its start, `InvalidHereafter` against its end).
+ *
+ * @since 2.0.0
+ * @category utils
+ */
+export const isSatisfied = (
+  script: NativeScriptVariants,
+  context: {
+    readonly signers: ReadonlyArray<Uint8Array>
+    readonly validityIntervalStart?: bigint
+    readonly ttl?: bigint
+  }
+): boolean => {
+  const signers = new Set(context.signers.map(Bytes.toHex))
+  const evaluate = (node: NativeScriptVariants): boolean => {
+    switch (node._tag) {
+      case "ScriptPubKey":
+        return signers.has(Bytes.toHex(node.keyHash))
+      case "InvalidBefore":
+        return context.validityIntervalStart !== undefined && node.slot <= context.validityIntervalStart
+      case "InvalidHereafter":
+        return context.ttl !== undefined && context.ttl <= node.slot
+      case "ScriptAll":
+        return node.scripts.every(evaluate)
+      case "ScriptAny":
+        return node.scripts.some(evaluate)
+      case "ScriptNOfK":
+        return BigInt(node.scripts.filter(evaluate).length) >= node.required
+    }
+  }
+  return evaluate(script)
+}
+
 // ============================================================================
 // CDDL Types and Schemas
 // ============================================================================
@@ -128,8 +128,8 @@ export const isOperationalCert = Schema.is(OperationalCert)
  */
 export const arbitrary = FastCheck.record({
   hotVkey: KESVkey.arbitrary,
-  sequenceNumber: FastCheck.bigUint(),
-  kesPeriod: FastCheck.bigUint(),
+  sequenceNumber: Numeric.Uint64Arbitrary,
+  kesPeriod: Numeric.Uint64Arbitrary,
   sigma: Ed25519Signature.arbitrary
 }).map((props) => new OperationalCert(props))
 
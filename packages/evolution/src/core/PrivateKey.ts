@@ -274,13 +274,18 @@ export const CardanoPath = {
    * Create a Cardano BIP44 derivation path.
    * Standard path: m/1852'/1815'/account'/role/index
    */
-  create: (account: number = 0, role: 0 | 2 = 0, index: number = 0) => `m/1852'/${1815}'/${account}'/${role}/${index}`,
+  create: (account: number = 0, role: 0 | 1 | 2 = 0, index: number = 0) => `m/1852'/${1815}'/${account}'/${role}/${index}`,
 
   /**
    * Payment key path (role = 0)
    */
   payment: (account: number = 0, index: number = 0) => CardanoPath.create(account, 0, index),
 
+  /**
+   * Change key path (role = 1)
+   */
+  change: (account: number = 0, index: number = 0) => CardanoPath.create(account, 1, index),
+
   /**
    * Stake key path (role = 2)
    */
@@ -20,12 +20,12 @@ export class RedeemerError extends Data.TaggedError("RedeemerError")<{
 /**
  * Redeemer tag enum for different script execution contexts.
  *
- * CDDL: redeemer_tag = 0 ; spend | 1 ; mint | 2 ; cert | 3 ; reward
+ * CDDL: redeemer_tag = 0 ; spend | 1 ; mint | 2 ; cert | 3 ; reward | 4 ; vote | 5 ; propose
  *
  * @since 2.0.0
  * @category model
  */
-export const RedeemerTag = Schema.Literal("spend", "mint", "cert", "reward").annotations({
+export const RedeemerTag = Schema.Literal("spend", "mint", "cert", "reward", "vote", "propose").annotations({
   identifier: "Redeemer.Tag",
   title: "Redeemer Tag",
   description: "Tag indicating the context where the redeemer is used"
@@ -65,8 +65,8 @@ export type ExUnits = typeof ExUnits.Type
  *
  * CDDL: redeemer = [ tag, index, data, ex_units ]
  * Where:
- * - tag: redeemer_tag (0=spend, 1=mint, 2=cert, 3=reward)
- * - index: uint64 (index into the respective input/output/certificate/reward array)
+ * - tag: redeemer_tag (0=spend, 1=mint, 2=cert, 3=reward, 4=vote, 5=propose)
+ * - index: uint64 (index into the respective input/output/certificate/reward/voter/proposal array)
  * - data: plutus_data (the actual redeemer data passed to the script)
  * - ex_units: [mem: uint64, steps: uint64] (execution unit limits)
  *
@@ -78,7 +78,7 @@ export class Redeemer extends Schema.Class<Redeemer>("Redeemer")({
   index: Numeric.Uint64Schema.annotations({
     identifier: "Redeemer.Index",
     title: "Redeemer Index",
-    description: "Index into the respective transaction array (inputs, outputs, certificates, or rewards)"
+    description: "Index into the respective transaction array (inputs, outputs, certificates, rewards, voters, or proposals)"
   }),
   data: PlutusData.DataSchema.annotations({
     identifier: "Redeemer.Data",
@@ -104,6 +104,10 @@ export const tagToInteger = (tag: RedeemerTag): bigint => {
       return 2n
     case "reward":
       return 3n
+    case "vote":
+      return 4n
+    case "propose":
+      return 5n
   }
 }
 
@@ -123,9 +127,13 @@ export const integerToTag = (value: bigint): RedeemerTag => {
       return "cert"
     case 3n:
       return "reward"
+    case 4n:
+      return "vote"
+    case 5n:
+      return "propose"
     default:
       throw new RedeemerError({
-        message: `Invalid redeemer tag: ${value}. Must be 0 (spend), 1 (mint), 2 (cert), or 3 (reward)`
+        message: `Invalid redeemer tag: ${value}. Must be 0 (spend), 1 (mint), 2 (cert), 3 (reward), 4 (vote), or 5 (propose)`
       })
   }
 }
@@ -142,7 +150,7 @@ export const CDDLSchema = Schema.Tuple(
   CBOR.Integer.annotations({
     identifier: "Redeemer.CDDL.Tag",
     title: "Redeemer Tag (CBOR)",
-    description: "Redeemer tag as CBOR integer (0=spend, 1=mint, 2=cert, 3=reward)"
+    description: "Redeemer tag as CBOR integer (0=spend, 1=mint, 2=cert, 3=reward, 4=vote, 5=propose)"
   }),
   CBOR.Integer.annotations({
     identifier: "Redeemer.CDDL.Index",
@@ -266,6 +274,24 @@ export const cert = (index: bigint, data: PlutusData.Data, exUnits: ExUnits): Re
 export const reward = (index: bigint, data: PlutusData.Data, exUnits: ExUnits): Redeemer =>
   new Redeemer({ tag: "reward", index, data, exUnits })
 
+/**
+ * Create a vote redeemer for governance voter validation.
+ *
+ * @since 2.0.0
+ * @category constructors
+ */
+export const vote = (index: bigint, data: PlutusData.Data, exUnits: ExUnits): Redeemer =>
+  new Redeemer({ tag: "vote", index, data, exUnits })
+
+/**
+ * Create a propose redeemer for governance proposal validation.
+ *
+ * @since 2.0.0
+ * @category constructors
+ */
+export const propose = (index: bigint, data: PlutusData.Data, exUnits: ExUnits): Redeemer =>
+  new Redeemer({ tag: "propose", index, data, exUnits })
+
 // ============================================================================
 // Utilities
 // ============================================================================
@@ -302,6 +328,22 @@ export const isCert = (redeemer: Redeemer): boolean => redeemer.tag === "cert"
  */
 export const isReward = (redeemer: Redeemer): boolean => redeemer.tag === "reward"
 
+/**
+ * Check if a redeemer is for governance voters.
+ *
+ * @since 2.0.0
+ * @category predicates
+ */
+export const isVote = (redeemer: Redeemer): boolean => redeemer.tag === "vote"
+
+/**
+ * Check if a redeemer is for governance proposals.
+ *
+ * @since 2.0.0
+ * @category predicates
+ */
+export const isPropose = (redeemer: Redeemer): boolean => redeemer.tag === "propose"
+
 // ============================================================================
 // Transformations
 // ============================================================================
@@ -361,7 +403,9 @@ export const arbitraryRedeemerTag: FastCheck.Arbitrary<RedeemerTag> = FastCheck.
   "spend",
   "mint",
   "cert",
-  "reward"
+  "reward",
+  "vote",
+  "propose"
 )
 
 /**
@@ -1,6 +1,7 @@
-import { Data, Effect as Eff, FastCheck, ParseResult, Schema } from "effect"
+import { Data, Effect as Eff, Either as E, FastCheck, ParseResult, Schema } from "effect"
 
 import * as AuxiliaryData from "./AuxiliaryData.js"
+import * as Bytes from "./Bytes.js"
 import * as CBOR from "./CBOR.js"
 import * as Function from "./Function.js"
 import * as TransactionBody from "./TransactionBody.js"
@@ -96,23 +97,139 @@ export const FromCBORHex = (options: CBOR.CodecOptions = CBOR.CML_DEFAULT_OPTION
     description: "Decode Transaction from CBOR hex per Conway CDDL"
   })
 
+// ============================================================================
+// Preserved Encoding
+// ============================================================================
+
+// Original bytes of the witness set fields of transactions decoded in preserve-encoding
+// mode, keyed by transaction body, next to the bytes the decoded fields re-encode to.
+// A witness set rebuilt with an extra witness reuses the original bytes of every field
+// that still re-encodes the same, keeping the redeemers and datums the body commits to.
+const witnessFieldEncodings = new WeakMap<
+  TransactionBody.TransactionBody,
+  ReadonlyMap<string, { readonly encoded: string; readonly original: Uint8Array }>
+>()
+
+// Map entries of an encoded map as [key, value] byte pairs
+const mapEntries = (bytes: Uint8Array): Array<readonly [Uint8Array, Uint8Array]> => {
+  const { items } = CBOR.containerItemBytes(bytes)
+  return Array.from({ length: items.length / 2 }, (_, i) => [items[2 * i], items[2 * i + 1]] as const)
+}
+
+const decodePreserving = (bytes: Uint8Array, options: CBOR.CodecOptions): Transaction => {
+  const { items, newOffset } = CBOR.containerItemBytes(bytes)
+  if (items.length !== 4 || newOffset !== bytes.length) {
+    throw new TransactionError({ message: "Transaction must be a four-element array" })
+  }
+  const [bodyBytes, witnessSetBytes, isValidBytes, auxiliaryDataBytes] = items
+  const isValid = CBOR.fromCBORBytes(isValidBytes)
+  if (typeof isValid !== "boolean") {
+    throw new TransactionError({ message: "Transaction validity flag must be a boolean" })
+  }
+  const body = TransactionBody.fromCBORBytes(bodyBytes, options)
+  const witnessSet = TransactionWitnessSet.fromCBORBytes(witnessSetBytes, options)
+  const auxiliaryData =
+    CBOR.fromCBORBytes(auxiliaryDataBytes) === null ? null : AuxiliaryData.fromCBORBytes(auxiliaryDataBytes, options)
+
+  const encoded = new Map(
+    mapEntries(TransactionWitnessSet.toCBORBytes(witnessSet, CBOR.CML_DEFAULT_OPTIONS)).map(
+      ([key, value]) => [Bytes.toHex(key), Bytes.toHex(value)] as const
+    )
+  )
+  witnessFieldEncodings.set(
+    body,
+    new Map(
+      mapEntries(witnessSetBytes).flatMap(([key, original]) => {
+        const value = encoded.get(Bytes.toHex(key))
+        return value === undefined ? [] : [[Bytes.toHex(key), { encoded: value, original }] as const]
+      })
+    )
+  )
+
+  return CBOR.rememberEncoding(
+    new Transaction({ body, witnessSet, isValid, auxiliaryData }, { disableValidation: true }),
+    bytes
+  )
+}
+
+const encodeWitnessSet = (tx: Transaction, options?: CBOR.CodecOptions): Uint8Array => {
+  const bytes = TransactionWitnessSet.toCBORBytes(tx.witnessSet, options)
+  const fields = witnessFieldEncodings.get(tx.body)
+  if (fields === undefined || CBOR.originalEncoding(tx.witnessSet) !== undefined) return bytes
+  return CBOR.encodeMapAsDefinite(
+    mapEntries(bytes).map(([key, value]) => {
+      const field = fields.get(Bytes.toHex(key))
+      return [key, field !== undefined && field.encoded === Bytes.toHex(value) ? field.original : value] as const
+    })
+  )
+}
+
+// Assemble the transaction from the encodings of its parts when any of them was decoded
+// in preserve-encoding mode, so that its body hash and script data survive re-encoding
+const encodePreserving = (tx: Transaction, options?: CBOR.CodecOptions): Uint8Array | undefined => {
+  if (!options?.preserveEncoding) return undefined
+  const preserved = CBOR.preservedEncoding(tx, options)
+  if (preserved !== undefined) return preserved
+  const parts = [tx.body, tx.witnessSet, tx.auxiliaryData]
+  if (!witnessFieldEncodings.has(tx.body) && parts.every((part) => CBOR.originalEncoding(part) === undefined)) {
+    return undefined
+  }
+  return CBOR.encodeArrayAsDefinite([
+    TransactionBody.toCBORBytes(tx.body, options),
+    encodeWitnessSet(tx, options),
+    CBOR.toCBORBytes(tx.isValid),
+    tx.auxiliaryData === null ? CBOR.toCBORBytes(null) : AuxiliaryData.toCBORBytes(tx.auxiliaryData, options)
+  ])
+}
+
 // ============================================================================
 // Parsing / Encoding Functions
 // ============================================================================
 
-export const fromCBORBytes = Function.makeCBORDecodeSync(FromCDDL, TransactionError, "Transaction.fromCBORBytes")
-export const fromCBORHex = Function.makeCBORDecodeHexSync(FromCDDL, TransactionError, "Transaction.fromCBORHex")
-export const toCBORBytes = Function.makeCBOREncodeSync(FromCDDL, TransactionError, "Transaction.toCBORBytes")
-export const toCBORHex = Function.makeCBOREncodeHexSync(FromCDDL, TransactionError, "Transaction.toCBORHex")
+const decodeCBORBytes = Function.makeCBORDecodeEither(FromCDDL, TransactionError, CBOR.CML_DEFAULT_OPTIONS)
+const encodeCBORBytes = Function.makeCBOREncodeEither(FromCDDL, TransactionError, CBOR.CML_DEFAULT_OPTIONS)
 
 // Either variants
 export namespace Either {
-  export const fromCBORBytes = Function.makeCBORDecodeEither(FromCDDL, TransactionError, CBOR.CML_DEFAULT_OPTIONS)
-  export const fromCBORHex = Function.makeCBORDecodeHexEither(FromCDDL, TransactionError, CBOR.CML_DEFAULT_OPTIONS)
-  export const toCBORBytes = Function.makeCBOREncodeEither(FromCDDL, TransactionError, CBOR.CML_DEFAULT_OPTIONS)
-  export const toCBORHex = Function.makeCBOREncodeHexEither(FromCDDL, TransactionError, CBOR.CML_DEFAULT_OPTIONS)
+  /**
+   * Parse a Transaction from CBOR bytes. With `CBOR.PRESERVE_ENCODING_OPTIONS` the transaction
+   * and its body, witness set and auxiliary data remember the bytes they were read from.
+   */
+  export const fromCBORBytes = (bytes: Uint8Array, options?: CBOR.CodecOptions) =>
+    options?.preserveEncoding
+      ? E.try({
+          try: () => decodePreserving(bytes, options),
+          catch: (cause) => new TransactionError({ message: (cause as Error).message, cause })
+        })
+      : decodeCBORBytes(bytes, options)
+  export const fromCBORHex = (hex: string, options?: CBOR.CodecOptions) =>
+    E.try({
+      try: () => Bytes.fromHex(hex),
+      catch: (cause) => new TransactionError({ message: (cause as Error).message, cause })
+    }).pipe(E.flatMap((bytes) => fromCBORBytes(bytes, options)))
+  /**
+   * Encode a Transaction to CBOR bytes. With `CBOR.PRESERVE_ENCODING_OPTIONS` the original
+   * bytes of parts decoded in preserve-encoding mode are reused.
+   */
+  export const toCBORBytes = (tx: Transaction, options?: CBOR.CodecOptions) =>
+    E.try({
+      try: () => encodePreserving(tx, options),
+      catch: (cause) => new TransactionError({ message: (cause as Error).message, cause })
+    }).pipe(E.flatMap((bytes) => (bytes !== undefined ? E.right(bytes) : encodeCBORBytes(tx, options))))
+  export const toCBORHex = (tx: Transaction, options?: CBOR.CodecOptions) =>
+    toCBORBytes(tx, options).pipe(E.map(Bytes.toHex))
 }
 
+const orThrow =
+  <I, A>(f: (input: I, options?: CBOR.CodecOptions) => E.Either<A, TransactionError>, message: string) =>
+  (input: I, options?: CBOR.CodecOptions): A =>
+    E.getOrThrowWith(f(input, options), (cause) => new TransactionError({ message, cause }))
+
+export const fromCBORBytes = orThrow(Either.fromCBORBytes, "Failed to decode in Transaction.fromCBORBytes")
+export const fromCBORHex = orThrow(Either.fromCBORHex, "Failed to decode hex in Transaction.fromCBORHex")
+export const toCBORBytes = orThrow(Either.toCBORBytes, "Failed to encode in Transaction.toCBORBytes")
+export const toCBORHex = orThrow(Either.toCBORHex, "Failed to encode hex in Transaction.toCBORHex")
+
 // ============================================================================
 // Equality
 // ============================================================================
@@ -0,0 +1,287 @@
+import { Data as EffectData } from "effect"
+
+import * as Data from "./Data.js"
+
+/**
+ * Error class for UPLC program operations.
+ *
+ * @since 2.0.0
+ * @category errors
+ */
+export class UPLCError extends EffectData.TaggedError("UPLCError")<{
+  message?: string
+  cause?: unknown
+}> {}
+
+/**
+ * Untyped Plutus Core programs in their flat encoding, as carried inside Plutus scripts.
+ *
+ * Terms are transcoded rather than decoded into a tree: applying parameters shifts
+ * the program's term by a few bits, and byte strings inside it are padded to byte
+ * boundaries, so the term is read and re-written piece by piece with fresh padding.
+ *
+ * ```
+ * program  = version:natural{3} term filler
+ * term     = tag:4 ...   (var, delay, lambda, apply, constant, force, error, builtin, constr, case)
+ * natural  = (more:1 bits:7)+   (least significant group first)
+ * filler   = 0* 1   (pads to the next byte boundary)
+ * ```
+ */
+
+const TERM_TAG_BITS = 4
+const TYPE_TAG_BITS = 4
+const BUILTIN_TAG_BITS = 7
+
+const Term = {
+  Var: 0,
+  Delay: 1,
+  Lambda: 2,
+  Apply: 3,
+  Constant: 4,
+  Force: 5,
+  Error: 6,
+  Builtin: 7,
+  Constr: 8,
+  Case: 9
+} as const
+
+const Type = {
+  Integer: 0,
+  ByteString: 1,
+  String: 2,
+  Unit: 3,
+  Bool: 4,
+  List: 5,
+  Pair: 6,
+  Application: 7,
+  Data: 8
+} as const
+
+type ConstantType =
+  | { readonly _tag: "Integer" | "ByteString" | "String" | "Unit" | "Bool" | "Data" }
+  | { readonly _tag: "List"; readonly element: ConstantType }
+  | { readonly _tag: "Pair"; readonly first: ConstantType; readonly second: ConstantType }
+
+// ============================================================================
+// Bit Reader and Writer
+// ============================================================================
+
+class Reader {
+  private position = 0
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  bit(): number {
+    if (this.position >= this.bytes.length * 8) {
+      throw new UPLCError({ message: "Unexpected end of flat-encoded program" })
+    }
+    const bit = (this.bytes[this.position >> 3] >> (7 - (this.position & 7))) & 1
+    this.position += 1
+    return bit
+  }
+
+  bits(count: number): number {
+    let value = 0
+    for (let i = 0; i < count; i++) value = (value << 1) | this.bit()
+    return value
+  }
+
+  filler(): void {
+    while (this.bit() === 0) {
+      // zeros up to the closing one bit
+    }
+  }
+}
+
+class Writer {
+  private readonly bytes: Array<number> = []
+  private current = 0
+  private used = 0
+
+  bit(bit: number): void {
+    this.current = (this.current << 1) | bit
+    this.used += 1
+    if (this.used === 8) {
+      this.bytes.push(this.current)
+      this.current = 0
+      this.used = 0
+    }
+  }
+
+  bits(value: number, count: number): void {
+    for (let i = count - 1; i >= 0; i--) this.bit((value >> i) & 1)
+  }
+
+  filler(): void {
+    while (this.used !== 7) this.bit(0)
+    this.bit(1)
+  }
+
+  /** Byte string: filler, then chunks of up to 255 bytes closed by an empty chunk */
+  byteString(bytes: Uint8Array): void {
+    this.filler()
+    for (let offset = 0; offset < bytes.length; offset += 255) {
+      const chunk = bytes.subarray(offset, offset + 255)
+      this.bits(chunk.length, 8)
+      chunk.forEach((byte) => this.bits(byte, 8))
+    }
+    this.bits(0, 8)
+  }
+
+  finish(): Uint8Array {
+    this.filler()
+    return new Uint8Array(this.bytes)
+  }
+}
+
+// ============================================================================
+// Transcoding Terms
+// ============================================================================
+
+const copyBits = (reader: Reader, writer: Writer, count: number): number => {
+  const value = reader.bits(count)
+  writer.bits(value, count)
+  return value
+}
+
+const copyNatural = (reader: Reader, writer: Writer): void => {
+  while (copyBits(reader, writer, 1) === 1) copyBits(reader, writer, 7)
+  copyBits(reader, writer, 7)
+}
+
+const copyByteString = (reader: Reader, writer: Writer): void => {
+  reader.filler()
+  writer.filler()
+  for (let length = copyBits(reader, writer, 8); length > 0; length = copyBits(reader, writer, 8)) {
+    for (let i = 0; i < length; i++) copyBits(reader, writer, 8)
+  }
+}
+
+const copyList = (reader: Reader, writer: Writer, item: () => void): void => {
+  while (copyBits(reader, writer, 1) === 1) item()
+}
+
+const readType = (tags: Array<number>): ConstantType => {
+  const tag = tags.shift()
+  switch (tag) {
+    case Type.Integer:
+      return { _tag: "Integer" }
+    case Type.ByteString:
+      return { _tag: "ByteString" }
+    case Type.String:
+      return { _tag: "String" }
+    case Type.Unit:
+      return { _tag: "Unit" }
+    case Type.Bool:
+      return { _tag: "Bool" }
+    case Type.Data:
+      return { _tag: "Data" }
+    case Type.Application: {
+      const operator = tags.shift()
+      if (operator === Type.List) return { _tag: "List", element: readType(tags) }
+      if (operator === Type.Application && tags.shift() === Type.Pair) {
+        const first = readType(tags)
+        return { _tag: "Pair", first, second: readType(tags) }
+      }
+      throw new UPLCError({ message: "Invalid constant type application" })
+    }
+    default:
+      throw new UPLCError({ message: `Unsupported constant type tag ${tag}` })
+  }
+}
+
+const copyConstant = (reader: Reader, writer: Writer, type: ConstantType): void => {
+  switch (type._tag) {
+    case "Integer":
+      copyNatural(reader, writer)
+      return
+    case "ByteString":
+    case "String":
+    case "Data":
+      copyByteString(reader, writer)
+      return
+    case "Unit":
+      return
+    case "Bool":
+      copyBits(reader, writer, 1)
+      return
+    case "List":
+      copyList(reader, writer, () => copyConstant(reader, writer, type.element))
+      return
+    case "Pair":
+      copyConstant(reader, writer, type.first)
+      copyConstant(reader, writer, type.second)
+      return
+  }
+}
+
+const copyTerm = (reader: Reader, writer: Writer): void => {
+  // Terms follow each other in pre-order; count the ones still to copy
+  // instead of recursing down long application spines
+  let pending = 1
+  while (pending > 0) {
+    pending -= 1
+    const tag = copyBits(reader, writer, TERM_TAG_BITS)
+    switch (tag) {
+      case Term.Var:
+        copyNatural(reader, writer)
+        break
+      case Term.Delay:
+      case Term.Lambda:
+      case Term.Force:
+        pending += 1
+        break
+      case Term.Apply:
+        pending += 2
+        break
+      case Term.Constant: {
+        const tags: Array<number> = []
+        copyList(reader, writer, () => tags.push(copyBits(reader, writer, TYPE_TAG_BITS)))
+        copyConstant(reader, writer, readType(tags))
+        break
+      }
+      case Term.Error:
+        break
+      case Term.Builtin:
+        copyBits(reader, writer, BUILTIN_TAG_BITS)
+        break
+      case Term.Constr:
+        copyNatural(reader, writer)
+        copyList(reader, writer, () => copyTerm(reader, writer))
+        break
+      case Term.Case:
+        copyTerm(reader, writer)
+        copyList(reader, writer, () => copyTerm(reader, writer))
+        break
+      default:
+        throw new UPLCError({ message: `Invalid term tag ${tag}` })
+    }
+  }
+}
+
+// ============================================================================
+// Applying Parameters
+// ============================================================================
+
+/**
+ * Apply a flat-encoded program to Plutus data arguments, producing the program
+ * `[[[term param1] param2] ...]` with the same version.
+ *
+ * @since 2.0.0
+ * @category transformation
+ */
+export const applyParams = (program: Uint8Array, params: ReadonlyArray<Data.Data>): Uint8Array => {
+  const reader = new Reader(program)
+  const writer = new Writer()
+  for (let i = 0; i < 3; i++) copyNatural(reader, writer)
+  params.forEach(() => writer.bits(Term.Apply, TERM_TAG_BITS))
+  copyTerm(reader, writer)
+  for (const param of params) {
+    writer.bits(Term.Constant, TERM_TAG_BITS)
+    writer.bit(1)
+    writer.bits(Type.Data, TYPE_TAG_BITS)
+    writer.bit(0)
+    writer.byteString(Data.toCBORBytes(param))
+  }
+  return writer.finish()
+}
@@ -48,6 +48,7 @@ export * as EpochNo from "./core/EpochNo.js"
 export * as FormatError from "./core/FormatError.js"
 export * as GovernanceAction from "./core/GovernanceAction.js"
 export * as Hash28 from "./core/Hash28.js"
+export * as HDAddressPayload from "./core/HDAddressPayload.js"
 export * as Header from "./core/Header.js"
 export * as HeaderBody from "./core/HeaderBody.js"
 export * as IPv4 from "./core/IPv4.js"
@@ -103,6 +104,7 @@ export * as TransactionMetadatumLabels from "./core/TransactionMetadatumLabels.j
 export * as TransactionOutput from "./core/TransactionOutput.js"
 export * as TSchema from "./core/TSchema.js"
 export * as UnitInterval from "./core/UnitInterval.js"
+export * as UPLC from "./core/UPLC.js"
 export * as Url from "./core/Url.js"
 export * as Value from "./core/Value.js"
 export * as VKey from "./core/VKey.js"
@@ -116,4 +118,5 @@ export * as Devnet from "./sdk/Devnet/Devnet.js"
 export * as DevnetDefault from "./sdk/Devnet/DevnetDefault.js"
 export { runEffect } from "./utils/effect-runtime.js"
 export * as FeeValidation from "./utils/FeeValidation.js"
+export * as TransactionValidation from "./utils/TransactionValidation.js"
 export { Effect, Either, pipe, Schema } from "effect"
@@ -104,10 +104,15 @@ export const add = (a: Assets, b: Assets): Assets => {
     }
   }
 
-  // Add all tokens from b
+  // Add all tokens from b, dropping entries that cancel out (e.g. a burn against held tokens)
   for (const [unit, amount] of Object.entries(b)) {
     if (unit !== "lovelace") {
-      result[unit] = (result[unit] || 0n) + amount
+      const newAmount = (result[unit] || 0n) + amount
+      if (newAmount === 0n) {
+        delete result[unit]
+      } else {
+        result[unit] = newAmount
+      }
     }
   }
 
@@ -0,0 +1,489 @@
+/**
+ * CIP-57 Plutus blueprints.
+ *
+ * Reads the `plutus.json` produced by Aiken (or any CIP-57 compiler) and derives
+ * a TSchema-compatible schema from every definition, so datums, redeemers and
+ * parameters can be encoded with {@link Data.withSchema} instead of hand-written
+ * schemas. Each validator comes with its script, hash and codecs.
+ *
+ * Plutus data maps to TypeScript as:
+ * - `integer` → `bigint`, `bytes` → hex string
+ * - `list` → array (tuple when `items` is an array), `map` → `Map`
+ * - a single constructor → an object of its fields
+ * - constructors without fields → their titles as string literals
+ * - other sums → `{ [title]: fields }` objects, one key per constructor
+ * - `Bool` → `boolean`, `Option` → value or `null`
+ * - schemas without a data type → raw {@link Data.Data}
+ *
+ * Constructors whose fields have no titles use their positions ("0", "1", ...) as keys.
+ */
+
+import { Data as EffectData, ParseResult, Schema } from "effect"
+
+import * as Bytes from "../core/Bytes.js"
+import * as CBOR from "../core/CBOR.js"
+import * as Data from "../core/Data.js"
+import * as ScriptHash from "../core/ScriptHash.js"
+import * as TSchema from "../core/TSchema.js"
+import * as Script from "./Script.js"
+
+export class BlueprintError extends EffectData.TaggedError("BlueprintError")<{
+  message?: string
+  cause?: unknown
+}> {}
+
+// ============================================================================
+// CIP-57 JSON
+// ============================================================================
+
+/**
+ * A schema of the blueprint: a reference, a data type, or a sum of constructors.
+ * A schema with none of these stands for any Plutus data.
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export interface SchemaDefinition {
+  readonly title?: string
+  readonly description?: string
+  readonly $ref?: string
+  readonly dataType?: "integer" | "bytes" | "list" | "map" | "constructor" | `#${string}`
+  readonly anyOf?: ReadonlyArray<SchemaDefinition>
+  readonly index?: number
+  readonly fields?: ReadonlyArray<SchemaDefinition>
+  readonly items?: SchemaDefinition | ReadonlyArray<SchemaDefinition>
+  readonly keys?: SchemaDefinition
+  readonly values?: SchemaDefinition
+}
+
+/**
+ * @since 2.0.0
+ * @category model
+ */
+export interface ArgumentDefinition {
+  readonly title?: string
+  readonly description?: string
+  readonly purpose?: unknown
+  readonly schema: SchemaDefinition
+}
+
+/**
+ * @since 2.0.0
+ * @category model
+ */
+export interface ValidatorDefinition {
+  readonly title: string
+  readonly description?: string
+  readonly datum?: ArgumentDefinition
+  readonly redeemer?: ArgumentDefinition
+  readonly parameters?: ReadonlyArray<ArgumentDefinition>
+  readonly compiledCode: string
+  readonly hash?: string
+}
+
+/**
+ * @since 2.0.0
+ * @category model
+ */
+export interface PlutusBlueprint {
+  readonly preamble: {
+    readonly title: string
+    readonly description?: string
+    readonly version: string
+    readonly plutusVersion?: "v1" | "v2" | "v3"
+    readonly compiler?: { readonly name: string; readonly version?: string }
+    readonly license?: string
+  }
+  readonly validators: ReadonlyArray<ValidatorDefinition>
+  readonly definitions?: Readonly<Record<string, SchemaDefinition>>
+}
+
+// ============================================================================
+// Derived Model
+// ============================================================================
+
+/**
+ * Schema derived from a blueprint definition, encoding to Plutus data
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export type DataSchema = Schema.Schema<any, any>
+
+/**
+ * A derived schema together with its {@link Data.withSchema} codec
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export type Codec<A = any> = ReturnType<typeof Data.withSchema<A, Data.Data>> & {
+  readonly title?: string
+  readonly schema: Schema.Schema<A, any>
+}
+
+/**
+ * @since 2.0.0
+ * @category model
+ */
+export interface Validator<Datum = any, Redeemer = any> {
+  readonly title: string
+  readonly script: Script.Script
+  /** Hash of the unparameterized script */
+  readonly hash: string
+  readonly parameters: ReadonlyArray<Codec>
+  readonly datum?: Codec<Datum>
+  readonly redeemer?: Codec<Redeemer>
+}
+
+/**
+ * @since 2.0.0
+ * @category model
+ */
+export interface Blueprint {
+  readonly preamble: PlutusBlueprint["preamble"]
+  /** Derived schemas keyed by definition name */
+  readonly definitions: Readonly<Record<string, DataSchema>>
+  /** Validators keyed by title, e.g. `"hello_world.hello_world.spend"` */
+  readonly validators: Readonly<Record<string, Validator>>
+}
+
+// ============================================================================
+// Schema Combinators
+// ============================================================================
+
+const constrMismatch = (ast: Schema.Schema.Any["ast"], constr: Data.Constr, index: number, arity: number) =>
+  new ParseResult.Type(
+    ast,
+    constr,
+    `Expected constructor ${index} with ${arity} fields, got constructor ${constr.index} with ${constr.fields.length}`
+  )
+
+/**
+ * Schema for a constructor with the given index, decoded as an object of its fields
+ * in declaration order.
+ *
+ * Unlike {@link TSchema.Struct}, the index is checked when decoding, so
+ * constructors can be combined with {@link Sum}.
+ *
+ * @since 2.0.0
+ * @category schemas
+ */
+export const Constructor = <Fields extends Schema.Struct.Fields>(index: number, fields: Fields) => {
+  const keys = Object.keys(fields)
+  return Schema.transformOrFail(Schema.typeSchema(Data.Constr), Schema.Struct(fields), {
+    strict: false,
+    encode: (value) =>
+      ParseResult.succeed(
+        new Data.Constr({
+          index: BigInt(index),
+          fields: keys.map((key) => (value as Record<string, Data.Data>)[key])
+        })
+      ),
+    decode: (constr, _, ast) =>
+      Number(constr.index) === index && constr.fields.length === keys.length
+        ? ParseResult.succeed(Object.fromEntries(keys.map((key, position) => [key, constr.fields[position]])))
+        : ParseResult.fail(constrMismatch(ast, constr, index, keys.length))
+  })
+}
+
+/**
+ * Constructor of a sum type without fields, decoded as its title
+ *
+ * @since 2.0.0
+ * @category schemas
+ */
+export const Tag = <Title extends string>(index: number, title: Title) =>
+  Schema.transformOrFail(Schema.typeSchema(Data.Constr), Schema.Literal(title), {
+    strict: true,
+    encode: () => ParseResult.succeed(new Data.Constr({ index: BigInt(index), fields: [] })),
+    decode: (constr, _, ast) =>
+      Number(constr.index) === index && constr.fields.length === 0
+        ? ParseResult.succeed(title)
+        : ParseResult.fail(constrMismatch(ast, constr, index, 0))
+  })
+
+/**
+ * Constructor of a sum type with fields, decoded as `{ [title]: fields }`
+ *
+ * @since 2.0.0
+ * @category schemas
+ */
+export const Variant = <Title extends string, Fields extends Schema.Struct.Fields>(
+  index: number,
+  title: Title,
+  fields: Fields
+) => {
+  const constructor = Constructor(index, fields)
+  return Schema.transform(
+    constructor,
+    Schema.Struct({ [title]: Schema.typeSchema(constructor) } as {
+      [K in Title]: Schema.SchemaClass<Schema.Schema.Type<typeof constructor>>
+    }),
+    {
+      strict: false,
+      encode: (value) => (value as Record<string, unknown>)[title],
+      decode: (fields) => ({ [title]: fields })
+    }
+  )
+}
+
+/**
+ * Sum of {@link Tag} and {@link Variant} constructors, encoded by the constructor
+ * index of the member the value matches
+ *
+ * @since 2.0.0
+ * @category schemas
+ */
+export const Sum = <Members extends ReadonlyArray<Schema.Schema<any, Data.Constr>>>(...members: Members) =>
+  Schema.Union(...members)
+
+/**
+ * Schema for blueprint schemas without a data type, passing Plutus data through as is
+ *
+ * @since 2.0.0
+ * @category schemas
+ */
+export const AnyData: Schema.Schema<Data.Data> = Schema.typeSchema(Data.DataSchema)
+
+// ============================================================================
+// Schema Derivation
+// ============================================================================
+
+const REF_PREFIX = "#/definitions/"
+
+/**
+ * Definition name a `$ref` points to, with JSON pointer escapes resolved
+ */
+export const refName = (ref: string): string => {
+  if (!ref.startsWith(REF_PREFIX)) {
+    throw new BlueprintError({ message: `Unsupported reference ${ref}: only ${REF_PREFIX} references are resolved` })
+  }
+  return ref.slice(REF_PREFIX.length).replaceAll("~1", "/").replaceAll("~0", "~")
+}
+
+const isConstructor = (definition: SchemaDefinition, index: number, title: string, arity: number) =>
+  definition.dataType === "constructor" &&
+  definition.index === index &&
+  definition.title === title &&
+  (definition.fields ?? []).length === arity
+
+const isBool = (constructors: ReadonlyArray<SchemaDefinition>) =>
+  constructors.length === 2 && isConstructor(constructors[0], 0, "False", 0) && isConstructor(constructors[1], 1, "True", 0)
+
+const isOption = (constructors: ReadonlyArray<SchemaDefinition>) =>
+  constructors.length === 2 && isConstructor(constructors[0], 0, "Some", 1) && isConstructor(constructors[1], 1, "None", 0)
+
+/**
+ * Keys of a constructor's fields: their titles, or their positions when untitled
+ */
+export const fieldKeys = (fields: ReadonlyArray<SchemaDefinition>): Array<string> => {
+  const keys = fields.map((field, position) => field.title ?? String(position))
+  if (new Set(keys).size !== keys.length) {
+    throw new BlueprintError({ message: `Duplicate field titles: ${keys.join(", ")}` })
+  }
+  return keys
+}
+
+const makeDeriver = (definitions: Readonly<Record<string, SchemaDefinition>>) => {
+  const derived = new Map<string, DataSchema>()
+  const deriving = new Set<string>()
+
+  const resolve = (name: string): DataSchema => {
+    const cached = derived.get(name)
+    if (cached !== undefined) return cached
+    // A recursive type refers to itself while being derived
+    if (deriving.has(name)) return Schema.suspend(() => derived.get(name)!)
+    const definition = definitions[name]
+    if (definition === undefined) {
+      throw new BlueprintError({ message: `Undefined definition ${name}` })
+    }
+    deriving.add(name)
+    const schema = derive(definition)
+    deriving.delete(name)
+    derived.set(name, schema)
+    return schema
+  }
+
+  const fieldsOf = (constructor: SchemaDefinition): Record<string, DataSchema> => {
+    const fields = constructor.fields ?? []
+    const keys = fieldKeys(fields)
+    return Object.fromEntries(fields.map((field, position) => [keys[position], derive(field)]))
+  }
+
+  const sum = (constructors: ReadonlyArray<SchemaDefinition>): DataSchema => {
+    if (isBool(constructors)) return TSchema.Boolean
+    if (isOption(constructors)) return TSchema.NullOr(derive(constructors[0].fields![0]))
+    if (constructors.length === 1) return derive(constructors[0])
+    const members = constructors.map((constructor, position) => {
+      if (constructor.dataType !== "constructor" || constructor.title === undefined) {
+        throw new BlueprintError({ message: `Sum member ${position} is not a titled constructor` })
+      }
+      const index = constructor.index ?? position
+      return (constructor.fields ?? []).length === 0
+        ? Tag(index, constructor.title)
+        : Variant(index, constructor.title, fieldsOf(constructor))
+    })
+    return Sum(...members)
+  }
+
+  const derive = (definition: SchemaDefinition): DataSchema => {
+    if (definition.$ref !== undefined) return resolve(refName(definition.$ref))
+    if (definition.anyOf !== undefined) return sum(definition.anyOf)
+    switch (definition.dataType) {
+      case undefined:
+        return AnyData
+      case "integer":
+        return TSchema.Integer
+      case "bytes":
+        return TSchema.ByteArray
+      case "list": {
+        const items = definition.items
+        if (items === undefined) return TSchema.Array(AnyData)
+        return Array.isArray(items)
+          ? TSchema.Tuple(items.map(derive) as Array<DataSchema>)
+          : TSchema.Array(derive(items as SchemaDefinition))
+      }
+      case "map":
+        return TSchema.Map(
+          definition.keys === undefined ? AnyData : derive(definition.keys),
+          definition.values === undefined ? AnyData : derive(definition.values)
+        ) as DataSchema
+      case "constructor":
+        return Constructor(definition.index ?? 0, fieldsOf(definition))
+      default:
+        throw new BlueprintError({
+          message: `Unsupported data type ${definition.dataType}: only Plutus data schemas can be derived`
+        })
+    }
+  }
+
+  return { derive, resolve }
+}
+
+/**
+ * Derive the schema of a blueprint schema, resolving references against `definitions`
+ *
+ * @since 2.0.0
+ * @category schemas
+ */
+export const toSchema = (
+  definition: SchemaDefinition,
+  definitions: Readonly<Record<string, SchemaDefinition>> = {}
+): DataSchema => makeDeriver(definitions).derive(definition)
+
+// ============================================================================
+// Validators
+// ============================================================================
+
+/**
+ * Codec of a derived schema
+ *
+ * @since 2.0.0
+ * @category constructors
+ */
+export const makeCodec = <A>(schema: Schema.Schema<A, any>, title?: string): Codec<A> => ({
+  ...Data.withSchema(schema),
+  title,
+  schema
+})
+
+const makeScript = (plutusVersion: PlutusBlueprint["preamble"]["plutusVersion"], compiledCode: string) => {
+  // Scripts are carried double CBOR-encoded
+  const cbor = CBOR.toCBORHex(Bytes.fromHex(compiledCode))
+  switch (plutusVersion) {
+    case "v1":
+      return Script.makePlutusV1Script(cbor)
+    case "v2":
+      return Script.makePlutusV2Script(cbor)
+    case "v3":
+      return Script.makePlutusV3Script(cbor)
+    default:
+      throw new BlueprintError({ message: `Unsupported Plutus version ${plutusVersion}` })
+  }
+}
+
+/**
+ * Typed validator from its compiled code and derived schemas.
+ * The compiled code is single CBOR-encoded, as blueprints carry it.
+ *
+ * @since 2.0.0
+ * @category constructors
+ */
+export const makeValidator = <Datum = never, Redeemer = never>(params: {
+  readonly title: string
+  readonly plutusVersion: "v1" | "v2" | "v3"
+  readonly compiledCode: string
+  readonly parameters?: ReadonlyArray<DataSchema>
+  readonly datum?: Schema.Schema<Datum, any>
+  readonly redeemer?: Schema.Schema<Redeemer, any>
+}): Validator<Datum, Redeemer> => {
+  const script = makeScript(params.plutusVersion, params.compiledCode)
+  return {
+    title: params.title,
+    script,
+    hash: ScriptHash.toHex(ScriptHash.fromScript(Script.toCoreScript(script))),
+    parameters: (params.parameters ?? []).map((schema) => makeCodec(schema)),
+    datum: params.datum && makeCodec(params.datum),
+    redeemer: params.redeemer && makeCodec(params.redeemer)
+  }
+}
+
+/**
+ * Load a CIP-57 blueprint, given as parsed JSON or as the `plutus.json` text.
+ *
+ * Scripts are Plutus V3 unless the preamble declares another `plutusVersion`.
+ * Throws a {@link BlueprintError} when a schema cannot be derived, or when a
+ * validator's declared hash does not match its compiled code.
+ *
+ * @example
+ * ```typescript
+ * const blueprint = Blueprint.fromJson(fs.readFileSync("plutus.json", "utf8"))
+ * const validator = blueprint.validators["hello_world.hello_world.spend"]
+ *
+ * const datum = validator.datum!.toCBORHex({ owner: "abcd..." })
+ * ```
+ *
+ * @since 2.0.0
+ * @category constructors
+ */
+export const fromJson = (json: string | PlutusBlueprint): Blueprint => {
+  const blueprint: PlutusBlueprint = typeof json === "string" ? parseJson(json) : json
+  const definitions = blueprint.definitions ?? {}
+  const { derive, resolve } = makeDeriver(definitions)
+
+  const validators = blueprint.validators.map((definition) => {
+    const argument = (argument: ArgumentDefinition | undefined) =>
+      argument === undefined ? undefined : makeCodec(derive(argument.schema), argument.title)
+
+    const validator = makeValidator({
+      title: definition.title,
+      plutusVersion: blueprint.preamble.plutusVersion ?? "v3",
+      compiledCode: definition.compiledCode
+    })
+    if (definition.hash !== undefined && definition.hash !== validator.hash) {
+      throw new BlueprintError({
+        message: `Hash of validator ${definition.title} is ${validator.hash}, but the blueprint declares ${definition.hash}`
+      })
+    }
+    return {
+      ...validator,
+      parameters: (definition.parameters ?? []).map((parameter) => argument(parameter)!),
+      datum: argument(definition.datum),
+      redeemer: argument(definition.redeemer)
+    }
+  })
+
+  return {
+    preamble: blueprint.preamble,
+    definitions: Object.fromEntries(Object.keys(definitions).map((name) => [name, resolve(name)])),
+    validators: Object.fromEntries(validators.map((validator) => [validator.title, validator]))
+  }
+}
+
+const parseJson = (text: string): PlutusBlueprint => {
+  try {
+    return JSON.parse(text) as PlutusBlueprint
+  } catch (cause) {
+    throw new BlueprintError({ message: "Invalid blueprint JSON", cause })
+  }
+}
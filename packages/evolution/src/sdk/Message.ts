@@ -0,0 +1,178 @@
+/**
+ * CIP-8 message signing as used by CIP-30 `signData`.
+ *
+ * A signed message is a COSE_Sign1 structure whose protected header carries the
+ * EdDSA algorithm and the signing address, together with a COSE_Key holding the
+ * Ed25519 verification key. Verification checks the signature and that the key
+ * hash matches the address credential (payment key, or stake key for reward addresses).
+ */
+
+import { blake2b } from "@noble/hashes/blake2"
+import { Data } from "effect"
+
+import * as AddressEras from "../core/AddressEras.js"
+import * as Bytes from "../core/Bytes.js"
+import * as CBOR from "../core/CBOR.js"
+import * as KeyHash from "../core/KeyHash.js"
+import * as PrivateKey from "../core/PrivateKey.js"
+import * as VKey from "../core/VKey.js"
+import type * as Address from "./Address.js"
+import type * as RewardAddress from "./RewardAddress.js"
+import type * as WalletNew from "./wallet/WalletNew.js"
+
+export class MessageError extends Data.TaggedError("MessageError")<{
+  message?: string
+  cause?: unknown
+}> {}
+
+// COSE header and key labels (RFC 8152)
+const ALG = 1n
+const KTY = 1n
+const KEY_ALG = 3n
+const CRV = -1n
+const X = -2n
+const EDDSA = -8n
+const OKP = 1n
+const ED25519 = 6n
+const COSE_SIGN1_TAG = 18
+
+// CIP-30 `signData` takes the payload as hex-encoded bytes
+const payloadBytes = (payload: WalletNew.Payload): Uint8Array => {
+  if (typeof payload !== "string") return payload
+  if (!Bytes.isHexLenient(payload)) {
+    throw new MessageError({ message: "Message payload strings must be hex-encoded bytes" })
+  }
+  return Bytes.fromHexLenient(payload)
+}
+
+/**
+ * Encode the Sig_structure signed by COSE_Sign1: ["Signature1", protected, external_aad, payload].
+ */
+const sigStructure = (protectedHeader: Uint8Array, payload: Uint8Array): Uint8Array =>
+  CBOR.toCBORBytes(["Signature1", protectedHeader, new Uint8Array(0), payload])
+
+/**
+ * Key hash the address is locked by: the payment key, or the stake key of a reward address.
+ */
+const addressKeyHash = (address: AddressEras.AddressEras): Uint8Array | undefined => {
+  const credential =
+    address._tag === "RewardAccount"
+      ? address.stakeCredential
+      : address._tag === "ByronAddress"
+        ? undefined
+        : address.paymentCredential
+  return credential?._tag === "KeyHash" ? credential.hash : undefined
+}
+
+/**
+ * Sign a message for an address following CIP-8. String payloads are hex-encoded bytes, as in CIP-30 `signData`.
+ * Returns the COSE_Sign1 structure as `signature` and the COSE_Key as `key`, both CBOR hex.
+ *
+ * @since 2.0.0
+ * @category signing
+ */
+export const signMessage = (
+  address: Address.Address | RewardAddress.RewardAddress,
+  payload: WalletNew.Payload,
+  privateKey: PrivateKey.PrivateKey
+): WalletNew.SignedMessage => {
+  const message = payloadBytes(payload)
+  const protectedHeader = CBOR.toCBORBytes(
+    new Map<CBOR.CBOR, CBOR.CBOR>([
+      [ALG, EDDSA],
+      ["address", AddressEras.toBytes(AddressEras.fromBech32(address))]
+    ])
+  )
+  const signature = PrivateKey.sign(privateKey, sigStructure(protectedHeader, message))
+
+  const coseSign1 = CBOR.toCBORHex([
+    protectedHeader,
+    new Map<CBOR.CBOR, CBOR.CBOR>([["hashed", false]]),
+    message,
+    signature.bytes
+  ])
+  const coseKey = CBOR.toCBORHex(
+    new Map<CBOR.CBOR, CBOR.CBOR>([
+      [KTY, OKP],
+      [KEY_ALG, EDDSA],
+      [CRV, ED25519],
+      [X, VKey.fromPrivateKey(privateKey).bytes]
+    ])
+  )
+
+  return { payload, signature: coseSign1, key: coseKey }
+}
+
+const decodeCoseSign1 = (hex: string) => {
+  let decoded = CBOR.fromCBORHex(hex)
+  if (CBOR.isTag(decoded) && decoded.tag === COSE_SIGN1_TAG) {
+    decoded = decoded.value
+  }
+  if (!Array.isArray(decoded) || decoded.length !== 4) {
+    throw new MessageError({ message: "COSE_Sign1 must be an array of 4 elements" })
+  }
+  const [protectedHeader, unprotectedHeader, payload, signature] = decoded as ReadonlyArray<CBOR.CBOR>
+  if (!(protectedHeader instanceof Uint8Array) || !(signature instanceof Uint8Array)) {
+    throw new MessageError({ message: "COSE_Sign1 protected header and signature must be byte strings" })
+  }
+  const headers = CBOR.fromCBORBytes(protectedHeader)
+  if (!(headers instanceof Map)) {
+    throw new MessageError({ message: "COSE_Sign1 protected header must be a map" })
+  }
+  const hashed = unprotectedHeader instanceof Map && unprotectedHeader.get("hashed") === true
+  return {
+    protectedHeader,
+    headers: headers as ReadonlyMap<CBOR.CBOR, CBOR.CBOR>,
+    hashed,
+    payload: payload instanceof Uint8Array ? payload : undefined,
+    signature
+  }
+}
+
+const decodeCoseKey = (hex: string): VKey.VKey => {
+  const key = CBOR.fromCBORHex(hex)
+  if (!(key instanceof Map)) {
+    throw new MessageError({ message: "COSE_Key must be a map" })
+  }
+  const publicKey = key.get(X)
+  if (key.get(KTY) !== OKP || key.get(CRV) !== ED25519 || !(publicKey instanceof Uint8Array)) {
+    throw new MessageError({ message: "COSE_Key must be an Ed25519 OKP key" })
+  }
+  return VKey.fromBytes(publicKey)
+}
+
+/**
+ * Verify a CIP-8 signed message: the signature must be valid for the payload and
+ * the address in the protected header, and the key must hash to the address credential.
+ * Returns false for malformed signatures or keys.
+ *
+ * @since 2.0.0
+ * @category verification
+ */
+export const verifyMessage = (
+  address: Address.Address | RewardAddress.RewardAddress,
+  payload: WalletNew.Payload,
+  signedMessage: WalletNew.SignedMessage
+): boolean => {
+  try {
+    const coseSign1 = decodeCoseSign1(signedMessage.signature)
+    const vkey = decodeCoseKey(signedMessage.key)
+    const expectedAddress = AddressEras.fromBech32(address)
+
+    const headerAddress = coseSign1.headers.get("address")
+    if (coseSign1.headers.get(ALG) !== EDDSA || !(headerAddress instanceof Uint8Array)) return false
+    if (!Bytes.equals(headerAddress, AddressEras.toBytes(expectedAddress))) return false
+
+    const keyHash = addressKeyHash(expectedAddress)
+    if (!keyHash || !Bytes.equals(KeyHash.fromVKey(vkey).hash, keyHash)) return false
+
+    const message = payloadBytes(payload)
+    const expectedPayload = coseSign1.hashed ? blake2b(message, { dkLen: 28 }) : message
+    const signedPayload = coseSign1.payload ?? expectedPayload
+    if (!Bytes.equals(signedPayload, expectedPayload)) return false
+
+    return VKey.verify(vkey, sigStructure(coseSign1.protectedHeader, signedPayload), coseSign1.signature)
+  } catch {
+    return false
+  }
+}
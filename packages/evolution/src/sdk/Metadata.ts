@@ -0,0 +1,235 @@
+/**
+ * Transaction metadata built from plain JavaScript values, with helpers for
+ * CIP-20 messages, CIP-25 NFT metadata and CIP-68 reference datums.
+ *
+ * Metadatum strings and byte strings are limited to 64 bytes on chain; longer
+ * values are split into arrays of 64-byte chunks.
+ */
+
+import * as Bytes from "../core/Bytes.js"
+import * as PlutusData from "../core/Data.js"
+import * as TransactionMetadatum from "../core/TransactionMetadatum.js"
+import type * as Datum from "./Datum.js"
+
+export type MetadataValue =
+  | string
+  | number
+  | bigint
+  | Uint8Array
+  | ReadonlyArray<MetadataValue>
+  | ReadonlyMap<MetadataValue, MetadataValue>
+  | { readonly [key: string]: MetadataValue | undefined }
+
+export interface LabeledMetadata {
+  readonly label: bigint
+  readonly metadata: MetadataValue
+}
+
+// Maximum size of a single metadatum string or byte string
+export const MAX_CHUNK_BYTES = 64
+
+export const CIP20_LABEL = 674n
+export const CIP25_LABEL = 721n
+
+const encoder = new TextEncoder()
+
+/**
+ * Split text into chunks of at most maxBytes UTF-8 bytes without breaking characters.
+ */
+export const chunkString = (text: string, maxBytes: number = MAX_CHUNK_BYTES): Array<string> => {
+  const chunks: Array<string> = []
+  let current = ""
+  let currentBytes = 0
+
+  for (const char of text) {
+    const size = encoder.encode(char).length
+    if (currentBytes + size > maxBytes && current !== "") {
+      chunks.push(current)
+      current = ""
+      currentBytes = 0
+    }
+    current += char
+    currentBytes += size
+  }
+
+  chunks.push(current)
+  return chunks
+}
+
+/**
+ * Split bytes into chunks of at most maxBytes.
+ */
+export const chunkBytes = (bytes: Uint8Array, maxBytes: number = MAX_CHUNK_BYTES): Array<Uint8Array> => {
+  const chunks: Array<Uint8Array> = []
+  for (let offset = 0; offset < bytes.length; offset += maxBytes) {
+    chunks.push(bytes.slice(offset, offset + maxBytes))
+  }
+  return chunks.length > 0 ? chunks : [bytes]
+}
+
+const toInt = (value: number | bigint): bigint => {
+  if (typeof value === "number" && !Number.isSafeInteger(value)) {
+    throw new Error(`Metadata numbers must be safe integers, got ${value}`)
+  }
+  return BigInt(value)
+}
+
+const isMap = (value: MetadataValue): value is ReadonlyMap<MetadataValue, MetadataValue> => value instanceof Map
+
+/**
+ * Convert a map key. Keys are never chunked, so they must fit in 64 bytes.
+ */
+const toMetadatumKey = (key: MetadataValue): TransactionMetadatum.TransactionMetadatum => {
+  const metadatum = toMetadatum(key)
+  if (metadatum._tag === "ArrayMetadatum" && (typeof key === "string" || key instanceof Uint8Array)) {
+    throw new Error(`Metadata map keys must not exceed ${MAX_CHUNK_BYTES} bytes`)
+  }
+  return metadatum
+}
+
+/**
+ * Convert a plain JavaScript value to a transaction metadatum.
+ * Objects become maps with text keys; undefined object fields are skipped.
+ */
+export const toMetadatum = (value: MetadataValue): TransactionMetadatum.TransactionMetadatum => {
+  if (typeof value === "string") {
+    const chunks = chunkString(value)
+    return chunks.length === 1
+      ? TransactionMetadatum.text(chunks[0])
+      : TransactionMetadatum.array(chunks.map(TransactionMetadatum.text))
+  }
+  if (typeof value === "number" || typeof value === "bigint") {
+    return TransactionMetadatum.int(toInt(value))
+  }
+  if (value instanceof Uint8Array) {
+    const chunks = chunkBytes(value)
+    return chunks.length === 1
+      ? TransactionMetadatum.bytes(chunks[0])
+      : TransactionMetadatum.array(chunks.map(TransactionMetadatum.bytes))
+  }
+  if (Array.isArray(value)) {
+    return TransactionMetadatum.array((value as ReadonlyArray<MetadataValue>).map(toMetadatum))
+  }
+  if (isMap(value)) {
+    const entries = new Map<TransactionMetadatum.TransactionMetadatum, TransactionMetadatum.TransactionMetadatum>()
+    for (const [key, entry] of value) {
+      entries.set(toMetadatumKey(key), toMetadatum(entry))
+    }
+    return TransactionMetadatum.map(entries)
+  }
+
+  const entries = new Map<TransactionMetadatum.TransactionMetadatum, TransactionMetadatum.TransactionMetadatum>()
+  for (const [key, entry] of Object.entries(value as { readonly [key: string]: MetadataValue | undefined })) {
+    if (entry !== undefined) {
+      entries.set(toMetadatumKey(key), toMetadatum(entry))
+    }
+  }
+  return TransactionMetadatum.map(entries)
+}
+
+// ============================================================================
+// CIP-20 - Transaction message/comment metadata
+// ============================================================================
+
+/**
+ * Create CIP-20 message metadata (label 674). Each line longer than 64 bytes
+ * is split into several message entries.
+ */
+export const cip20 = (message: string | ReadonlyArray<string>): LabeledMetadata => {
+  const lines = typeof message === "string" ? [message] : message
+  return {
+    label: CIP20_LABEL,
+    metadata: { msg: lines.flatMap((line) => chunkString(line)) }
+  }
+}
+
+// ============================================================================
+// CIP-25 - NFT metadata standard
+// ============================================================================
+
+export type Cip25File = {
+  readonly name?: string
+  readonly mediaType: string
+  readonly src: string
+}
+
+export type Cip25Asset = {
+  readonly name: string
+  readonly image: string
+  readonly mediaType?: string
+  readonly description?: string
+  readonly files?: ReadonlyArray<Cip25File>
+  readonly [key: string]: MetadataValue | undefined
+}
+
+/**
+ * Create CIP-25 NFT metadata (label 721).
+ *
+ * Assets are keyed by policy id hex, then asset name hex. Version 1 encodes
+ * the keys as text (asset names decoded as UTF-8), version 2 as raw bytes.
+ */
+export const cip25 = (
+  assets: { readonly [policyId: string]: { readonly [assetName: string]: Cip25Asset } },
+  version: 1 | 2 = 1
+): LabeledMetadata => {
+  const metadata = new Map<MetadataValue, MetadataValue>()
+
+  for (const [policyId, policyAssets] of Object.entries(assets)) {
+    const assetEntries = new Map<MetadataValue, MetadataValue>()
+    for (const [assetName, asset] of Object.entries(policyAssets)) {
+      const assetNameBytes = Bytes.fromHex(assetName)
+      assetEntries.set(version === 1 ? new TextDecoder().decode(assetNameBytes) : assetNameBytes, asset)
+    }
+    metadata.set(version === 1 ? policyId : Bytes.fromHex(policyId), assetEntries)
+  }
+
+  if (version === 2) {
+    metadata.set("version", 2n)
+  }
+
+  return { label: CIP25_LABEL, metadata }
+}
+
+// ============================================================================
+// CIP-68 - Datum metadata standard
+// ============================================================================
+
+const toPlutusData = (value: MetadataValue): PlutusData.Data => {
+  if (typeof value === "string") {
+    return PlutusData.bytearray(Bytes.toHex(encoder.encode(value)))
+  }
+  if (typeof value === "number" || typeof value === "bigint") {
+    return PlutusData.int(toInt(value))
+  }
+  if (value instanceof Uint8Array) {
+    return PlutusData.bytearray(Bytes.toHex(value))
+  }
+  if (Array.isArray(value)) {
+    return PlutusData.list((value as ReadonlyArray<MetadataValue>).map(toPlutusData))
+  }
+  if (isMap(value)) {
+    return PlutusData.map(Array.from(value, ([key, entry]) => [toPlutusData(key), toPlutusData(entry)]))
+  }
+
+  const entries: Array<[PlutusData.Data, PlutusData.Data]> = []
+  for (const [key, entry] of Object.entries(value as { readonly [key: string]: MetadataValue | undefined })) {
+    if (entry !== undefined) {
+      entries.push([toPlutusData(key), toPlutusData(entry)])
+    }
+  }
+  return PlutusData.map(entries)
+}
+
+/**
+ * Create the inline datum of a CIP-68 reference NFT:
+ * `Constr 0 [metadata, version, extra]`. Strings are encoded as UTF-8 bytes
+ * and are not chunked. Extra defaults to unit (`Constr 0 []`).
+ */
+export const cip68Datum = (
+  metadata: { readonly [key: string]: MetadataValue | undefined },
+  version: bigint = 1n,
+  extra: PlutusData.Data = PlutusData.constr(0n, [])
+): Datum.Datum => ({
+  type: "inlineDatum",
+  inline: PlutusData.toCBORHex(PlutusData.constr(0n, [toPlutusData(metadata), PlutusData.int(version), extra]))
+})
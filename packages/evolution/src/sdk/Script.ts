@@ -1,5 +1,21 @@
+import * as AddressEras from "../core/AddressEras.js"
+import * as BaseAddress from "../core/BaseAddress.js"
 import { fromHex } from "../core/Bytes.js"
 import * as CBOR from "../core/CBOR.js"
+import type * as Data from "../core/Data.js"
+import * as EnterpriseAddress from "../core/EnterpriseAddress.js"
+import * as NativeScripts from "../core/NativeScripts.js"
+import * as CoreNetwork from "../core/Network.js"
+import * as CorePlutusV1 from "../core/PlutusV1.js"
+import * as CorePlutusV2 from "../core/PlutusV2.js"
+import * as CorePlutusV3 from "../core/PlutusV3.js"
+import * as RewardAccount from "../core/RewardAccount.js"
+import type * as CoreScript from "../core/Script.js"
+import * as CoreScriptHash from "../core/ScriptHash.js"
+import * as UPLC from "../core/UPLC.js"
+import type * as Address from "./Address.js"
+import * as Credential from "./Credential.js"
+import type * as RewardAddress from "./RewardAddress.js"
 
 export type Native = {
   type: "Native"
@@ -29,36 +45,64 @@ export type SpendingValidator = Script
 export type MintingPolicy = Script
 export type PolicyId = string // hex string
 
-// /**
-//  * Convert user-facing Script to strict Script type for hash computation.
-//  */
-// const toCoreScript = (script: Script): CoreScript.Script => {
-//   const strict = CoreScript.fromCBORHex(script.script)
-
-//   switch (script.type) {
-//     case "Native": {
-//       // Native scripts are the union members without a `_tag` property
-//       if ("_tag" in strict) {
-//         throw new Error("Script type mismatch: expected Native")
-//       }
-//       return strict
-//     }
-//     case "PlutusV1": {
-//       if ("_tag" in strict && strict._tag === "PlutusV1") return strict
-//       break
-//     }
-//     case "PlutusV2": {
-//       if ("_tag" in strict && strict._tag === "PlutusV2") return strict
-//       break
-//     }
-//     case "PlutusV3": {
-//       if ("_tag" in strict && strict._tag === "PlutusV3") return strict
-//       break
-//     }
-//   }
-
-//   throw new Error(`Script type mismatch: expected ${script.type}`)
-// }
+/**
+ * Strip the outer CBOR bytestring layer from a Plutus script hex.
+ *
+ * Plutus scripts are normally carried double CBOR-encoded (see {@link applyDoubleCborEncoding}),
+ * but compiled code taken straight from a blueprint is only single-encoded. Both forms are
+ * accepted; the returned bytes are always the single-encoded script the ledger hashes.
+ */
+const toSingleCborBytes = (script: string): Uint8Array => {
+  const outer = CBOR.fromCBORHex(script)
+  if (!(outer instanceof Uint8Array)) {
+    throw new Error("Invalid Plutus script: expected a CBOR bytestring")
+  }
+  try {
+    // A double-encoded script unwraps to another bytestring; a single-encoded one to flat bytes
+    return CBOR.fromCBORBytes(outer) instanceof Uint8Array ? outer : fromHex(script)
+  } catch {
+    return fromHex(script)
+  }
+}
+
+/**
+ * Convert user-facing Script to the core Script union used for hashing and witness sets.
+ *
+ * @since 2.0.0
+ * @category conversions
+ */
+export const toCoreScript = (script: Script): CoreScript.Script => {
+  switch (script.type) {
+    case "Native":
+      return NativeScripts.fromCBORHex(script.script)
+    case "PlutusV1":
+      return new CorePlutusV1.PlutusV1({ bytes: toSingleCborBytes(script.script) })
+    case "PlutusV2":
+      return new CorePlutusV2.PlutusV2({ bytes: toSingleCborBytes(script.script) })
+    case "PlutusV3":
+      return new CorePlutusV3.PlutusV3({ bytes: toSingleCborBytes(script.script) })
+  }
+}
+
+/**
+ * Convert a core Script back to the user-facing Script.
+ * Plutus scripts come out double CBOR-encoded.
+ *
+ * @since 2.0.0
+ * @category conversions
+ */
+export const fromCoreScript = (script: CoreScript.Script): Script => {
+  switch (script._tag) {
+    case "PlutusV1":
+      return makePlutusV1Script(CBOR.toCBORHex(script.bytes))
+    case "PlutusV2":
+      return makePlutusV2Script(CBOR.toCBORHex(script.bytes))
+    case "PlutusV3":
+      return makePlutusV3Script(CBOR.toCBORHex(script.bytes))
+    default:
+      return makeNativeScript(NativeScripts.toCBORHex(script))
+  }
+}
 
 /**
  * Compute the hash of a script.
@@ -68,12 +112,14 @@ export type PolicyId = string // hex string
  * - PlutusV1 scripts: tag 1
  * - PlutusV2 scripts: tag 2
  * - PlutusV3 scripts: tag 3
+ *
+ * @since 2.0.0
+ * @category hashing
  */
-// export const toScriptHash = (script: Script): Credential.ScriptHash =>
-//   pipe(toCoreScript(script), CoreScriptHash.fromScript, CoreScriptHash.toHex, (hash) => ({
-//     type: "Script",
-//     hash
-//   }))
+export const toScriptHash = (script: Script): Credential.ScriptHash => ({
+  _tag: "ScriptHash",
+  hash: CoreScriptHash.toHex(CoreScriptHash.fromScript(toCoreScript(script)))
+})
 
 // Constructor Functions
 export const makeNativeScript = (cbor: string): Native => ({
@@ -105,8 +151,87 @@ export const scriptEquals = (a: Script, b: Script): boolean => a.type === b.type
 /**
  * Compute the policy ID for a minting policy script.
  * The policy ID is identical to the script hash.
+ *
+ * @since 2.0.0
+ * @category hashing
  */
-// export const mintingPolicyToId = (script: Script): Credential.ScriptHash => toScriptHash(script)
+export const mintingPolicyToId = (script: MintingPolicy): PolicyId => toScriptHash(script).hash
+
+// ============================================================================
+// Script Addresses
+// ============================================================================
+
+/**
+ * Address locked by a validator: a base address when a stake credential is
+ * given, an enterprise address otherwise.
+ *
+ * @since 2.0.0
+ * @category addresses
+ */
+export const validatorToAddress = (
+  network: CoreNetwork.Network,
+  script: SpendingValidator,
+  stakeCredential?: Credential.Credential
+): Address.Address => {
+  const networkId = CoreNetwork.toId(network)
+  const paymentCredential = CoreScriptHash.fromScript(toCoreScript(script))
+  return AddressEras.toBech32(
+    stakeCredential === undefined
+      ? new EnterpriseAddress.EnterpriseAddress({ networkId, paymentCredential })
+      : new BaseAddress.BaseAddress({
+          networkId,
+          paymentCredential,
+          stakeCredential: Credential.jsonToCredential(stakeCredential)
+        })
+  )
+}
+
+/**
+ * Reward address staked by a validator, used to register, delegate and withdraw
+ * with a script stake credential.
+ *
+ * @since 2.0.0
+ * @category addresses
+ */
+export const validatorToRewardAddress = (network: CoreNetwork.Network, script: Validator): RewardAddress.RewardAddress =>
+  AddressEras.toBech32(
+    new RewardAccount.RewardAccount({
+      networkId: CoreNetwork.toId(network),
+      stakeCredential: CoreScriptHash.fromScript(toCoreScript(script))
+    })
+  )
+
+// ============================================================================
+// Parameterized Scripts
+// ============================================================================
+
+/**
+ * Apply a parameterized Plutus script to its parameters, in order.
+ *
+ * The script's UPLC program is wrapped in one application per parameter, the
+ * way `aiken blueprint apply` does, so the resulting hash matches the compiler's.
+ * Plutus scripts given single or double CBOR-encoded are accepted; the result is
+ * double CBOR-encoded.
+ *
+ * @example
+ * ```typescript
+ * const policy = applyParamsToScript(blueprint.validators["nft.nft.mint"].script, [
+ *   Data.withSchema(OutputReference).toData({ transaction_id: "ab".repeat(32), output_index: 0n })
+ * ])
+ * const policyId = mintingPolicyToId(policy)
+ * ```
+ *
+ * @since 2.0.0
+ * @category transformation
+ */
+export const applyParamsToScript = <S extends Script>(script: S, params: ReadonlyArray<Data.Data>): S => {
+  if (script.type === "Native") {
+    throw new Error("Parameters can only be applied to Plutus scripts")
+  }
+  const program = CBOR.fromCBORBytes(toSingleCborBytes(script.script)) as Uint8Array
+  const applied = UPLC.applyParams(program, params)
+  return { ...script, script: CBOR.toCBORHex(CBOR.toCBORBytes(applied)) }
+}
 
 export const applyDoubleCborEncoding = (script: string): string => {
   // Convert hex string to bytes, then encode as CBOR bytes, then back to hex
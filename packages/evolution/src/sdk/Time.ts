@@ -0,0 +1,72 @@
+/**
+ * Slot and POSIX time conversion for Cardano networks.
+ *
+ * Slots are converted using a network's slot configuration: the POSIX time (in
+ * milliseconds) of a reference slot and the slot length.
+ */
+
+import type * as Network from "../core/Network.js"
+
+/**
+ * Slot configuration of a network, anchored at the start of the Shelley era.
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export interface SlotConfig {
+  /** POSIX time in milliseconds of zeroSlot */
+  readonly zeroTime: bigint
+  /** Reference slot number */
+  readonly zeroSlot: bigint
+  /** Slot length in milliseconds */
+  readonly slotLength: number
+}
+
+/**
+ * Slot configurations of the public networks.
+ * Custom networks (devnets) have no fixed configuration; use {@link fromShelleyGenesis}.
+ *
+ * @since 2.0.0
+ * @category constants
+ */
+export const SLOT_CONFIG_NETWORK: Readonly<Record<Exclude<Network.Network, "Custom">, SlotConfig>> = {
+  Mainnet: { zeroTime: 1596059091000n, zeroSlot: 4492800n, slotLength: 1000 },
+  Preview: { zeroTime: 1666656000000n, zeroSlot: 0n, slotLength: 1000 },
+  Preprod: { zeroTime: 1655769600000n, zeroSlot: 86400n, slotLength: 1000 }
+}
+
+/**
+ * Derive the slot configuration of a devnet from its Shelley genesis.
+ * The genesis slot length is in seconds.
+ *
+ * @since 2.0.0
+ * @category constructors
+ */
+export const fromShelleyGenesis = (genesis: { readonly systemStart: string; readonly slotLength: number }): SlotConfig => ({
+  zeroTime: BigInt(Date.parse(genesis.systemStart)),
+  zeroSlot: 0n,
+  slotLength: genesis.slotLength * 1000
+})
+
+/**
+ * Convert a POSIX time in milliseconds to the slot containing it.
+ *
+ * @since 2.0.0
+ * @category conversions
+ */
+export const unixTimeToSlot = (unixTime: number, slotConfig: SlotConfig): bigint => {
+  const timePassed = BigInt(Math.floor(unixTime)) - slotConfig.zeroTime
+  if (timePassed < 0n) {
+    throw new Error(`Time ${unixTime} is before the slot configuration start ${slotConfig.zeroTime}`)
+  }
+  return slotConfig.zeroSlot + timePassed / BigInt(slotConfig.slotLength)
+}
+
+/**
+ * Convert a slot to the POSIX time in milliseconds at which it begins.
+ *
+ * @since 2.0.0
+ * @category conversions
+ */
+export const slotToUnixTime = (slot: bigint, slotConfig: SlotConfig): number =>
+  Number(slotConfig.zeroTime + (slot - slotConfig.zeroSlot) * BigInt(slotConfig.slotLength))
@@ -21,18 +21,50 @@ export interface CoinSelectionResult {
   readonly selectedUtxos: ReadonlyArray<UTxO.UTxO>
 }
 
+// What a change output holding some assets costs: the lovelace it must hold and the fee for its bytes
+export interface ChangeOutputCost {
+  readonly minLovelace: bigint
+  readonly fee: bigint
+}
+
+// Build parameters available to coin selection (always provided by the transaction builder)
+export interface CoinSelectionContext {
+  /** Fee per transaction byte (minFeeA) */
+  readonly minFeeCoefficient: bigint
+  /** Cost of a change output to the change address holding `assets` */
+  readonly changeOutputCost: (assets: Assets.Assets) => ChangeOutputCost
+}
+
 // Custom coin selection function - embeds the algorithm and any options within the function
 export type CoinSelectionFunction = (
   availableUtxos: ReadonlyArray<UTxO.UTxO>,
-  requiredAssets: Assets.Assets
+  requiredAssets: Assets.Assets,
+  context?: CoinSelectionContext
 ) => CoinSelectionResult
 
 // Predefined algorithm names (each maps to a concrete CoinSelectionFunction)
 export type CoinSelectionAlgorithm = "largest-first" | "random-improve" | "optimal"
 
-// Factory functions for built-in algorithms
-export declare const randomImproveSelection: CoinSelectionFunction  
-export declare const optimalSelection: CoinSelectionFunction
+/**
+ * Throw CoinSelectionError for the first required unit not covered by the accumulated assets.
+ */
+const assertCovered = (accumulated: Assets.Assets, requiredAssets: Assets.Assets): void => {
+  for (const unit of Assets.getUnits(requiredAssets)) {
+    const have = Assets.getAsset(accumulated, unit)
+    const required = Assets.getAsset(requiredAssets, unit)
+    if (have < required) {
+      throw new CoinSelectionError({
+        message: `Insufficient ${unit}: need ${required}, have ${have} in available UTxOs`,
+        cause: {
+          unit,
+          required: String(required),
+          available: String(have),
+          shortfall: String(required - have)
+        }
+      })
+    }
+  }
+}
 
 // ============================================================================
 // Largest-First Coin Selection Implementation
@@ -99,21 +131,303 @@ export const largestFirstSelection: CoinSelectionFunction = (
   }
   
   // Verify we met all requirements
-  for (const unit of Assets.getUnits(requiredAssets)) {
-    const have = Assets.getAsset(accumulated, unit)
-    const required = Assets.getAsset(requiredAssets, unit)
-    if (have < required) {
-      throw new CoinSelectionError({
-        message: `Insufficient ${unit}: need ${required}, have ${have} in available UTxOs`,
-        cause: {
-          unit,
-          required: String(required),
-          available: String(have),
-          shortfall: String(required - have)
+  assertCovered(accumulated, requiredAssets)
+  
+  return { selectedUtxos: selected }
+}
+
+// ============================================================================
+// Random-Improve Coin Selection Implementation (CIP-2)
+// ============================================================================
+
+/**
+ * Source of uniformly distributed numbers in [0, 1), like Math.random.
+ *
+ * @since 2.0.0
+ * @category coin-selection
+ */
+export type RandomGenerator = () => number
+
+/**
+ * Options for the random-improve algorithm.
+ *
+ * @since 2.0.0
+ * @category coin-selection
+ */
+export interface RandomImproveOptions {
+  /** Random number source, defaults to Math.random. Inject a seeded generator for reproducible selections. */
+  readonly random?: RandomGenerator
+}
+
+/**
+ * Deterministic pseudo-random generator (mulberry32) for reproducible coin selection.
+ *
+ * @since 2.0.0
+ * @category coin-selection
+ */
+export const seededRandom = (seed: number): RandomGenerator => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const distance = (a: bigint, b: bigint): bigint => (a > b ? a - b : b - a)
+
+/**
+ * Remove and return a random UTxO from the pool.
+ */
+const takeRandom = (pool: Array<UTxO.UTxO>, random: RandomGenerator): UTxO.UTxO => {
+  const index = Math.min(Math.floor(random() * pool.length), pool.length - 1)
+  return pool.splice(index, 1)[0]
+}
+
+/**
+ * Create a random-improve coin selection function (CIP-2).
+ *
+ * Strategy, applied to each required asset in turn (native assets first, lovelace last):
+ * 1. Random selection: pick random UTxOs holding the asset until its requirement is covered
+ * 2. Improvement: keep picking random UTxOs holding the asset while each one moves the
+ *    selected amount closer to the ideal (twice the requirement) without exceeding the
+ *    maximum (three times the requirement); stop at the first UTxO that does not
+ *
+ * Advantages:
+ * - Change outputs roughly match the payment, avoiding dust change
+ * - Tends to keep the UTxO set's distribution close to the wallet's payment pattern
+ * - Spends small UTxOs over time instead of accumulating them
+ *
+ * Disadvantages:
+ * - Non-deterministic unless a seeded random generator is supplied
+ * - Usually selects more inputs than largest-first
+ *
+ * @since 2.0.0
+ * @category coin-selection
+ */
+export const makeRandomImproveSelection = (options: RandomImproveOptions = {}): CoinSelectionFunction => {
+  const random = options.random ?? Math.random
+
+  return (availableUtxos: ReadonlyArray<UTxO.UTxO>, requiredAssets: Assets.Assets): CoinSelectionResult => {
+    const pool = [...availableUtxos]
+    const selected: Array<UTxO.UTxO> = []
+    let accumulated = Assets.empty()
+
+    const select = (utxo: UTxO.UTxO) => {
+      selected.push(utxo)
+      accumulated = Assets.add(accumulated, utxo.assets)
+    }
+
+    const requiredUnits = Assets.getUnits(requiredAssets).filter((unit) => Assets.getAsset(requiredAssets, unit) > 0n)
+    const units = [...requiredUnits.filter((unit) => unit !== "lovelace"), ...requiredUnits.filter((unit) => unit === "lovelace")]
+
+    // Phase 1: random selection until every requirement is covered
+    for (const unit of units) {
+      const required = Assets.getAsset(requiredAssets, unit)
+      const candidates = pool.filter((utxo) => Assets.getAsset(utxo.assets, unit) > 0n)
+
+      while (Assets.getAsset(accumulated, unit) < required && candidates.length > 0) {
+        const utxo = takeRandom(candidates, random)
+        pool.splice(pool.indexOf(utxo), 1)
+        select(utxo)
+      }
+    }
+
+    assertCovered(accumulated, requiredAssets)
+
+    // Phase 2: improve each asset towards twice its requirement
+    for (const unit of units) {
+      const required = Assets.getAsset(requiredAssets, unit)
+      const ideal = required * 2n
+      const maximum = required * 3n
+      const candidates = pool.filter((utxo) => Assets.getAsset(utxo.assets, unit) > 0n)
+
+      while (candidates.length > 0) {
+        const utxo = takeRandom(candidates, random)
+        const current = Assets.getAsset(accumulated, unit)
+        const next = current + Assets.getAsset(utxo.assets, unit)
+
+        if (next > maximum || distance(next, ideal) >= distance(current, ideal)) {
+          break
         }
+
+        pool.splice(pool.indexOf(utxo), 1)
+        select(utxo)
+      }
+    }
+
+    return { selectedUtxos: selected }
+  }
+}
+
+/**
+ * Random-improve coin selection using Math.random.
+ *
+ * @since 2.0.0
+ * @category coin-selection
+ */
+export const randomImproveSelection: CoinSelectionFunction = makeRandomImproveSelection()
+
+// ============================================================================
+// Optimal Coin Selection Implementation (Branch-and-Bound)
+// ============================================================================
+
+/**
+ * Default number of branches explored by optimal selection before falling back to largest-first.
+ *
+ * @since 2.0.0
+ * @category coin-selection
+ */
+export const DEFAULT_OPTIMAL_MAX_ITERATIONS = 10_000
+
+// Approximate serialized size added by one more input (transaction hash and output index)
+const ESTIMATED_INPUT_BYTES = 40n
+
+/**
+ * Options for the optimal algorithm.
+ *
+ * @since 2.0.0
+ * @category coin-selection
+ */
+export interface OptimalSelectionOptions {
+  /** Branches explored before giving up and falling back to largest-first (default 10,000). */
+  readonly maxIterations?: number
+}
+
+interface SearchNode {
+  readonly index: number
+  readonly selection: ReadonlyArray<UTxO.UTxO>
+  readonly accumulated: Assets.Assets
+}
+
+/**
+ * Create an optimal coin selection function using branch-and-bound.
+ *
+ * Strategy:
+ * 1. Sort UTxOs by lovelace value (descending)
+ * 2. Explore include/exclude branches depth-first, skipping branches whose remaining
+ *    UTxOs cannot cover the requirement or whose input fees already exceed the best cost
+ * 3. Score every selection covering the requirement:
+ *    - input fee: minFeeCoefficient per estimated input byte
+ *    - change cost: the change output's minimum UTxO lovelace plus the fee for its bytes
+ *    - ADA-only excess cheaper than a change output is given up as fee (no change)
+ * 4. Return the cheapest selection, or the largest-first selection when none was found
+ *    within the iteration budget
+ *
+ * Advantages:
+ * - Finds exact matches that avoid a change output entirely
+ * - Minimizes fees and lovelace locked in change
+ *
+ * Disadvantages:
+ * - Slower than largest-first; bounded by maxIterations
+ * - Requires the fee coefficient and change output costs (provided by the builder)
+ *
+ * @since 2.0.0
+ * @category coin-selection
+ */
+export const makeOptimalSelection = (options: OptimalSelectionOptions = {}): CoinSelectionFunction => {
+  const maxIterations = options.maxIterations ?? DEFAULT_OPTIMAL_MAX_ITERATIONS
+
+  return (
+    availableUtxos: ReadonlyArray<UTxO.UTxO>,
+    requiredAssets: Assets.Assets,
+    context?: CoinSelectionContext
+  ): CoinSelectionResult => {
+    if (!context) {
+      throw new CoinSelectionError({
+        message: "Optimal coin selection requires the fee coefficient and change output costs"
       })
     }
+
+    const { changeOutputCost, minFeeCoefficient } = context
+    const inputFee = minFeeCoefficient * ESTIMATED_INPUT_BYTES
+
+    const sortedUtxos = [...availableUtxos].sort((a, b) => {
+      const aValue = Assets.getAsset(a.assets, "lovelace")
+      const bValue = Assets.getAsset(b.assets, "lovelace")
+      return bValue > aValue ? 1 : bValue < aValue ? -1 : 0
+    })
+
+    // remaining[i] holds the assets of sortedUtxos[i..]
+    const remaining: Array<Assets.Assets> = new Array(sortedUtxos.length + 1)
+    remaining[sortedUtxos.length] = Assets.empty()
+    for (let i = sortedUtxos.length - 1; i >= 0; i--) {
+      remaining[i] = Assets.add(remaining[i + 1], sortedUtxos[i].assets)
+    }
+    assertCovered(remaining[0], requiredAssets)
+
+    const covers = (accumulated: Assets.Assets): boolean =>
+      Assets.getUnits(requiredAssets).every(
+        (unit) => Assets.getAsset(accumulated, unit) >= Assets.getAsset(requiredAssets, unit)
+      )
+
+    // Many selections leave the same excess, so each distinct change output is costed once
+    const changeOutputCosts = new Map<string, ChangeOutputCost>()
+
+    // Minimum lovelace plus fee of a change output holding the excess, undefined when the excess cannot fund it
+    const changeCost = (excess: Assets.Assets): bigint | undefined => {
+      const key = Assets.getUnits(excess)
+        .sort()
+        .map((unit) => `${unit}:${Assets.getAsset(excess, unit)}`)
+        .join(",")
+      let cost = changeOutputCosts.get(key)
+      if (cost === undefined) {
+        cost = changeOutputCost(excess)
+        changeOutputCosts.set(key, cost)
+      }
+      if (Assets.getAsset(excess, "lovelace") < cost.minLovelace) return undefined
+      return cost.minLovelace + cost.fee
+    }
+
+    const score = (selection: ReadonlyArray<UTxO.UTxO>, accumulated: Assets.Assets): bigint | undefined => {
+      const excess = Assets.filter(Assets.subtract(accumulated, requiredAssets), (_unit, amount) => amount > 0n)
+      const fees = BigInt(selection.length) * inputFee
+      const change = changeCost(excess)
+
+      if (Assets.getUnits(excess).every((unit) => unit === "lovelace")) {
+        const excessLovelace = Assets.getAsset(excess, "lovelace")
+        return fees + (change === undefined || excessLovelace <= change ? excessLovelace : change)
+      }
+      return change === undefined ? undefined : fees + change
+    }
+
+    let best: { readonly selection: ReadonlyArray<UTxO.UTxO>; readonly cost: bigint } | undefined
+    let iterations = 0
+    const stack: Array<SearchNode> = [{ index: 0, selection: [], accumulated: Assets.empty() }]
+
+    while (stack.length > 0 && iterations < maxIterations) {
+      iterations++
+      const { accumulated, index, selection } = stack.pop()!
+
+      // Input fees only grow deeper in the tree
+      if (best && BigInt(selection.length) * inputFee >= best.cost) continue
+
+      if (selection.length > 0 && covers(accumulated)) {
+        const cost = score(selection, accumulated)
+        if (cost !== undefined) {
+          if (!best || cost < best.cost) best = { selection, cost }
+          continue
+        }
+      }
+
+      if (index >= sortedUtxos.length || !covers(Assets.add(accumulated, remaining[index]))) continue
+
+      const utxo = sortedUtxos[index]
+      // Push the exclusion branch first so the inclusion branch is explored first
+      stack.push({ index: index + 1, selection, accumulated })
+      stack.push({ index: index + 1, selection: [...selection, utxo], accumulated: Assets.add(accumulated, utxo.assets) })
+    }
+
+    return best ? { selectedUtxos: best.selection } : largestFirstSelection(availableUtxos, requiredAssets)
   }
-  
-  return { selectedUtxos: selected }
 }
+
+/**
+ * Optimal coin selection with the default iteration budget.
+ *
+ * @since 2.0.0
+ * @category coin-selection
+ */
+export const optimalSelection: CoinSelectionFunction = makeOptimalSelection()
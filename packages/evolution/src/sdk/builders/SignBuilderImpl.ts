@@ -5,7 +5,8 @@
  * The SignBuilder is responsible for:
  * 1. Providing the transaction and UTxO context to the wallet
  * 2. Managing the transition from unsigned to signed transaction
- * 3. Creating the SubmitBuilder for transaction submission
+ * 3. Merging and verifying witnesses collected from several signers (multi-signature)
+ * 4. Creating the SubmitBuilder for transaction submission
  * 
  * The actual signing logic (determining required signers, creating witnesses) 
  * is the wallet's responsibility.
@@ -16,8 +17,13 @@
 
 import { Effect } from "effect"
 
+import type * as BootstrapWitness from "../../core/BootstrapWitness.js"
+import * as Bytes from "../../core/Bytes.js"
+import * as PrivateKey from "../../core/PrivateKey.js"
 import * as Transaction from "../../core/Transaction.js"
-import type * as TransactionWitnessSet from "../../core/TransactionWitnessSet.js"
+import * as TransactionWitnessSet from "../../core/TransactionWitnessSet.js"
+import * as VKey from "../../core/VKey.js"
+import { hashTransaction } from "../../utils/Hash.js"
 import type * as Provider from "../provider/Provider.js"
 import type * as UTxO from "../UTxO.js"
 import type * as WalletNew from "../wallet/WalletNew.js"
@@ -25,6 +31,77 @@ import type { SignBuilder, SignBuilderEffect } from "./SignBuilder.js"
 import { makeSubmitBuilder } from "./SubmitBuilderImpl.js"
 import { TransactionBuilderError } from "./TransactionBuilder.js"
 
+// ============================================================================
+// Witness Helpers
+// ============================================================================
+
+/**
+ * Create a VKey witness for a transaction from a private key, e.g. one loaded from a key file.
+ *
+ * @since 2.0.0
+ * @category signing
+ */
+export const makeVKeyWitness = (
+  transaction: Transaction.Transaction,
+  privateKey: PrivateKey.PrivateKey
+): TransactionWitnessSet.VKeyWitness =>
+  new TransactionWitnessSet.VKeyWitness({
+    vkey: VKey.fromPrivateKey(privateKey),
+    signature: PrivateKey.sign(privateKey, hashTransaction(transaction.body).hash)
+  })
+
+/**
+ * Merge the key witnesses of several witness sets, keeping one witness per key.
+ */
+const mergeKeyWitnesses = (
+  witnessSets: ReadonlyArray<TransactionWitnessSet.TransactionWitnessSet>
+): TransactionWitnessSet.TransactionWitnessSet => {
+  const vkeyWitnesses = new Map<string, TransactionWitnessSet.VKeyWitness>()
+  const bootstrapWitnesses = new Map<string, BootstrapWitness.BootstrapWitness>()
+
+  for (const witnessSet of witnessSets) {
+    for (const witness of witnessSet.vkeyWitnesses ?? []) {
+      const key = VKey.toHex(witness.vkey)
+      if (!vkeyWitnesses.has(key)) vkeyWitnesses.set(key, witness)
+    }
+    for (const witness of witnessSet.bootstrapWitnesses ?? []) {
+      const key = VKey.toHex(witness.publicKey)
+      if (!bootstrapWitnesses.has(key)) bootstrapWitnesses.set(key, witness)
+    }
+  }
+
+  return new TransactionWitnessSet.TransactionWitnessSet({
+    vkeyWitnesses: vkeyWitnesses.size > 0 ? Array.from(vkeyWitnesses.values()) : undefined,
+    bootstrapWitnesses: bootstrapWitnesses.size > 0 ? Array.from(bootstrapWitnesses.values()) : undefined
+  })
+}
+
+/**
+ * Verify every key witness signature against the transaction body hash.
+ */
+const verifyKeyWitnesses = (
+  transaction: Transaction.Transaction,
+  witnessSet: TransactionWitnessSet.TransactionWitnessSet
+): Effect.Effect<void, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    const txHash = hashTransaction(transaction.body).hash
+    const signers = [
+      ...(witnessSet.vkeyWitnesses ?? []).map((witness) => ({ vkey: witness.vkey, signature: witness.signature })),
+      ...(witnessSet.bootstrapWitnesses ?? []).map((witness) => ({ vkey: witness.publicKey, signature: witness.signature }))
+    ]
+
+    for (const { signature, vkey } of signers) {
+      if (!VKey.verify(vkey, txHash, signature.bytes)) {
+        return yield* Effect.fail(
+          new TransactionBuilderError({
+            message: `Invalid signature for verification key ${VKey.toHex(vkey)}`,
+            cause: { vkey: VKey.toHex(vkey), txHash: Bytes.toHex(txHash) }
+          })
+        )
+      }
+    }
+  })
+
 // ============================================================================
 // SignBuilder Factory
 // ============================================================================
@@ -67,40 +144,68 @@ export const makeSignBuilder = (params: {
      */
     sign: () =>
       Effect.gen(function* () {
-        yield* Effect.logDebug("Starting transaction signing (delegating to wallet Effect)")
+        const witnessSet = yield* signEffect.partialSign()
+        return yield* signEffect.assemble([witnessSet])
+      }),
 
-        // Delegate to wallet's Effect.signTx with UTxO context
-        const witnessSet = yield* wallet.Effect.signTx(transaction, { utxos }).pipe(
-          Effect.mapError(
-            (walletError) =>
-              new TransactionBuilderError({ message: "Failed to sign transaction", cause: walletError })
-          )
-        )
+    signWithWitness: (witnessSet: TransactionWitnessSet.TransactionWitnessSet) => signEffect.assemble([witnessSet]),
 
-        yield* Effect.logDebug(`Received witness set from wallet: ${witnessSet.vkeyWitnesses?.length ?? 0} VKey witnesses`)
+    /**
+     * Merge witnesses collected from several signers into the transaction.
+     *
+     * Key witnesses are deduplicated by verification key and each signature is
+     * verified against the transaction body hash before the SubmitBuilder is returned.
+     * Scripts, redeemers and datums of the built witness set are kept.
+     */
+    assemble: (witnesses: ReadonlyArray<TransactionWitnessSet.TransactionWitnessSet>) =>
+      Effect.gen(function* () {
+        const collected = mergeKeyWitnesses(witnesses)
+        yield* verifyKeyWitnesses(transaction, collected)
+
+        const merged = mergeKeyWitnesses([transaction.witnessSet, collected])
+        yield* Effect.logDebug(
+          `Assembled ${merged.vkeyWitnesses?.length ?? 0} VKey witnesses from ${witnesses.length} witness set(s)`
+        )
 
-        // Create signed transaction by combining transaction body with witness set
         const signedTransaction = new Transaction.Transaction({
           body: transaction.body,
-          witnessSet,
+          witnessSet: new TransactionWitnessSet.TransactionWitnessSet({
+            ...transaction.witnessSet,
+            vkeyWitnesses: merged.vkeyWitnesses,
+            bootstrapWitnesses: merged.bootstrapWitnesses
+          }),
           isValid: transaction.isValid,
           auxiliaryData: transaction.auxiliaryData
         })
 
-        yield* Effect.logDebug("Transaction signed successfully")
-
-        // Return SubmitBuilder
-        return makeSubmitBuilder(signedTransaction, witnessSet, provider)
+        return makeSubmitBuilder(signedTransaction, collected, provider)
       }),
 
-    // TODO: Implement these methods
-    signWithWitness: (_witnessSet: TransactionWitnessSet.TransactionWitnessSet) =>
-      Effect.fail(new TransactionBuilderError({ message: "signWithWitness not yet implemented" })),
+    /**
+     * Sign with this builder's wallet and return only its witnesses, to be combined
+     * with the witnesses of other signers via assemble().
+     *
+     * The wallet will:
+     * 1. Determine which keys are required based on transaction inputs/outputs
+     * 2. Create VKey witnesses for each required signature
+     * 3. Return the witness set
+     */
+    partialSign: () =>
+      Effect.gen(function* () {
+        yield* Effect.logDebug("Starting transaction signing (delegating to wallet Effect)")
+
+        // Delegate to wallet's Effect.signTx with UTxO context
+        const witnessSet = yield* wallet.Effect.signTx(transaction, { utxos }).pipe(
+          Effect.mapError(
+            (walletError) =>
+              new TransactionBuilderError({ message: "Failed to sign transaction", cause: walletError })
+          )
+        )
 
-    assemble: (_witnesses: ReadonlyArray<TransactionWitnessSet.TransactionWitnessSet>) =>
-      Effect.fail(new TransactionBuilderError({ message: "assemble not yet implemented" })),
+        yield* Effect.logDebug(`Received witness set from wallet: ${witnessSet.vkeyWitnesses?.length ?? 0} VKey witnesses`)
 
-    partialSign: () => Effect.fail(new TransactionBuilderError({ message: "partialSign not yet implemented" })),
+        return witnessSet
+      }),
 
     getWitnessSet: () => Effect.succeed(transaction.witnessSet),
 
@@ -28,18 +28,55 @@
 import { Context, Data, Effect, Layer, Logger, LogLevel, Ref } from "effect"
 import type { Either } from "effect/Either"
 
+import * as Bytes from "../../core/Bytes.js"
+import type * as Certificate from "../../core/Certificate.js"
 import type * as Coin from "../../core/Coin.js"
+import * as CostModel from "../../core/CostModel.js"
+import type * as GovernanceAction from "../../core/GovernanceAction.js"
+import type * as Network from "../../core/Network.js"
+import type * as ProposalProcedure from "../../core/ProposalProcedure.js"
+import * as Redeemer from "../../core/Redeemer.js"
 import * as Transaction from "../../core/Transaction.js"
+import * as TransactionHash from "../../core/TransactionHash.js"
+import * as TransactionInput from "../../core/TransactionInput.js"
+import type * as TransactionMetadatum from "../../core/TransactionMetadatum.js"
+import * as TransactionOutput from "../../core/TransactionOutput.js"
+import type * as VotingProcedures from "../../core/VotingProcedures.js"
 import { runEffect } from "../../utils/effect-runtime.js"
+import { hashTransaction } from "../../utils/Hash.js"
 import type * as Assets from "../Assets.js"
 import type { EvalRedeemer } from "../EvalRedeemer.js"
+import type * as SdkProtocolParameters from "../ProtocolParameters.js"
 import type * as Provider from "../provider/Provider.js"
-import type * as UTxO from "../UTxO.js"
+import type * as RewardAddress from "../RewardAddress.js"
+import type * as Script from "../Script.js"
+import * as Time from "../Time.js"
+import * as UTxO from "../UTxO.js"
 import type * as WalletNew from "../wallet/WalletNew.js"
 import type { CoinSelectionAlgorithm, CoinSelectionFunction } from "./CoinSelection.js"
-import type { CollectFromParams, PayToAddressParams } from "./operations/Operations.js"
+import type {
+  AttachMetadataParams,
+  AttachScriptParams,
+  CollectFromParams,
+  DelegateToParams,
+  DelegateVoteParams,
+  DeregisterStakeParams,
+  MintTokensParams,
+  PayToAddressParams,
+  ProposeParams,
+  ReadFromParams,
+  RegisterDRepParams,
+  RegisterStakeParams,
+  RetireDRepParams,
+  UpdateDRepParams,
+  ValidityParams,
+  VoteParams,
+  WithdrawParams
+} from "./operations/Operations.js"
 import { executeBalance } from "./phases/Balance.js"
 import { executeChangeCreation } from "./phases/ChangeCreation.js"
+import { executeCollateral } from "./phases/Collateral.js"
+import { executeEvaluation } from "./phases/Evaluation.js"
 import { executeFallback } from "./phases/Fallback.js"
 import { executeFeeCalculation } from "./phases/FeeCalculation.js"
 import { executeSelection } from "./phases/Selection.js"
@@ -52,8 +89,27 @@ import {
   buildFakeWitnessSet,
   buildTransactionInputs,
   calculateTransactionSize,
+  computeScriptHash,
+  createAttachMetadataProgram,
+  createAttachScriptProgram,
+  createBurnAssetsProgram,
   createCollectFromProgram,
-  createPayToAddressProgram
+  createDelegateToProgram,
+  createDelegateVoteProgram,
+  createDeregisterStakeProgram,
+  createMintAssetsProgram,
+  createPayToAddressProgram,
+  createProposeProgram,
+  createReadFromProgram,
+  createRegisterDRepProgram,
+  createRegisterStakeProgram,
+  createRetireDRepProgram,
+  createUpdateDRepProgram,
+  createValidFromProgram,
+  createValidToProgram,
+  createVoteProgram,
+  createWithdrawProgram,
+  txOutputToTransactionOutput
 } from "./TxBuilderImpl.js"
 
 /**
@@ -70,7 +126,15 @@ export class TransactionBuilderError extends Data.TaggedError("TransactionBuilde
 /**
  * Build phases
  */
-type Phase = "selection" | "changeCreation" | "feeCalculation" | "balance" | "fallback" | "complete"
+type Phase =
+  | "selection"
+  | "changeCreation"
+  | "feeCalculation"
+  | "balance"
+  | "evaluation"
+  | "collateral"
+  | "fallback"
+  | "complete"
 
 /**
  * BuildContext - state machine context
@@ -93,12 +157,34 @@ export class PhaseContextTag extends Context.Tag("PhaseContextTag")<PhaseContext
 const initialTxBuilderState: TxBuilderState = {
   selectedUtxos: [],
   outputs: [],
+  referenceInputs: [],
   scripts: new Map(),
+  referenceScripts: new Map(),
+  walletScripts: new Map(),
+  mint: { lovelace: 0n },
+  certificates: [],
+  withdrawals: new Map(),
+  validityInterval: {},
+  votes: [],
+  proposals: [],
+  metadata: new Map(),
   totalOutputAssets: { lovelace: 0n },
   totalInputAssets: { lovelace: 0n },
-  redeemers: new Map()
+  redeemers: new Map(),
+  datums: new Map()
 }
 
+/**
+ * Convert provider cost models (parameter name or index → cost) to core CostModels.
+ * Costs are taken in the provider's key order.
+ */
+const toCostModels = (costModels: SdkProtocolParameters.ProtocolParameters["costModels"]): CostModel.CostModels =>
+  new CostModel.CostModels({
+    PlutusV1: new CostModel.CostModel({ costs: Object.values(costModels.PlutusV1).map(BigInt) }),
+    PlutusV2: new CostModel.CostModel({ costs: Object.values(costModels.PlutusV2).map(BigInt) }),
+    PlutusV3: new CostModel.CostModel({ costs: Object.values(costModels.PlutusV3).map(BigInt) })
+  })
+
 /**
  * Resolve protocol parameters from options, provider, or fail.
  * Priority: BuildOptions override > provider.getProtocolParameters() > error
@@ -118,7 +204,18 @@ const resolveProtocolParameters = (
         minFeeCoefficient: BigInt(params.minFeeA),
         minFeeConstant: BigInt(params.minFeeB),
         coinsPerUtxoByte: params.coinsPerUtxoByte,
-        maxTxSize: params.maxTxSize
+        maxTxSize: params.maxTxSize,
+        keyDeposit: params.keyDeposit,
+        drepDeposit: params.drepDeposit,
+        govActionDeposit: params.govActionDeposit,
+        minFeeRefScriptCostPerByte: params.minFeeRefScriptCostPerByte,
+        costModels: toCostModels(params.costModels),
+        priceMem: params.priceMem,
+        priceStep: params.priceStep,
+        maxTxExMem: params.maxTxExMem,
+        maxTxExSteps: params.maxTxExSteps,
+        collateralPercentage: params.collateralPercentage,
+        maxCollateralInputs: params.maxCollateralInputs
       })
     )
   }
@@ -132,6 +229,83 @@ const resolveProtocolParameters = (
   )
 }
 
+/**
+ * Resolve the slot configuration used to convert POSIX times to slots.
+ * Priority: BuildOptions override > config.slotConfig > config.network > undefined
+ */
+const resolveSlotConfig = (config: TxBuilderConfig, options?: BuildOptions): Time.SlotConfig | undefined => {
+  if (options?.slotConfig !== undefined) return options.slotConfig
+  if (config.slotConfig !== undefined) return config.slotConfig
+  if (config.network !== undefined && config.network !== "Custom") return Time.SLOT_CONFIG_NETWORK[config.network]
+  return undefined
+}
+
+/**
+ * Resolve how scripts are evaluated for this build.
+ * Priority: BuildOptions.evaluator > provider.evaluateTx() > undefined
+ *
+ * A custom evaluator receives the cost models, execution limits and slot
+ * configuration; these are only required once a script is actually evaluated.
+ */
+const resolveScriptEvaluator = (
+  config: TxBuilderConfig,
+  options: BuildOptions | undefined,
+  protocolParameters: ProtocolParameters,
+  slotConfig: Time.SlotConfig | undefined
+): ScriptEvaluator | undefined => {
+  const encodeTransaction = (transaction: Transaction.Transaction) =>
+    Effect.try({
+      try: () => Transaction.toCBORHex(transaction),
+      catch: (error) => new EvaluationError({ message: "Failed to encode transaction for evaluation", cause: error })
+    })
+
+  if (options?.evaluator !== undefined) {
+    const evaluator = options.evaluator
+    return (transaction, additionalUtxos) =>
+      Effect.gen(function* () {
+        const { costModels, maxTxExMem, maxTxExSteps } = protocolParameters
+        if (costModels === undefined || maxTxExMem === undefined || maxTxExSteps === undefined) {
+          return yield* Effect.fail(
+            new EvaluationError({
+              message: "Script evaluation requires costModels, maxTxExMem and maxTxExSteps protocol parameters",
+              cause: null
+            })
+          )
+        }
+        if (slotConfig === undefined) {
+          return yield* Effect.fail(
+            new EvaluationError({
+              message: "Script evaluation requires a slot config. Provide slotConfig or a public network in config.",
+              cause: null
+            })
+          )
+        }
+        const encodedCostModels = yield* Effect.try({
+          try: () => CostModel.toCBOR(costModels),
+          catch: (error) => new EvaluationError({ message: "Failed to encode cost models", cause: error })
+        })
+        return yield* evaluator.evaluate(yield* encodeTransaction(transaction), additionalUtxos, {
+          costModels: encodedCostModels,
+          maxTxExMem,
+          maxTxExSteps,
+          slotConfig
+        })
+      })
+  }
+
+  if (config.provider) {
+    const provider = config.provider
+    return (transaction, additionalUtxos) =>
+      Effect.flatMap(encodeTransaction(transaction), (tx) =>
+        provider.Effect.evaluateTx(tx, [...additionalUtxos]).pipe(
+          Effect.mapError((error) => new EvaluationError({ message: "Provider failed to evaluate transaction", cause: error }))
+        )
+      )
+  }
+
+  return undefined
+}
+
 /**
  * Resolve change address from options, wallet, or fail.
  * Priority: BuildOptions override > wallet.address() > error
@@ -158,7 +332,7 @@ const resolveChangeAddress = (
 
 /**
  * Resolve available UTxOs from options, provider+wallet, or fail.
- * Priority: BuildOptions override > provider.getUtxos(wallet.address) > error
+ * Priority: BuildOptions override > wallet.utxos() > provider.getUtxos(wallet.address) > error
  */
 const resolveAvailableUtxos = (
   config: TxBuilderConfig,
@@ -171,6 +345,10 @@ const resolveAvailableUtxos = (
     return Effect.succeed(options.availableUtxos)
   }
 
+  if (config.wallet?.Effect.utxos) {
+    return config.wallet.Effect.utxos()
+  }
+
   if (config.wallet && config.provider) {
     return Effect.flatMap(config.wallet.Effect.address(), (addr) => config.provider!.Effect.getUtxos(addr))
   }
@@ -206,7 +384,7 @@ const assembleFinalResult = (
         transaction,
         transactionWithFakeWitnesses: txWithFakeWitnesses,
         fee: buildCtx.calculatedFee,
-        utxos: state.selectedUtxos,
+        utxos: [...state.selectedUtxos, ...(state.collateral?.inputs ?? [])],
         provider: config.provider!,
         wallet
       })
@@ -229,6 +407,8 @@ const phaseMap = {
   changeCreation: executeChangeCreation,
   feeCalculation: executeFeeCalculation,
   balance: executeBalance,
+  evaluation: executeEvaluation,
+  collateral: executeCollateral,
   fallback: executeFallback
 }
 
@@ -272,7 +452,7 @@ const assembleAndValidateTransaction = Effect.gen(function* () {
     body: transaction.body,
     witnessSet: fakeWitnessSet,
     isValid: true,
-    auxiliaryData: null
+    auxiliaryData: transaction.auxiliaryData
   })
 
   const txSizeWithWitnesses = yield* calculateTransactionSize(txWithFakeWitnesses)
@@ -340,63 +520,132 @@ const DEFAULT_BUILD_OPTIONS = {
   setCollateral: 5_000_000n
 } as const
 
-const buildEffectCore = (
+/**
+ * Run all programs and the phase state machine, returning the balanced transaction
+ * together with the resolved change address and available UTxOs.
+ */
+const buildTransactionCore = (
   config: TxBuilderConfig,
   programs: Array<ProgramStep>,
-  options: BuildOptions = DEFAULT_BUILD_OPTIONS
+  options: BuildOptions
 ) =>
   Effect.gen(function* () {
     // Resolve all required resources
     const protocolParameters = yield* resolveProtocolParameters(config, options)
+    const slotConfig = resolveSlotConfig(config, options)
     const changeAddress = yield* resolveChangeAddress(config, options)
     const availableUtxos = yield* resolveAvailableUtxos(config, options)
+    const scriptEvaluator = resolveScriptEvaluator(config, options, protocolParameters, slotConfig)
+
+    // A native-script wallet's script is witnessed only if the transaction needs it
+    if (config.wallet?.Effect.nativeScript) {
+      const walletScript = yield* config.wallet.Effect.nativeScript()
+      const scriptHash = yield* computeScriptHash(walletScript)
+      yield* Ref.update(yield* TxContext, (state) => ({
+        ...state,
+        walletScripts: new Map([[scriptHash, walletScript]])
+      }))
+    }
 
     // Execute all programs
-    yield* Effect.all(programs, { concurrency: "unbounded" })
+    yield* Effect.all(programs, { concurrency: "unbounded" }).pipe(
+      Effect.provideService(ProtocolParametersTag, protocolParameters),
+      Effect.provideService(SlotConfigTag, slotConfig)
+    )
 
     // Run state machine with resolved services
     const { transaction, txWithFakeWitnesses } = yield* phaseStateMachine.pipe(
       Effect.provideService(ProtocolParametersTag, protocolParameters),
       Effect.provideService(ChangeAddressTag, changeAddress),
-      Effect.provideService(AvailableUtxosTag, availableUtxos)
+      Effect.provideService(AvailableUtxosTag, availableUtxos),
+      Effect.provideService(ScriptEvaluatorTag, scriptEvaluator)
+    )
+
+    return { transaction, txWithFakeWitnesses, changeAddress, availableUtxos }
+  })
+
+/**
+ * Provide fresh builder state, phase context and build options to a build run.
+ */
+const provideBuildContext =
+  (options: BuildOptions) =>
+  <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+    effect.pipe(
+      Effect.provideServiceEffect(
+        TxContext,
+        Ref.make(initialTxBuilderState)
+      ),
+      Effect.provideService(BuildOptionsTag, options),
+      Effect.provideServiceEffect(
+        PhaseContextTag,
+        Ref.make<PhaseContext>({
+          phase: "selection",
+          attempt: 0,
+          calculatedFee: 0n,
+          shortfall: 0n,
+          changeOutputs: [],
+          leftoverAfterFee: { lovelace: 0n },
+          canUnfrack: options?.unfrack !== undefined
+        })
+      )
     )
 
+const buildEffectCore = (
+  config: TxBuilderConfig,
+  programs: Array<ProgramStep>,
+  options: BuildOptions = DEFAULT_BUILD_OPTIONS
+) =>
+  Effect.gen(function* () {
+    const { transaction, txWithFakeWitnesses } = yield* buildTransactionCore(config, programs, options)
+
     // Assemble and return final result
     return yield* assembleFinalResult(config, transaction, txWithFakeWitnesses)
-  }).pipe(
-    Effect.provideServiceEffect(
-      TxContext,
-      Ref.make(initialTxBuilderState)
-    ),
-    Effect.provideService(BuildOptionsTag, options),
-    Effect.provideServiceEffect(
-      PhaseContextTag,
-      Ref.make<PhaseContext>({
-        phase: "selection",
-        attempt: 0,
-        calculatedFee: 0n,
-        shortfall: 0n,
-        changeOutputs: [],
-        leftoverAfterFee: { lovelace: 0n },
-        canUnfrack: options?.unfrack !== undefined
-      })
-    )
-  )
+  }).pipe(provideBuildContext(options))
+
+/**
+ * Derive the UTxOs created and consumed by a built transaction.
+ *
+ * Outputs are indexed in transaction order under the body hash. New outputs sent to
+ * the change address or to an address of the available UTxOs are added to the
+ * updated UTxO set, so the next builder can spend them before submission.
+ * Collateral is not counted as spent since it is only consumed when scripts fail.
+ */
+const assembleChainResult = (
+  transaction: Transaction.Transaction,
+  changeAddress: string,
+  availableUtxos: ReadonlyArray<UTxO.UTxO>
+): Effect.Effect<ChainResult, never, TxContext> =>
+  Effect.gen(function* () {
+    const stateRef = yield* TxContext
+    const state = yield* Ref.get(stateRef)
+
+    const txHash = TransactionHash.toHex(hashTransaction(transaction.body))
+    const newOutputs = state.outputs.map((output, index) => UTxO.toUTxO(output, txHash, index))
+
+    const spentUtxos = state.selectedUtxos
+    const spentKeys = new Set(spentUtxos.map((utxo) => `${utxo.txHash}#${utxo.outputIndex}`))
+    const walletAddresses = new Set([changeAddress, ...availableUtxos.map((utxo) => utxo.address)])
+
+    const updatedUtxos = [
+      ...availableUtxos.filter((utxo) => !spentKeys.has(`${utxo.txHash}#${utxo.outputIndex}`)),
+      ...newOutputs.filter((utxo) => walletAddresses.has(utxo.address))
+    ]
+
+    return { transaction, txHash, newOutputs, updatedUtxos, spentUtxos }
+  })
 
 // Core Effect logic for chaining
 const chainEffectCore = (
   config: TxBuilderConfig,
   programs: Array<ProgramStep>,
-  _options: BuildOptions = DEFAULT_BUILD_OPTIONS
+  options: BuildOptions = DEFAULT_BUILD_OPTIONS
 ) =>
   Effect.gen(function* () {
-    // Chain logic: Execute programs and return intermediate state
-    return {} as ChainResult
+    const { availableUtxos, changeAddress, transaction } = yield* buildTransactionCore(config, programs, options)
+
+    return yield* assembleChainResult(transaction, changeAddress, availableUtxos)
   }).pipe(
-    Effect.provideServiceEffect(
-      TxContext,
-      Ref.make(initialTxBuilderState)
-    ),
+    provideBuildContext(options),
     Effect.mapError(
       (error) =>
         new TransactionBuilderError({
@@ -410,11 +659,17 @@ const chainEffectCore = (
 const buildPartialEffectCore = (
   config: TxBuilderConfig,
   programs: Array<ProgramStep>,
-  _options: BuildOptions = DEFAULT_BUILD_OPTIONS
+  options: BuildOptions = DEFAULT_BUILD_OPTIONS
 ) =>
   Effect.gen(function* () {
+    const protocolParameters = yield* resolveProtocolParameters(config, options)
+    const slotConfig = resolveSlotConfig(config, options)
+
     // Execute all programs
-    yield* Effect.all(programs, { concurrency: "unbounded" })
+    yield* Effect.all(programs, { concurrency: "unbounded" }).pipe(
+      Effect.provideService(ProtocolParametersTag, protocolParameters),
+      Effect.provideService(SlotConfigTag, slotConfig)
+    )
 
     // Return partial transaction (without evaluation)
     return {} as Transaction.Transaction
@@ -435,15 +690,15 @@ const buildPartialEffectCore = (
 /**
  * Result type for transaction chaining operations.
  *
- * **NOTE: NOT YET IMPLEMENTED** - This interface is reserved for future implementation
- * of multi-transaction workflows. Current chain methods return stub implementations.
+ * Pass `updatedUtxos` as `availableUtxos` to the next builder to spend the outputs
+ * of this transaction before it is submitted or confirmed.
  *
  * @since 2.0.0
  * @category model
- * @experimental
  */
 export interface ChainResult {
   readonly transaction: Transaction.Transaction
+  readonly txHash: string // Hash of the transaction body, referenced by the new outputs
   readonly newOutputs: ReadonlyArray<UTxO.UTxO> // UTxOs created by this transaction
   readonly updatedUtxos: ReadonlyArray<UTxO.UTxO> // Available UTxOs for next transaction (original - spent + new)
   readonly spentUtxos: ReadonlyArray<UTxO.UTxO> // UTxOs consumed by this transaction
@@ -452,17 +707,12 @@ export interface ChainResult {
 // ============================================================================
 // Evaluator Interface - Generic abstraction for script evaluation
 // ============================================================================
-// NOTE: These interfaces are reserved for future UPLC script evaluation support.
-// The createUPLCEvaluator function currently returns dummy data and is not yet implemented.
 
 /**
  * Data required by script evaluators: cost models, execution limits, and slot configuration.
  *
- * **NOTE: NOT YET IMPLEMENTED** - Reserved for future UPLC script evaluation support.
- *
  * @since 2.0.0
  * @category model
- * @experimental
  */
 export interface EvaluationContext {
   /** Cost models for script evaluation */
@@ -472,22 +722,16 @@ export interface EvaluationContext {
   /** Maximum execution memory allowed */
   readonly maxTxExMem: bigint
   /** Slot configuration for time-based operations */
-  readonly slotConfig: {
-    readonly zeroTime: bigint
-    readonly zeroSlot: bigint
-    readonly slotLength: number
-  }
+  readonly slotConfig: Time.SlotConfig
 }
 
 /**
  * Interface for evaluating transaction scripts and computing execution units.
- *
- * **NOTE: NOT YET IMPLEMENTED** - Reserved for future custom script evaluation support.
- * When implemented, this will enable custom evaluation strategies including local UPLC execution.
+ * Set BuildOptions.evaluator to use it instead of the provider's evaluateTx,
+ * e.g. for local UPLC execution.
  *
  * @since 2.0.0
  * @category model
- * @experimental
  */
 export interface Evaluator {
   /**
@@ -506,15 +750,14 @@ export interface Evaluator {
 /**
  * Error type for failures in script evaluation.
  *
- * **NOTE: NOT YET IMPLEMENTED** - Reserved for future script evaluation error handling.
- *
  * @since 2.0.0
  * @category errors
- * @experimental
  */
 export class EvaluationError extends Data.TaggedError("EvaluationError")<{
   readonly cause: unknown
   readonly message?: string
+  /** Script trace messages emitted before evaluation failed, when the evaluator reports them */
+  readonly logs?: ReadonlyArray<string>
 }> {}
 
 // ============================================================================
@@ -522,13 +765,17 @@ export class EvaluationError extends Data.TaggedError("EvaluationError")<{
 // ============================================================================
 
 /**
- * Standard UPLC evaluation function signature (matches UPLC.eval_phase_two_raw).
+ * Standard UPLC evaluation function signature (matches `eval_phase_two_raw` of `@lucid-evolution/uplc`).
  *
- * **NOTE: NOT YET IMPLEMENTED** - Reserved for future UPLC evaluation support.
+ * Runs phase-2 validation of every redeemer in the transaction. UTxOs spent or
+ * referenced by the transaction are passed as parallel arrays of CBOR encoded
+ * inputs (`utxos_bytes_x`) and outputs (`utxos_bytes_y`). The budget is given as
+ * (steps, memory) and the slot config as (zeroTime, zeroSlot, slotLength).
+ * Returns each evaluated redeemer as CBOR `[tag, index, data, [mem, steps]]`
+ * and throws when a script fails.
  *
  * @since 2.0.0
  * @category types
- * @experimental
  */
 export type UPLCEvalFunction = (
   tx_bytes: Uint8Array,
@@ -542,40 +789,125 @@ export type UPLCEvalFunction = (
   slot_config_z: number
 ) => Array<Uint8Array>
 
+// Redeemers use the CDDL tag names; evaluators report the ledger's script purpose names
+const EVAL_REDEEMER_TAGS: Record<Redeemer.RedeemerTag, EvalRedeemer["redeemer_tag"]> = {
+  spend: "spend",
+  mint: "mint",
+  cert: "publish",
+  reward: "withdraw",
+  vote: "vote",
+  propose: "propose"
+}
+
+const encodeUtxo = (utxo: UTxO.UTxO) =>
+  Effect.gen(function* () {
+    const input = yield* Effect.try(() =>
+      TransactionInput.toCBORBytes(
+        new TransactionInput.TransactionInput({
+          transactionId: TransactionHash.fromHex(utxo.txHash),
+          index: BigInt(utxo.outputIndex)
+        })
+      )
+    )
+    const output = yield* txOutputToTransactionOutput({
+      address: utxo.address,
+      assets: utxo.assets,
+      datum: utxo.datumOption,
+      scriptRef: utxo.scriptRef
+    })
+    return [input, yield* Effect.try(() => TransactionOutput.toCBORBytes(output))] as const
+  }).pipe(
+    Effect.mapError(
+      (error) =>
+        new EvaluationError({ message: `Failed to encode UTxO ${utxo.txHash}#${utxo.outputIndex}`, cause: error })
+    )
+  )
+
+const decodeEvalRedeemer = (bytes: Uint8Array): EvalRedeemer => {
+  const redeemer = Redeemer.fromCBORBytes(bytes)
+  return {
+    ex_units: { mem: Number(redeemer.exUnits[0]), steps: Number(redeemer.exUnits[1]) },
+    redeemer_index: Number(redeemer.index),
+    redeemer_tag: EVAL_REDEEMER_TAGS[redeemer.tag]
+  }
+}
+
 /**
- * Creates an evaluator from a standard UPLC evaluation function.
+ * Extract script traces from an evaluation failure: a `logs` array on the thrown
+ * value, or the `Trace <message>` lines UPLC machines append to their error text.
+ */
+const traceLogs = (error: unknown): ReadonlyArray<string> => {
+  if (typeof error === "object" && error !== null && "logs" in error && Array.isArray(error.logs)) {
+    return error.logs.map(String)
+  }
+  const text = error instanceof Error ? error.message : String(error)
+  return text
+    .split("\n")
+    .map((line) => /^\s*Trace\s(.*)$/.exec(line)?.[1])
+    .filter((trace): trace is string => trace !== undefined)
+}
+
+// The bundled UPLC machine (Aiken's, compiled to WebAssembly) is loaded on first
+// evaluation, so builds that never evaluate locally do not instantiate it
+const loadUPLCMachine = Effect.tryPromise({
+  try: () => import("@lucid-evolution/uplc").then((uplc): UPLCEvalFunction => uplc.eval_phase_two_raw),
+  catch: (error) => new EvaluationError({ message: "Failed to load the UPLC machine", cause: error })
+})
+
+/**
+ * Creates an evaluator that runs phase-2 validation locally, so scripts are
+ * evaluated without the provider's `evaluateTx`.
+ *
+ * By default scripts run on the UPLC machine bundled with the SDK. Pass another
+ * standard UPLC evaluation function to use a different machine.
  *
- * **NOTE: NOT YET IMPLEMENTED** - This function currently returns an evaluator
- * that produces dummy data. Reserved for future UPLC script evaluation support.
+ * The whole transaction is evaluated against the UTxOs it spends and references,
+ * the cost models and the slot config, within the maximum transaction budget.
+ * A failing script yields an EvaluationError carrying its trace logs.
+ *
+ * @example
+ * ```typescript
+ * const tx = await builder.build({ evaluator: createUPLCEvaluator() })
+ * ```
  *
  * @since 2.0.0
  * @category evaluators
- * @experimental
  */
-export const createUPLCEvaluator = (_evalFunction: UPLCEvalFunction): Evaluator => ({
-  evaluate: (_tx: string, _additionalUtxos: ReadonlyArray<UTxO.UTxO> | undefined, _context: EvaluationContext) =>
+export const createUPLCEvaluator = (evalFunction?: UPLCEvalFunction): Evaluator => ({
+  evaluate: (tx: string, additionalUtxos: ReadonlyArray<UTxO.UTxO> | undefined, context: EvaluationContext) =>
     Effect.gen(function* () {
-      // Implementation: Call UPLC evaluation with provided parameters
-      // _evalFunction(
-      //   fromHex(_tx),
-      //   utxosToInputBytes(_additionalUtxos),
-      //   utxosToOutputBytes(_additionalUtxos),
-      //   _context.costModels,
-      //   _context.maxTxExSteps,
-      //   _context.maxTxExMem,
-      //   _context.slotConfig.zeroTime,
-      //   _context.slotConfig.zeroSlot,
-      //   _context.slotConfig.slotLength
-      // )
-
-      // Return dummy EvalRedeemer for now
-      const dummyEvalRedeemer: EvalRedeemer = {
-        ex_units: { mem: 1000000, steps: 5000000 },
-        redeemer_index: 0,
-        redeemer_tag: "spend"
-      }
-
-      return [dummyEvalRedeemer] as const
+      const txBytes = yield* Effect.try({
+        try: () => Bytes.fromHex(tx),
+        catch: (error) => new EvaluationError({ message: "Transaction is not valid hex", cause: error })
+      })
+      const utxos = yield* Effect.forEach(additionalUtxos ?? [], encodeUtxo)
+      const evaluate = evalFunction ?? (yield* loadUPLCMachine)
+
+      const results = yield* Effect.try({
+        try: () =>
+          evaluate(
+            txBytes,
+            utxos.map(([input]) => input),
+            utxos.map(([, output]) => output),
+            context.costModels,
+            context.maxTxExSteps,
+            context.maxTxExMem,
+            context.slotConfig.zeroTime,
+            context.slotConfig.zeroSlot,
+            context.slotConfig.slotLength
+          ),
+        catch: (error) =>
+          new EvaluationError({
+            message: `Script evaluation failed: ${error instanceof Error ? error.message : String(error)}`,
+            cause: error,
+            logs: traceLogs(error)
+          })
+      })
+
+      return yield* Effect.try({
+        try: () => results.map(decodeEvalRedeemer),
+        catch: (error) => new EvaluationError({ message: "Failed to decode evaluated redeemers", cause: error })
+      })
     })
 })
 
@@ -681,8 +1013,8 @@ export interface BuildOptions {
    *
    * Options:
    * - `"largest-first"`: Use largest-first algorithm (DEFAULT)
-   * - `"random-improve"`: Use random-improve algorithm (not yet implemented)
-   * - `"optimal"`: Use optimal algorithm (not yet implemented)
+   * - `"random-improve"`: Use CIP-2 random-improve algorithm (use makeRandomImproveSelection for a seeded generator)
+   * - `"optimal"`: Use branch-and-bound selection minimizing fees and change (use makeOptimalSelection to tune the iteration budget)
    * - Custom function: Provide your own CoinSelectionFunction
    * - `undefined`: Use default (largest-first)
    *
@@ -696,6 +1028,22 @@ export interface BuildOptions {
    */
   readonly coinSelection?: CoinSelectionAlgorithm | CoinSelectionFunction
 
+  /**
+   * Override the slot configuration for this specific transaction build.
+   *
+   * By default, uses TxBuilderConfig.slotConfig or the configuration of
+   * TxBuilderConfig.network. Needed only when validFrom/validTo are given POSIX times.
+   *
+   * Example:
+   * ```typescript
+   * // Devnet started from a custom Shelley genesis
+   * builder.build({ slotConfig: Time.fromShelleyGenesis(shelleyGenesis) })
+   * ```
+   *
+   * @since 2.0.0
+   */
+  readonly slotConfig?: Time.SlotConfig
+
   // ============================================================================
   // Change Handling Configuration
   // ============================================================================
@@ -728,7 +1076,8 @@ export interface BuildOptions {
   /**
    * Override the available UTxOs for this specific transaction build.
    *
-   * By default, fetches UTxOs from provider.Effect.getUtxos(wallet.address).
+   * By default, fetches UTxOs from provider.Effect.getUtxos(wallet.address),
+   * or from wallet.Effect.utxos() for multi-address wallets.
    * Provide this to use a specific set of UTxOs for coin selection.
    *
    * Use cases:
@@ -826,12 +1175,12 @@ export interface BuildOptions {
   readonly onInsufficientChange?: "error" | "burn"
 
   // Script evaluator - if provided, replaces the default provider-based evaluation
-  // Use createUPLCEvaluator() for UPLC libraries, or implement Evaluator directly
+  // Use createUPLCEvaluator() to evaluate locally, or implement Evaluator directly
   readonly evaluator?: Evaluator
 
-  // Collateral handling
-  readonly collateral?: ReadonlyArray<UTxO.UTxO> // Manual collateral (max 3)
-  // Amount to set as collateral default 5_000_000n
+  // Collateral handling (only used when the transaction executes Plutus scripts)
+  readonly collateral?: ReadonlyArray<UTxO.UTxO> // Manual collateral, up to maxCollateralInputs (default: picked from available UTxOs)
+  // Minimum lovelace to lock in automatically picked collateral inputs, default 5_000_000n; the excess is returned
   readonly setCollateral?: bigint
   // Minimum fee
   readonly minFee?: Coin.Coin
@@ -911,13 +1260,42 @@ export interface ProtocolParameters {
   /** Maximum transaction size in bytes */
   maxTxSize: number
 
+  /** Stake key deposit (required when registering or deregistering stake credentials) */
+  keyDeposit?: bigint
+
+  /** DRep deposit (required when registering or retiring a DRep) */
+  drepDeposit?: bigint
+
+  /** Governance action deposit (required when submitting proposals) */
+  govActionDeposit?: bigint
+
+  /** Base fee per byte of reference scripts, growing by 1.2x every 25 KiB (no reference script fee when omitted) */
+  minFeeRefScriptCostPerByte?: number
+
+  /** Cost models per Plutus language (required for the script data hash of Plutus transactions) */
+  costModels?: CostModel.CostModels
+
+  /** Price of one memory unit of script execution (required when scripts are executed) */
+  priceMem?: number
+
+  /** Price of one CPU step of script execution (required when scripts are executed) */
+  priceStep?: number
+
+  /** Maximum execution memory per transaction (passed to the script evaluator) */
+  maxTxExMem?: bigint
+
+  /** Maximum execution steps per transaction (passed to the script evaluator) */
+  maxTxExSteps?: bigint
+
+  /** Collateral required as a percentage of the fee (required when scripts are executed) */
+  collateralPercentage?: number
+
+  /** Maximum number of collateral inputs (defaults to 3) */
+  maxCollateralInputs?: number
+
   // Future fields for advanced features:
   // maxBlockHeaderSize?: number
-  // maxTxExecutionUnits?: ExUnits
   // maxBlockExecutionUnits?: ExUnits
-  // collateralPercentage?: number
-  // maxCollateralInputs?: number
-  // prices?: Prices
 }
 
 /**
@@ -964,6 +1342,18 @@ export interface TxBuilderConfig {
    */
   readonly provider?: Provider.Provider
 
+  /**
+   * Optional network, selecting the slot configuration used by validFrom/validTo
+   * to convert POSIX times to slots. "Custom" networks need slotConfig instead.
+   */
+  readonly network?: Network.Network
+
+  /**
+   * Optional slot configuration for networks without a built-in one (devnets).
+   * Takes precedence over network. Override per-build via BuildOptions.slotConfig.
+   */
+  readonly slotConfig?: Time.SlotConfig
+
   // Future fields:
   // readonly costModels?: Uint8Array // Cost models for script evaluation
 }
@@ -1008,10 +1398,36 @@ export interface TxBuilderConfig {
 export interface TxBuilderState {
   readonly selectedUtxos: ReadonlyArray<UTxO.UTxO> // SDK type: Array for ordering, converted at build
   readonly outputs: ReadonlyArray<UTxO.TxOutput> // Transaction outputs (no txHash/outputIndex yet)
-  readonly scripts: Map<string, any> // Scripts attached to the transaction
+  readonly referenceInputs: ReadonlyArray<UTxO.UTxO> // UTxOs read but not spent (reference inputs)
+  readonly scripts: Map<string, Script.Script> // Scripts attached to the transaction, keyed by script hash
+  readonly referenceScripts: ReadonlyMap<string, Script.Script> // Scripts carried by reference inputs, keyed by script hash
+  readonly walletScripts: ReadonlyMap<string, Script.Script> // Scripts locking the wallet's address, witnessed only when spent
+  readonly mint: Assets.Assets // Signed mint amounts per unit (negative = burn), converted to core Mint at build
+  readonly certificates: ReadonlyArray<Certificate.Certificate> // Certificates in body order
+  readonly withdrawals: ReadonlyMap<RewardAddress.RewardAddress, bigint> // Reward withdrawals keyed by reward address
+  readonly validityInterval: { readonly from?: bigint; readonly to?: bigint } // Validity bounds as slots (to = ttl)
+  readonly votes: ReadonlyArray<VoteData> // Governance votes, grouped per voter into VotingProcedures at build
+  readonly proposals: ReadonlyArray<ProposalProcedure.ProposalProcedure> // Governance proposals in body order
+  readonly metadata: ReadonlyMap<bigint, TransactionMetadatum.TransactionMetadatum> // Auxiliary data metadata keyed by label
   readonly totalOutputAssets: Assets.Assets // Asset totals for balancing
   readonly totalInputAssets: Assets.Assets // Asset totals for balancing
   readonly redeemers: Map<string, RedeemerData> // Redeemer data for script inputs
+  readonly datums: ReadonlyMap<string, string> // Datum CBOR hex keyed by datum hash, witnessing datum-hash script inputs
+  readonly collateral?: CollateralData // Collateral for Plutus transactions, set once the fee is known
+}
+
+/**
+ * Collateral chosen for a transaction that executes Plutus scripts.
+ * Only totalCollateral is forfeited if phase-2 validation fails; the rest of
+ * the collateral inputs goes to the return output.
+ *
+ * @since 2.0.0
+ * @category state
+ */
+export interface CollateralData {
+  readonly inputs: ReadonlyArray<UTxO.UTxO>
+  readonly totalCollateral: bigint
+  readonly returnOutput?: UTxO.TxOutput
 }
 
 /**
@@ -1022,7 +1438,7 @@ export interface TxBuilderState {
  * @category state
  */
 export interface RedeemerData {
-  readonly tag: "spend" | "mint" | "cert" | "reward"
+  readonly tag: "spend" | "mint" | "cert" | "reward" | "vote" | "propose"
   readonly data: string // PlutusData CBOR hex
   readonly exUnits?: {
     // Optional: from script evaluation
@@ -1031,6 +1447,19 @@ export interface RedeemerData {
   }
 }
 
+/**
+ * A single vote cast during building.
+ * Votes sharing a voter are merged into one VotingProcedures entry at assembly.
+ *
+ * @since 2.0.0
+ * @category state
+ */
+export interface VoteData {
+  readonly voter: VotingProcedures.Voter
+  readonly govActionId: GovernanceAction.GovActionId
+  readonly procedure: VotingProcedures.VotingProcedure
+}
+
 /**
  * Combined transaction context containing all necessary data for building.
  *
@@ -1081,10 +1510,25 @@ export class ProtocolParametersTag extends Context.Tag("ProtocolParameters")<
   ProtocolParameters
 >() {}
 
+/**
+ * Resolved slot configuration for the current build, used by validFrom/validTo
+ * to convert POSIX times to slots. Resolved once at the start of build() from:
+ * - BuildOptions.slotConfig (per-transaction override)
+ * - TxBuilderConfig.slotConfig
+ * - TxBuilderConfig.network (public network defaults)
+ *
+ * Undefined when none is configured; slot-based bounds still work then.
+ *
+ * @since 2.0.0
+ * @category context
+ */
+export class SlotConfigTag extends Context.Tag("SlotConfig")<SlotConfigTag, Time.SlotConfig | undefined>() {}
+
 /**
  * Resolved available UTxOs for the current build.
  * This is resolved once at the start of build() from either:
  * - BuildOptions.availableUtxos (per-transaction override)
+ * - wallet.Effect.utxos() (multi-address wallets)
  * - provider.Effect.getUtxos(wallet.address) (default from wallet + provider)
  *
  * Available to all phase functions via Effect Context.
@@ -1094,6 +1538,32 @@ export class ProtocolParametersTag extends Context.Tag("ProtocolParameters")<
  */
 export class AvailableUtxosTag extends Context.Tag("AvailableUtxos")<AvailableUtxosTag, ReadonlyArray<UTxO.UTxO>>() {}
 
+/**
+ * Evaluates a transaction's scripts, given the UTxOs it spends and references.
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export type ScriptEvaluator = (
+  transaction: Transaction.Transaction,
+  additionalUtxos: ReadonlyArray<UTxO.UTxO>
+) => Effect.Effect<ReadonlyArray<EvalRedeemer>, EvaluationError>
+
+/**
+ * Resolved script evaluation for the current build. Resolved once at the start of build() from:
+ * - BuildOptions.evaluator (custom evaluator, e.g. a local UPLC machine)
+ * - provider.Effect.evaluateTx (remote evaluation)
+ *
+ * Undefined when neither is available; building a transaction with Plutus redeemers then fails.
+ *
+ * @since 2.0.0
+ * @category context
+ */
+export class ScriptEvaluatorTag extends Context.Tag("ScriptEvaluator")<
+  ScriptEvaluatorTag,
+  ScriptEvaluator | undefined
+>() {}
+
 /**
  * Context tag providing BuildOptions for the current build.
  * Contains build-specific configuration like unfrack, drainTo, onInsufficientChange, etc.
@@ -1129,11 +1599,17 @@ export class BuildOptionsTag extends Context.Tag("BuildOptions")<BuildOptionsTag
  *
  * Requirements from context:
  * - TxContext: Mutable state Ref (selected UTxOs, outputs, scripts, assets)
+ * - ProtocolParametersTag: Resolved protocol parameters (deposits for certificates)
+ * - SlotConfigTag: Resolved slot configuration (POSIX time validity bounds)
  *
  * @since 2.0.0
  * @category types
  */
-export type ProgramStep = Effect.Effect<void, TransactionBuilderError, TxContext>
+export type ProgramStep = Effect.Effect<
+  void,
+  TransactionBuilderError,
+  TxContext | ProtocolParametersTag | SlotConfigTag
+>
 
 // ============================================================================
 // Transaction Builder Interface - Hybrid Effect/Promise API
@@ -1218,6 +1694,239 @@ export interface TransactionBuilderBase {
    * @category builder-methods
    */
   readonly collectFrom: (params: CollectFromParams) => this
+
+  /**
+   * Add reference inputs: UTxOs that are read but not spent.
+   * Scripts carried by these UTxOs satisfy spending, minting and other script
+   * purposes without being added to the witness set; their size is charged
+   * through the reference script fee.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly readFrom: (params: ReadFromParams) => this
+
+  /**
+   * Mint native tokens under one or more policies.
+   *
+   * Amounts are signed: positive values mint, negative values burn. The policy script of every
+   * minted policy must be attached via attachScript(); Plutus policies also require a redeemer.
+   * Minted value is treated as an input during balancing, so unpaid tokens end up in change.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly mintAssets: (params: MintTokensParams) => this
+
+  /**
+   * Burn native tokens under one or more policies.
+   *
+   * Amounts are given as positive quantities to destroy. Coin selection pulls in UTxOs holding
+   * the burned tokens when the explicit inputs do not already cover them.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly burnAssets: (params: MintTokensParams) => this
+
+  /**
+   * Attach a script (native or Plutus) to the transaction witness set.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly attachScript: (params: AttachScriptParams) => this
+
+  /**
+   * Register a stake credential, paying the key deposit from protocol parameters.
+   *
+   * Script credentials need their script attached; Plutus scripts also need a redeemer.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly registerStake: (params: RegisterStakeParams) => this
+
+  /**
+   * Deregister a stake credential, reclaiming the key deposit as transaction input.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly deregisterStake: (params: DeregisterStakeParams) => this
+
+  /**
+   * Delegate a registered stake credential to a stake pool.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly delegateTo: (params: DelegateToParams) => this
+
+  /**
+   * Withdraw rewards from a reward account. The amount must match the full
+   * reward balance; it is added to the transaction inputs for balancing.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly withdraw: (params: WithdrawParams) => this
+
+  /**
+   * Register a DRep credential (key or script hash, or a drep1 / drep_script1 id), paying the DRep deposit.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly registerDRep: (params: RegisterDRepParams) => this
+
+  /**
+   * Update the metadata anchor of a registered DRep.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly updateDRep: (params: UpdateDRepParams) => this
+
+  /**
+   * Retire a DRep, reclaiming the DRep deposit as transaction input.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly retireDRep: (params: RetireDRepParams) => this
+
+  /**
+   * Delegate the voting power of a stake credential to a DRep.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly delegateVote: (params: DelegateVoteParams) => this
+
+  /**
+   * Cast a vote on a governance action. Call once per action; votes of the same
+   * voter are combined into one voting procedures entry.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly vote: (params: VoteParams) => this
+
+  /**
+   * Submit a governance action proposal, paying the governance action deposit.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly propose: (params: ProposeParams) => this
+
+  /**
+   * Set the start of the validity interval, as a slot or POSIX time in milliseconds.
+   * POSIX times are converted with the network's slot configuration.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly validFrom: (params: ValidityParams) => this
+
+  /**
+   * Set the end of the validity interval (TTL, exclusive), as a slot or POSIX
+   * time in milliseconds. POSIX times are converted with the network's slot configuration.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly validTo: (params: ValidityParams) => this
+
+  /**
+   * Attach transaction metadata under a label. Plain JS values are converted to
+   * metadatums; strings and bytes longer than 64 bytes are split into chunks.
+   * Use the Metadata helpers for CIP-20 messages and CIP-25 NFT metadata.
+   *
+   * Queues a deferred operation that will be executed when build() is called.
+   * Returns the same builder for method chaining.
+   *
+   * @since 2.0.0
+   * @category builder-methods
+   */
+  readonly attachMetadata: (params: AttachMetadataParams) => this
+
+  /**
+   * Build the transaction and return it with the UTxOs it creates and spends via Promise.
+   *
+   * Creates fresh state and runs all accumulated ProgramSteps sequentially, like build().
+   * Pass the returned updatedUtxos as availableUtxos to the next builder to chain
+   * dependent transactions without waiting for confirmation.
+   *
+   * @since 2.0.0
+   * @category completion-methods
+   */
+  readonly chain: (options?: BuildOptions) => Promise<ChainResult>
+
+  /**
+   * Build the transaction and return it with the UTxOs it creates and spends via Effect.
+   *
+   * @since 2.0.0
+   * @category completion-methods
+   */
+  readonly chainEffect: (options?: BuildOptions) => Effect.Effect<ChainResult, TransactionBuilderError, never>
+
+  /**
+   * Build the transaction and return it with the UTxOs it creates and spends via Either.
+   *
+   * @since 2.0.0
+   * @category completion-methods
+   */
+  readonly chainEither: (options?: BuildOptions) => Promise<Either<ChainResult, TransactionBuilderError>>
 }
 
 /**
@@ -1416,6 +2125,125 @@ export function makeTxBuilder(config: TxBuilderConfig) {
       return txBuilder // Return same instance for chaining
     },
 
+    readFrom: (params: ReadFromParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createReadFromProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    mintAssets: (params: MintTokensParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createMintAssetsProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    burnAssets: (params: MintTokensParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createBurnAssetsProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    attachScript: (params: AttachScriptParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createAttachScriptProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    registerStake: (params: RegisterStakeParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createRegisterStakeProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    deregisterStake: (params: DeregisterStakeParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createDeregisterStakeProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    delegateTo: (params: DelegateToParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createDelegateToProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    withdraw: (params: WithdrawParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createWithdrawProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    registerDRep: (params: RegisterDRepParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createRegisterDRepProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    updateDRep: (params: UpdateDRepParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createUpdateDRepProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    retireDRep: (params: RetireDRepParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createRetireDRepProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    delegateVote: (params: DelegateVoteParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createDelegateVoteProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    vote: (params: VoteParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createVoteProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    propose: (params: ProposeParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createProposeProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    validFrom: (params: ValidityParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createValidFromProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    validTo: (params: ValidityParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createValidToProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
+    attachMetadata: (params: AttachMetadataParams) => {
+      // Create ProgramStep for deferred execution
+      const program = createAttachMetadataProgram(params)
+      programs.push(program)
+      return txBuilder // Return same instance for chaining
+    },
+
     // ============================================================================
     // Hybrid completion methods - Execute with fresh state
     // ============================================================================
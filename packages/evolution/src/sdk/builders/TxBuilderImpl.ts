@@ -3,10 +3,35 @@ import { Effect, Ref, Schema } from "effect"
 
 // Core imports
 import * as AddressEras from "../../core/AddressEras.js"
+import * as AssetName from "../../core/AssetName.js"
+import * as AuxiliaryData from "../../core/AuxiliaryData.js"
+import * as Bech32 from "../../core/Bech32.js"
+import * as BootstrapWitness from "../../core/BootstrapWitness.js"
+import * as ByronAddress from "../../core/ByronAddress.js"
+import * as Bytes from "../../core/Bytes.js"
 import * as Bytes32 from "../../core/Bytes32.js"
+import * as Certificate from "../../core/Certificate.js"
+import * as CostModel from "../../core/CostModel.js"
+import * as Credential from "../../core/Credential.js"
 import * as PlutusData from "../../core/Data.js"
 import * as DatumOption from "../../core/DatumOption.js"
 import * as Ed25519Signature from "../../core/Ed25519Signature.js"
+import * as GovernanceAction from "../../core/GovernanceAction.js"
+import * as Mint from "../../core/Mint.js"
+import * as NativeScripts from "../../core/NativeScripts.js"
+import type * as PlutusV1 from "../../core/PlutusV1.js"
+import type * as PlutusV2 from "../../core/PlutusV2.js"
+import type * as PlutusV3 from "../../core/PlutusV3.js"
+import * as PolicyId from "../../core/PolicyId.js"
+import * as PoolKeyHash from "../../core/PoolKeyHash.js"
+import * as ProposalProcedure from "../../core/ProposalProcedure.js"
+import * as ProposalProcedures from "../../core/ProposalProcedures.js"
+import * as Redeemer from "../../core/Redeemer.js"
+import * as RewardAccount from "../../core/RewardAccount.js"
+import * as CoreScript from "../../core/Script.js"
+import type * as ScriptDataHash from "../../core/ScriptDataHash.js"
+import * as ScriptHash from "../../core/ScriptHash.js"
+import * as ScriptRef from "../../core/ScriptRef.js"
 import * as Transaction from "../../core/Transaction.js"
 import * as TransactionBody from "../../core/TransactionBody.js"
 import * as TransactionHash from "../../core/TransactionHash.js"
@@ -14,15 +39,41 @@ import * as TransactionInput from "../../core/TransactionInput.js"
 import * as TransactionOutput from "../../core/TransactionOutput.js"
 import * as TransactionWitnessSet from "../../core/TransactionWitnessSet.js"
 import * as VKey from "../../core/VKey.js"
+import * as VotingProcedures from "../../core/VotingProcedures.js"
+import * as Withdrawals from "../../core/Withdrawals.js"
+import { hashAuxiliaryData, hashPlutusData, hashScriptData } from "../../utils/Hash.js"
 // SDK imports
-import * as Address from "../Address.js"
 import * as Assets from "../Assets.js"
 import type * as Datum from "../Datum.js"
+import * as Metadata from "../Metadata.js"
+import type * as RewardAddress from "../RewardAddress.js"
+import * as Script from "../Script.js"
+import * as Time from "../Time.js"
+import * as Unit from "../Unit.js"
 import * as UTxO from "../UTxO.js"
 // Internal imports
-import type { CollectFromParams, PayToAddressParams } from "./operations/Operations.js"
-import type { UnfrackOptions } from "./TransactionBuilder.js"
-import { TransactionBuilderError, TxContext } from "./TransactionBuilder.js"
+import type {
+  AttachMetadataParams,
+  AttachScriptParams,
+  CollectFromParams,
+  DelegateToParams,
+  DelegateVoteParams,
+  DeregisterStakeParams,
+  DRepId,
+  MintTokensParams,
+  PayToAddressParams,
+  ProposeParams,
+  ReadFromParams,
+  RegisterDRepParams,
+  RegisterStakeParams,
+  RetireDRepParams,
+  UpdateDRepParams,
+  ValidityParams,
+  VoteParams,
+  WithdrawParams
+} from "./operations/Operations.js"
+import type { CollateralData, TxBuilderState, UnfrackOptions, VoteData } from "./TransactionBuilder.js"
+import { ProtocolParametersTag, SlotConfigTag, TransactionBuilderError, TxContext } from "./TransactionBuilder.js"
 import * as Unfrack from "./Unfrack.js"
 
 // ============================================================================
@@ -45,28 +96,41 @@ import * as Unfrack from "./Unfrack.js"
 // Helper Functions - Address Utilities
 // ============================================================================
 
+/**
+ * Parse an address of any era: bech32 Shelley addresses and base58 Byron addresses.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const parseAddress = (address: string): Effect.Effect<AddressEras.AddressEras, TransactionBuilderError> =>
+  Effect.try({
+    try: () => AddressEras.fromString(address),
+    catch: (error) =>
+      new TransactionBuilderError({
+        message: `Failed to parse address: ${address}`,
+        cause: error
+      })
+  })
+
+/**
+ * Payment credential of an address, or undefined for Byron and reward addresses.
+ * 
+ * @internal
+ */
+const paymentCredentialOf = (address: string) =>
+  Effect.map(parseAddress(address), (parsed) =>
+    parsed._tag === "ByronAddress" || parsed._tag === "RewardAccount" ? undefined : parsed.paymentCredential
+  )
+
 /**
  * Check if an address is a script address (payment credential is ScriptHash).
- * Parses the address to extract its structure and checks the payment credential type.
+ * Byron addresses are key-locked and never script addresses.
  * 
  * @since 2.0.0
  * @category helpers
  */
 export const isScriptAddress = (address: string): Effect.Effect<boolean, TransactionBuilderError> =>
-  Effect.gen(function* () {
-    // Parse address to structure
-    const addressStructure = yield* Effect.try({
-      try: () => Address.toAddressStructure(address),
-      catch: (error) =>
-        new TransactionBuilderError({
-          message: `Failed to parse address: ${address}`,
-          cause: error
-        })
-    })
-
-    // Check if payment credential is a script hash
-    return addressStructure.paymentCredential._tag === "ScriptHash"
-  })
+  Effect.map(paymentCredentialOf(address), (credential) => credential?._tag === "ScriptHash")
 
 /**
  * Filter UTxOs to find those locked by scripts (script-locked UTxOs).
@@ -105,6 +169,307 @@ export const calculateTotalAssets = (utxos: ReadonlyArray<UTxO.UTxO> | Set<UTxO.
   return utxoArray.reduce((total, utxo) => Assets.add(total, utxo.assets), Assets.empty())
 }
 
+// ============================================================================
+// Helper Functions - Script Utilities
+// ============================================================================
+
+/**
+ * Convert an SDK script to its core representation.
+ * Decoding failures (malformed CBOR, wrong script type) surface as TransactionBuilderError.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const toCoreScript = (script: Script.Script): Effect.Effect<CoreScript.Script, TransactionBuilderError> =>
+  Effect.try({
+    try: () => Script.toCoreScript(script),
+    catch: (error) =>
+      new TransactionBuilderError({
+        message: `Failed to decode ${script.type} script`,
+        cause: error
+      })
+  })
+
+/**
+ * Identify a UTxO by its output reference, in the `txHash#index` form used for redeemer keys.
+ * 
+ * @internal
+ */
+const utxoKey = (utxo: UTxO.UTxO): string => `${utxo.txHash}#${utxo.outputIndex}`
+
+/**
+ * Compute the script hash of an SDK script as hex.
+ * For minting policies this is the policy id.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const computeScriptHash = (script: Script.Script): Effect.Effect<string, TransactionBuilderError> =>
+  Effect.map(toCoreScript(script), (coreScript) => ScriptHash.toHex(ScriptHash.fromScript(coreScript)))
+
+/**
+ * Find a script by hash among attached scripts, reference input scripts and wallet scripts.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const resolveScript = (state: TxBuilderState, scriptHash: string): Script.Script | undefined =>
+  state.scripts.get(scriptHash) ?? state.referenceScripts.get(scriptHash) ?? state.walletScripts.get(scriptHash)
+
+/**
+ * Script hash (hex) of the payment credential of an address, or undefined for key addresses.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const paymentScriptHash = (address: string): Effect.Effect<string | undefined, TransactionBuilderError> =>
+  Effect.map(paymentCredentialOf(address), (credential) =>
+    credential?._tag === "ScriptHash" ? ScriptHash.toHex(credential) : undefined
+  )
+
+/**
+ * Decode PlutusData given as CBOR hex (redeemers and datums).
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const decodePlutusData = (
+  cborHex: string,
+  purpose: string
+): Effect.Effect<PlutusData.Data, TransactionBuilderError> =>
+  Effect.try({
+    try: () => PlutusData.fromCBORHex(cborHex),
+    catch: (error) =>
+      new TransactionBuilderError({
+        message: `Invalid ${purpose} CBOR: ${cborHex}`,
+        cause: error
+      })
+  })
+
+// ============================================================================
+// Helper Functions - Staking Utilities
+// ============================================================================
+
+/**
+ * Parse a bech32 reward address into a core RewardAccount.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const parseRewardAccount = (
+  rewardAddress: RewardAddress.RewardAddress
+): Effect.Effect<RewardAccount.RewardAccount, TransactionBuilderError> =>
+  Effect.try({
+    try: () => RewardAccount.fromBech32(rewardAddress),
+    catch: (error) =>
+      new TransactionBuilderError({
+        message: `Failed to parse reward address: ${rewardAddress}`,
+        cause: error
+      })
+  })
+
+/**
+ * Parse a pool id given either as bech32 ("pool1...") or as 28-byte hex.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const parsePoolKeyHash = (poolId: string): Effect.Effect<PoolKeyHash.PoolKeyHash, TransactionBuilderError> =>
+  Effect.try({
+    try: () =>
+      poolId.startsWith("pool1")
+        ? PoolKeyHash.fromBytes(Schema.encodeSync(Bech32.FromBytes("pool"))(poolId))
+        : PoolKeyHash.fromHex(poolId),
+    catch: (error) =>
+      new TransactionBuilderError({
+        message: `Failed to parse pool id: ${poolId}`,
+        cause: error
+      })
+  })
+
+/**
+ * Resolve a DRep credential given as a credential or as a bech32 DRep id.
+ * Accepts CIP-105 ids ("drep1..." key hash, "drep_script1..." script hash) and
+ * CIP-129 ids ("drep1..." with a header byte of 0x22 for keys or 0x23 for scripts).
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const parseDRepCredential = (
+  drep: DRepId
+): Effect.Effect<Credential.CredentialSchema, TransactionBuilderError> =>
+  typeof drep !== "string"
+    ? Effect.succeed(drep)
+    : Effect.try({
+        try: () => {
+          const isScript = drep.startsWith("drep_script1")
+          if (!isScript && !drep.startsWith("drep1")) throw new Error("Expected a drep1 or drep_script1 id")
+          const bytes = Schema.encodeSync(Bech32.FromBytes("drep"))(drep)
+          if (bytes.length === 28) {
+            return isScript ? Credential.makeScriptHash(bytes) : Credential.makeKeyHash(bytes)
+          }
+          if (!isScript && bytes.length === 29 && (bytes[0] === 0x22 || bytes[0] === 0x23)) {
+            const hash = bytes.slice(1)
+            return bytes[0] === 0x22 ? Credential.makeKeyHash(hash) : Credential.makeScriptHash(hash)
+          }
+          throw new Error(`Unexpected DRep id payload of ${bytes.length} bytes`)
+        },
+        catch: (error) =>
+          new TransactionBuilderError({
+            message: `Failed to parse DRep id: ${drep}`,
+            cause: error
+          })
+      })
+
+/**
+ * Read a deposit amount from protocol parameters.
+ * Fails when the parameters were supplied without that deposit.
+ * 
+ * @internal
+ */
+const requireDeposit = (field: "keyDeposit" | "drepDeposit" | "govActionDeposit", purpose: string) =>
+  Effect.gen(function* () {
+    const protocolParams = yield* ProtocolParametersTag
+    const deposit = protocolParams[field]
+    if (deposit === undefined) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Protocol parameters do not include ${field}, required for ${purpose}`
+        })
+      )
+    }
+    return deposit
+  })
+
+/**
+ * Extract the credential a certificate must be witnessed by, if any.
+ * Pre-Conway StakeRegistration is the only stake certificate that needs no witness;
+ * DRep certificates are witnessed by the DRep credential.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const certificateCredential = (
+  certificate: Certificate.Certificate
+): Credential.CredentialSchema | undefined => {
+  switch (certificate._tag) {
+    case "StakeDeregistration":
+    case "StakeDelegation":
+    case "RegCert":
+    case "UnregCert":
+    case "VoteDelegCert":
+    case "StakeVoteDelegCert":
+    case "StakeRegDelegCert":
+    case "VoteRegDelegCert":
+    case "StakeVoteRegDelegCert":
+      return certificate.stakeCredential
+    case "RegDrepCert":
+    case "UnregDrepCert":
+    case "UpdateDrepCert":
+      return certificate.drepCredential
+    default:
+      return undefined
+  }
+}
+
+// ============================================================================
+// Helper Functions - Time Utilities
+// ============================================================================
+
+/**
+ * Resolve a validity bound to a slot, converting POSIX time with the build's
+ * slot configuration.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const resolveValiditySlot = (bound: ValidityParams) =>
+  Effect.gen(function* () {
+    if ("slot" in bound) {
+      if (bound.slot < 0n) {
+        return yield* Effect.fail(new TransactionBuilderError({ message: `Invalid validity slot ${bound.slot}` }))
+      }
+      return bound.slot
+    }
+
+    const slotConfig = yield* SlotConfigTag
+    if (!slotConfig) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message:
+            "No slot configuration to convert POSIX time to slot. Set network or slotConfig in the builder config, or slotConfig in BuildOptions"
+        })
+      )
+    }
+
+    return yield* Effect.try({
+      try: () => Time.unixTimeToSlot(bound.unixTime, slotConfig),
+      catch: (error) =>
+        new TransactionBuilderError({
+          message: `Failed to convert time ${bound.unixTime} to slot`,
+          cause: error
+        })
+    })
+  })
+
+// ============================================================================
+// Helper Functions - Governance Utilities
+// ============================================================================
+
+/**
+ * Extract the credential a voter must be witnessed by.
+ * Stake pool voters sign with their pool key. Returns undefined for the
+ * predefined DReps, which cannot vote.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const voterCredential = (voter: VotingProcedures.Voter): Credential.CredentialSchema | undefined => {
+  switch (voter._tag) {
+    case "ConstitutionalCommitteeVoter":
+      return voter.credential
+    case "DRepVoter":
+      switch (voter.drep._tag) {
+        case "KeyHashDRep":
+          return voter.drep.keyHash
+        case "ScriptHashDRep":
+          return voter.drep.scriptHash
+        default:
+          return undefined
+      }
+    case "StakePoolVoter":
+      return Credential.makeKeyHash(voter.poolKeyHash.hash)
+  }
+}
+
+/**
+ * Stable string identity of a voter, used to group votes and key vote redeemers.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const voterKey = (voter: VotingProcedures.Voter, credential: Credential.CredentialSchema): string =>
+  `${voter._tag}:${credential._tag}:${Buffer.from(credential.hash).toString("hex")}`
+
+/**
+ * Extract the guardrail script hash of a governance action, if it has one.
+ * Only parameter changes and treasury withdrawals are guarded by the constitution script.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const proposalPolicyHash = (
+  action: GovernanceAction.GovernanceAction
+): ScriptHash.ScriptHash | undefined => {
+  switch (action._tag) {
+    case "ParameterChangeAction":
+    case "TreasuryWithdrawalsAction":
+      return action.policyHash ?? undefined
+    default:
+      return undefined
+  }
+}
+
 // ============================================================================
 // Helper Functions - Output Construction
 // ============================================================================
@@ -145,6 +510,20 @@ export const makeDatumOption = (datum: Datum.Datum): Effect.Effect<DatumOption.D
     )
   )
 
+/**
+ * Convert an SDK script to the core ScriptRef carried by outputs: the CBOR of the tagged script.
+ *
+ * @since 2.0.0
+ * @category helpers
+ */
+export const makeScriptRef = (script: Script.Script): Effect.Effect<ScriptRef.ScriptRef, TransactionBuilderError> =>
+  Effect.flatMap(toCoreScript(script), (coreScript) =>
+    Effect.try({
+      try: () => new ScriptRef.ScriptRef({ bytes: CoreScript.toCBOR(coreScript) }),
+      catch: (error) => new TransactionBuilderError({ message: "Failed to encode reference script", cause: error })
+    })
+  )
+
 /**
  * Create a TxOutput from user-friendly parameters.
  * Stays in SDK types for easier manipulation (merging, etc).
@@ -159,7 +538,7 @@ export const makeTxOutput = (params: {
   address: string
   assets: Assets.Assets
   datum?: Datum.Datum
-  scriptRef?: any // TODO: Add ScriptRef type
+  scriptRef?: Script.Script
 }): Effect.Effect<UTxO.TxOutput, TransactionBuilderError> =>
   Effect.gen(function* () {
     // Validate address format using Schema (will fail if invalid bech32)
@@ -197,7 +576,7 @@ export const txOutputToTransactionOutput = (params: {
   address: string
   assets: Assets.Assets
   datum?: Datum.Datum
-  scriptRef?: any // TODO: Add ScriptRef type
+  scriptRef?: Script.Script
 }): Effect.Effect<TransactionOutput.TransactionOutput, TransactionBuilderError> =>
   Effect.gen(function* () {
     // Parse address from bech32 string to core Address type using Schema
@@ -212,12 +591,15 @@ export const txOutputToTransactionOutput = (params: {
       datumOption = yield* makeDatumOption(params.datum)
     }
 
+    // Convert reference script if provided
+    const scriptRef = params.scriptRef ? yield* makeScriptRef(params.scriptRef) : undefined
+
     // Create BabbageTransactionOutput (current era)
     const output = new TransactionOutput.BabbageTransactionOutput({
       address,
       amount: value,
       datumOption,
-      scriptRef: params.scriptRef
+      scriptRef
     })
 
     return output
@@ -348,16 +730,19 @@ export const createPayToAddressProgram = (params: PayToAddressParams) =>
 
 /**
  * Creates a ProgramStep for collectFrom operation.
- * Adds UTxOs as transaction inputs, validates script requirements, and tracks assets.
+ * Adds UTxOs as transaction inputs, tracks redeemers, datums and assets.
  * 
  * Implementation:
  * 1. Validates that inputs array is not empty
- * 2. Checks if any inputs are script-locked (require redeemers)
- * 3. Validates redeemer is provided for script-locked UTxOs
+ * 2. Checks if any inputs are script-locked
+ * 3. Hashes supplied datums for inputs locked by datum hash
  * 4. Adds UTxOs to state.selectedUtxos
  * 5. Tracks redeemer information for script spending
  * 6. Updates total input assets for balancing
  * 
+ * Whether each script input needs a redeemer (Plutus) or must not have one
+ * (native) is checked at assembly, once attached and reference scripts are known.
+ * 
  * @since 2.0.0
  * @category programs
  */
@@ -377,13 +762,11 @@ export const createCollectFromProgram = (params: CollectFromParams) =>
     // 2. Filter script-locked UTxOs
     const scriptUtxos = yield* filterScriptUtxos(params.inputs)
 
-    // 3. Validate redeemer for script UTxOs
-    if (scriptUtxos.length > 0 && !params.redeemer) {
-      return yield* Effect.fail(
-        new TransactionBuilderError({
-          message: `Redeemer required for ${scriptUtxos.length} script-locked UTxO(s)`
-        })
-      )
+    // 3. Hash supplied datums so they can be matched against input datum hashes
+    const datumEntries: Array<[string, string]> = []
+    for (const datum of params.datums ?? []) {
+      const data = yield* decodePlutusData(datum, "datum")
+      datumEntries.push([Bytes.toHex(hashPlutusData(data).hash), datum])
     }
 
     // 4. Add UTxOs to selected inputs and track redeemers and input assets
@@ -396,8 +779,7 @@ export const createCollectFromProgram = (params: CollectFromParams) =>
       if (params.redeemer && scriptUtxos.length > 0) {
         newRedeemers = new Map(state.redeemers)
         scriptUtxos.forEach((utxo) => {
-          const inputKey = `${utxo.txHash}#${utxo.outputIndex}`
-          newRedeemers.set(inputKey, {
+          newRedeemers.set(utxoKey(utxo), {
             tag: "spend",
             data: params.redeemer!, // PlutusData CBOR hex
             // exUnits will be filled by script evaluator during build phase
@@ -410,81 +792,1358 @@ export const createCollectFromProgram = (params: CollectFromParams) =>
         ...state,
         selectedUtxos: [...state.selectedUtxos, ...params.inputs],
         redeemers: newRedeemers,
+        datums: datumEntries.length > 0 ? new Map([...state.datums, ...datumEntries]) : state.datums,
         totalInputAssets: Assets.add(state.totalInputAssets, inputAssets)
       }
     })
   })
 
-// ============================================================================
-// Transaction Assembly
-// ============================================================================
-
 /**
- * Convert an array of UTxOs to an array of TransactionInputs.
- * Inputs are sorted by txHash then outputIndex for deterministic ordering.
- * Converts SDK types (UTxO.UTxO) to core types (TransactionInput).
+ * Creates a ProgramStep for readFrom operation.
+ * Adds reference inputs and records the scripts they carry, keyed by script hash,
+ * so script purposes can be satisfied without witness set scripts.
  * 
  * @since 2.0.0
- * @category assembly
+ * @category programs
  */
-export const buildTransactionInputs = (
-  utxos: ReadonlyArray<UTxO.UTxO>
-): Effect.Effect<ReadonlyArray<TransactionInput.TransactionInput>, TransactionBuilderError> =>
+export const createReadFromProgram = (params: ReadFromParams) =>
   Effect.gen(function* () {
-    // Convert each UTxO to TransactionInput
-    const inputs: Array<TransactionInput.TransactionInput> = []
-    
-    for (const utxo of utxos) {
-      // Parse transaction hash from hex string
-      const txHash = yield* Schema.decodeUnknown(TransactionHash.FromHex)(utxo.txHash)
-      
-      // Create TransactionInput
-      const input = new TransactionInput.TransactionInput({
-        transactionId: txHash,
-        index: BigInt(utxo.outputIndex)
-      })
-      
-      inputs.push(input)
+    const ctx = yield* TxContext
+
+    if (params.referenceInputs.length === 0) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: "No reference inputs provided to readFrom"
+        })
+      )
     }
 
-    // Sort inputs for deterministic ordering:
-    // First by transaction hash, then by output index
-    inputs.sort((a, b) => {
-      // Compare transaction hashes (byte arrays)
-      const hashA = a.transactionId.hash
-      const hashB = b.transactionId.hash
-      
-      for (let i = 0; i < hashA.length; i++) {
-        if (hashA[i] !== hashB[i]) {
-          return hashA[i] - hashB[i]
-        }
+    const state = yield* Ref.get(ctx)
+    const seen = new Set(state.referenceInputs.map(utxoKey))
+    const referenceScripts = new Map(state.referenceScripts)
+
+    for (const utxo of params.referenceInputs) {
+      const key = utxoKey(utxo)
+      if (seen.has(key)) {
+        return yield* Effect.fail(
+          new TransactionBuilderError({
+            message: `Reference input ${key} is already added`
+          })
+        )
       }
-      
-      // If hashes are equal, compare by index
-      return Number(a.index - b.index)
-    })
+      seen.add(key)
 
-    return inputs
-  }).pipe(
-    Effect.mapError(
-      (error) =>
-        new TransactionBuilderError({
-          message: "Failed to build transaction inputs",
-          cause: error
-        })
-    )
-  )
+      if (utxo.scriptRef) {
+        referenceScripts.set(yield* computeScriptHash(utxo.scriptRef), utxo.scriptRef)
+      }
+    }
+
+    yield* Ref.set(ctx, {
+      ...state,
+      referenceInputs: [...state.referenceInputs, ...params.referenceInputs],
+      referenceScripts
+    })
+  })
 
 /**
- * Assemble a Transaction from inputs, outputs, and calculated fee.
- * Creates TransactionBody with all required fields.
- * 
- * This is where SDK UTxO outputs are converted to core TransactionOutputs.
+ * Validate token amounts passed to mintAssets/burnAssets.
+ * Lovelace cannot be minted, at least one token is required, every unit must
+ * start with a 28-byte policy id and no amount may be zero.
  * 
- * This is minimal assembly with accurate fee:
- * - Build witness set with redeemers and signatures (Step 4 - future)
- * - Run script evaluation to fill ExUnits (Step 5 - future)
- * - Add change output (Step 6 - future)
+ * @internal
+ */
+const validateMintAssets = (
+  assets: Assets.Assets,
+  operation: "mintAssets" | "burnAssets"
+): Effect.Effect<void, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    if (assets.lovelace !== 0n) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `${operation} cannot mint or burn lovelace`
+        })
+      )
+    }
+
+    const units = Assets.getUnits(assets).filter((unit) => unit !== "lovelace")
+    if (units.length === 0) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `No tokens provided to ${operation}`
+        })
+      )
+    }
+
+    for (const unit of units) {
+      const amount = Assets.getAsset(assets, unit)
+      if (unit.length < 56 || !/^[0-9a-fA-F]+$/.test(unit)) {
+        return yield* Effect.fail(
+          new TransactionBuilderError({
+            message: `Invalid unit in ${operation}: ${unit} (expected policy id hex followed by asset name hex)`
+          })
+        )
+      }
+      if (amount === 0n || (operation === "burnAssets" && amount < 0n)) {
+        return yield* Effect.fail(
+          new TransactionBuilderError({
+            message: `Invalid amount ${amount} for ${unit} in ${operation}`
+          })
+        )
+      }
+    }
+  })
+
+/**
+ * Shared mint/burn implementation operating on signed amounts.
+ * Minted value enters the transaction like an input: positive amounts add
+ * tokens that balancing routes to outputs or change, negative amounts (burns)
+ * create a demand that coin selection must cover.
+ * 
+ * @internal
+ */
+const createMintProgram = (assets: Assets.Assets, redeemer: string | undefined) =>
+  Effect.gen(function* () {
+    const ctx = yield* TxContext
+
+    const policyIds = new Set(
+      Assets.getUnits(assets)
+        .filter((unit) => unit !== "lovelace")
+        .map((unit) => Unit.fromUnit(unit).policyId)
+    )
+
+    yield* Ref.update(ctx, (state) => {
+      let newRedeemers = state.redeemers
+
+      // Track one mint redeemer per policy; only Plutus policies may carry one (checked at assembly)
+      if (redeemer) {
+        newRedeemers = new Map(state.redeemers)
+        for (const policyId of policyIds) {
+          newRedeemers.set(policyId, {
+            tag: "mint",
+            data: redeemer, // PlutusData CBOR hex
+            exUnits: undefined
+          })
+        }
+      }
+
+      return {
+        ...state,
+        mint: Assets.add(state.mint, assets),
+        redeemers: newRedeemers,
+        totalInputAssets: Assets.add(state.totalInputAssets, assets)
+      }
+    })
+  })
+
+/**
+ * Creates a ProgramStep for mintAssets operation.
+ * Records signed mint amounts (negative burns) and the policy redeemer.
+ * 
+ * Implementation:
+ * 1. Validates the token amounts
+ * 2. Adds amounts to state.mint
+ * 3. Records a mint redeemer per policy when provided
+ * 4. Updates totalInputAssets so balancing accounts for minted value
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createMintAssetsProgram = (params: MintTokensParams) =>
+  Effect.gen(function* () {
+    yield* validateMintAssets(params.assets, "mintAssets")
+    yield* createMintProgram(params.assets, params.redeemer)
+  })
+
+/**
+ * Creates a ProgramStep for burnAssets operation.
+ * Amounts are positive quantities to destroy and are recorded as negative mint.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createBurnAssetsProgram = (params: MintTokensParams) =>
+  Effect.gen(function* () {
+    yield* validateMintAssets(params.assets, "burnAssets")
+    yield* createMintProgram(Assets.negate(params.assets), params.redeemer)
+  })
+
+/**
+ * Creates a ProgramStep for attachScript operation.
+ * Stores the script keyed by its hash so it is added to the witness set once,
+ * no matter how many operations rely on it.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createAttachScriptProgram = (params: AttachScriptParams) =>
+  Effect.gen(function* () {
+    const ctx = yield* TxContext
+
+    const scriptHash = yield* computeScriptHash(params.script)
+
+    yield* Ref.update(ctx, (state) => ({
+      ...state,
+      scripts: new Map(state.scripts).set(scriptHash, params.script)
+    }))
+  })
+
+/**
+ * Append a certificate to state together with its balance effect.
+ * Deposits are paid like outputs, refunds are received like inputs.
+ * The redeemer is keyed by the certificate's position in the body.
+ * 
+ * @internal
+ */
+const addCertificate = (
+  certificate: Certificate.Certificate,
+  params: { readonly redeemer?: string; readonly deposit?: bigint; readonly refund?: bigint }
+) =>
+  Effect.gen(function* () {
+    const ctx = yield* TxContext
+
+    yield* Ref.update(ctx, (state) => {
+      let newRedeemers = state.redeemers
+
+      if (params.redeemer) {
+        newRedeemers = new Map(state.redeemers)
+        newRedeemers.set(`cert:${state.certificates.length}`, {
+          tag: "cert",
+          data: params.redeemer, // PlutusData CBOR hex
+          exUnits: undefined
+        })
+      }
+
+      return {
+        ...state,
+        certificates: [...state.certificates, certificate],
+        redeemers: newRedeemers,
+        totalOutputAssets: params.deposit
+          ? Assets.add(state.totalOutputAssets, Assets.fromLovelace(params.deposit))
+          : state.totalOutputAssets,
+        totalInputAssets: params.refund
+          ? Assets.add(state.totalInputAssets, Assets.fromLovelace(params.refund))
+          : state.totalInputAssets
+      }
+    })
+  })
+
+/**
+ * Creates a ProgramStep for registerStake operation.
+ * Emits a Conway RegCert carrying the key deposit, which balancing pays from inputs.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createRegisterStakeProgram = (params: RegisterStakeParams) =>
+  Effect.gen(function* () {
+    const rewardAccount = yield* parseRewardAccount(params.rewardAddress)
+    const keyDeposit = yield* requireDeposit("keyDeposit", "stake registration")
+
+    const certificate = new Certificate.RegCert({
+      stakeCredential: rewardAccount.stakeCredential,
+      coin: keyDeposit
+    })
+
+    yield* addCertificate(certificate, { redeemer: params.redeemer, deposit: keyDeposit })
+  })
+
+/**
+ * Creates a ProgramStep for deregisterStake operation.
+ * Emits a Conway UnregCert; the refunded key deposit is treated as an input.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createDeregisterStakeProgram = (params: DeregisterStakeParams) =>
+  Effect.gen(function* () {
+    const rewardAccount = yield* parseRewardAccount(params.rewardAddress)
+    const keyDeposit = yield* requireDeposit("keyDeposit", "stake registration")
+
+    const certificate = new Certificate.UnregCert({
+      stakeCredential: rewardAccount.stakeCredential,
+      coin: keyDeposit
+    })
+
+    yield* addCertificate(certificate, { redeemer: params.redeemer, refund: keyDeposit })
+  })
+
+/**
+ * Creates a ProgramStep for delegateTo operation.
+ * Emits a StakeDelegation certificate to the given pool.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createDelegateToProgram = (params: DelegateToParams) =>
+  Effect.gen(function* () {
+    const rewardAccount = yield* parseRewardAccount(params.rewardAddress)
+    const poolKeyHash = yield* parsePoolKeyHash(params.poolId)
+
+    const certificate = new Certificate.StakeDelegation({
+      stakeCredential: rewardAccount.stakeCredential,
+      poolKeyHash
+    })
+
+    yield* addCertificate(certificate, { redeemer: params.redeemer })
+  })
+
+/**
+ * Creates a ProgramStep for withdraw operation.
+ * The withdrawn amount is added to the input side for balancing.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createWithdrawProgram = (params: WithdrawParams) =>
+  Effect.gen(function* () {
+    const ctx = yield* TxContext
+
+    // Validate the address up front so errors point at the withdraw call
+    yield* parseRewardAccount(params.rewardAddress)
+
+    if (params.amount < 0n) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Invalid withdrawal amount ${params.amount} for ${params.rewardAddress}`
+        })
+      )
+    }
+
+    const state = yield* Ref.get(ctx)
+    if (state.withdrawals.has(params.rewardAddress)) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Duplicate withdrawal from ${params.rewardAddress}`
+        })
+      )
+    }
+
+    yield* Ref.update(ctx, (state) => {
+      let newRedeemers = state.redeemers
+
+      if (params.redeemer) {
+        newRedeemers = new Map(state.redeemers)
+        newRedeemers.set(params.rewardAddress, {
+          tag: "reward",
+          data: params.redeemer, // PlutusData CBOR hex
+          exUnits: undefined
+        })
+      }
+
+      return {
+        ...state,
+        withdrawals: new Map(state.withdrawals).set(params.rewardAddress, params.amount),
+        redeemers: newRedeemers,
+        totalInputAssets: Assets.add(state.totalInputAssets, Assets.fromLovelace(params.amount))
+      }
+    })
+  })
+
+/**
+ * Creates a ProgramStep for validFrom operation.
+ * Sets the transaction validity interval start; a later call replaces an earlier one.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createValidFromProgram = (params: ValidityParams) =>
+  Effect.gen(function* () {
+    const ctx = yield* TxContext
+    const slot = yield* resolveValiditySlot(params)
+
+    yield* Ref.update(ctx, (state) => ({
+      ...state,
+      validityInterval: { ...state.validityInterval, from: slot }
+    }))
+  })
+
+/**
+ * Creates a ProgramStep for validTo operation.
+ * Sets the transaction TTL (exclusive upper bound); a later call replaces an earlier one.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createValidToProgram = (params: ValidityParams) =>
+  Effect.gen(function* () {
+    const ctx = yield* TxContext
+    const slot = yield* resolveValiditySlot(params)
+
+    yield* Ref.update(ctx, (state) => ({
+      ...state,
+      validityInterval: { ...state.validityInterval, to: slot }
+    }))
+  })
+
+/**
+ * Creates a ProgramStep for attachMetadata operation.
+ * Converts the value to a metadatum and stores it under its label; each label may be used once.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createAttachMetadataProgram = (params: AttachMetadataParams) =>
+  Effect.gen(function* () {
+    const ctx = yield* TxContext
+    const label = BigInt(params.label)
+
+    const metadatum = yield* Effect.try({
+      try: () => Metadata.toMetadatum(params.metadata),
+      catch: (error) =>
+        new TransactionBuilderError({ message: `Invalid metadata for label ${label}`, cause: error })
+    })
+
+    const state = yield* Ref.get(ctx)
+    if (state.metadata.has(label)) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({ message: `Metadata label ${label} is already attached` })
+      )
+    }
+
+    yield* Ref.set(ctx, {
+      ...state,
+      metadata: new Map(state.metadata).set(label, metadatum)
+    })
+  })
+
+/**
+ * Creates a ProgramStep for registerDRep operation.
+ * Emits a RegDrepCert carrying the DRep deposit, which balancing pays from inputs.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createRegisterDRepProgram = (params: RegisterDRepParams) =>
+  Effect.gen(function* () {
+    const drepCredential = yield* parseDRepCredential(params.drep)
+    const drepDeposit = yield* requireDeposit("drepDeposit", "DRep registration")
+
+    const certificate = new Certificate.RegDrepCert({
+      drepCredential,
+      coin: drepDeposit,
+      anchor: params.anchor ?? null
+    })
+
+    yield* addCertificate(certificate, { redeemer: params.redeemer, deposit: drepDeposit })
+  })
+
+/**
+ * Creates a ProgramStep for updateDRep operation.
+ * Emits an UpdateDrepCert replacing the DRep metadata anchor.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createUpdateDRepProgram = (params: UpdateDRepParams) =>
+  Effect.gen(function* () {
+    const drepCredential = yield* parseDRepCredential(params.drep)
+
+    const certificate = new Certificate.UpdateDrepCert({
+      drepCredential,
+      anchor: params.anchor ?? null
+    })
+
+    yield* addCertificate(certificate, { redeemer: params.redeemer })
+  })
+
+/**
+ * Creates a ProgramStep for retireDRep operation.
+ * Emits an UnregDrepCert; the refunded DRep deposit is treated as an input.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createRetireDRepProgram = (params: RetireDRepParams) =>
+  Effect.gen(function* () {
+    const drepCredential = yield* parseDRepCredential(params.drep)
+    const drepDeposit = yield* requireDeposit("drepDeposit", "DRep retirement")
+
+    const certificate = new Certificate.UnregDrepCert({
+      drepCredential,
+      coin: drepDeposit
+    })
+
+    yield* addCertificate(certificate, { redeemer: params.redeemer, refund: drepDeposit })
+  })
+
+/**
+ * Creates a ProgramStep for delegateVote operation.
+ * Emits a VoteDelegCert delegating voting power to the given DRep.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createDelegateVoteProgram = (params: DelegateVoteParams) =>
+  Effect.gen(function* () {
+    const rewardAccount = yield* parseRewardAccount(params.rewardAddress)
+
+    const certificate = new Certificate.VoteDelegCert({
+      stakeCredential: rewardAccount.stakeCredential,
+      drep: params.drep
+    })
+
+    yield* addCertificate(certificate, { redeemer: params.redeemer })
+  })
+
+/**
+ * Creates a ProgramStep for vote operation.
+ * Records one vote; votes of the same voter end up in a single VotingProcedures entry.
+ * The redeemer is keyed by voter, so a script voter takes at most one.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createVoteProgram = (params: VoteParams) =>
+  Effect.gen(function* () {
+    const ctx = yield* TxContext
+
+    const credential = voterCredential(params.voter)
+    if (!credential) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Voter ${params.voter._tag} cannot cast votes`
+        })
+      )
+    }
+
+    const key = voterKey(params.voter, credential)
+    const state = yield* Ref.get(ctx)
+
+    const isDuplicate = state.votes.some(
+      (entry) =>
+        voterKey(entry.voter, voterCredential(entry.voter)!) === key &&
+        GovernanceAction.govActionIdEquals(entry.govActionId, params.govActionId)
+    )
+    if (isDuplicate) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Duplicate vote by ${key} on the same governance action`
+        })
+      )
+    }
+    if (params.redeemer && state.redeemers.has(`vote:${key}`)) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Redeemer already provided for voter ${key}`
+        })
+      )
+    }
+
+    const vote: VoteData = {
+      voter: params.voter,
+      govActionId: params.govActionId,
+      procedure: VotingProcedures.makeProcedure(params.vote, params.anchor)
+    }
+
+    yield* Ref.update(ctx, (state) => {
+      let newRedeemers = state.redeemers
+
+      if (params.redeemer) {
+        newRedeemers = new Map(state.redeemers)
+        newRedeemers.set(`vote:${key}`, {
+          tag: "vote",
+          data: params.redeemer, // PlutusData CBOR hex
+          exUnits: undefined
+        })
+      }
+
+      return {
+        ...state,
+        votes: [...state.votes, vote],
+        redeemers: newRedeemers
+      }
+    })
+  })
+
+/**
+ * Creates a ProgramStep for propose operation.
+ * The governance action deposit is paid like an output and refunded to the
+ * given reward address once the action is enacted or expires.
+ * 
+ * @since 2.0.0
+ * @category programs
+ */
+export const createProposeProgram = (params: ProposeParams) =>
+  Effect.gen(function* () {
+    const ctx = yield* TxContext
+
+    const rewardAccount = yield* parseRewardAccount(params.rewardAddress)
+    const govActionDeposit = yield* requireDeposit("govActionDeposit", "governance proposals")
+
+    if (params.redeemer && !proposalPolicyHash(params.governanceAction)) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `${params.governanceAction._tag} is not guarded by a policy script and takes no redeemer`
+        })
+      )
+    }
+
+    const proposal = new ProposalProcedure.ProposalProcedure({
+      deposit: govActionDeposit,
+      rewardAccount,
+      governanceAction: params.governanceAction,
+      anchor: params.anchor
+    })
+
+    yield* Ref.update(ctx, (state) => {
+      let newRedeemers = state.redeemers
+
+      if (params.redeemer) {
+        newRedeemers = new Map(state.redeemers)
+        newRedeemers.set(`propose:${state.proposals.length}`, {
+          tag: "propose",
+          data: params.redeemer, // PlutusData CBOR hex
+          exUnits: undefined
+        })
+      }
+
+      return {
+        ...state,
+        proposals: [...state.proposals, proposal],
+        redeemers: newRedeemers,
+        totalOutputAssets: Assets.add(state.totalOutputAssets, Assets.fromLovelace(govActionDeposit))
+      }
+    })
+  })
+
+// ============================================================================
+// Transaction Assembly
+// ============================================================================
+
+/**
+ * Convert an array of UTxOs to an array of TransactionInputs.
+ * Inputs are sorted by txHash then outputIndex for deterministic ordering.
+ * Converts SDK types (UTxO.UTxO) to core types (TransactionInput).
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const buildTransactionInputs = (
+  utxos: ReadonlyArray<UTxO.UTxO>
+): Effect.Effect<ReadonlyArray<TransactionInput.TransactionInput>, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    // Convert each UTxO to TransactionInput
+    const inputs: Array<TransactionInput.TransactionInput> = []
+    
+    for (const utxo of utxos) {
+      // Parse transaction hash from hex string
+      const txHash = yield* Schema.decodeUnknown(TransactionHash.FromHex)(utxo.txHash)
+      
+      // Create TransactionInput
+      const input = new TransactionInput.TransactionInput({
+        transactionId: txHash,
+        index: BigInt(utxo.outputIndex)
+      })
+      
+      inputs.push(input)
+    }
+
+    // Sort inputs for deterministic ordering:
+    // First by transaction hash, then by output index
+    inputs.sort((a, b) => {
+      // Compare transaction hashes (byte arrays)
+      const hashA = a.transactionId.hash
+      const hashB = b.transactionId.hash
+      
+      for (let i = 0; i < hashA.length; i++) {
+        if (hashA[i] !== hashB[i]) {
+          return hashA[i] - hashB[i]
+        }
+      }
+      
+      // If hashes are equal, compare by index
+      return Number(a.index - b.index)
+    })
+
+    return inputs
+  }).pipe(
+    Effect.mapError(
+      (error) =>
+        new TransactionBuilderError({
+          message: "Failed to build transaction inputs",
+          cause: error
+        })
+    )
+  )
+
+/**
+ * Optional TransactionBody fields derived from builder state.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export type TransactionBodyExtras = Omit<
+  ConstructorParameters<typeof TransactionBody.TransactionBody>[0],
+  "inputs" | "outputs" | "fee"
+>
+
+/**
+ * Scripts attached to the builder, grouped by witness set field.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export interface WitnessScripts {
+  readonly nativeScripts: Array<NativeScripts.NativeScript>
+  readonly plutusV1Scripts: Array<PlutusV1.PlutusV1>
+  readonly plutusV2Scripts: Array<PlutusV2.PlutusV2>
+  readonly plutusV3Scripts: Array<PlutusV3.PlutusV3>
+}
+
+/**
+ * Convert signed mint amounts from builder state to a core Mint.
+ * Returns undefined when nothing is minted or burned so the body field is omitted.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const buildMint = (mint: Assets.Assets): Effect.Effect<Mint.Mint | undefined, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    // Group units by policy so each PolicyId appears once in the map
+    const byPolicy = new Map<string, Array<[string, bigint]>>()
+    for (const unit of Assets.getUnits(mint)) {
+      const amount = Assets.getAsset(mint, unit)
+      if (unit === "lovelace" || amount === 0n) continue
+      const { assetName, policyId } = Unit.fromUnit(unit)
+      const entries = byPolicy.get(policyId) ?? []
+      entries.push([assetName ?? "", amount])
+      byPolicy.set(policyId, entries)
+    }
+
+    if (byPolicy.size === 0) {
+      return undefined
+    }
+
+    return yield* Effect.try({
+      try: () =>
+        Mint.fromEntries(
+          Array.from(byPolicy, ([policyId, entries]) => [
+            PolicyId.fromHex(policyId),
+            entries.map(([assetName, amount]) => [AssetName.fromHex(assetName), amount])
+          ])
+        ),
+      catch: (error) =>
+        new TransactionBuilderError({
+          message: "Failed to build mint field",
+          cause: error
+        })
+    })
+  })
+
+/**
+ * Check one script-witnessed purpose: the script must be attached, and a
+ * redeemer must be present exactly when the script is a Plutus script.
+ * 
+ * @internal
+ */
+const validateScriptPurpose = (
+  state: TxBuilderState,
+  scriptHash: string,
+  redeemerKey: string,
+  purpose: string
+): Effect.Effect<void, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    const script = resolveScript(state, scriptHash)
+    if (!script) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Missing script ${scriptHash} for ${purpose}. Attach it with attachScript() or reference it with readFrom()`
+        })
+      )
+    }
+
+    const hasRedeemer = state.redeemers.has(redeemerKey)
+    if (script.type !== "Native" && !hasRedeemer) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Redeemer required for ${script.type} script ${scriptHash} (${purpose})`
+        })
+      )
+    }
+    if (script.type === "Native" && hasRedeemer) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Native script ${scriptHash} does not take a redeemer (${purpose})`
+        })
+      )
+    }
+  })
+
+/**
+ * A transaction purpose that is authorised by a script: spending a script-locked
+ * input, minting, a certificate, a withdrawal, a vote or a guarded proposal.
+ * The redeemer key matches the key used in TxBuilderState.redeemers.
+ * 
+ * @since 2.0.0
+ * @category validation
+ */
+export interface ScriptPurpose {
+  readonly scriptHash: string
+  readonly redeemerKey: string
+  readonly description: string
+}
+
+/**
+ * Collect every script-witnessed purpose of the transaction from builder state.
+ * 
+ * @since 2.0.0
+ * @category validation
+ */
+export const collectScriptPurposes = (
+  state: TxBuilderState
+): Effect.Effect<Array<ScriptPurpose>, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    const purposes: Array<ScriptPurpose> = []
+
+    for (const utxo of state.selectedUtxos) {
+      const scriptHash = yield* paymentScriptHash(utxo.address)
+      if (scriptHash) {
+        purposes.push({ scriptHash, redeemerKey: utxoKey(utxo), description: `spending ${utxoKey(utxo)}` })
+      }
+    }
+
+    const policyIds = new Set(
+      Assets.getUnits(state.mint)
+        .filter((unit) => unit !== "lovelace")
+        .map((unit) => Unit.fromUnit(unit).policyId)
+    )
+    for (const policyId of policyIds) {
+      purposes.push({ scriptHash: policyId, redeemerKey: policyId, description: `minting policy ${policyId}` })
+    }
+
+    for (const [index, certificate] of state.certificates.entries()) {
+      const credential = certificateCredential(certificate)
+      if (credential?._tag === "ScriptHash") {
+        purposes.push({
+          scriptHash: ScriptHash.toHex(credential),
+          redeemerKey: `cert:${index}`,
+          description: `certificate #${index} (${certificate._tag})`
+        })
+      }
+    }
+
+    for (const rewardAddress of state.withdrawals.keys()) {
+      const { stakeCredential } = yield* parseRewardAccount(rewardAddress)
+      if (stakeCredential._tag === "ScriptHash") {
+        purposes.push({
+          scriptHash: ScriptHash.toHex(stakeCredential),
+          redeemerKey: rewardAddress,
+          description: `withdrawal from ${rewardAddress}`
+        })
+      }
+    }
+
+    const voterKeys = new Set<string>()
+    for (const { voter } of state.votes) {
+      const credential = voterCredential(voter)!
+      const key = voterKey(voter, credential)
+      if (credential._tag === "ScriptHash" && !voterKeys.has(key)) {
+        voterKeys.add(key)
+        purposes.push({ scriptHash: ScriptHash.toHex(credential), redeemerKey: `vote:${key}`, description: `voter ${key}` })
+      }
+    }
+
+    for (const [index, proposal] of state.proposals.entries()) {
+      const policyHash = proposalPolicyHash(proposal.governanceAction)
+      if (policyHash) {
+        purposes.push({
+          scriptHash: ScriptHash.toHex(policyHash),
+          redeemerKey: `propose:${index}`,
+          description: `proposal #${index} (${proposal.governanceAction._tag})`
+        })
+      }
+    }
+
+    return purposes
+  })
+
+/**
+ * Scripts to place in the witness set: the attached scripts plus the wallet
+ * scripts that some purpose of the transaction needs.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const collectWitnessedScripts = (
+  state: TxBuilderState
+): Effect.Effect<ReadonlyMap<string, Script.Script>, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    if (state.walletScripts.size === 0) {
+      return state.scripts
+    }
+    const scripts = new Map(state.scripts)
+    for (const { scriptHash } of yield* collectScriptPurposes(state)) {
+      const walletScript = state.walletScripts.get(scriptHash)
+      if (walletScript && !scripts.has(scriptHash)) {
+        scripts.set(scriptHash, walletScript)
+      }
+    }
+    return scripts
+  })
+
+/**
+ * Native scripts authorising the purposes of the transaction, deduplicated by script hash.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const collectPurposeNativeScripts = (
+  state: TxBuilderState
+): Effect.Effect<Array<NativeScripts.NativeScript>, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    const nativeScripts = new Map<string, NativeScripts.NativeScript>()
+    for (const { scriptHash } of yield* collectScriptPurposes(state)) {
+      const script = resolveScript(state, scriptHash)
+      if (script?.type !== "Native" || nativeScripts.has(scriptHash)) continue
+      const coreScript = yield* toCoreScript(script)
+      if (coreScript._tag === "NativeScript") {
+        nativeScripts.set(scriptHash, coreScript)
+      }
+    }
+    return Array.from(nativeScripts.values())
+  })
+
+/**
+ * Check that every script-locked input, script-controlled minting policy,
+ * certificate, withdrawal, voter and guarded proposal has its script attached
+ * and a redeemer if (and only if) the script is Plutus.
+ * 
+ * @since 2.0.0
+ * @category validation
+ */
+export const validateScriptWitnesses = (state: TxBuilderState): Effect.Effect<void, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    for (const { description, redeemerKey, scriptHash } of yield* collectScriptPurposes(state)) {
+      yield* validateScriptPurpose(state, scriptHash, redeemerKey, description)
+    }
+  })
+
+const compareHex = (a: string, b: string): number => {
+  const left = a.toLowerCase()
+  const right = b.toLowerCase()
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+/**
+ * Ledger credential order: script hashes sort before key hashes, then by hash bytes.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const compareCredentials = (a: Credential.CredentialSchema, b: Credential.CredentialSchema): number => {
+  if (a._tag !== b._tag) {
+    return a._tag === "ScriptHash" ? -1 : 1
+  }
+  return compareHex(Bytes.toHex(a.hash), Bytes.toHex(b.hash))
+}
+
+/**
+ * Ledger voter order by kind: committee members, then DReps, then stake pools.
+ * 
+ * @since 2.0.0
+ * @category helpers
+ */
+export const VOTER_ORDER: Record<VotingProcedures.Voter["_tag"], number> = {
+  ConstitutionalCommitteeVoter: 0,
+  DRepVoter: 1,
+  StakePoolVoter: 2
+}
+
+/**
+ * Redeemer pointer (tag and index) for every redeemer key the transaction can use.
+ * 
+ * Indices follow the ledger's ordering of each body field: inputs by
+ * transaction id then output index, policies by hash, certificates and
+ * proposals in insertion order, withdrawals by network then credential
+ * (scripts first), and voters by kind (committee, DRep, pool) then credential.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const buildRedeemerPointers = (
+  state: TxBuilderState
+): Effect.Effect<Map<string, { tag: Redeemer.RedeemerTag; index: bigint }>, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    const pointers = new Map<string, { tag: Redeemer.RedeemerTag; index: bigint }>()
+
+    const inputs = [...state.selectedUtxos].sort(
+      (a, b) => compareHex(a.txHash, b.txHash) || a.outputIndex - b.outputIndex
+    )
+    inputs.forEach((utxo, index) => pointers.set(utxoKey(utxo), { tag: "spend", index: BigInt(index) }))
+
+    const policyIds = Array.from(
+      new Set(
+        Assets.getUnits(state.mint)
+          .filter((unit) => unit !== "lovelace" && Assets.getAsset(state.mint, unit) !== 0n)
+          .map((unit) => Unit.fromUnit(unit).policyId)
+      )
+    ).sort(compareHex)
+    policyIds.forEach((policyId, index) => pointers.set(policyId, { tag: "mint", index: BigInt(index) }))
+
+    state.certificates.forEach((_, index) => pointers.set(`cert:${index}`, { tag: "cert", index: BigInt(index) }))
+
+    const rewardAccounts: Array<[string, RewardAccount.RewardAccount]> = []
+    for (const rewardAddress of state.withdrawals.keys()) {
+      rewardAccounts.push([rewardAddress, yield* parseRewardAccount(rewardAddress)])
+    }
+    rewardAccounts
+      .sort(
+        ([, a], [, b]) => a.networkId - b.networkId || compareCredentials(a.stakeCredential, b.stakeCredential)
+      )
+      .forEach(([rewardAddress], index) => pointers.set(rewardAddress, { tag: "reward", index: BigInt(index) }))
+
+    const voters = new Map<string, { voter: VotingProcedures.Voter; credential: Credential.CredentialSchema }>()
+    for (const { voter } of state.votes) {
+      const credential = voterCredential(voter)!
+      voters.set(voterKey(voter, credential), { voter, credential })
+    }
+    Array.from(voters)
+      .sort(
+        ([, a], [, b]) =>
+          VOTER_ORDER[a.voter._tag] - VOTER_ORDER[b.voter._tag] || compareCredentials(a.credential, b.credential)
+      )
+      .forEach(([key], index) => pointers.set(`vote:${key}`, { tag: "vote", index: BigInt(index) }))
+
+    state.proposals.forEach((_, index) =>
+      pointers.set(`propose:${index}`, { tag: "propose", index: BigInt(index) })
+    )
+
+    return pointers
+  })
+
+/**
+ * Datums that must be witnessed for spent Plutus inputs locked by a datum hash.
+ * 
+ * @internal
+ */
+const buildWitnessDatums = (state: TxBuilderState): Effect.Effect<Array<PlutusData.Data>, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    const datums = new Map<string, PlutusData.Data>()
+
+    for (const utxo of state.selectedUtxos) {
+      if (utxo.datumOption?.type !== "datumHash") continue
+      const scriptHash = yield* paymentScriptHash(utxo.address)
+      const script = scriptHash ? resolveScript(state, scriptHash) : undefined
+      if (!script || script.type === "Native") continue
+
+      const hash = utxo.datumOption.hash.toLowerCase()
+      const datum = state.datums.get(hash)
+      if (datum === undefined) {
+        return yield* Effect.fail(
+          new TransactionBuilderError({
+            message: `Missing datum ${hash} for spending ${utxoKey(utxo)}. Provide it with collectFrom({ datums })`
+          })
+        )
+      }
+      datums.set(hash, yield* decodePlutusData(datum, "datum"))
+    }
+
+    return Array.from(datums.values())
+  })
+
+/**
+ * Plutus witnesses of the transaction: redeemers with their pointers and the
+ * datums of spent datum-hash inputs. Redeemers not yet evaluated carry zero
+ * execution units.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const buildPlutusWitnesses = (
+  state: TxBuilderState
+): Effect.Effect<
+  { redeemers: Array<Redeemer.Redeemer>; plutusData: Array<PlutusData.Data> },
+  TransactionBuilderError
+> =>
+  Effect.gen(function* () {
+    const pointers = yield* buildRedeemerPointers(state)
+    const redeemers: Array<Redeemer.Redeemer> = []
+
+    for (const [key, redeemer] of state.redeemers) {
+      const pointer = pointers.get(key)
+      if (!pointer || pointer.tag !== redeemer.tag) {
+        return yield* Effect.fail(
+          new TransactionBuilderError({ message: `Redeemer ${key} does not point to any ${redeemer.tag} purpose` })
+        )
+      }
+      redeemers.push(
+        new Redeemer.Redeemer({
+          tag: pointer.tag,
+          index: pointer.index,
+          data: yield* decodePlutusData(redeemer.data, "redeemer"),
+          exUnits: redeemer.exUnits ? [redeemer.exUnits.mem, redeemer.exUnits.steps] : [0n, 0n]
+        })
+      )
+    }
+
+    redeemers.sort(
+      (a, b) => Number(Redeemer.tagToInteger(a.tag) - Redeemer.tagToInteger(b.tag)) || Number(a.index - b.index)
+    )
+
+    return { redeemers, plutusData: yield* buildWitnessDatums(state) }
+  })
+
+/**
+ * Compute the script data hash over redeemers, witness datums and the cost
+ * models of the Plutus languages the transaction executes.
+ * Returns undefined when there are neither redeemers nor datums.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const buildScriptDataHash = (
+  state: TxBuilderState,
+  witnesses: { redeemers: ReadonlyArray<Redeemer.Redeemer>; plutusData: ReadonlyArray<PlutusData.Data> }
+): Effect.Effect<ScriptDataHash.ScriptDataHash | undefined, TransactionBuilderError, ProtocolParametersTag> =>
+  Effect.gen(function* () {
+    if (witnesses.redeemers.length === 0 && witnesses.plutusData.length === 0) {
+      return undefined
+    }
+
+    const languages = new Set<"PlutusV1" | "PlutusV2" | "PlutusV3">()
+    for (const { scriptHash } of yield* collectScriptPurposes(state)) {
+      const script = resolveScript(state, scriptHash)
+      if (script && script.type !== "Native") {
+        languages.add(script.type)
+      }
+    }
+
+    const { costModels } = yield* ProtocolParametersTag
+    const emptyCostModel = new CostModel.CostModel({ costs: [] })
+    const usedCostModels = { PlutusV1: emptyCostModel, PlutusV2: emptyCostModel, PlutusV3: emptyCostModel }
+    for (const language of languages) {
+      const costModel = costModels?.[language]
+      if (!costModel || costModel.costs.length === 0) {
+        return yield* Effect.fail(
+          new TransactionBuilderError({
+            message: `Missing ${language} cost model in protocol parameters, required to compute the script data hash`
+          })
+        )
+      }
+      usedCostModels[language] = costModel
+    }
+
+    return hashScriptData(witnesses.redeemers, new CostModel.CostModels(usedCostModels), witnesses.plutusData)
+  })
+
+/**
+ * Whether any redeemer still needs its execution units from script evaluation.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const needsScriptEvaluation = (state: TxBuilderState): boolean =>
+  Array.from(state.redeemers.values()).some((redeemer) => redeemer.exUnits === undefined)
+
+/**
+ * Convert withdrawals tracked by reward address into core Withdrawals.
+ * Returns undefined when there are none so the body field is omitted.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const buildWithdrawals = (
+  withdrawals: ReadonlyMap<RewardAddress.RewardAddress, bigint>
+): Effect.Effect<Withdrawals.Withdrawals | undefined, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    if (withdrawals.size === 0) {
+      return undefined
+    }
+
+    const entries = new Map<RewardAccount.RewardAccount, bigint>()
+    for (const [rewardAddress, amount] of withdrawals) {
+      entries.set(yield* parseRewardAccount(rewardAddress), amount)
+    }
+
+    return new Withdrawals.Withdrawals({ withdrawals: entries })
+  })
+
+/**
+ * Group votes by voter into core VotingProcedures.
+ * Returns undefined when there are none so the body field is omitted.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const buildVotingProcedures = (
+  votes: ReadonlyArray<VoteData>
+): VotingProcedures.VotingProcedures | undefined => {
+  if (votes.length === 0) {
+    return undefined
+  }
+
+  const byVoter = new Map<
+    string,
+    { voter: VotingProcedures.Voter; procedures: Map<GovernanceAction.GovActionId, VotingProcedures.VotingProcedure> }
+  >()
+  for (const { govActionId, procedure, voter } of votes) {
+    const key = voterKey(voter, voterCredential(voter)!)
+    const entry = byVoter.get(key) ?? { voter, procedures: new Map() }
+    entry.procedures.set(govActionId, procedure)
+    byVoter.set(key, entry)
+  }
+
+  return new VotingProcedures.VotingProcedures({
+    procedures: new Map(Array.from(byVoter.values(), ({ procedures, voter }) => [voter, procedures]))
+  })
+}
+
+/**
+ * Build the auxiliary data carrying the attached metadata, if any.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const buildAuxiliaryData = (state: TxBuilderState): AuxiliaryData.AuxiliaryData | undefined =>
+  state.metadata.size > 0 ? AuxiliaryData.conway({ metadata: new Map(state.metadata) }) : undefined
+
+/**
+ * Build the optional TransactionBody fields from builder state.
+ * Shared by fee estimation and final assembly so both see the same body.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const buildTransactionBodyExtras = (
+  state: TxBuilderState
+): Effect.Effect<TransactionBodyExtras, TransactionBuilderError, ProtocolParametersTag> =>
+  Effect.gen(function* () {
+    yield* validateScriptWitnesses(state)
+
+    // Timelocks of native scripts narrow the validity interval
+    let { from: validityIntervalStart, to: ttl } = state.validityInterval
+    for (const nativeScript of yield* collectPurposeNativeScripts(state)) {
+      const { invalidBefore, invalidHereafter } = NativeScripts.requiredValidityInterval(nativeScript.script)
+      if (invalidBefore !== undefined && (validityIntervalStart === undefined || invalidBefore > validityIntervalStart)) {
+        validityIntervalStart = invalidBefore
+      }
+      if (invalidHereafter !== undefined && (ttl === undefined || invalidHereafter < ttl)) {
+        ttl = invalidHereafter
+      }
+    }
+    if (validityIntervalStart !== undefined && ttl !== undefined && validityIntervalStart >= ttl) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Empty validity interval: validFrom slot ${validityIntervalStart} is not before validTo slot ${ttl}`
+        })
+      )
+    }
+
+    const mint = yield* buildMint(state.mint)
+    const withdrawals = yield* buildWithdrawals(state.withdrawals)
+    const certificates =
+      state.certificates.length > 0
+        ? (state.certificates as [Certificate.Certificate, ...Array<Certificate.Certificate>])
+        : undefined
+    const votingProcedures = buildVotingProcedures(state.votes)
+    const proposalProcedures =
+      state.proposals.length > 0 ? new ProposalProcedures.ProposalProcedures({ procedures: state.proposals }) : undefined
+
+    const spentKeys = new Set(state.selectedUtxos.map(utxoKey))
+    const spentReference = state.referenceInputs.find((utxo) => spentKeys.has(utxoKey(utxo)))
+    if (spentReference) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `UTxO ${utxoKey(spentReference)} cannot be both spent and used as a reference input`
+        })
+      )
+    }
+    const referenceInputs =
+      state.referenceInputs.length > 0
+        ? ((yield* buildTransactionInputs(state.referenceInputs)) as [
+            TransactionInput.TransactionInput,
+            ...Array<TransactionInput.TransactionInput>
+          ])
+        : undefined
+
+    const auxiliaryData = buildAuxiliaryData(state)
+    const auxiliaryDataHash = auxiliaryData ? hashAuxiliaryData(auxiliaryData) : undefined
+
+    const scriptDataHash = yield* buildScriptDataHash(state, yield* buildPlutusWitnesses(state))
+
+    const { collateral } = state
+    const collateralInputs = collateral
+      ? ((yield* buildTransactionInputs(collateral.inputs)) as [
+          TransactionInput.TransactionInput,
+          ...Array<TransactionInput.TransactionInput>
+        ])
+      : undefined
+    const collateralReturn = collateral?.returnOutput
+      ? yield* txOutputToTransactionOutput({
+          address: collateral.returnOutput.address,
+          assets: collateral.returnOutput.assets
+        })
+      : undefined
+
+    return {
+      ttl,
+      validityIntervalStart,
+      mint,
+      certificates,
+      withdrawals,
+      votingProcedures,
+      proposalProcedures,
+      auxiliaryDataHash,
+      scriptDataHash,
+      collateralInputs,
+      collateralReturn,
+      totalCollateral: collateral?.totalCollateral,
+      referenceInputs
+    }
+  })
+
+/**
+ * Convert attached SDK scripts to core scripts grouped by witness set field.
+ * Scripts also provided by a reference input are left out of the witness set.
+ * 
+ * @since 2.0.0
+ * @category assembly
+ */
+export const buildWitnessScripts = (
+  scripts: ReadonlyMap<string, Script.Script>,
+  referenceScripts: ReadonlyMap<string, Script.Script>
+): Effect.Effect<WitnessScripts, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    const witnessScripts = {
+      nativeScripts: [] as Array<NativeScripts.NativeScript>,
+      plutusV1Scripts: [] as Array<PlutusV1.PlutusV1>,
+      plutusV2Scripts: [] as Array<PlutusV2.PlutusV2>,
+      plutusV3Scripts: [] as Array<PlutusV3.PlutusV3>
+    }
+
+    for (const [scriptHash, script] of scripts) {
+      if (referenceScripts.has(scriptHash)) {
+        continue
+      }
+      const coreScript = yield* toCoreScript(script)
+      switch (coreScript._tag) {
+        case "NativeScript":
+          witnessScripts.nativeScripts.push(coreScript)
+          break
+        case "PlutusV1":
+          witnessScripts.plutusV1Scripts.push(coreScript)
+          break
+        case "PlutusV2":
+          witnessScripts.plutusV2Scripts.push(coreScript)
+          break
+        case "PlutusV3":
+          witnessScripts.plutusV3Scripts.push(coreScript)
+          break
+      }
+    }
+
+    return witnessScripts
+  })
+
+/**
+ * Assemble a Transaction from inputs, outputs, and calculated fee.
+ * Creates TransactionBody with all required fields.
+ * 
+ * This is where SDK UTxO outputs are converted to core TransactionOutputs.
+ * 
+ * Optional body fields (mint, ...), attached scripts, redeemers and datums
+ * are taken from the builder state in TxContext. Redeemers carry the execution
+ * units recorded by script evaluation (zero before evaluation has run).
  * 
  * @since 2.0.0
  * @category assembly
@@ -493,8 +2152,13 @@ export const assembleTransaction = (
   inputs: ReadonlyArray<TransactionInput.TransactionInput>,
   outputs: ReadonlyArray<UTxO.TxOutput>,
   fee: bigint
-): Effect.Effect<Transaction.Transaction, TransactionBuilderError> =>
+): Effect.Effect<Transaction.Transaction, TransactionBuilderError, TxContext | ProtocolParametersTag> =>
   Effect.gen(function* () {
+    const state = yield* Ref.get(yield* TxContext)
+    const extras = yield* buildTransactionBodyExtras(state)
+    const witnessScripts = yield* buildWitnessScripts(yield* collectWitnessedScripts(state), state.referenceScripts)
+    const plutusWitnesses = yield* buildPlutusWitnesses(state)
+
     // Convert SDK TxOutput outputs to core TransactionOutputs
     const transactionOutputs: Array<TransactionOutput.TransactionOutput> = yield* Effect.all(
       outputs.map((output) =>
@@ -511,37 +2175,21 @@ export const assembleTransaction = (
     const body = new TransactionBody.TransactionBody({
       inputs: inputs as Array<TransactionInput.TransactionInput>,
       outputs: transactionOutputs,
-      fee  // Now using actual calculated fee, not placeholder
+      fee,  // Now using actual calculated fee, not placeholder
+      ...extras
       // Optional fields omitted for now:
-      // - ttl: will be set if setValidityRange is called
-      // - certificates: will be set if certificate operations added
-      // - withdrawals: will be set if withdrawal operations added
-      // - auxiliaryDataHash: will be set if metadata added
-      // - validityIntervalStart: will be set if setValidityRange is called
-      // - mint: will be set if mint/burn operations added
-      // - scriptDataHash: will be calculated when building witness set
-      // - collateralInputs: will be set during witness building
       // - requiredSigners: will be set if addSigner is called
       // - networkId: will be set from config
-      // - collateralReturn: will be calculated during witness building
-      // - totalCollateral: will be calculated during witness building
-      // - referenceInputs: will be set if reference inputs added
-      // - votingProcedures: N/A for transaction building
-      // - proposalProcedures: N/A for transaction building
       // - currentTreasuryValue: N/A for transaction building
       // - donation: N/A for transaction building
     })
 
-    // Create empty witness set (will be populated in Step 4)
+    // Witness set carries scripts, redeemers and datums; signatures are added when signing
     const witnessSet = new TransactionWitnessSet.TransactionWitnessSet({
       vkeyWitnesses: [],
-      nativeScripts: [],
       bootstrapWitnesses: [],
-      plutusV1Scripts: [],
-      plutusData: [],
-      redeemers: [],
-      plutusV2Scripts: [],
-      plutusV3Scripts: []
+      ...plutusWitnesses,
+      ...witnessScripts
     })
 
     // Create Transaction
@@ -549,7 +2197,7 @@ export const assembleTransaction = (
       body,
       witnessSet,
       isValid: true, // Assume valid until script evaluation proves otherwise
-      auxiliaryData: null // Will be set if metadata operations added
+      auxiliaryData: buildAuxiliaryData(state) ?? null
     })
 
     return transaction
@@ -619,9 +2267,93 @@ export const calculateMinimumFee = (
   return (BigInt(transactionSizeBytes) * minFeeCoefficient) + minFeeConstant
 }
 
+// Exact fraction for a decimal protocol price, so fee arithmetic stays in bigint
+const toRational = (value: number): { numerator: bigint; denominator: bigint } => {
+  let scale = 1
+  while (!Number.isInteger(value * scale) && scale < 1e15) {
+    scale *= 10
+  }
+  return { numerator: BigInt(Math.round(value * scale)), denominator: BigInt(scale) }
+}
+
+/**
+ * Calculate the fee for script execution units.
+ * 
+ * Formula: ceil(mem × priceMem + steps × priceStep), computed exactly.
+ * 
+ * @since 2.0.0
+ * @category fee-calculation
+ */
+export const calculateExecutionFee = (
+  exUnits: { mem: bigint; steps: bigint },
+  prices: { priceMem: number; priceStep: number }
+): bigint => {
+  const mem = toRational(prices.priceMem)
+  const step = toRational(prices.priceStep)
+  const numerator = exUnits.mem * mem.numerator * step.denominator + exUnits.steps * step.numerator * mem.denominator
+  const denominator = mem.denominator * step.denominator
+  return (numerator + denominator - 1n) / denominator
+}
+
+// Reference script fee tiers (Conway): the per-byte price grows by 1.2x every 25 KiB
+const REF_SCRIPT_TIER_SIZE = 25_600
+const REF_SCRIPT_TIER_MULTIPLIER = { numerator: 6n, denominator: 5n }
+
+/**
+ * Calculate the fee for reference scripts of the given total size.
+ * 
+ * Every 25 KiB tier is priced at 1.2 times the previous one, starting at
+ * minFeeRefScriptCostPerByte; the total is rounded down as in the ledger.
+ * 
+ * @since 2.0.0
+ * @category fee-calculation
+ */
+export const calculateReferenceScriptFee = (refScriptSize: number, minFeeRefScriptCostPerByte: number): bigint => {
+  // Price as an exact fraction so tiers multiply without rounding drift
+  let { denominator: priceDenominator, numerator: priceNumerator } = toRational(minFeeRefScriptCostPerByte)
+
+  let feeNumerator = 0n
+  let feeDenominator = 1n
+  let remaining = refScriptSize
+
+  while (remaining > 0) {
+    const tierBytes = BigInt(Math.min(remaining, REF_SCRIPT_TIER_SIZE))
+    feeNumerator = feeNumerator * priceDenominator + tierBytes * priceNumerator * feeDenominator
+    feeDenominator *= priceDenominator
+
+    remaining -= REF_SCRIPT_TIER_SIZE
+    priceNumerator *= REF_SCRIPT_TIER_MULTIPLIER.numerator
+    priceDenominator *= REF_SCRIPT_TIER_MULTIPLIER.denominator
+  }
+
+  return feeNumerator / feeDenominator
+}
+
+/**
+ * Total size of the reference scripts carried by spent and reference inputs.
+ * Every UTxO counts, even when several carry the same script.
+ * 
+ * @since 2.0.0
+ * @category fee-calculation
+ */
+export const calculateReferenceScriptsSize = (
+  utxos: ReadonlyArray<UTxO.UTxO>
+): Effect.Effect<number, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    let size = 0
+    for (const utxo of utxos) {
+      if (utxo.scriptRef) {
+        const coreScript = yield* toCoreScript(utxo.scriptRef)
+        size +=
+          coreScript._tag === "NativeScript" ? NativeScripts.toCBORBytes(coreScript).length : coreScript.bytes.length
+      }
+    }
+    return size
+  })
+
 /**
  * Extract payment key hash from a Cardano address.
- * Returns null if address has script credential or no payment credential.
+ * Returns null if address has script credential or no payment credential (Byron addresses).
  * 
  * @since 2.0.0
  * @category fee-calculation
@@ -630,26 +2362,7 @@ export const calculateMinimumFee = (
 const extractPaymentKeyHash = (
   address: string
 ): Effect.Effect<Uint8Array | null, TransactionBuilderError> =>
-  Effect.gen(function* () {
-    const addressStructure = yield* Effect.try({
-      try: () => Address.toAddressStructure(address),
-      catch: (error) =>
-        new TransactionBuilderError({
-          message: `Failed to parse address ${address}`,
-          cause: error
-        })
-    })
-
-    // Check if payment credential is a KeyHash
-    if (
-      addressStructure.paymentCredential?._tag === "KeyHash" &&
-      addressStructure.paymentCredential.hash
-    ) {
-      return addressStructure.paymentCredential.hash
-    }
-
-    return null
-  })
+  Effect.map(paymentCredentialOf(address), (credential) => (credential?._tag === "KeyHash" ? credential.hash : null))
 
 /**
  * Build a fake VKeyWitness for fee estimation.
@@ -695,49 +2408,120 @@ const buildFakeVKeyWitness = (
     })
   })
 
+/**
+ * Build a fake BootstrapWitness for fee estimation of a Byron input.
+ * Carries a 32-byte public key, 64-byte signature, 32-byte chain code and the
+ * address attributes, so it has the size of the witness the address key produces.
+ * 
+ * @since 2.0.0
+ * @category fee-calculation
+ * @internal
+ */
+const buildFakeBootstrapWitness = (
+  address: ByronAddress.ByronAddress
+): Effect.Effect<BootstrapWitness.BootstrapWitness, TransactionBuilderError> =>
+  Effect.try({
+    try: () =>
+      new BootstrapWitness.BootstrapWitness({
+        publicKey: VKey.make({ bytes: new Uint8Array(32) }),
+        signature: Ed25519Signature.make({ bytes: new Uint8Array(64) }),
+        chainCode: new Uint8Array(32),
+        attributes: ByronAddress.attributesToCBORBytes(address)
+      }),
+    catch: (error) =>
+      new TransactionBuilderError({
+        message: "Failed to create fake bootstrap witness",
+        cause: error
+      })
+  })
+
 /**
  * Build a fake witness set for fee estimation from transaction inputs.
- * Extracts unique payment key hashes from input addresses and creates
- * fake witnesses to accurately estimate witness set size in CBOR.
+ * Extracts unique payment key hashes from input addresses (plus key hashes
+ * of certificates, withdrawals, voters and native scripts) and creates fake
+ * witnesses to accurately estimate witness set size in CBOR.
+ * Byron inputs get one fake bootstrap witness per address instead.
+ * Scripts, redeemers and datums from TxContext are included since they count towards size.
  * 
  * @since 2.0.0
  * @category fee-calculation
  */
 export const buildFakeWitnessSet = (
   inputUtxos: ReadonlyArray<UTxO.UTxO>
-): Effect.Effect<TransactionWitnessSet.TransactionWitnessSet, TransactionBuilderError> =>
+): Effect.Effect<TransactionWitnessSet.TransactionWitnessSet, TransactionBuilderError, TxContext> =>
   Effect.gen(function* () {
+    const state = yield* Ref.get(yield* TxContext)
+    const witnessScripts = yield* buildWitnessScripts(yield* collectWitnessedScripts(state), state.referenceScripts)
+    const plutusWitnesses = yield* buildPlutusWitnesses(state)
+
     // Extract unique key hashes from input addresses
     const keyHashesSet = new Set<string>()
     const keyHashes: Array<Uint8Array> = []
 
-    for (const utxo of inputUtxos) {
+    const addKeyHash = (keyHash: Uint8Array) => {
+      const keyHashHex = Buffer.from(keyHash).toString("hex")
+      if (!keyHashesSet.has(keyHashHex)) {
+        keyHashesSet.add(keyHashHex)
+        keyHashes.push(keyHash)
+      }
+    }
+
+    // Byron inputs are signed with bootstrap witnesses, one per address key
+    const byronAddresses = new Map<string, ByronAddress.ByronAddress>()
+
+    for (const utxo of [...inputUtxos, ...(state.collateral?.inputs ?? [])]) {
+      const address = yield* parseAddress(utxo.address)
+      if (address._tag === "ByronAddress") {
+        byronAddresses.set(utxo.address, address)
+        continue
+      }
       const keyHash = yield* extractPaymentKeyHash(utxo.address)
       if (keyHash) {
-        const keyHashHex = Buffer.from(keyHash).toString("hex")
-        if (!keyHashesSet.has(keyHashHex)) {
-          keyHashesSet.add(keyHashHex)
-          keyHashes.push(keyHash)
-        }
+        addKeyHash(keyHash)
       }
     }
 
+    // Credentials signing certificates, withdrawals and votes
+    for (const certificate of state.certificates) {
+      const credential = certificateCredential(certificate)
+      if (credential?._tag === "KeyHash") {
+        addKeyHash(credential.hash)
+      }
+    }
+    for (const rewardAddress of state.withdrawals.keys()) {
+      const { stakeCredential } = yield* parseRewardAccount(rewardAddress)
+      if (stakeCredential._tag === "KeyHash") {
+        addKeyHash(stakeCredential.hash)
+      }
+    }
+    for (const { voter } of state.votes) {
+      const credential = voterCredential(voter)
+      if (credential?._tag === "KeyHash") {
+        addKeyHash(credential.hash)
+      }
+    }
+
+    // Every key a native script references may sign it
+    for (const nativeScript of yield* collectPurposeNativeScripts(state)) {
+      NativeScripts.keyHashes(nativeScript.script).forEach(addKeyHash)
+    }
+
     // Build fake witnesses for each unique key hash
     const vkeyWitnesses: Array<TransactionWitnessSet.VKeyWitness> = []
     for (const keyHash of keyHashes) {
       const witness = yield* buildFakeVKeyWitness(keyHash)
       vkeyWitnesses.push(witness)
     }
+    const bootstrapWitnesses: Array<BootstrapWitness.BootstrapWitness> = []
+    for (const address of byronAddresses.values()) {
+      bootstrapWitnesses.push(yield* buildFakeBootstrapWitness(address))
+    }
 
     return new TransactionWitnessSet.TransactionWitnessSet({
       vkeyWitnesses,
-      nativeScripts: [],
-      bootstrapWitnesses: [],
-      plutusV1Scripts: [],
-      plutusData: [],
-      redeemers: [],
-      plutusV2Scripts: [],
-      plutusV3Scripts: []
+      bootstrapWitnesses,
+      ...plutusWitnesses,
+      ...witnessScripts
     })
   })
 
@@ -746,11 +2530,15 @@ export const buildFakeWitnessSet = (
  * 
  * Algorithm:
  * 1. Build fake witness set from input UTxOs for accurate size estimation
+ *    (optional body fields such as mint come from TxContext state)
  * 2. Build transaction with fee = 0
  * 3. Calculate size and fee
  * 4. Rebuild transaction with calculated fee
  * 5. If size changed, recalculate (usually converges in 1-2 iterations)
  * 
+ * The reference script fee and the execution cost of evaluated redeemers are
+ * added on top of the size-based fee.
+ * 
  * @since 2.0.0
  * @category fee-calculation
  */
@@ -761,11 +2549,43 @@ export const calculateFeeIteratively = (
   protocolParams: {
     minFeeCoefficient: bigint
     minFeeConstant: bigint
+    minFeeRefScriptCostPerByte?: number
+    priceMem?: number
+    priceStep?: number
   }
-): Effect.Effect<bigint, TransactionBuilderError> =>
+): Effect.Effect<bigint, TransactionBuilderError, TxContext | ProtocolParametersTag> =>
   Effect.gen(function* () {
     // Build fake witness set once for accurate size estimation
     const fakeWitnessSet = yield* buildFakeWitnessSet(inputUtxos)
+    const state = yield* Ref.get(yield* TxContext)
+    const extras = yield* buildTransactionBodyExtras(state)
+    const auxiliaryData = buildAuxiliaryData(state) ?? null
+
+    // Reference script fee depends only on the inputs, not on the transaction size
+    const refScriptSize = yield* calculateReferenceScriptsSize([...inputUtxos, ...state.referenceInputs])
+    const refScriptFee =
+      protocolParams.minFeeRefScriptCostPerByte !== undefined
+        ? calculateReferenceScriptFee(refScriptSize, protocolParams.minFeeRefScriptCostPerByte)
+        : 0n
+
+    // Execution cost of the redeemers evaluated so far
+    const totalExUnits = { mem: 0n, steps: 0n }
+    for (const { exUnits } of state.redeemers.values()) {
+      totalExUnits.mem += exUnits?.mem ?? 0n
+      totalExUnits.steps += exUnits?.steps ?? 0n
+    }
+    const { priceMem, priceStep } = protocolParams
+    if ((totalExUnits.mem > 0n || totalExUnits.steps > 0n) && (priceMem === undefined || priceStep === undefined)) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: "Missing priceMem/priceStep in protocol parameters, required to price script execution"
+        })
+      )
+    }
+    const executionFee =
+      priceMem !== undefined && priceStep !== undefined
+        ? calculateExecutionFee(totalExUnits, { priceMem, priceStep })
+        : 0n
     
     // Convert SDK TxOutput outputs to core TransactionOutputs once
     const transactionOutputs: Array<TransactionOutput.TransactionOutput> = yield* Effect.all(
@@ -790,24 +2610,28 @@ export const calculateFeeIteratively = (
       const body = new TransactionBody.TransactionBody({
         inputs: inputs as Array<TransactionInput.TransactionInput>,
         outputs: transactionOutputs,
-        fee: currentFee
+        fee: currentFee,
+        ...extras
       })
       
       const transaction = new Transaction.Transaction({
         body,
         witnessSet: fakeWitnessSet,  // Use fake witness set for accurate size
         isValid: true,
-        auxiliaryData: null
+        auxiliaryData
       })
       
       // Calculate size
       const size = yield* calculateTransactionSize(transaction)
       
-      // Calculate fee based on size
-      const calculatedFee = calculateMinimumFee(size, {
-        minFeeCoefficient: protocolParams.minFeeCoefficient,
-        minFeeConstant: protocolParams.minFeeConstant
-      })
+      // Calculate fee based on size, plus the reference script and execution fees
+      const calculatedFee =
+        calculateMinimumFee(size, {
+          minFeeCoefficient: protocolParams.minFeeCoefficient,
+          minFeeConstant: protocolParams.minFeeConstant
+        }) +
+        refScriptFee +
+        executionFee
       
       // Check if fully converged: fee is stable AND size is stable
       if (currentFee === previousFee && size === previousSize && currentFee >= calculatedFee) {
@@ -841,6 +2665,154 @@ export const calculateFeeIteratively = (
     )
   )
 
+// ============================================================================
+// Collateral
+// ============================================================================
+
+// Ledger default when the protocol parameters do not say otherwise
+const DEFAULT_MAX_COLLATERAL_INPUTS = 3
+
+/**
+ * Calculate the collateral required for a fee: ceil(fee × collateralPercentage / 100).
+ * 
+ * @since 2.0.0
+ * @category collateral
+ */
+export const calculateRequiredCollateral = (fee: bigint, collateralPercentage: number): bigint =>
+  (fee * BigInt(collateralPercentage) + 99n) / 100n
+
+/**
+ * Build collateral from chosen inputs: totalCollateral is the required amount
+ * and everything else goes back to the return address. Fails when the inputs
+ * do not cover the requirement or the return would be below the minimum UTxO.
+ * 
+ * @internal
+ */
+const makeCollateral = (params: {
+  inputs: ReadonlyArray<UTxO.UTxO>
+  required: bigint
+  returnAddress: string
+  coinsPerUtxoByte: bigint
+}): Effect.Effect<CollateralData, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    const { coinsPerUtxoByte, inputs, required, returnAddress } = params
+    const total = calculateTotalAssets(inputs)
+
+    if (total.lovelace < required) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Collateral inputs hold ${total.lovelace} lovelace but ${required} lovelace is required`
+        })
+      )
+    }
+
+    const returnAssets = Assets.subtract(total, Assets.fromLovelace(required))
+    if (Assets.isEmpty(returnAssets)) {
+      return { inputs, totalCollateral: required }
+    }
+
+    const minLovelace = yield* calculateMinimumUtxoLovelace({
+      address: returnAddress,
+      assets: returnAssets,
+      coinsPerUtxoByte
+    })
+    if (returnAssets.lovelace < minLovelace) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: `Collateral return of ${returnAssets.lovelace} lovelace is below the minimum UTxO of ${minLovelace} lovelace`
+        })
+      )
+    }
+
+    return {
+      inputs,
+      totalCollateral: required,
+      returnOutput: yield* makeTxOutput({ address: returnAddress, assets: returnAssets })
+    }
+  })
+
+/**
+ * Choose collateral for a Plutus transaction.
+ * 
+ * Manual collateral is used as given. Otherwise pure-ADA, key-locked UTxOs
+ * without reference scripts are picked largest first until they lock at
+ * least max(required, target) and leave either nothing or a valid return
+ * output, within maxCollateralInputs.
+ * 
+ * @since 2.0.0
+ * @category collateral
+ */
+export const selectCollateral = (params: {
+  required: bigint
+  target: bigint
+  manual?: ReadonlyArray<UTxO.UTxO>
+  availableUtxos: ReadonlyArray<UTxO.UTxO>
+  maxCollateralInputs?: number
+  returnAddress: string
+  coinsPerUtxoByte: bigint
+}): Effect.Effect<CollateralData, TransactionBuilderError> =>
+  Effect.gen(function* () {
+    const { coinsPerUtxoByte, required, returnAddress } = params
+    const maxInputs = params.maxCollateralInputs ?? DEFAULT_MAX_COLLATERAL_INPUTS
+
+    if (params.manual !== undefined) {
+      if (params.manual.length === 0 || params.manual.length > maxInputs) {
+        return yield* Effect.fail(
+          new TransactionBuilderError({
+            message: `Collateral must have between 1 and ${maxInputs} inputs, got ${params.manual.length}`
+          })
+        )
+      }
+      for (const utxo of params.manual) {
+        if (yield* paymentScriptHash(utxo.address)) {
+          return yield* Effect.fail(
+            new TransactionBuilderError({ message: `Collateral UTxO ${utxoKey(utxo)} must be locked by a key` })
+          )
+        }
+      }
+      return yield* makeCollateral({ inputs: params.manual, required, returnAddress, coinsPerUtxoByte })
+    }
+
+    const candidates: Array<UTxO.UTxO> = []
+    for (const utxo of params.availableUtxos) {
+      const pureAda = Assets.getUnits(utxo.assets).every((unit) => unit === "lovelace")
+      if (pureAda && !utxo.scriptRef && !(yield* paymentScriptHash(utxo.address))) {
+        candidates.push(utxo)
+      }
+    }
+    candidates.sort((a, b) => (a.assets.lovelace > b.assets.lovelace ? -1 : a.assets.lovelace < b.assets.lovelace ? 1 : 0))
+
+    const goal = required > params.target ? required : params.target
+    const inputs: Array<UTxO.UTxO> = []
+    let total = 0n
+    for (const utxo of candidates.slice(0, maxInputs)) {
+      inputs.push(utxo)
+      total += utxo.assets.lovelace
+      if (total < goal) continue
+
+      const returnLovelace = total - required
+      const minLovelace =
+        returnLovelace > 0n
+          ? yield* calculateMinimumUtxoLovelace({
+              address: returnAddress,
+              assets: Assets.fromLovelace(returnLovelace),
+              coinsPerUtxoByte
+            })
+          : 0n
+      if (returnLovelace >= minLovelace) {
+        return yield* makeCollateral({ inputs, required, returnAddress, coinsPerUtxoByte })
+      }
+    }
+
+    return yield* Effect.fail(
+      new TransactionBuilderError({
+        message:
+          `Insufficient collateral: need ${goal} lovelace in at most ${maxInputs} pure-ADA key-locked UTxOs ` +
+          `(found ${candidates.length} candidate(s)). Provide collateral in BuildOptions or add pure-ADA UTxOs.`
+      })
+    )
+  })
+
 // ============================================================================
 // Balance Verification for Re-selection Loop
 // ============================================================================
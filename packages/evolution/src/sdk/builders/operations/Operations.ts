@@ -1,6 +1,13 @@
+import type * as Anchor from "../../../core/Anchor.js"
+import type * as Credential from "../../../core/Credential.js"
+import type * as DRep from "../../../core/DRep.js"
+import type * as GovernanceAction from "../../../core/GovernanceAction.js"
+import type * as VotingProcedures from "../../../core/VotingProcedures.js"
 import type * as Address from "../../Address.js"
 import type * as Assets from "../../Assets.js"
 import type * as Datum from "../../Datum.js"
+import type * as Metadata from "../../Metadata.js"
+import type * as RewardAddress from "../../RewardAddress.js"
 import type * as Script from "../../Script.js"
 import type * as UTxO from "../../UTxO.js"
 
@@ -17,10 +24,98 @@ export interface PayToAddressParams {
 
 export interface CollectFromParams {
   readonly inputs: ReadonlyArray<UTxO.UTxO> // Mandatory: UTxOs to consume as inputs
-  readonly redeemer?: string
+  readonly redeemer?: string // Optional: Redeemer CBOR hex, required for Plutus script inputs
+  readonly datums?: ReadonlyArray<string> // Optional: Datum CBOR hex for script inputs locked by a datum hash
+}
+
+export interface ReadFromParams {
+  readonly referenceInputs: ReadonlyArray<UTxO.UTxO> // Mandatory: UTxOs to read without spending; their reference scripts are used instead of witness scripts
 }
 
 export interface MintTokensParams {
   readonly assets: Assets.Assets // Mandatory: Tokens to mint (excluding lovelace)
   readonly redeemer?: string // Optional: Redeemer for minting script
-}
\ No newline at end of file
+}
+
+export interface AttachScriptParams {
+  readonly script: Script.Script // Mandatory: Script to include in the witness set
+}
+
+export interface RegisterStakeParams {
+  readonly rewardAddress: RewardAddress.RewardAddress // Mandatory: Reward address of the credential to register
+  readonly redeemer?: string // Optional: Redeemer for Plutus stake validators
+}
+
+export interface DeregisterStakeParams {
+  readonly rewardAddress: RewardAddress.RewardAddress // Mandatory: Reward address of the credential to deregister
+  readonly redeemer?: string // Optional: Redeemer for Plutus stake validators
+}
+
+export interface DelegateToParams {
+  readonly rewardAddress: RewardAddress.RewardAddress // Mandatory: Reward address of the delegating credential
+  readonly poolId: string // Mandatory: Pool id (bech32 "pool1..." or hex)
+  readonly redeemer?: string // Optional: Redeemer for Plutus stake validators
+}
+
+export interface WithdrawParams {
+  readonly rewardAddress: RewardAddress.RewardAddress // Mandatory: Reward address to withdraw from
+  readonly amount: bigint // Mandatory: Full reward balance in lovelace
+  readonly redeemer?: string // Optional: Redeemer for Plutus stake validators
+}
+
+/**
+ * A validity bound, given either as an absolute slot or as POSIX time in
+ * milliseconds (converted with the build's slot configuration).
+ */
+export type ValidityParams =
+  | { readonly slot: bigint } // Absolute slot number
+  | { readonly unixTime: number } // POSIX time in milliseconds
+
+export interface AttachMetadataParams {
+  readonly label: bigint | number // Mandatory: Metadata label (e.g. 674 for CIP-20 messages)
+  readonly metadata: Metadata.MetadataValue // Mandatory: Plain JS value; strings and bytes over 64 bytes are chunked
+}
+
+/**
+ * A DRep credential, given either as a key or script hash credential or as a
+ * bech32 DRep id ("drep1..." or "drep_script1...", CIP-105 or CIP-129).
+ */
+export type DRepId = Credential.CredentialSchema | string
+
+export interface RegisterDRepParams {
+  readonly drep: DRepId // Mandatory: DRep credential to register
+  readonly anchor?: Anchor.Anchor // Optional: DRep metadata anchor
+  readonly redeemer?: string // Optional: Redeemer for Plutus DRep scripts
+}
+
+export interface UpdateDRepParams {
+  readonly drep: DRepId // Mandatory: DRep credential
+  readonly anchor?: Anchor.Anchor // Optional: New DRep metadata anchor
+  readonly redeemer?: string // Optional: Redeemer for Plutus DRep scripts
+}
+
+export interface RetireDRepParams {
+  readonly drep: DRepId // Mandatory: DRep credential
+  readonly redeemer?: string // Optional: Redeemer for Plutus DRep scripts
+}
+
+export interface DelegateVoteParams {
+  readonly rewardAddress: RewardAddress.RewardAddress // Mandatory: Reward address of the delegating credential
+  readonly drep: DRep.DRep // Mandatory: DRep, or always-abstain / always-no-confidence
+  readonly redeemer?: string // Optional: Redeemer for Plutus stake validators
+}
+
+export interface VoteParams {
+  readonly voter: VotingProcedures.Voter // Mandatory: Committee member, DRep or stake pool casting the vote
+  readonly govActionId: GovernanceAction.GovActionId // Mandatory: Governance action voted on
+  readonly vote: VotingProcedures.Vote // Mandatory: Yes, no or abstain
+  readonly anchor?: Anchor.Anchor // Optional: Vote rationale anchor
+  readonly redeemer?: string // Optional: Redeemer for Plutus voter scripts (one per voter)
+}
+
+export interface ProposeParams {
+  readonly rewardAddress: RewardAddress.RewardAddress // Mandatory: Reward address receiving the deposit refund
+  readonly governanceAction: GovernanceAction.GovernanceAction // Mandatory: Proposed governance action
+  readonly anchor: Anchor.Anchor // Mandatory: Proposal metadata anchor
+  readonly redeemer?: string // Optional: Redeemer for the guardrail script of policy-guarded actions
+}
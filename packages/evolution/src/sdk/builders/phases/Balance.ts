@@ -11,7 +11,9 @@
 import { Effect, Ref } from "effect"
 
 import * as Assets from "../../Assets.js"
+import type { TxBuilderState } from "../TransactionBuilder.js"
 import { BuildOptionsTag, PhaseContextTag, TransactionBuilderError, TxContext } from "../TransactionBuilder.js"
+import { needsScriptEvaluation } from "../TxBuilderImpl.js"
 import type { PhaseResult } from "./Phases.js"
 
 /**
@@ -23,18 +25,28 @@ const formatAssetsForLog = (assets: Assets.Assets): string => {
     .join(", ")
 }
 
+/**
+ * A balanced transaction is complete unless some redeemers still need their
+ * execution units, in which case scripts are evaluated and the fee recalculated.
+ * Transactions with redeemers then need collateral sized from the final fee.
+ */
+const completeOrEvaluate = (state: TxBuilderState): PhaseResult => ({
+  next: needsScriptEvaluation(state) ? "evaluation" : state.redeemers.size > 0 ? "collateral" : "complete"
+})
+
 /**
  * Balance Verification Phase
  *
  * Verifies that transaction inputs exactly equal outputs + change + fees.
  * Handles three scenarios: balanced (complete), shortfall (retry), or excess (burn/drain).
+ * Balanced transactions with unevaluated redeemers continue to script evaluation.
  *
  * **Decision Flow:**
  * ```
  * Calculate Delta: inputs - outputs - change - fees
  *   ↓
  * Delta == 0?
- *   ├─ YES → BALANCED: Complete transaction
+ *   ├─ YES → BALANCED: Complete transaction (Plutus: evaluate scripts and select collateral first)
  *   └─ NO → Check delta value
  *           ↓
  *        Delta > 0 (Excess)?
@@ -98,7 +110,7 @@ export const executeBalance = (): Effect.Effect<
     // Step 3: Check if balanced (delta is empty) → complete
     if (isBalanced) {
       yield* Effect.logDebug("[Balance] Transaction balanced!")
-      return { next: "complete" as const }
+      return completeOrEvaluate(state)
     }
 
     // Step 4: Not balanced - check for native assets in delta (shouldn't happen)
@@ -166,13 +178,13 @@ export const executeBalance = (): Effect.Effect<
           `[Balance] DrainTo mode: Merged ${deltaLovelace} lovelace into output[${drainToIndex}]. ` +
             `New output value: ${newLovelace}. Transaction balanced.`
         )
-        return { next: "complete" as const }
+        return completeOrEvaluate(yield* Ref.get(ctx))
       } else if (isBurnMode) {
         // Burn mode: Positive delta is the burned leftover (becomes implicit fee)
         yield* Effect.logDebug(
           `[Balance] Burn mode: ${deltaLovelace} lovelace burned as implicit fee. ` + `Transaction balanced.`
         )
-        return { next: "complete" as const }
+        return completeOrEvaluate(state)
       } else {
         // Not burn mode or drainTo: This is a bug
         return yield* Effect.fail(
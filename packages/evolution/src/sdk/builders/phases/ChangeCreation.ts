@@ -207,7 +207,7 @@ export const executeChangeCreation = (): Effect.Effect<
       const state = yield* Ref.get(stateRef)
       const alreadySelected = state.selectedUtxos
       const allAvailableUtxos = yield* AvailableUtxosTag
-      const availableUtxos = getAvailableUtxos(allAvailableUtxos, alreadySelected)
+      const availableUtxos = getAvailableUtxos(allAvailableUtxos, [...alreadySelected, ...state.referenceInputs])
       const hasMoreUtxos = availableUtxos.length > 0
 
       // Try reselection up to MAX_ATTEMPTS (if UTxOs available)
@@ -0,0 +1,96 @@
+/**
+ * Collateral Phase
+ *
+ * Chooses collateral for transactions that execute Plutus scripts once the
+ * fee is known, and sizes totalCollateral and the collateral return from it.
+ *
+ * @module Collateral
+ * @since 2.0.0
+ */
+
+import { Effect, Ref } from "effect"
+
+import {
+  AvailableUtxosTag,
+  BuildOptionsTag,
+  ChangeAddressTag,
+  PhaseContextTag,
+  ProtocolParametersTag,
+  TransactionBuilderError,
+  TxContext
+} from "../TransactionBuilder.js"
+import { calculateRequiredCollateral, selectCollateral } from "../TxBuilderImpl.js"
+import type { PhaseResult } from "./Phases.js"
+
+// Lovelace locked by automatically picked collateral when BuildOptions.setCollateral is not given
+const DEFAULT_COLLATERAL_TARGET = 5_000_000n
+
+/**
+ * Collateral Phase
+ *
+ * Runs once a Plutus transaction balances with evaluated redeemers.
+ *
+ * **Decision Flow:**
+ * ```
+ * Required = ceil(fee × collateralPercentage / 100)
+ *   ↓
+ * Current totalCollateral covers Required?
+ *   ├─ YES → complete
+ *   └─ NO → Select collateral (manual or pure-ADA key-locked UTxOs)
+ *           ↓
+ *        Store inputs, totalCollateral and return output
+ *           ↓
+ *        goto feeCalculation (collateral fields add to the size)
+ * ```
+ *
+ * Requirements only grow with the fee, so the loop settles after the first
+ * selection or a small fee increase.
+ */
+export const executeCollateral = (): Effect.Effect<
+  PhaseResult,
+  TransactionBuilderError,
+  PhaseContextTag | TxContext | ProtocolParametersTag | BuildOptionsTag | ChangeAddressTag | AvailableUtxosTag
+> =>
+  Effect.gen(function* () {
+    // Step 1: Get contexts
+    const ctx = yield* TxContext
+    const buildCtx = yield* Ref.get(yield* PhaseContextTag)
+    const protocolParams = yield* ProtocolParametersTag
+    const state = yield* Ref.get(ctx)
+
+    if (protocolParams.collateralPercentage === undefined) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message: "Missing collateralPercentage in protocol parameters, required for transactions executing scripts"
+        })
+      )
+    }
+
+    // Step 2: Check whether the current collateral still covers the fee
+    const required = calculateRequiredCollateral(buildCtx.calculatedFee, protocolParams.collateralPercentage)
+    if (state.collateral !== undefined && state.collateral.totalCollateral >= required) {
+      return { next: "complete" as const }
+    }
+
+    // Step 3: Select collateral for the required amount
+    const buildOptions = yield* BuildOptionsTag
+    const collateral = yield* selectCollateral({
+      required,
+      target: buildOptions.setCollateral ?? DEFAULT_COLLATERAL_TARGET,
+      manual: buildOptions.collateral,
+      availableUtxos: yield* AvailableUtxosTag,
+      maxCollateralInputs: protocolParams.maxCollateralInputs,
+      returnAddress: yield* ChangeAddressTag,
+      coinsPerUtxoByte: protocolParams.coinsPerUtxoByte
+    })
+
+    yield* Effect.logDebug(
+      `[Collateral] ${collateral.inputs.length} input(s), total collateral ${collateral.totalCollateral}, ` +
+        `return ${collateral.returnOutput?.assets.lovelace ?? 0n} lovelace`
+    )
+
+    // Step 4: Store and recalculate the fee with the collateral fields
+    yield* Ref.update(ctx, (s) => ({ ...s, collateral }))
+
+    return { next: "feeCalculation" as const }
+  })
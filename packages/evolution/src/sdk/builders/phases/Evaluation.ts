@@ -0,0 +1,123 @@
+/**
+ * Script Evaluation Phase
+ *
+ * Evaluates the Plutus scripts of the balanced transaction and records the
+ * execution units of every redeemer, then hands back to fee calculation so
+ * the execution cost is paid for.
+ *
+ * @module Evaluation
+ * @since 2.0.0
+ */
+
+import { Effect, Ref } from "effect"
+
+import type { EvalRedeemer } from "../../EvalRedeemer.js"
+import type { EvaluationError, ProtocolParametersTag } from "../TransactionBuilder.js"
+import { PhaseContextTag, ScriptEvaluatorTag, TransactionBuilderError, TxContext } from "../TransactionBuilder.js"
+import { assembleTransaction, buildRedeemerPointers, buildTransactionInputs } from "../TxBuilderImpl.js"
+import type { PhaseResult } from "./Phases.js"
+
+// Evaluator tags use the ledger's script purpose names; redeemers use the CDDL names
+const REDEEMER_TAGS: Record<EvalRedeemer["redeemer_tag"], string> = {
+  spend: "spend",
+  mint: "mint",
+  publish: "cert",
+  withdraw: "reward",
+  vote: "vote",
+  propose: "propose"
+}
+
+/**
+ * Script Evaluation Phase
+ *
+ * Runs once the transaction balances while some redeemers still lack
+ * execution units.
+ *
+ * **Decision Flow:**
+ * ```
+ * Assemble transaction
+ * (inputs, outputs + change, current fee, redeemers with zero ExUnits)
+ *   ↓
+ * Evaluate with BuildOptions.evaluator or provider.evaluateTx
+ * (spent and reference inputs passed as additional UTxOs)
+ *   ↓
+ * Match results to redeemers by tag and index
+ *   ↓
+ * Store ExUnits in builder state
+ *   ↓
+ * goto feeCalculation
+ * ```
+ */
+export const executeEvaluation = (): Effect.Effect<
+  PhaseResult,
+  TransactionBuilderError | EvaluationError,
+  PhaseContextTag | TxContext | ProtocolParametersTag | ScriptEvaluatorTag
+> =>
+  Effect.gen(function* () {
+    // Step 1: Get contexts and the configured evaluator
+    const ctx = yield* TxContext
+    const buildCtx = yield* Ref.get(yield* PhaseContextTag)
+    const evaluate = yield* ScriptEvaluatorTag
+
+    if (!evaluate) {
+      return yield* Effect.fail(
+        new TransactionBuilderError({
+          message:
+            "Transaction executes Plutus scripts but no evaluator is available. " +
+            "Provide an evaluator in BuildOptions or a provider in config."
+        })
+      )
+    }
+
+    // Step 2: Assemble the transaction as it currently balances
+    const state = yield* Ref.get(ctx)
+    const inputs = yield* buildTransactionInputs(state.selectedUtxos)
+    const transaction = yield* assembleTransaction(
+      inputs,
+      [...state.outputs, ...buildCtx.changeOutputs],
+      buildCtx.calculatedFee
+    )
+
+    yield* Effect.logDebug(`[Evaluation] Evaluating ${state.redeemers.size} redeemer(s)`)
+
+    // Step 3: Evaluate scripts
+    const results = yield* evaluate(transaction, [...state.selectedUtxos, ...state.referenceInputs])
+
+    // Step 4: Match results to redeemer keys through their pointers
+    const keysByPointer = new Map<string, string>()
+    for (const [key, pointer] of yield* buildRedeemerPointers(state)) {
+      keysByPointer.set(`${pointer.tag}:${pointer.index}`, key)
+    }
+
+    const redeemers = new Map(state.redeemers)
+    for (const result of results) {
+      const key = keysByPointer.get(`${REDEEMER_TAGS[result.redeemer_tag]}:${result.redeemer_index}`)
+      const redeemer = key !== undefined ? redeemers.get(key) : undefined
+      if (key === undefined || redeemer === undefined) {
+        return yield* Effect.fail(
+          new TransactionBuilderError({
+            message: `Evaluator returned execution units for unknown redeemer ${result.redeemer_tag}:${result.redeemer_index}`
+          })
+        )
+      }
+      redeemers.set(key, {
+        ...redeemer,
+        exUnits: { mem: BigInt(result.ex_units.mem), steps: BigInt(result.ex_units.steps) }
+      })
+    }
+
+    for (const [key, redeemer] of redeemers) {
+      if (redeemer.exUnits === undefined) {
+        return yield* Effect.fail(
+          new TransactionBuilderError({
+            message: `Evaluator returned no execution units for redeemer ${key} (${redeemer.tag})`
+          })
+        )
+      }
+    }
+
+    // Step 5: Store ExUnits and recalculate the fee with the execution cost
+    yield* Ref.update(ctx, (s) => ({ ...s, redeemers }))
+
+    return { next: "feeCalculation" as const }
+  })
@@ -80,7 +80,10 @@ export const executeFeeCalculation = (): Effect.Effect<
     const protocolParams = yield* ProtocolParametersTag
     const calculatedFee = yield* calculateFeeIteratively(selectedUtxos, inputs, allOutputs, {
       minFeeCoefficient: protocolParams.minFeeCoefficient,
-      minFeeConstant: protocolParams.minFeeConstant
+      minFeeConstant: protocolParams.minFeeConstant,
+      minFeeRefScriptCostPerByte: protocolParams.minFeeRefScriptCostPerByte,
+      priceMem: protocolParams.priceMem,
+      priceStep: protocolParams.priceStep
     })
 
     yield* Effect.logDebug(`[FeeCalculation] Calculated fee: ${calculatedFee}`)
@@ -10,18 +10,21 @@
 
 import { Effect, Ref } from "effect"
 
+import * as TransactionOutput from "../../../core/TransactionOutput.js"
 import * as Assets from "../../Assets.js"
 import type * as UTxO from "../../UTxO.js"
-import type { CoinSelectionAlgorithm, CoinSelectionFunction } from "../CoinSelection.js"
-import { largestFirstSelection } from "../CoinSelection.js"
+import type { ChangeOutputCost, CoinSelectionAlgorithm, CoinSelectionFunction } from "../CoinSelection.js"
+import { largestFirstSelection, optimalSelection, randomImproveSelection } from "../CoinSelection.js"
 import {
   AvailableUtxosTag,
   BuildOptionsTag,
+  ChangeAddressTag,
   PhaseContextTag,
+  ProtocolParametersTag,
   TransactionBuilderError,
   TxContext
 } from "../TransactionBuilder.js"
-import { calculateTotalAssets } from "../TxBuilderImpl.js"
+import { calculateTotalAssets, txOutputToTransactionOutput } from "../TxBuilderImpl.js"
 import type { PhaseResult } from "./Phases.js"
 
 /**
@@ -53,15 +56,9 @@ const getCoinSelectionAlgorithm = (algorithm: CoinSelectionAlgorithm): CoinSelec
     case "largest-first":
       return largestFirstSelection
     case "random-improve":
-      throw new TransactionBuilderError({
-        message: "random-improve algorithm not yet implemented",
-        cause: { algorithm }
-      })
+      return randomImproveSelection
     case "optimal":
-      throw new TransactionBuilderError({
-        message: "optimal algorithm not yet implemented",
-        cause: { algorithm }
-      })
+      return optimalSelection
     default:
       throw new TransactionBuilderError({
         message: `Unknown coin selection algorithm: ${algorithm}`,
@@ -120,11 +117,22 @@ const performCoinSelectionUpdateState = (assetShortfalls: Assets.Assets) =>
     // Get resolved availableUtxos from context tag
     const allAvailableUtxos = yield* AvailableUtxosTag
     const buildOptions = yield* BuildOptionsTag
-    const availableUtxos = getAvailableUtxos(allAvailableUtxos, alreadySelected)
+    const protocolParameters = yield* ProtocolParametersTag
+    const changeAddress = yield* ChangeAddressTag
+    // Reference inputs are read, never spent
+    const availableUtxos = getAvailableUtxos(allAvailableUtxos, [...alreadySelected, ...state.referenceInputs])
     const coinSelectionFn = resolveCoinSelectionFn(buildOptions.coinSelection)
+    const { coinsPerUtxoByte, minFeeCoefficient } = protocolParameters
+
+    // Change outputs are sized as the builder creates them
+    const changeOutputCost = (assets: Assets.Assets): ChangeOutputCost => {
+      const output = Effect.runSync(txOutputToTransactionOutput({ address: changeAddress, assets }))
+      const size = BigInt(TransactionOutput.toCBORBytes(output).length)
+      return { minLovelace: coinsPerUtxoByte * size, fee: minFeeCoefficient * size }
+    }
 
     const { selectedUtxos } = yield* Effect.try({
-      try: () => coinSelectionFn(availableUtxos, assetShortfalls),
+      try: () => coinSelectionFn(availableUtxos, assetShortfalls, { minFeeCoefficient, changeOutputCost }),
       catch: (error) => {
         // Custom serialization for Assets (handles BigInt)
         return new TransactionBuilderError({
@@ -171,12 +179,17 @@ const performCoinSelectionUpdateState = (assetShortfalls: Assets.Assets) =>
  * - Reselection (shortfall > 0) adds more UTxOs within MAX_ATTEMPTS limit
  * - Selection itself doesn't fail; ChangeCreation may trigger reselection
  * - No selection needed if explicit inputs already cover requirements
+ * - At least one input is always selected, even when refunds cover the fee
  * - Shortfall tracks lovelace deficit for change output minUTxO
  * - Asset delta identifies what additional UTxOs must contain
  * - Attempt counter resets at phase start, incremented at phase end
  * - Selection is deterministic (same inputs = same selection)
  */
-export const executeSelection = (): Effect.Effect<PhaseResult, TransactionBuilderError, PhaseContextTag | TxContext | AvailableUtxosTag | BuildOptionsTag> =>
+export const executeSelection = (): Effect.Effect<
+  PhaseResult,
+  TransactionBuilderError,
+  PhaseContextTag | TxContext | AvailableUtxosTag | BuildOptionsTag | ProtocolParametersTag | ChangeAddressTag
+> =>
   Effect.gen(function* () {
     const ctx = yield* TxContext
     const buildCtxRef = yield* PhaseContextTag
@@ -201,7 +214,11 @@ export const executeSelection = (): Effect.Effect<PhaseResult, TransactionBuilde
     // even if inputAssets >= totalNeeded, because the shortfall indicates
     // insufficient lovelace for change output minUTxO requirement
     const isReselection = buildCtx.shortfall > 0n
-    const needsSelection = !Assets.isEmpty(assetShortfalls) || isReselection
+
+    // The ledger rejects transactions without inputs. When refunds or withdrawals
+    // already cover outputs and fee, one UTxO must still be spent.
+    const needsInput = state.selectedUtxos.length === 0
+    const needsSelection = !Assets.isEmpty(assetShortfalls) || isReselection || needsInput
 
     yield* Effect.logDebug(
       `[Selection] Needed: {${formatAssetsForLog(totalNeeded)}}, ` +
@@ -228,6 +245,9 @@ export const executeSelection = (): Effect.Effect<PhaseResult, TransactionBuilde
         // During reselection, select for the shortfall amount only
         const reselectionShortfall: Assets.Assets = { lovelace: buildCtx.shortfall }
         yield* performCoinSelectionUpdateState(reselectionShortfall)
+      } else if (Assets.isEmpty(assetShortfalls)) {
+        yield* Effect.logDebug("[Selection] No inputs yet, selecting a single UTxO")
+        yield* performCoinSelectionUpdateState(Assets.fromLovelace(1n))
       } else {
         yield* Effect.logDebug(`[Selection] Selecting for shortfall: ${formatAssetsForLog(assetShortfalls)}`)
         yield* performCoinSelectionUpdateState(assetShortfalls)
@@ -3,8 +3,11 @@
 
 import { Data, type Effect, type Schedule } from "effect"
 
+import type * as Address from "../Address.js"
 import type { ReadOnlyTransactionBuilder, SigningTransactionBuilder } from "../builders/TransactionBuilder.js"
 import type * as Delegation from "../Delegation.js"
+import type { Emulator } from "../provider/Emulator.js"
+import type { FallbackOptions } from "../provider/Fallback.js"
 import type * as Provider from "../provider/Provider.js"
 import type { EffectToPromiseAPI } from "../Type.js"
 import type * as UTxO from "../UTxO.js"
@@ -74,7 +77,7 @@ export interface MinimalClient {
     config: T
   ) => T extends SeedWalletConfig
     ? SigningWalletClient
-    : T extends PrivateKeyWalletConfig
+    : T extends PrivateKeyWalletConfig | NativeScriptWalletConfig
       ? SigningWalletClient
       : T extends ApiWalletConfig
         ? ApiWalletClient
@@ -84,7 +87,7 @@ export interface MinimalClient {
     walletConfig: TW
   ) => TW extends SeedWalletConfig
     ? SigningClient
-    : TW extends PrivateKeyWalletConfig
+    : TW extends PrivateKeyWalletConfig | NativeScriptWalletConfig
       ? SigningClient
       : TW extends ApiWalletConfig
         ? SigningClient
@@ -102,7 +105,7 @@ export type ProviderOnlyClient = EffectToPromiseAPI<Provider.ProviderEffect> & {
     config: T
   ) => T extends SeedWalletConfig
     ? SigningClient
-    : T extends PrivateKeyWalletConfig
+    : T extends PrivateKeyWalletConfig | NativeScriptWalletConfig
       ? SigningClient
       : T extends ApiWalletConfig
         ? SigningClient
@@ -248,6 +251,8 @@ export interface RetryConfig {
   readonly retryDelayMs: number
   readonly backoffMultiplier: number
   readonly maxRetryDelayMs: number
+  /** Timeout of each request attempt; defaults to 10 seconds */
+  readonly timeoutMs?: number
 }
 
 /**
@@ -265,7 +270,12 @@ export const RetryPresets = {
 } as const
 
 /**
- * Retry policy can be either a preset config or a custom Effect Schedule
+ * Retry policy can be either a preset config or a custom Effect Schedule.
+ *
+ * Only transient failures are retried: network errors, request timeouts, rate
+ * limits (429) and server errors (5xx). A `Retry-After` header lengthens the
+ * delay before the next attempt. A custom Schedule receives the failed request's
+ * error as input.
  */
 export type RetryPolicy = RetryConfig | Schedule.Schedule<any, any> | { preset: keyof typeof RetryPresets }
 
@@ -303,7 +313,28 @@ export interface KoiosConfig {
   readonly retryPolicy?: RetryPolicy
 }
 
-export type ProviderConfig = BlockfrostConfig | KupmiosConfig | MaestroConfig | KoiosConfig
+export interface EmulatorConfig {
+  readonly type: "emulator"
+  readonly emulator: Emulator
+}
+
+/**
+ * Several providers used together: reads fail over and are spread round-robin,
+ * submissions go to every provider. See `FallbackProvider`.
+ */
+export interface FallbackConfig {
+  readonly type: "fallback"
+  readonly providers: ReadonlyArray<ProviderConfig>
+  readonly options?: FallbackOptions
+}
+
+export type ProviderConfig =
+  | BlockfrostConfig
+  | KupmiosConfig
+  | MaestroConfig
+  | KoiosConfig
+  | EmulatorConfig
+  | FallbackConfig
 
 // Wallet Configs
 export interface SeedWalletConfig {
@@ -314,6 +345,18 @@ export interface SeedWalletConfig {
   readonly stakeIndex?: number
   readonly addressType?: "Base" | "Enterprise"
   readonly password?: string
+  /**
+   * Discover used external and change addresses through the provider (BIP-44 gap limit,
+   * 20 by default) and spend and sign across all of them. Requires a provider.
+   * Addresses holding UTxOs count as used unless `isUsed` checks transaction history.
+   * Discovery runs once; call `refresh()` on the wallet to rescan.
+   */
+  readonly addressDiscovery?:
+    | boolean
+    | {
+        readonly gapLimit?: number
+        readonly isUsed?: (address: Address.Address) => Promise<boolean>
+      }
 }
 
 export interface PrivateKeyWalletConfig {
@@ -323,6 +366,13 @@ export interface PrivateKeyWalletConfig {
   readonly addressType?: "Base" | "Enterprise"
 }
 
+export interface NativeScriptWalletConfig {
+  readonly type: "native-script"
+  readonly script: string // CBOR hex native script locking the payment credential
+  readonly stakeScript?: string // CBOR hex native script for the stake credential (Base address)
+  readonly signingKeys?: ReadonlyArray<string> // bech32 ed25519e_sk keys of the co-signers held locally
+}
+
 export interface ReadOnlyWalletConfig {
   readonly type: "read-only"
   readonly address: string
@@ -334,5 +384,10 @@ export interface ApiWalletConfig {
   readonly api: WalletApi // CIP-30 wallet API interface
 }
 
-export type WalletConfig = SeedWalletConfig | PrivateKeyWalletConfig | ReadOnlyWalletConfig | ApiWalletConfig
+export type WalletConfig =
+  | SeedWalletConfig
+  | PrivateKeyWalletConfig
+  | NativeScriptWalletConfig
+  | ReadOnlyWalletConfig
+  | ApiWalletConfig
 
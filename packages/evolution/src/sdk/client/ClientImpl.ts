@@ -1,8 +1,18 @@
 // ClientImpl.ts - Step-by-step implementation starting with MinimalClient
 
-import { Effect } from "effect"
-
+import { Duration, Effect } from "effect"
+
+import * as AddressEras from "../../core/AddressEras.js"
+import * as Bip32PrivateKey from "../../core/Bip32PrivateKey.js"
+import * as BootstrapWitness from "../../core/BootstrapWitness.js"
+import * as ByronAddress from "../../core/ByronAddress.js"
+import * as Bytes from "../../core/Bytes.js"
+import * as CBOR from "../../core/CBOR.js"
+import type * as Certificate from "../../core/Certificate.js"
 import * as KeyHash from "../../core/KeyHash.js"
+import * as NativeScripts from "../../core/NativeScripts.js"
+import type * as Network from "../../core/Network.js"
+import * as PolicyId from "../../core/PolicyId.js"
 import * as PrivateKey from "../../core/PrivateKey.js"
 import * as CoreRewardAccount from "../../core/RewardAccount.js"
 import * as Transaction from "../../core/Transaction.js"
@@ -11,14 +21,18 @@ import * as TransactionWitnessSet from "../../core/TransactionWitnessSet.js"
 import * as VKey from "../../core/VKey.js"
 import { runEffect } from "../../utils/effect-runtime.js"
 import { hashTransaction } from "../../utils/Hash.js"
-import type * as Address from "../Address.js"
+import * as Address from "../Address.js"
 import { makeTxBuilder, type ReadOnlyTransactionBuilder, type SigningTransactionBuilder } from "../builders/TransactionBuilder.js"
+import * as Message from "../Message.js"
 import * as Blockfrost from "../provider/Blockfrost.js"
+import * as Fallback from "../provider/Fallback.js"
 import * as Koios from "../provider/Koios.js"
 import * as Kupmios from "../provider/Kupmios.js"
 import * as Maestro from "../provider/Maestro.js"
 import * as Provider from "../provider/Provider.js"
 import * as RewardAddress from "../RewardAddress.js"
+import * as Script from "../Script.js"
+import type * as Time from "../Time.js"
 import type * as UTxO from "../UTxO.js"
 import * as Derivation from "../wallet/Derivation.js"
 import * as WalletNew from "../wallet/WalletNew.js"
@@ -27,6 +41,7 @@ import {
   type ApiWalletConfig,
   type MinimalClient,
   type MinimalClientEffect,
+  type NativeScriptWalletConfig,
   type NetworkId,
   type PrivateKeyWalletConfig,
   type ProviderConfig,
@@ -47,16 +62,27 @@ import {
 const createProvider = (config: ProviderConfig): Provider.Provider => {
   switch (config.type) {
     case "blockfrost":
-      return Blockfrost.custom(config.baseUrl, config.projectId)
+      return Blockfrost.custom(config.baseUrl, config.projectId, config.retryPolicy)
     case "kupmios":
-      return new Kupmios.KupmiosProvider(config.kupoUrl, config.ogmiosUrl, config.headers)
+      return new Kupmios.KupmiosProvider(config.kupoUrl, config.ogmiosUrl, config.headers, config.retryPolicy)
     case "maestro":
-      return new Maestro.MaestroProvider(config.baseUrl, config.apiKey, config.turboSubmit)
+      return new Maestro.MaestroProvider(config.baseUrl, config.apiKey, config.turboSubmit, config.retryPolicy)
     case "koios":
-      return new Koios.Koios(config.baseUrl, config.token)
+      return new Koios.Koios(config.baseUrl, config.token, config.retryPolicy)
+    case "emulator":
+      return config.emulator
+    case "fallback":
+      return new Fallback.FallbackProvider(config.providers.map(createProvider), config.options)
   }
 }
 
+/**
+ * Slot configuration the builder should use instead of the network's:
+ * an emulator keeps its own clock.
+ */
+const providerSlotConfig = (config: ProviderConfig): Time.SlotConfig | undefined =>
+  config.type === "emulator" ? config.emulator.slotConfig : undefined
+
 /**
  * Map NetworkId to its numeric representation.
  * 
@@ -104,6 +130,31 @@ const toWalletNetwork = (networkId: NetworkId): WalletNew.Network => {
   }
 }
 
+/**
+ * Map NetworkId discriminant to the builder network that selects a slot configuration.
+ * 
+ * Numeric testnet IDs are ambiguous (preprod, preview or a devnet) and map to "Custom",
+ * which requires an explicit slot configuration for POSIX time validity bounds.
+ * 
+ * @since 2.0.0
+ * @category transformation
+ */
+const toBuilderNetwork = (networkId: NetworkId): Network.Network => {
+  if (typeof networkId === "number") {
+    return networkId === 1 ? "Mainnet" : "Custom"
+  }
+  switch (networkId) {
+    case "mainnet":
+      return "Mainnet"
+    case "preprod":
+      return "Preprod"
+    case "preview":
+      return "Preview"
+    default:
+      return "Custom"
+  }
+}
+
 
 /**
  * Construct a ReadOnlyWallet instance from network, payment address, and optional reward address.
@@ -200,7 +251,9 @@ const createReadOnlyClient = (
       // Protocol parameters are auto-fetched from provider during build()
       return makeTxBuilder({
         wallet,
-        provider
+        provider,
+        network: toBuilderNetwork(network),
+        slotConfig: providerSlotConfig(providerConfig)
       })
     },
     // Effect namespace - combined provider + wallet Effects
@@ -221,10 +274,91 @@ const createReadOnlyClient = (
 }
 
 /**
- * Determine key hashes that must sign a transaction based on inputs, withdrawals, and certificates.
+ * Payment script hash of an address, or undefined for key-locked and non-Shelley addresses.
+ */
+const paymentScriptHashHexOf = (address: Address.Address): string | undefined => {
+  try {
+    const credential = Address.toAddressStructure(address).paymentCredential
+    return credential._tag === "ScriptHash" ? Bytes.toHex(credential.hash) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Payment key hash of an address, or undefined for script-locked and non-Shelley addresses.
+ */
+const paymentKhHexOf = (address: Address.Address): string | undefined => {
+  try {
+    const credential = Address.toAddressStructure(address).paymentCredential
+    return credential._tag === "KeyHash" ? KeyHash.toHex(credential) : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Byron address of a base58 address string, or undefined for Shelley and unparsable addresses.
+ */
+const byronAddressOf = (address: Address.Address): ByronAddress.ByronAddress | undefined => {
+  try {
+    const parsed = AddressEras.fromString(address)
+    return parsed._tag === "ByronAddress" ? parsed : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Bootstrap witnesses of a Byron key for the transaction inputs at Byron addresses it owns, one per address.
+ */
+const makeBootstrapWitnesses = (
+  tx: Transaction.Transaction,
+  utxos: ReadonlyArray<UTxO.UTxO>,
+  key: Bip32PrivateKey.Bip32PrivateKey
+): Array<BootstrapWitness.BootstrapWitness> => {
+  const inputRefs = new Set(
+    [...tx.body.inputs, ...(tx.body.collateralInputs ?? [])].map(
+      (input) => `${TransactionHash.toHex(input.transactionId)}#${Number(input.index)}`
+    )
+  )
+  const publicKey = Bip32PrivateKey.toPublicKey(key)
+  const txHash = hashTransaction(tx.body)
+  const witnesses = new Map<string, BootstrapWitness.BootstrapWitness>()
+  for (const utxo of utxos) {
+    if (witnesses.has(utxo.address) || !inputRefs.has(`${utxo.txHash}#${utxo.outputIndex}`)) continue
+    const address = byronAddressOf(utxo.address)
+    if (address && ByronAddress.isOwnedBy(address, publicKey)) {
+      witnesses.set(utxo.address, BootstrapWitness.make(txHash, address, key))
+    }
+  }
+  return Array.from(witnesses.values())
+}
+
+/**
+ * Stake credential a certificate registers, deregisters or delegates, if any.
+ */
+const certificateStakeCredential = (cert: Certificate.Certificate) =>
+  cert._tag === "StakeRegistration" || cert._tag === "StakeDeregistration" || cert._tag === "StakeDelegation"
+    ? cert.stakeCredential
+    : cert._tag === "RegCert" || cert._tag === "UnregCert"
+      ? cert.stakeCredential
+      : cert._tag === "StakeVoteDelegCert" ||
+          cert._tag === "StakeRegDelegCert" ||
+          cert._tag === "StakeVoteRegDelegCert"
+        ? cert.stakeCredential
+        : undefined
+
+const certificateDRepCredential = (cert: Certificate.Certificate) =>
+  cert._tag === "RegDrepCert" || cert._tag === "UpdateDrepCert" || cert._tag === "UnregDrepCert"
+    ? cert.drepCredential
+    : undefined
+
+/**
+ * Determine key hashes that must sign a transaction based on inputs, withdrawals, certificates, and votes.
  * 
- * Examines transaction body for required signers, owned inputs, reward account withdrawals, and stake credentials
- * in certificates. Returns the set of key hash hex strings that must provide signatures.
+ * Examines transaction body for required signers, owned inputs, reward account withdrawals, stake and DRep
+ * credentials in certificates, and DRep voters. Returns the set of key hash hex strings that must provide signatures.
  * 
  * @since 2.0.0
  * @category predicates
@@ -233,6 +367,7 @@ const computeRequiredKeyHashesSync = (params: {
   paymentKhHex?: string
   rewardAddress?: RewardAddress.RewardAddress | null
   stakeKhHex?: string
+  drepKhHex?: string
   tx: Transaction.Transaction
   utxos: ReadonlyArray<UTxO.UTxO>
 }): Set<string> => {
@@ -243,16 +378,22 @@ const computeRequiredKeyHashesSync = (params: {
     for (const kh of params.tx.body.requiredSigners) required.add(KeyHash.toHex(kh))
   }
 
-  // Build owned refs from provided UTxOs
-  const ownedRefs = new Set<string>(params.utxos.map((u) => `${u.txHash}#${u.outputIndex}`))
+  // Build owned refs from provided UTxOs, keyed to the payment key hash of their address.
+  // Byron inputs are signed with bootstrap witnesses instead.
+  const ownedRefs = new Map<string, string | undefined>(
+    params.utxos.map((u) => [
+      `${u.txHash}#${u.outputIndex}`,
+      byronAddressOf(u.address) ? undefined : (paymentKhHexOf(u.address) ?? params.paymentKhHex)
+    ])
+  )
 
   // 2) Inputs owned by us imply payment key signature
   const checkInputs = (inputs?: ReadonlyArray<Transaction.Transaction["body"]["inputs"][number]>) => {
-    if (!inputs || !params.paymentKhHex) return
+    if (!inputs) return
     for (const input of inputs) {
       const txIdHex = TransactionHash.toHex(input.transactionId)
-      const key = `${txIdHex}#${Number(input.index)}`
-      if (ownedRefs.has(key)) required.add(params.paymentKhHex)
+      const khHex = ownedRefs.get(`${txIdHex}#${Number(input.index)}`)
+      if (khHex) required.add(khHex)
     }
   }
   checkInputs(params.tx.body.inputs)
@@ -272,16 +413,7 @@ const computeRequiredKeyHashesSync = (params: {
   // 4) Certificates that reference our stake credential imply stake key signature
   if (params.tx.body.certificates && params.stakeKhHex) {
     for (const cert of params.tx.body.certificates) {
-      const cred =
-        cert._tag === "StakeRegistration" || cert._tag === "StakeDeregistration" || cert._tag === "StakeDelegation"
-          ? cert.stakeCredential
-          : cert._tag === "RegCert" || cert._tag === "UnregCert"
-            ? cert.stakeCredential
-            : cert._tag === "StakeVoteDelegCert" ||
-                cert._tag === "StakeRegDelegCert" ||
-                cert._tag === "StakeVoteRegDelegCert"
-              ? cert.stakeCredential
-              : undefined
+      const cred = certificateStakeCredential(cert)
       if (cred && cred._tag === "KeyHash") {
         const khHex = KeyHash.toHex(cred)
         if (khHex === params.stakeKhHex) required.add(params.stakeKhHex)
@@ -289,40 +421,124 @@ const computeRequiredKeyHashesSync = (params: {
     }
   }
 
+  // 5) DRep certificates and votes of our DRep credential imply DRep key signature
+  if (params.drepKhHex) {
+    const drepKeyHashes = [
+      ...(params.tx.body.certificates ?? []).map(certificateDRepCredential),
+      ...Array.from(params.tx.body.votingProcedures?.procedures.keys() ?? []).map((voter) =>
+        voter._tag === "DRepVoter" && voter.drep._tag === "KeyHashDRep" ? voter.drep.keyHash : undefined
+      )
+    ]
+    for (const kh of drepKeyHashes) {
+      if (kh && kh._tag === "KeyHash" && KeyHash.toHex(kh) === params.drepKhHex) required.add(params.drepKhHex)
+    }
+  }
+
   return required
 }
 
+/**
+ * Sign a CIP-8 message with the stake key for reward addresses and the key of the address
+ * payment credential otherwise, falling back to the wallet payment key.
+ */
+const signMessageWithKeys = (
+  keys: {
+    readonly paymentKey: string
+    readonly stakeKey?: string
+    readonly keyStore?: ReadonlyMap<string, PrivateKey.PrivateKey>
+  },
+  address: Address.Address | RewardAddress.RewardAddress,
+  payload: WalletNew.Payload
+): Effect.Effect<WalletNew.SignedMessage, WalletNew.WalletError> =>
+  Effect.try({
+    try: () => {
+      const isRewardAddress = AddressEras.fromBech32(address)._tag === "RewardAccount"
+      if (isRewardAddress && !keys.stakeKey) {
+        throw new WalletNew.WalletError({ message: "Wallet has no stake key to sign for a reward address", cause: null })
+      }
+      const khHex = isRewardAddress ? undefined : paymentKhHexOf(address)
+      const key =
+        (khHex && keys.keyStore?.get(khHex)) ||
+        PrivateKey.fromBech32(isRewardAddress ? keys.stakeKey! : keys.paymentKey)
+      return Message.signMessage(address, payload, key)
+    },
+    catch: (cause) =>
+      cause instanceof WalletNew.WalletError
+        ? cause
+        : new WalletNew.WalletError({ message: "Failed to sign message", cause })
+  })
+
 /**
  * Create a signing wallet from a seed phrase.
  * 
  * Wallet creation is synchronous - sodium initialization and key derivation
  * happen lazily on first crypto operation (signTx, signMessage).
  *
+ * With `addressDiscovery` and a provider, the external and internal chains are scanned
+ * on first use and the result is shared by later operations, so UTxOs and signing keys
+ * cover all used addresses. `refresh()` rescans.
+ *
  * @category constructors
  */
-const createSigningWallet = (network: WalletNew.Network, config: SeedWalletConfig): WalletNew.SigningWallet => {
-  const derivationEffect = Derivation.walletFromSeed(config.mnemonic, {
+const createSigningWallet = (
+  network: WalletNew.Network,
+  config: SeedWalletConfig,
+  provider?: Provider.Provider
+): WalletNew.SigningWallet => {
+  const options = {
     addressType: config.addressType ?? "Base",
     accountIndex: config.accountIndex ?? 0,
     password: config.password,
     network
-  }).pipe(
+  }
+  const discovery = typeof config.addressDiscovery === "object" ? config.addressDiscovery : {}
+  const isUsed = discovery.isUsed
+  // Scan once and reuse the result; failures are not cached so the next operation retries
+  const discoveryCache =
+    config.addressDiscovery && provider
+      ? Effect.runSync(
+          Effect.cachedInvalidateWithTTL(
+            Derivation.discoverWalletFromSeed(config.mnemonic, provider.Effect.getUtxos, {
+              ...options,
+              gapLimit: discovery.gapLimit,
+              isUsed:
+                isUsed &&
+                ((address) =>
+                  Effect.tryPromise({
+                    try: () => isUsed(address),
+                    catch: (cause) => new WalletNew.WalletError({ message: "Address usage check failed", cause })
+                  }))
+            }).pipe(Effect.mapError((cause) => new WalletNew.WalletError({ message: cause.message, cause }))),
+            Duration.infinity
+          )
+        )
+      : undefined
+  const discoveryEffect =
+    discoveryCache && discoveryCache[0].pipe(Effect.tapError(() => discoveryCache[1]))
+  const derivationEffect = Derivation.walletFromSeed(config.mnemonic, options).pipe(
     Effect.mapError(
       (cause) => new WalletNew.WalletError({ message: cause.message, cause })
     )
   )
+  // Signing needs the keys of every discovered address
+  const keysEffect: Effect.Effect<Derivation.SeedDerivationResult, WalletNew.WalletError> =
+    discoveryEffect ?? derivationEffect
 
   // Effect implementations are the source of truth
   const effectInterface: WalletNew.SigningWalletEffect = {
     address: () => Effect.map(derivationEffect, (d) => d.address),
     rewardAddress: () => Effect.map(derivationEffect, (d) => d.rewardAddress ?? null),
+    ...(discoveryEffect && { utxos: () => Effect.map(discoveryEffect, (d) => d.utxos) }),
+    ...(discoveryCache && {
+      refresh: () => Effect.asVoid(Effect.zipRight(discoveryCache[1], discoveryEffect!))
+    }),
     signTx: (txOrHex: Transaction.Transaction | string, context?: { utxos?: ReadonlyArray<UTxO.UTxO> }) =>
       Effect.gen(function* () {
-        const derivation = yield* derivationEffect
+        const derivation = yield* keysEffect
         
         const tx =
           typeof txOrHex === "string"
-            ? yield* Transaction.Either.fromCBORHex(txOrHex).pipe(
+            ? yield* Transaction.Either.fromCBORHex(txOrHex, CBOR.PRESERVE_ENCODING_OPTIONS).pipe(
                 Effect.mapError(
                   (cause) => new WalletNew.WalletError({ message: cause.message, cause })
                 )
@@ -335,6 +551,7 @@ const createSigningWallet = (network: WalletNew.Network, config: SeedWalletConfi
           paymentKhHex: derivation.paymentKhHex,
           rewardAddress: derivation.rewardAddress ?? null,
           stakeKhHex: derivation.stakeKhHex,
+          drepKhHex: derivation.drepKhHex,
           tx,
           utxos
         })
@@ -356,18 +573,16 @@ const createSigningWallet = (network: WalletNew.Network, config: SeedWalletConfi
           witnesses.push(new TransactionWitnessSet.VKeyWitness({ vkey: vk, signature: sig }))
         }
 
-        return witnesses.length > 0 ? TransactionWitnessSet.fromVKeyWitnesses(witnesses) : TransactionWitnessSet.empty()
+        // Inputs at the wallet's legacy Byron address need bootstrap witnesses
+        const bootstrapWitnesses = derivation.byronKey ? makeBootstrapWitnesses(tx, utxos, derivation.byronKey) : []
+
+        return TransactionWitnessSet.make({
+          ...(witnesses.length > 0 && { vkeyWitnesses: witnesses }),
+          ...(bootstrapWitnesses.length > 0 && { bootstrapWitnesses })
+        })
       }),
-    signMessage: (_address: Address.Address | RewardAddress.RewardAddress, payload: WalletNew.Payload) =>
-      Effect.map(derivationEffect, (derivation) => {
-        // For now, always use payment key for message signing
-        const paymentSk = PrivateKey.fromBech32(derivation.paymentKey)
-        const vk = VKey.fromPrivateKey(paymentSk)
-        const bytes = typeof payload === "string" ? new TextEncoder().encode(payload) : payload
-        const _sig = PrivateKey.sign(paymentSk, bytes)
-        const sigHex = VKey.toHex(vk) // TODO: Convert signature properly
-        return { payload, signature: sigHex }
-      })
+    signMessage: (address: Address.Address | RewardAddress.RewardAddress, payload: WalletNew.Payload) =>
+      Effect.flatMap(keysEffect, (derivation) => signMessageWithKeys(derivation, address, payload))
   }
 
   // Promise API runs the Effect implementations
@@ -375,6 +590,8 @@ const createSigningWallet = (network: WalletNew.Network, config: SeedWalletConfi
     type: "signing",
     address: () => Effect.runPromise(effectInterface.address()),
     rewardAddress: () => Effect.runPromise(effectInterface.rewardAddress()),
+    ...(discoveryEffect && { utxos: () => Effect.runPromise(effectInterface.utxos!()) }),
+    ...(discoveryCache && { refresh: () => Effect.runPromise(effectInterface.refresh!()) }),
     signTx: (txOrHex, context) => Effect.runPromise(effectInterface.signTx(txOrHex, context)),
     signMessage: (address, payload) => Effect.runPromise(effectInterface.signMessage(address, payload)),
     Effect: effectInterface
@@ -409,7 +626,7 @@ const createPrivateKeyWallet = (
         
         const tx =
           typeof txOrHex === "string"
-            ? yield* Transaction.Either.fromCBORHex(txOrHex).pipe(
+            ? yield* Transaction.Either.fromCBORHex(txOrHex, CBOR.PRESERVE_ENCODING_OPTIONS).pipe(
                 Effect.mapError(
                   (cause) => new WalletNew.WalletError({ message: cause.message, cause })
                 )
@@ -422,6 +639,7 @@ const createPrivateKeyWallet = (
           paymentKhHex: derivation.paymentKhHex,
           rewardAddress: derivation.rewardAddress ?? null,
           stakeKhHex: derivation.stakeKhHex,
+          drepKhHex: derivation.drepKhHex,
           tx,
           utxos
         })
@@ -445,16 +663,118 @@ const createPrivateKeyWallet = (
 
         return witnesses.length > 0 ? TransactionWitnessSet.fromVKeyWitnesses(witnesses) : TransactionWitnessSet.empty()
       }),
-    signMessage: (_address: Address.Address | RewardAddress.RewardAddress, payload: WalletNew.Payload) =>
-      Effect.map(derivationEffect, (derivation) => {
-        // For now, always use payment key for message signing
-        const paymentSk = PrivateKey.fromBech32(derivation.paymentKey)
-        const vk = VKey.fromPrivateKey(paymentSk)
-        const bytes = typeof payload === "string" ? new TextEncoder().encode(payload) : payload
-        const _sig = PrivateKey.sign(paymentSk, bytes)
-        const sigHex = VKey.toHex(vk) // TODO: Convert signature properly
-        return { payload, signature: sigHex }
-      })
+    signMessage: (address: Address.Address | RewardAddress.RewardAddress, payload: WalletNew.Payload) =>
+      Effect.flatMap(derivationEffect, (derivation) => signMessageWithKeys(derivation, address, payload))
+  }
+
+  // Promise API runs the Effect implementations
+  return {
+    type: "signing",
+    address: () => runEffect(effectInterface.address()),
+    rewardAddress: () => runEffect(effectInterface.rewardAddress()),
+    signTx: (txOrHex, context) => runEffect(effectInterface.signTx(txOrHex, context)),
+    signMessage: (address, payload) => runEffect(effectInterface.signMessage(address, payload)),
+    Effect: effectInterface
+  }
+}
+
+/**
+ * Determine which native scripts of a wallet authorise a transaction: the payment script when
+ * the transaction spends the wallet's UTxOs or mints under it, the stake script when it withdraws
+ * rewards or certifies with the script stake credential.
+ */
+const computeUsedNativeScripts = (params: {
+  derivation: Derivation.NativeScriptDerivationResult
+  tx: Transaction.Transaction
+  utxos: ReadonlyArray<UTxO.UTxO>
+}): Array<NativeScripts.NativeScript> => {
+  const { derivation, tx } = params
+  const scripts: Array<NativeScripts.NativeScript> = []
+
+  const ownedRefs = new Set(
+    params.utxos
+      .filter((u) => paymentScriptHashHexOf(u.address) === derivation.paymentScriptHash)
+      .map((u) => `${u.txHash}#${u.outputIndex}`)
+  )
+  const spends = [...tx.body.inputs, ...(tx.body.collateralInputs ?? [])].some((input) =>
+    ownedRefs.has(`${TransactionHash.toHex(input.transactionId)}#${Number(input.index)}`)
+  )
+  const mints = Array.from(tx.body.mint?.keys() ?? []).some(
+    (policyId) => PolicyId.toHex(policyId) === derivation.paymentScriptHash
+  )
+  if (spends || mints) scripts.push(derivation.paymentScript)
+
+  if (derivation.stakeScript) {
+    const isStakeScript = (credential?: { readonly _tag: string; readonly hash: Uint8Array }) =>
+      credential?._tag === "ScriptHash" && Bytes.toHex(credential.hash) === derivation.stakeScriptHash
+    const withdraws = Array.from(tx.body.withdrawals?.withdrawals.keys() ?? []).some((rewardAccount) =>
+      isStakeScript(rewardAccount.stakeCredential)
+    )
+    const certifies = (tx.body.certificates ?? []).some((cert) => isStakeScript(certificateStakeCredential(cert)))
+    if (withdraws || certifies) scripts.push(derivation.stakeScript)
+  }
+
+  return scripts
+}
+
+/**
+ * Create a signing wallet for a native-script (multisig) address.
+ * 
+ * Signs with the co-signer keys held locally that the used scripts reference, plus any
+ * held key listed in the required signers. Remaining co-signers witness separately and
+ * the witness sets are combined with SignBuilder.assemble.
+ * 
+ * @category constructors
+ */
+const createNativeScriptWallet = (
+  network: WalletNew.Network,
+  config: NativeScriptWalletConfig
+): WalletNew.SigningWallet => {
+  const derivationEffect = Derivation.walletFromNativeScript(config.script, {
+    stakeScriptCbor: config.stakeScript,
+    signingKeys: config.signingKeys,
+    network
+  }).pipe(
+    Effect.mapError((cause) => new WalletNew.WalletError({ message: cause.message, cause }))
+  )
+
+  // Effect implementations are the source of truth
+  const effectInterface: WalletNew.SigningWalletEffect = {
+    address: () => Effect.map(derivationEffect, (d) => d.address),
+    rewardAddress: () => Effect.map(derivationEffect, (d) => d.rewardAddress ?? null),
+    nativeScript: () => Effect.as(derivationEffect, Script.makeNativeScript(config.script)),
+    signTx: (txOrHex: Transaction.Transaction | string, context?: { utxos?: ReadonlyArray<UTxO.UTxO> }) =>
+      Effect.gen(function* () {
+        const derivation = yield* derivationEffect
+
+        const tx =
+          typeof txOrHex === "string"
+            ? yield* Transaction.Either.fromCBORHex(txOrHex, CBOR.PRESERVE_ENCODING_OPTIONS).pipe(
+                Effect.mapError(
+                  (cause) => new WalletNew.WalletError({ message: cause.message, cause })
+                )
+              )
+            : txOrHex
+
+        // Key hashes allowed to sign: required signers and keys of the scripts in use
+        const required = new Set((tx.body.requiredSigners ?? []).map(KeyHash.toHex))
+        for (const script of computeUsedNativeScripts({ derivation, tx, utxos: context?.utxos ?? [] })) {
+          for (const keyHash of NativeScripts.keyHashes(script.script)) required.add(Bytes.toHex(keyHash))
+        }
+
+        const msg = hashTransaction(tx.body).hash
+        const witnesses: Array<TransactionWitnessSet.VKeyWitness> = []
+        for (const [khHex, sk] of derivation.keyStore) {
+          if (!required.has(khHex)) continue
+          witnesses.push(
+            new TransactionWitnessSet.VKeyWitness({ vkey: VKey.fromPrivateKey(sk), signature: PrivateKey.sign(sk, msg) })
+          )
+        }
+
+        return witnesses.length > 0 ? TransactionWitnessSet.fromVKeyWitnesses(witnesses) : TransactionWitnessSet.empty()
+      }),
+    signMessage: () =>
+      Effect.fail(new WalletNew.WalletError({ message: "Native script addresses cannot sign CIP-8 messages", cause: null }))
   }
 
   // Promise API runs the Effect implementations
@@ -462,6 +782,7 @@ const createPrivateKeyWallet = (
     type: "signing",
     address: () => runEffect(effectInterface.address()),
     rewardAddress: () => runEffect(effectInterface.rewardAddress()),
+    nativeScript: () => runEffect(effectInterface.nativeScript!()),
     signTx: (txOrHex, context) => runEffect(effectInterface.signTx(txOrHex, context)),
     signMessage: (address, payload) => runEffect(effectInterface.signMessage(address, payload)),
     Effect: effectInterface
@@ -516,7 +837,8 @@ const createApiWallet = (_network: WalletNew.Network, config: ApiWalletConfig):
     rewardAddress: () => getPrimaryRewardAddress,
     signTx: (txOrHex: Transaction.Transaction | string, _context?: { utxos?: ReadonlyArray<UTxO.UTxO> }) =>
       Effect.gen(function* () {
-        const cbor = typeof txOrHex === "string" ? txOrHex : Transaction.toCBORHex(txOrHex)
+        const cbor =
+          typeof txOrHex === "string" ? txOrHex : Transaction.toCBORHex(txOrHex, CBOR.PRESERVE_ENCODING_OPTIONS)
         const witnessHex = yield* Effect.tryPromise({
           try: () => api.signTx(cbor, true),
           catch: (cause) => new WalletNew.WalletError({ message: "User rejected transaction signing", cause })
@@ -528,14 +850,15 @@ const createApiWallet = (_network: WalletNew.Network, config: ApiWalletConfig):
     signMessage: (address: Address.Address | RewardAddress.RewardAddress, payload: WalletNew.Payload) =>
       Effect.gen(function* () {
         const result = yield* Effect.tryPromise({
-          try: () => api.signData(address, payload),
+          try: () => api.signData(address, typeof payload === "string" ? payload : Bytes.toHex(payload)),
           catch: (cause) => new WalletNew.WalletError({ message: "User rejected message signing", cause })
         })
-        return { payload, signature: result.signature }
+        return { payload, signature: result.signature, key: result.key }
       }),
     submitTx: (txOrHex: Transaction.Transaction | string) =>
       Effect.gen(function* () {
-        const cbor = typeof txOrHex === "string" ? txOrHex : Transaction.toCBORHex(txOrHex)
+        const cbor =
+          typeof txOrHex === "string" ? txOrHex : Transaction.toCBORHex(txOrHex, CBOR.PRESERVE_ENCODING_OPTIONS)
         return yield* Effect.tryPromise({
           try: () => api.submitTx(cbor),
           catch: (cause) => new WalletNew.WalletError({ message: (cause as Error).message, cause: cause as Error })
@@ -564,11 +887,16 @@ const createApiWallet = (_network: WalletNew.Network, config: ApiWalletConfig):
  * @since 2.0.0
  * @category constructors
  */
-const createSigningWalletClient = (network: NetworkId, config: SeedWalletConfig | PrivateKeyWalletConfig): SigningWalletClient => {
+const createSigningWalletClient = (
+  network: NetworkId,
+  config: SeedWalletConfig | PrivateKeyWalletConfig | NativeScriptWalletConfig
+): SigningWalletClient => {
   const walletNetwork = toWalletNetwork(network)
   const wallet = config.type === "seed"
     ? createSigningWallet(walletNetwork, config)
-    : createPrivateKeyWallet(walletNetwork, config)
+    : config.type === "private-key"
+      ? createPrivateKeyWallet(walletNetwork, config)
+      : createNativeScriptWallet(walletNetwork, config)
   const networkId = normalizeNetworkId(network)
 
   return {
@@ -619,7 +947,7 @@ const createApiWalletClient = (network: NetworkId, config: ApiWalletConfig): Api
 const createSigningClient = (
   network: NetworkId,
   providerConfig: ProviderConfig,
-  walletConfig: SeedWalletConfig | PrivateKeyWalletConfig | ApiWalletConfig
+  walletConfig: SeedWalletConfig | PrivateKeyWalletConfig | NativeScriptWalletConfig | ApiWalletConfig
 ): SigningClient => {
   const provider = createProvider(providerConfig)
   const walletNetwork = toWalletNetwork(network)
@@ -627,10 +955,12 @@ const createSigningClient = (
   // Create appropriate wallet based on type (both are now sync)
   const wallet =
     walletConfig.type === "seed"
-      ? createSigningWallet(walletNetwork, walletConfig)
+      ? createSigningWallet(walletNetwork, walletConfig, provider)
       : walletConfig.type === "private-key"
         ? createPrivateKeyWallet(walletNetwork, walletConfig)
-        : createApiWallet(walletNetwork, walletConfig)
+        : walletConfig.type === "native-script"
+          ? createNativeScriptWallet(walletNetwork, walletConfig)
+          : createApiWallet(walletNetwork, walletConfig)
 
   // Effect implementations are the source of truth
   const effectInterface = {
@@ -638,6 +968,7 @@ const createSigningClient = (
     ...provider.Effect, // Provider methods override wallet methods (e.g., submitTx uses ProviderError not WalletError)
     // Wallet-scoped convenience methods as Effects - expose union types (Effect-TS idiom)
     getWalletUtxos: () =>
+      wallet.Effect.utxos?.() ??
       Effect.flatMap(wallet.Effect.address(), (addr) => provider.Effect.getUtxos(addr)),
     getWalletDelegation: () =>
       Effect.flatMap(wallet.Effect.rewardAddress(), (rewardAddr) => {
@@ -663,7 +994,9 @@ const createSigningClient = (
       // Protocol parameters are auto-fetched from provider during build()
       return makeTxBuilder({
         provider, // Pass provider for submission
-        wallet // Pass wallet for signing
+        wallet, // Pass wallet for signing
+        network: toBuilderNetwork(network),
+        slotConfig: providerSlotConfig(providerConfig)
       })
     },
     // Effect namespace
@@ -694,6 +1027,8 @@ const createProviderOnlyClient = (network: NetworkId, config: ProviderConfig): P
           return createReadOnlyClient(network, config, walletConfig) as any
         case "seed":
           return createSigningClient(network, config, walletConfig) as any
+        case "native-script":
+          return createSigningClient(network, config, walletConfig) as any
         case "api":
           return createSigningClient(network, config, walletConfig) as any
       }
@@ -731,6 +1066,8 @@ const createMinimalClient = (network: NetworkId = "mainnet"): MinimalClient => {
           return createReadOnlyWalletClient(network, walletConfig) as any
         case "seed":
           return createSigningWalletClient(network, walletConfig) as any
+        case "native-script":
+          return createSigningWalletClient(network, walletConfig) as any
         case "api":
           return createApiWalletClient(network, walletConfig) as any
       }
@@ -743,6 +1080,8 @@ const createMinimalClient = (network: NetworkId = "mainnet"): MinimalClient => {
           return createReadOnlyClient(network, providerConfig, walletConfig) as any
         case "seed":
           return createSigningClient(network, providerConfig, walletConfig) as any
+        case "native-script":
+          return createSigningClient(network, providerConfig, walletConfig) as any
         case "api":
           return createSigningClient(network, providerConfig, walletConfig) as any
       }
@@ -778,6 +1117,20 @@ export function createClient(config: {
   wallet: SeedWalletConfig
 }): SigningClient
 
+// Provider + Private Key Wallet → SigningClient
+export function createClient(config: {
+  network?: NetworkId
+  provider: ProviderConfig
+  wallet: PrivateKeyWalletConfig
+}): SigningClient
+
+// Provider + Native Script Wallet → SigningClient
+export function createClient(config: {
+  network?: NetworkId
+  provider: ProviderConfig
+  wallet: NativeScriptWalletConfig
+}): SigningClient
+
 // Provider + API Wallet → SigningClient
 export function createClient(config: {
   network?: NetworkId
@@ -797,6 +1150,9 @@ export function createClient(config: { network?: NetworkId; wallet: SeedWalletCo
 // Private Key Wallet only → SigningWalletClient
 export function createClient(config: { network?: NetworkId; wallet: PrivateKeyWalletConfig }): SigningWalletClient
 
+// Native Script Wallet only → SigningWalletClient
+export function createClient(config: { network?: NetworkId; wallet: NativeScriptWalletConfig }): SigningWalletClient
+
 // API Wallet only → ApiWalletClient
 export function createClient(config: { network?: NetworkId; wallet: ApiWalletConfig }): ApiWalletClient
 
@@ -829,6 +1185,8 @@ export function createClient(
         return createSigningClient(network, config.provider, config.wallet)
       case "private-key":
         return createSigningClient(network, config.provider, config.wallet)
+      case "native-script":
+        return createSigningClient(network, config.provider, config.wallet)
       case "api":
         return createSigningClient(network, config.provider, config.wallet)
     }
@@ -843,6 +1201,8 @@ export function createClient(
         return createSigningWalletClient(network, config.wallet)
       case "private-key":
         return createSigningWalletClient(network, config.wallet)
+      case "native-script":
+        return createSigningWalletClient(network, config.wallet)
       case "api":
         return createApiWalletClient(network, config.wallet)
     }
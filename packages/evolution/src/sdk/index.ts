@@ -4,9 +4,12 @@ export * as Credential from "./Credential.js"
 export * as Datum from "./Datum.js"
 export * as Delegation from "./Delegation.js"
 export * as Label from "./Label.js"
+export * as Message from "./Message.js"
+export * as Metadata from "./Metadata.js"
 export * as OutRef from "./OutRef.js"
 export * as ProtocolParameters from "./ProtocolParameters.js"
 export * as RewardAddress from "./RewardAddress.js"
 export * as Script from "./Script.js"
+export * as Time from "./Time.js"
 export * as Unit from "./Unit.js"
 export * as UTxO from "./UTxO.js"
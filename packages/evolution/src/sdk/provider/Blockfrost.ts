@@ -5,7 +5,9 @@
 
 import { Effect } from "effect"
 
+import type { RetryPolicy } from "../client/Client.js"
 import * as BlockfrostEffect from "./internal/BlockfrostEffect.js"
+import * as HttpUtils from "./internal/HttpUtils.js"
 import type { Provider, ProviderEffect } from "./Provider.js"
 
 /**
@@ -48,12 +50,12 @@ export class BlockfrostProvider implements Provider {
   readonly baseUrl: string
   readonly projectId?: string
 
-  constructor(baseUrl: string, projectId?: string) {
+  constructor(baseUrl: string, projectId?: string, retryPolicy?: RetryPolicy) {
     this.baseUrl = baseUrl
     this.projectId = projectId
     
     // Initialize Effect-based API with curry pattern
-    this.Effect = {
+    this.Effect = HttpUtils.withRetryPolicy({
       getProtocolParameters: () => BlockfrostEffect.getProtocolParameters(baseUrl, projectId),
       getUtxos: BlockfrostEffect.getUtxos(baseUrl, projectId),
       getUtxosWithUnit: BlockfrostEffect.getUtxosWithUnit(baseUrl, projectId),
@@ -64,7 +66,7 @@ export class BlockfrostProvider implements Provider {
       awaitTx: BlockfrostEffect.awaitTx(baseUrl, projectId),
       submitTx: BlockfrostEffect.submitTx(baseUrl, projectId),
       evaluateTx: BlockfrostEffect.evaluateTx(baseUrl, projectId)
-    }
+    }, retryPolicy)
   }
 
   // ============================================================================
@@ -110,23 +112,23 @@ export class BlockfrostProvider implements Provider {
 /**
  * Pre-configured Blockfrost provider for Cardano mainnet
  */
-export const mainnet = (projectId: string): BlockfrostProvider =>
-  new BlockfrostProvider("https://cardano-mainnet.blockfrost.io/api/v0", projectId)
+export const mainnet = (projectId: string, retryPolicy?: RetryPolicy): BlockfrostProvider =>
+  new BlockfrostProvider("https://cardano-mainnet.blockfrost.io/api/v0", projectId, retryPolicy)
 
 /**
  * Pre-configured Blockfrost provider for Cardano preprod testnet
  */
-export const preprod = (projectId: string): BlockfrostProvider =>
-  new BlockfrostProvider("https://cardano-preprod.blockfrost.io/api/v0", projectId)
+export const preprod = (projectId: string, retryPolicy?: RetryPolicy): BlockfrostProvider =>
+  new BlockfrostProvider("https://cardano-preprod.blockfrost.io/api/v0", projectId, retryPolicy)
 
 /**
  * Pre-configured Blockfrost provider for Cardano preview testnet
  */
-export const preview = (projectId: string): BlockfrostProvider =>
-  new BlockfrostProvider("https://cardano-preview.blockfrost.io/api/v0", projectId)
+export const preview = (projectId: string, retryPolicy?: RetryPolicy): BlockfrostProvider =>
+  new BlockfrostProvider("https://cardano-preview.blockfrost.io/api/v0", projectId, retryPolicy)
 
 /**
  * Create a custom Blockfrost provider with custom base URL
  */
-export const custom = (baseUrl: string, projectId?: string): BlockfrostProvider =>
-  new BlockfrostProvider(baseUrl, projectId)
\ No newline at end of file
+export const custom = (baseUrl: string, projectId?: string, retryPolicy?: RetryPolicy): BlockfrostProvider =>
+  new BlockfrostProvider(baseUrl, projectId, retryPolicy)
\ No newline at end of file
@@ -0,0 +1,507 @@
+import { Effect, Schema } from "effect"
+
+import * as AddressEras from "../../core/AddressEras.js"
+import * as Bech32 from "../../core/Bech32.js"
+import * as Bytes from "../../core/Bytes.js"
+import * as CBOR from "../../core/CBOR.js"
+import type * as Certificate from "../../core/Certificate.js"
+import type * as CoreCredential from "../../core/Credential.js"
+import * as PlutusData from "../../core/Data.js"
+import * as RewardAccount from "../../core/RewardAccount.js"
+import * as CoreScript from "../../core/Script.js"
+import * as Transaction from "../../core/Transaction.js"
+import * as TransactionHash from "../../core/TransactionHash.js"
+import type * as TransactionInput from "../../core/TransactionInput.js"
+import type * as TransactionOutput from "../../core/TransactionOutput.js"
+import { hashPlutusData, hashTransaction } from "../../utils/Hash.js"
+import * as TransactionValidation from "../../utils/TransactionValidation.js"
+import type * as Address from "../Address.js"
+import * as Assets from "../Assets.js"
+import * as Credential from "../Credential.js"
+import * as Delegation from "../Delegation.js"
+import type * as OutRef from "../OutRef.js"
+import type * as ProtocolParameters from "../ProtocolParameters.js"
+import * as RewardAddress from "../RewardAddress.js"
+import * as Script from "../Script.js"
+import * as Time from "../Time.js"
+import type * as UTxO from "../UTxO.js"
+import type { Provider, ProviderEffect } from "./Provider.js"
+import { ProviderError } from "./Provider.js"
+
+/**
+ * Funds an emulated ledger starts with.
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export interface EmulatorAccount {
+  readonly address: Address.Address
+  readonly assets: Assets.Assets
+}
+
+/**
+ * @since 2.0.0
+ * @category model
+ */
+export interface EmulatorOptions {
+  /** Defaults to {@link PROTOCOL_PARAMETERS_DEFAULT} */
+  readonly protocolParameters?: ProtocolParameters.ProtocolParameters
+  /** Defaults to one-second slots, with slot 0 at the time the emulator is created */
+  readonly slotConfig?: Time.SlotConfig
+  /** Network id outputs and withdrawals must use. Defaults to 0 (testnet) */
+  readonly networkId?: number
+}
+
+/**
+ * Conway-era mainnet protocol parameters without cost models, since the
+ * emulator does not evaluate Plutus scripts.
+ *
+ * @since 2.0.0
+ * @category constants
+ */
+export const PROTOCOL_PARAMETERS_DEFAULT: ProtocolParameters.ProtocolParameters = {
+  minFeeA: 44,
+  minFeeB: 155_381,
+  maxTxSize: 16_384,
+  maxValSize: 5_000,
+  keyDeposit: 2_000_000n,
+  poolDeposit: 500_000_000n,
+  drepDeposit: 500_000_000n,
+  govActionDeposit: 100_000_000_000n,
+  priceMem: 0.0577,
+  priceStep: 0.0000721,
+  maxTxExMem: 14_000_000n,
+  maxTxExSteps: 10_000_000_000n,
+  coinsPerUtxoByte: 4_310n,
+  collateralPercentage: 150,
+  maxCollateralInputs: 3,
+  minFeeRefScriptCostPerByte: 15,
+  costModels: { PlutusV1: {}, PlutusV2: {}, PlutusV3: {} }
+}
+
+/**
+ * Number of slots {@link Emulator.awaitBlock} advances per block.
+ *
+ * @since 2.0.0
+ * @category constants
+ */
+export const SLOTS_PER_BLOCK = 20n
+
+// Genesis accounts are paid out by this pseudo transaction, one output each
+const GENESIS_HASH = "0".repeat(64)
+
+interface RewardAccountState {
+  readonly rewardAddress: RewardAddress.RewardAddress
+  poolId: string | undefined
+  rewards: bigint
+}
+
+const outRefKey = (txHash: string, outputIndex: number | bigint): string => `${txHash}#${outputIndex}`
+
+const inputKey = (input: TransactionInput.TransactionInput): string =>
+  outRefKey(TransactionHash.toHex(input.transactionId), input.index)
+
+const credentialKey = (credential: CoreCredential.CredentialSchema): string =>
+  `${credential._tag}:${Bytes.toHex(credential.hash)}`
+
+const paymentCredentialKey = (address: Address.Address): string | undefined => {
+  const decoded = AddressEras.fromString(address)
+  return decoded._tag === "RewardAccount" || decoded._tag === "ByronAddress"
+    ? undefined
+    : credentialKey(decoded.paymentCredential)
+}
+
+const encodePoolId = Schema.decodeSync(Bech32.FromBytes("pool"))
+
+const toTxOutput = (output: TransactionOutput.TransactionOutput): UTxO.TxOutput => {
+  const base = { address: AddressEras.toString(output.address), assets: Assets.valueToAssets(output.amount) }
+  if (output._tag === "ShelleyTransactionOutput") {
+    return output.datumHash === undefined
+      ? base
+      : { ...base, datumOption: { type: "datumHash", hash: Bytes.toHex(output.datumHash.hash) } }
+  }
+  return {
+    ...base,
+    ...(output.datumOption !== undefined && {
+      datumOption:
+        output.datumOption._tag === "DatumHash"
+          ? { type: "datumHash", hash: Bytes.toHex(output.datumOption.hash) }
+          : { type: "inlineDatum", inline: PlutusData.toCBORHex(output.datumOption.data) }
+    }),
+    ...(output.scriptRef !== undefined && {
+      scriptRef: Script.fromCoreScript(CoreScript.fromCBOR(output.scriptRef.bytes))
+    })
+  }
+}
+
+// Inputs a transaction consumes: only its collateral when it fails phase 2
+const consumedInputs = (transaction: Transaction.Transaction): ReadonlyArray<TransactionInput.TransactionInput> =>
+  transaction.isValid ? transaction.body.inputs : (transaction.body.collateralInputs ?? [])
+
+// UTxOs a transaction creates: only its collateral return when it fails phase 2
+const producedUtxos = (txHash: string, transaction: Transaction.Transaction): Array<UTxO.UTxO> => {
+  const { body } = transaction
+  if (transaction.isValid) {
+    return body.outputs.map((output, outputIndex) => ({ ...toTxOutput(output), txHash, outputIndex }))
+  }
+  return body.collateralReturn === undefined
+    ? []
+    : [{ ...toTxOutput(body.collateralReturn), txHash, outputIndex: body.outputs.length }]
+}
+
+/**
+ * In-memory ledger implementing the Provider interface, for running end-to-end
+ * flows in tests without a node or indexer.
+ *
+ * Submitted transactions are checked with phase-1 validation against the current
+ * ledger and queued in a mempool, whose outputs later submissions may already
+ * spend as on a node; they are applied when a block is produced by
+ * {@link Emulator.awaitBlock} or {@link Emulator.awaitTx}. Time only moves when
+ * advanced explicitly. Plutus scripts are not executed: transactions are applied
+ * according to their `isValid` flag, and `evaluateTx` is not supported.
+ *
+ * @example
+ * ```typescript
+ * const emulator = new Emulator([{ address, assets: Assets.fromLovelace(100_000_000n) }])
+ *
+ * const client = createClient({
+ *   network: 0,
+ *   provider: { type: "emulator", emulator },
+ *   wallet: { type: "seed", mnemonic }
+ * })
+ *
+ * const txHash = await (await client.newTx().payToAddress({ address, assets }).build()).signAndSubmit()
+ * await emulator.awaitTx(txHash)
+ * ```
+ *
+ * @since 2.0.0
+ * @category providers
+ */
+export class Emulator implements Provider {
+  readonly protocolParameters: ProtocolParameters.ProtocolParameters
+  readonly slotConfig: Time.SlotConfig
+  readonly networkId: number
+
+  private currentSlot = 0n
+  private height = 0
+  private readonly ledger = new Map<string, UTxO.UTxO>()
+  private readonly mempool = new Map<string, Transaction.Transaction>()
+  private readonly confirmed = new Set<string>()
+  private readonly datums = new Map<string, string>()
+  private readonly rewardAccounts = new Map<string, RewardAccountState>()
+
+  // Effect property for Provider interface
+  readonly Effect: ProviderEffect
+
+  constructor(accounts: ReadonlyArray<EmulatorAccount>, options: EmulatorOptions = {}) {
+    this.protocolParameters = options.protocolParameters ?? PROTOCOL_PARAMETERS_DEFAULT
+    this.slotConfig = options.slotConfig ?? { zeroTime: BigInt(Date.now()), zeroSlot: 0n, slotLength: 1000 }
+    this.networkId = options.networkId ?? 0
+
+    accounts.forEach(({ address, assets }, outputIndex) =>
+      this.ledger.set(outRefKey(GENESIS_HASH, outputIndex), { txHash: GENESIS_HASH, outputIndex, address, assets })
+    )
+
+    this.Effect = {
+      getProtocolParameters: () => Effect.succeed(this.protocolParameters),
+      getUtxos: (addressOrCredential) => Effect.sync(() => this.findUtxos(addressOrCredential)),
+      getUtxosWithUnit: (addressOrCredential, unit) =>
+        Effect.sync(() => this.findUtxos(addressOrCredential).filter((utxo) => Assets.getAsset(utxo.assets, unit) > 0n)),
+      getUtxoByUnit: (unit) =>
+        Effect.suspend(() => {
+          const utxos = this.utxos().filter((utxo) => Assets.getAsset(utxo.assets, unit) > 0n)
+          return utxos.length === 1
+            ? Effect.succeed(utxos[0])
+            : Effect.fail(
+                new ProviderError({
+                  cause: null,
+                  message:
+                    utxos.length === 0 ? `No UTxO holds unit ${unit}` : `Unit ${unit} is held by ${utxos.length} UTxOs`
+                })
+              )
+        }),
+      getUtxosByOutRef: (outRefs) =>
+        Effect.sync(() =>
+          outRefs.flatMap((outRef: OutRef.OutRef) => {
+            const utxo = this.ledger.get(outRefKey(outRef.txHash, outRef.outputIndex))
+            return utxo ? [utxo] : []
+          })
+        ),
+      getDelegation: (rewardAddress) =>
+        Effect.try({
+          try: () => {
+            const account = this.rewardAccounts.get(
+              credentialKey(RewardAddress.toRewardAccount(rewardAddress).stakeCredential)
+            )
+            return account ? Delegation.make(account.poolId, account.rewards) : Delegation.empty()
+          },
+          catch: (cause) => new ProviderError({ cause, message: `Invalid reward address: ${rewardAddress}` })
+        }),
+      getDatum: (datumHash) =>
+        Effect.suspend(() => {
+          const datum = this.datums.get(datumHash)
+          return datum !== undefined
+            ? Effect.succeed(datum)
+            : Effect.fail(new ProviderError({ cause: null, message: `Datum ${datumHash} is not known to the ledger` }))
+        }),
+      awaitTx: (txHash) =>
+        Effect.sync(() => {
+          if (this.mempool.has(txHash)) this.awaitBlock()
+          return this.confirmed.has(txHash)
+        }),
+      submitTx: (cbor) => this.submit(cbor),
+      evaluateTx: () =>
+        Effect.fail(
+          new ProviderError({
+            cause: null,
+            message: "The emulator does not evaluate Plutus scripts; build with `evaluator: createUPLCEvaluator()`"
+          })
+        )
+    }
+  }
+
+  // ============================================================================
+  // Ledger clock
+  // ============================================================================
+
+  /** Current slot of the emulated chain */
+  get slot(): bigint {
+    return this.currentSlot
+  }
+
+  /** Number of blocks produced so far */
+  get blockHeight(): number {
+    return this.height
+  }
+
+  /** POSIX time in milliseconds at the start of the current slot */
+  now = (): number => Time.slotToUnixTime(this.currentSlot, this.slotConfig)
+
+  /**
+   * Advance the clock by `length` slots without producing a block, leaving the
+   * mempool untouched.
+   */
+  awaitSlot = (length: number | bigint = 1): void => {
+    this.currentSlot += BigInt(length)
+  }
+
+  /**
+   * Produce `height` blocks of {@link SLOTS_PER_BLOCK} slots each. The first block
+   * includes every pending transaction that is still within its validity interval;
+   * expired ones are dropped from the mempool, along with transactions spending
+   * their outputs.
+   */
+  awaitBlock = (height: number = 1): void => {
+    for (let block = 0; block < height; block++) {
+      this.currentSlot += SLOTS_PER_BLOCK
+      this.height += 1
+      for (const [txHash, transaction] of this.mempool) {
+        const { ttl } = transaction.body
+        const spendable = consumedInputs(transaction).every((input) => this.ledger.has(inputKey(input)))
+        if (spendable && (ttl === undefined || this.currentSlot < ttl)) this.apply(txHash, transaction)
+      }
+      this.mempool.clear()
+    }
+  }
+
+  /**
+   * Credit `amount` lovelace of rewards to every registered stake credential that
+   * delegates to a pool.
+   */
+  distributeRewards = (amount: bigint): void => {
+    for (const account of this.rewardAccounts.values()) {
+      if (account.poolId !== undefined) account.rewards += amount
+    }
+  }
+
+  /** Every UTxO in the ledger, including those spent by pending transactions */
+  utxos = (): Array<UTxO.UTxO> => [...this.ledger.values()]
+
+  // ============================================================================
+  // Promise-based API - arrow functions as own properties (spreadable!)
+  // ============================================================================
+
+  getProtocolParameters = () => Effect.runPromise(this.Effect.getProtocolParameters())
+
+  getUtxos = (addressOrCredential: Parameters<Provider["getUtxos"]>[0]) =>
+    Effect.runPromise(this.Effect.getUtxos(addressOrCredential))
+
+  getUtxosWithUnit = (
+    addressOrCredential: Parameters<Provider["getUtxosWithUnit"]>[0],
+    unit: Parameters<Provider["getUtxosWithUnit"]>[1]
+  ) => Effect.runPromise(this.Effect.getUtxosWithUnit(addressOrCredential, unit))
+
+  getUtxoByUnit = (unit: Parameters<Provider["getUtxoByUnit"]>[0]) =>
+    Effect.runPromise(this.Effect.getUtxoByUnit(unit))
+
+  getUtxosByOutRef = (outRefs: Parameters<Provider["getUtxosByOutRef"]>[0]) =>
+    Effect.runPromise(this.Effect.getUtxosByOutRef(outRefs))
+
+  getDelegation = (rewardAddress: Parameters<Provider["getDelegation"]>[0]) =>
+    Effect.runPromise(this.Effect.getDelegation(rewardAddress))
+
+  getDatum = (datumHash: Parameters<Provider["getDatum"]>[0]) =>
+    Effect.runPromise(this.Effect.getDatum(datumHash))
+
+  awaitTx = (txHash: Parameters<Provider["awaitTx"]>[0], checkInterval?: Parameters<Provider["awaitTx"]>[1]) =>
+    Effect.runPromise(this.Effect.awaitTx(txHash, checkInterval))
+
+  submitTx = (tx: Parameters<Provider["submitTx"]>[0]) =>
+    Effect.runPromise(this.Effect.submitTx(tx))
+
+  evaluateTx = (tx: Parameters<Provider["evaluateTx"]>[0], additionalUTxOs?: Parameters<Provider["evaluateTx"]>[1]) =>
+    Effect.runPromise(this.Effect.evaluateTx(tx, additionalUTxOs))
+
+  // ============================================================================
+  // Ledger rules
+  // ============================================================================
+
+  private findUtxos(addressOrCredential: Address.Address | Credential.Credential): Array<UTxO.UTxO> {
+    if (typeof addressOrCredential === "string") {
+      return this.utxos().filter((utxo) => utxo.address === addressOrCredential)
+    }
+    const key = credentialKey(Credential.jsonToCredential(addressOrCredential))
+    return this.utxos().filter((utxo) => paymentCredentialKey(utxo.address) === key)
+  }
+
+  private submit(cbor: string): Effect.Effect<string, ProviderError> {
+    return Effect.gen(this, function* () {
+      const transaction = yield* Effect.try({
+        try: () => Transaction.fromCBORHex(cbor, CBOR.PRESERVE_ENCODING_OPTIONS),
+        catch: (cause) => new ProviderError({ cause, message: "Failed to decode transaction" })
+      })
+      const txHash = TransactionHash.toHex(hashTransaction(transaction.body))
+      if (this.mempool.has(txHash) || this.confirmed.has(txHash)) return txHash
+
+      // Outputs spent by pending transactions are no longer available, while the
+      // outputs they create can already be spent
+      const pending = [...this.mempool]
+      const pendingSpent = new Set(pending.flatMap(([, transaction]) => consumedInputs(transaction).map(inputKey)))
+      const available = [
+        ...this.utxos(),
+        ...pending.flatMap(([pendingHash, transaction]) => producedUtxos(pendingHash, transaction))
+      ].filter((utxo) => !pendingSpent.has(outRefKey(utxo.txHash, utxo.outputIndex)))
+
+      const { failures } = TransactionValidation.validateTransaction(transaction, available, this.protocolParameters, {
+        networkId: this.networkId,
+        currentSlot: this.currentSlot
+      })
+      if (failures.length > 0) {
+        return yield* Effect.fail(
+          new ProviderError({
+            cause: new TransactionValidation.TransactionValidationError({ failures }),
+            message: `Transaction rejected: ${failures.map((failure) => failure.message).join("; ")}`
+          })
+        )
+      }
+
+      if (transaction.isValid) {
+        const problems = this.applyAccounts(transaction, this.copyRewardAccounts())
+        if (problems.length > 0) {
+          return yield* Effect.fail(
+            new ProviderError({ cause: problems, message: `Transaction rejected: ${problems.join("; ")}` })
+          )
+        }
+      }
+
+      this.mempool.set(txHash, transaction)
+      return txHash
+    })
+  }
+
+  private apply(txHash: string, transaction: Transaction.Transaction): void {
+    for (const input of consumedInputs(transaction)) this.ledger.delete(inputKey(input))
+    const produced = producedUtxos(txHash, transaction)
+    for (const utxo of produced) this.ledger.set(outRefKey(txHash, utxo.outputIndex), utxo)
+    if (!transaction.isValid) {
+      // Phase-2 failure: only the collateral was consumed
+      this.confirmed.add(txHash)
+      return
+    }
+
+    produced.forEach((utxo) => {
+      if (utxo.datumOption?.type === "inlineDatum") {
+        this.datums.set(Bytes.toHex(hashPlutusData(PlutusData.fromCBORHex(utxo.datumOption.inline)).hash), utxo.datumOption.inline)
+      }
+    })
+    for (const data of transaction.witnessSet.plutusData ?? []) {
+      this.datums.set(Bytes.toHex(hashPlutusData(data).hash), PlutusData.toCBORHex(data))
+    }
+    this.applyAccounts(transaction, this.rewardAccounts)
+    this.confirmed.add(txHash)
+  }
+
+  private copyRewardAccounts(): Map<string, RewardAccountState> {
+    return new Map([...this.rewardAccounts].map(([key, account]) => [key, { ...account }]))
+  }
+
+  /**
+   * Apply the certificates and withdrawals of a transaction to `accounts`,
+   * returning the rules they break against the stake state.
+   */
+  private applyAccounts(
+    transaction: Transaction.Transaction,
+    accounts: Map<string, RewardAccountState>
+  ): Array<string> {
+    const problems: Array<string> = []
+
+    for (const [rewardAccount, amount] of transaction.body.withdrawals?.withdrawals ?? []) {
+      const account = accounts.get(credentialKey(rewardAccount.stakeCredential))
+      if (account === undefined) {
+        problems.push(`Withdrawal from unregistered reward account ${AddressEras.toBech32(rewardAccount)}`)
+      } else if (account.rewards !== amount) {
+        problems.push(
+          `Withdrawal of ${amount} from ${account.rewardAddress} must equal its reward balance of ${account.rewards}`
+        )
+      } else {
+        account.rewards = 0n
+      }
+    }
+
+    for (const certificate of transaction.body.certificates ?? []) {
+      const problem = this.applyCertificate(certificate, accounts)
+      if (problem !== undefined) problems.push(problem)
+    }
+
+    return problems
+  }
+
+  private applyCertificate(
+    certificate: Certificate.Certificate,
+    accounts: Map<string, RewardAccountState>
+  ): string | undefined {
+    if (!("stakeCredential" in certificate)) return undefined
+
+    const key = credentialKey(certificate.stakeCredential)
+    const account = accounts.get(key)
+    const poolId = "poolKeyHash" in certificate ? encodePoolId(certificate.poolKeyHash.hash) : undefined
+
+    switch (certificate._tag) {
+      case "StakeRegistration":
+      case "RegCert":
+      case "VoteRegDelegCert":
+      case "StakeRegDelegCert":
+      case "StakeVoteRegDelegCert": {
+        if (account !== undefined) return `Stake credential ${key} is already registered`
+        const rewardAddress = AddressEras.toBech32(
+          new RewardAccount.RewardAccount({ networkId: this.networkId, stakeCredential: certificate.stakeCredential })
+        )
+        accounts.set(key, { rewardAddress, poolId, rewards: 0n })
+        return undefined
+      }
+      case "StakeDeregistration":
+      case "UnregCert":
+        if (account === undefined) return `Stake credential ${key} is not registered`
+        if (account.rewards > 0n) return `Stake credential ${key} must withdraw its rewards before deregistering`
+        accounts.delete(key)
+        return undefined
+      case "StakeDelegation":
+      case "StakeVoteDelegCert":
+        if (account === undefined) return `Stake credential ${key} is not registered`
+        account.poolId = poolId
+        return undefined
+      default:
+        return account === undefined ? `Stake credential ${key} is not registered` : undefined
+    }
+  }
+}
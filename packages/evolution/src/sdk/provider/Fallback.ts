@@ -0,0 +1,216 @@
+/**
+ * @fileoverview Fallback provider combining several providers
+ * Public provider class implementing both Effect and Promise APIs
+ */
+
+import { Effect, Either } from "effect"
+
+import type { Provider, ProviderEffect } from "./Provider.js"
+import { ProviderError } from "./Provider.js"
+
+/**
+ * @since 2.0.0
+ * @category model
+ */
+export interface FallbackOptions {
+  /**
+   * Rotate the provider each read starts with, spreading reads across healthy
+   * providers. When false, reads always start with the healthiest provider in
+   * the given order. Defaults to true.
+   */
+  readonly roundRobin?: boolean
+  /**
+   * Health score below which a provider is only tried after the healthy ones.
+   * Defaults to 0.5.
+   */
+  readonly healthThreshold?: number
+}
+
+/**
+ * Health of a wrapped provider, as tracked by {@link FallbackProvider}.
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export interface ProviderHealth {
+  /** Moving success rate between 0 and 1; starts at 1 */
+  readonly score: number
+  readonly successes: number
+  readonly failures: number
+}
+
+// Weight of the latest call in the moving success rate
+const HEALTH_DECAY = 0.2
+
+/**
+ * Provider that spreads calls over several providers and survives any one of
+ * them being down.
+ *
+ * - Reads fail over per method: when a provider fails with a `ProviderError`, the
+ *   same call is retried on the next provider, and only fails once all have failed.
+ * - Reads are spread round-robin over the healthy providers.
+ * - Every call updates a health score per provider; providers below the health
+ *   threshold are tried last until they recover.
+ * - Transactions are submitted to every provider at once. Submission succeeds if
+ *   any provider accepts it, and fails if the providers report different hashes.
+ *
+ * @example
+ * ```typescript
+ * const provider = new FallbackProvider([
+ *   new Koios("https://api.koios.rest/api/v1"),
+ *   new MaestroProvider("https://mainnet.gomaestro-api.org/v1", "your-api-key")
+ * ])
+ *
+ * const params = await provider.getProtocolParameters()
+ * console.log(provider.health())
+ * ```
+ *
+ * @since 2.0.0
+ * @category providers
+ */
+export class FallbackProvider implements Provider {
+  private readonly providers: ReadonlyArray<Provider>
+  private readonly roundRobin: boolean
+  private readonly healthThreshold: number
+  private readonly scores: Array<{ score: number; successes: number; failures: number }>
+  private cursor = 0
+
+  // Effect property for Provider interface
+  readonly Effect: ProviderEffect
+
+  constructor(providers: ReadonlyArray<Provider>, options: FallbackOptions = {}) {
+    if (providers.length === 0) {
+      throw new Error("FallbackProvider requires at least one provider")
+    }
+    this.providers = providers
+    this.roundRobin = options.roundRobin ?? true
+    this.healthThreshold = options.healthThreshold ?? 0.5
+    this.scores = providers.map(() => ({ score: 1, successes: 0, failures: 0 }))
+
+    this.Effect = {
+      getProtocolParameters: () => this.read("getProtocolParameters", (provider) => provider.getProtocolParameters()),
+      getUtxos: (addressOrCredential) => this.read("getUtxos", (provider) => provider.getUtxos(addressOrCredential)),
+      getUtxosWithUnit: (addressOrCredential, unit) =>
+        this.read("getUtxosWithUnit", (provider) => provider.getUtxosWithUnit(addressOrCredential, unit)),
+      getUtxoByUnit: (unit) => this.read("getUtxoByUnit", (provider) => provider.getUtxoByUnit(unit)),
+      getUtxosByOutRef: (outRefs) => this.read("getUtxosByOutRef", (provider) => provider.getUtxosByOutRef(outRefs)),
+      getDelegation: (rewardAddress) => this.read("getDelegation", (provider) => provider.getDelegation(rewardAddress)),
+      getDatum: (datumHash) => this.read("getDatum", (provider) => provider.getDatum(datumHash)),
+      awaitTx: (txHash, checkInterval) =>
+        this.read("awaitTx", (provider) => provider.awaitTx(txHash, checkInterval)),
+      submitTx: (cbor) => this.submit(cbor),
+      evaluateTx: (tx, additionalUTxOs) =>
+        this.read("evaluateTx", (provider) => provider.evaluateTx(tx, additionalUTxOs))
+    }
+  }
+
+  /** Current health of each wrapped provider, in the order they were given */
+  health = (): ReadonlyArray<ProviderHealth> => this.scores.map((health) => ({ ...health }))
+
+  // ============================================================================
+  // Promise-based API - arrow functions as own properties (spreadable!)
+  // ============================================================================
+
+  getProtocolParameters = () => Effect.runPromise(this.Effect.getProtocolParameters())
+
+  getUtxos = (addressOrCredential: Parameters<Provider["getUtxos"]>[0]) =>
+    Effect.runPromise(this.Effect.getUtxos(addressOrCredential))
+
+  getUtxosWithUnit = (
+    addressOrCredential: Parameters<Provider["getUtxosWithUnit"]>[0],
+    unit: Parameters<Provider["getUtxosWithUnit"]>[1]
+  ) => Effect.runPromise(this.Effect.getUtxosWithUnit(addressOrCredential, unit))
+
+  getUtxoByUnit = (unit: Parameters<Provider["getUtxoByUnit"]>[0]) =>
+    Effect.runPromise(this.Effect.getUtxoByUnit(unit))
+
+  getUtxosByOutRef = (outRefs: Parameters<Provider["getUtxosByOutRef"]>[0]) =>
+    Effect.runPromise(this.Effect.getUtxosByOutRef(outRefs))
+
+  getDelegation = (rewardAddress: Parameters<Provider["getDelegation"]>[0]) =>
+    Effect.runPromise(this.Effect.getDelegation(rewardAddress))
+
+  getDatum = (datumHash: Parameters<Provider["getDatum"]>[0]) =>
+    Effect.runPromise(this.Effect.getDatum(datumHash))
+
+  awaitTx = (txHash: Parameters<Provider["awaitTx"]>[0], checkInterval?: Parameters<Provider["awaitTx"]>[1]) =>
+    Effect.runPromise(this.Effect.awaitTx(txHash, checkInterval))
+
+  submitTx = (tx: Parameters<Provider["submitTx"]>[0]) =>
+    Effect.runPromise(this.Effect.submitTx(tx))
+
+  evaluateTx = (tx: Parameters<Provider["evaluateTx"]>[0], additionalUTxOs?: Parameters<Provider["evaluateTx"]>[1]) =>
+    Effect.runPromise(this.Effect.evaluateTx(tx, additionalUTxOs))
+
+  // ============================================================================
+  // Scheduling
+  // ============================================================================
+
+  private record(index: number, success: boolean): void {
+    const health = this.scores[index]
+    health.score = health.score * (1 - HEALTH_DECAY) + (success ? HEALTH_DECAY : 0)
+    if (success) health.successes += 1
+    else health.failures += 1
+  }
+
+  /**
+   * Order in which to try the providers: rotated for round-robin, then healthy
+   * providers before unhealthy ones (the sort is stable, keeping the rotation).
+   */
+  private order(): Array<number> {
+    const start = this.roundRobin ? this.cursor++ % this.providers.length : 0
+    return this.providers
+      .map((_, offset) => (start + offset) % this.providers.length)
+      .sort(
+        (a, b) =>
+          Number(this.scores[b].score >= this.healthThreshold) - Number(this.scores[a].score >= this.healthThreshold)
+      )
+  }
+
+  private read<A>(
+    method: keyof ProviderEffect,
+    call: (provider: ProviderEffect) => Effect.Effect<A, ProviderError>
+  ): Effect.Effect<A, ProviderError> {
+    return Effect.gen(this, function* () {
+      const errors: Array<ProviderError> = []
+      for (const index of this.order()) {
+        const result = yield* Effect.either(call(this.providers[index].Effect))
+        this.record(index, Either.isRight(result))
+        if (Either.isRight(result)) return result.right
+        errors.push(result.left)
+      }
+      return yield* Effect.fail(
+        new ProviderError({
+          cause: errors,
+          message: `All ${this.providers.length} providers failed ${method}: ${errors.map((error) => error.message).join("; ")}`
+        })
+      )
+    })
+  }
+
+  private submit(cbor: string): Effect.Effect<string, ProviderError> {
+    return Effect.gen(this, function* () {
+      const results = yield* Effect.all(
+        this.providers.map((provider) => Effect.either(provider.Effect.submitTx(cbor))),
+        { concurrency: "unbounded" }
+      )
+      results.forEach((result, index) => this.record(index, Either.isRight(result)))
+
+      const hashes = [...new Set(results.filter(Either.isRight).map((result) => result.right))]
+      if (hashes.length === 1) return hashes[0]
+
+      const errors = results.filter(Either.isLeft).map((result) => result.left)
+      return yield* Effect.fail(
+        hashes.length === 0
+          ? new ProviderError({
+              cause: errors,
+              message: `All ${this.providers.length} providers rejected the transaction: ${errors.map((error) => error.message).join("; ")}`
+            })
+          : new ProviderError({
+              cause: hashes,
+              message: `Providers returned different transaction hashes: ${hashes.join(", ")}`
+            })
+      )
+    })
+  }
+}
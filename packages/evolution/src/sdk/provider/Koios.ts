@@ -1,5 +1,7 @@
 import { Effect } from "effect"
 
+import type { RetryPolicy } from "../client/Client.js"
+import * as HttpUtils from "./internal/HttpUtils.js"
 import * as KoiosEffect from "./internal/KoiosEffect.js"
 import type { Provider, ProviderEffect } from "./Provider.js"
 
@@ -38,12 +40,12 @@ export class Koios implements Provider {
   // Effect property for Provider interface
   readonly Effect: ProviderEffect
 
-  constructor(baseUrl: string, token?: string) {
+  constructor(baseUrl: string, token?: string, retryPolicy?: RetryPolicy) {
     this.baseUrl = baseUrl
     this.token = token
 
     // Initialize Effect property
-    this.Effect = {
+    this.Effect = HttpUtils.withRetryPolicy({
       getProtocolParameters: () => KoiosEffect.getProtocolParameters(this.baseUrl, this.token),
       getUtxos: KoiosEffect.getUtxos(this.baseUrl, this.token),
       getUtxosWithUnit: KoiosEffect.getUtxosWithUnit(this.baseUrl, this.token),
@@ -54,7 +56,7 @@ export class Koios implements Provider {
       awaitTx: KoiosEffect.awaitTx(this.baseUrl, this.token),
       submitTx: KoiosEffect.submitTx(this.baseUrl, this.token),
       evaluateTx: KoiosEffect.evaluateTx(this.baseUrl, this.token)
-    }
+    }, retryPolicy)
   }
 
   // ============================================================================
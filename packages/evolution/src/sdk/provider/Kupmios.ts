@@ -1,6 +1,8 @@
 import { Effect } from "effect"
 
+import type { RetryPolicy } from "../client/Client.js"
 import type * as Unit from "../Unit.js"
+import * as HttpUtils from "./internal/HttpUtils.js"
 import * as KupmiosEffects from "./internal/KupmiosEffects.js"
 import type { Provider, ProviderEffect } from "./Provider.js"
 
@@ -51,14 +53,15 @@ export class KupmiosProvider implements Provider {
     headers?: {
       ogmiosHeader?: Record<string, string>
       kupoHeader?: Record<string, string>
-    }
+    },
+    retryPolicy?: RetryPolicy
   ) {
     this.kupoUrl = kupoUrl
     this.ogmiosUrl = ogmiosUrl
     this.headers = headers
 
     // Initialize Effect property
-    this.Effect = {
+    this.Effect = HttpUtils.withRetryPolicy({
       getProtocolParameters: () => KupmiosEffects.getProtocolParametersEffect(this.ogmiosUrl, this.headers?.ogmiosHeader),
       getUtxos: KupmiosEffects.getUtxosEffect(this.kupoUrl, this.headers?.kupoHeader),
       getUtxosWithUnit: KupmiosEffects.getUtxosWithUnitEffect(this.kupoUrl, this.headers?.kupoHeader),
@@ -69,7 +72,7 @@ export class KupmiosProvider implements Provider {
       awaitTx: KupmiosEffects.awaitTxEffect(this.kupoUrl, this.headers?.kupoHeader),
       evaluateTx: KupmiosEffects.evaluateTxEffect(this.ogmiosUrl, this.headers?.ogmiosHeader),
       submitTx: KupmiosEffects.submitTxEffect(this.ogmiosUrl, this.headers?.ogmiosHeader)
-    }
+    }, retryPolicy)
   }
 
   // ============================================================================
@@ -5,6 +5,8 @@
 
 import { Effect } from "effect"
 
+import type { RetryPolicy } from "../client/Client.js"
+import * as HttpUtils from "./internal/HttpUtils.js"
 import * as MaestroEffect from "./internal/MaestroEffect.js"
 import type { Provider, ProviderEffect } from "./Provider.js"
 
@@ -55,10 +57,11 @@ export class MaestroProvider implements Provider {
   constructor(
     private readonly baseUrl: string,
     private readonly apiKey: string,
-    private readonly turboSubmit: boolean = false
+    private readonly turboSubmit: boolean = false,
+    retryPolicy?: RetryPolicy
   ) {
     // Initialize Effect-based API with curry pattern
-    this.Effect = {
+    this.Effect = HttpUtils.withRetryPolicy({
       getProtocolParameters: () => MaestroEffect.getProtocolParameters(this.baseUrl, this.apiKey),
       getUtxos: MaestroEffect.getUtxos(this.baseUrl, this.apiKey),
       getUtxosWithUnit: MaestroEffect.getUtxosWithUnit(this.baseUrl, this.apiKey),
@@ -69,7 +72,7 @@ export class MaestroProvider implements Provider {
       getUtxoByUnit: MaestroEffect.getUtxoByUnit(this.baseUrl, this.apiKey),
       getDatum: MaestroEffect.getDatum(this.baseUrl, this.apiKey),
       awaitTx: MaestroEffect.awaitTx(this.baseUrl, this.apiKey)
-    }
+    }, retryPolicy)
   }
 
   // ============================================================================
@@ -1,6 +1,141 @@
 import type { HttpClientResponse } from "@effect/platform"
 import { FetchHttpClient, HttpClient, HttpClientError, HttpClientRequest } from "@effect/platform"
-import { Effect, Schema } from "effect"
+import { Cause, Context, Duration, Effect, Option, Schedule, Schema } from "effect"
+
+import type { RetryConfig, RetryPolicy } from "../../client/Client.js"
+import { RetryPresets } from "../../client/Client.js"
+import type { ProviderEffect } from "../Provider.js"
+
+// ============================================================================
+// Retries
+// ============================================================================
+
+/**
+ * Retry policy applied to every request made through these helpers.
+ * Without one, requests are attempted once.
+ */
+export class HttpRetryPolicy extends Context.Tag("HttpRetryPolicy")<HttpRetryPolicy, RetryPolicy>() {}
+
+/**
+ * Which failures the retry policy in context retries; without one,
+ * {@link isTransientError} decides.
+ */
+export class HttpRetryCondition extends Context.Tag("HttpRetryCondition")<
+  HttpRetryCondition,
+  (error: unknown) => boolean
+>() {}
+
+/**
+ * Timeout of a single request attempt, unless the policy sets `timeoutMs`
+ */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10_000
+
+const isRetryConfig = (policy: RetryPolicy): policy is RetryConfig => "maxRetries" in policy
+
+/**
+ * Network failures, request timeouts, rate limits (429) and server errors (5xx)
+ * are transient; anything else fails immediately.
+ */
+export const isTransientError = (error: unknown): boolean => {
+  if (Cause.isTimeoutException(error)) return true
+  if (error instanceof HttpClientError.RequestError) return error.reason === "Transport"
+  if (error instanceof HttpClientError.ResponseError) {
+    return error.response.status === 429 || error.response.status >= 500
+  }
+  return false
+}
+
+/**
+ * Submissions are only retried when rate limited (429). After a timeout, a
+ * transport failure or a server error the node may already have accepted the
+ * transaction, and resubmitting it fails for spending inputs already in its mempool.
+ */
+export const isRetryableSubmitError = (error: unknown): boolean =>
+  error instanceof HttpClientError.ResponseError && error.response.status === 429
+
+/**
+ * Delay requested by a `Retry-After` header, given in seconds or as an HTTP date
+ */
+const retryAfter = (error: unknown): Duration.Duration | undefined => {
+  if (!(error instanceof HttpClientError.ResponseError)) return undefined
+  const header = error.response.headers["retry-after"]
+  if (header === undefined) return undefined
+  const seconds = Number(header)
+  if (header.trim() !== "" && Number.isFinite(seconds)) return Duration.seconds(Math.max(0, seconds))
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Duration.millis(Math.max(0, date - Date.now()))
+}
+
+const policySchedule = (policy: RetryPolicy): Schedule.Schedule<unknown, unknown> => {
+  if (Schedule.isSchedule(policy)) return policy
+  const config = isRetryConfig(policy) ? policy : RetryPresets[policy.preset]
+  return Schedule.exponential(Duration.millis(config.retryDelayMs), config.backoffMultiplier).pipe(
+    Schedule.modifyDelay((_, delay) => Duration.min(delay, Duration.millis(config.maxRetryDelayMs))),
+    Schedule.intersect(Schedule.recurs(config.maxRetries))
+  )
+}
+
+/**
+ * Attempt a request under the retry policy in context: every attempt is timed
+ * out, failures matching the retry condition are retried on the policy's
+ * schedule, waiting at least as long as a `Retry-After` header asks.
+ */
+export const withRetry = <A, E, R>(request: Effect.Effect<A, E, R>) =>
+  Effect.flatMap(
+    Effect.all([Effect.serviceOption(HttpRetryPolicy), Effect.serviceOption(HttpRetryCondition)]),
+    ([policy, condition]) => {
+      const timeoutMs = Option.match(policy, {
+        onNone: () => DEFAULT_REQUEST_TIMEOUT_MS,
+        onSome: (policy) => (isRetryConfig(policy) ? policy.timeoutMs : undefined) ?? DEFAULT_REQUEST_TIMEOUT_MS
+      })
+      const attempt = Effect.timeout(request, Duration.millis(timeoutMs))
+      if (Option.isNone(policy)) return attempt
+
+      const isRetryable = Option.getOrElse(condition, () => isTransientError)
+      const schedule = Schedule.identity<E | Cause.TimeoutException>().pipe(
+        Schedule.intersect(policySchedule(policy.value)),
+        Schedule.whileInput((error: E | Cause.TimeoutException) => isRetryable(error)),
+        Schedule.modifyDelay(([error], delay) => {
+          const requested = retryAfter(error)
+          return requested === undefined ? delay : Duration.max(delay, requested)
+        })
+      )
+      return Effect.retry(attempt, schedule)
+    }
+  )
+
+const retrying =
+  <Args extends Array<unknown>, A, E>(
+    method: (...args: Args) => Effect.Effect<A, E>,
+    policy: RetryPolicy,
+    condition: (error: unknown) => boolean = isTransientError
+  ) =>
+  (...args: Args): Effect.Effect<A, E> =>
+    method(...args).pipe(
+      Effect.provideService(HttpRetryPolicy, policy),
+      Effect.provideService(HttpRetryCondition, condition)
+    )
+
+/**
+ * Run every method of a provider under a retry policy. Submissions are only
+ * retried when rate limited, see {@link isRetryableSubmitError}.
+ */
+export const withRetryPolicy = (effect: ProviderEffect, policy: RetryPolicy | undefined): ProviderEffect => {
+  if (policy === undefined) return effect
+  // Listed one by one so a new provider method fails to compile until it is covered
+  return {
+    getProtocolParameters: retrying(effect.getProtocolParameters, policy),
+    getUtxos: retrying(effect.getUtxos, policy),
+    getUtxosWithUnit: retrying(effect.getUtxosWithUnit, policy),
+    getUtxoByUnit: retrying(effect.getUtxoByUnit, policy),
+    getUtxosByOutRef: retrying(effect.getUtxosByOutRef, policy),
+    getDelegation: retrying(effect.getDelegation, policy),
+    getDatum: retrying(effect.getDatum, policy),
+    awaitTx: retrying(effect.awaitTx, policy),
+    submitTx: retrying(effect.submitTx, policy, isRetryableSubmitError),
+    evaluateTx: retrying(effect.evaluateTx, policy)
+  }
+}
 
 /**
  * Filter responses to only allow 2xx status codes, otherwise fail with ResponseError
@@ -30,12 +165,12 @@ export const filterStatusOk = (
  * Performs a GET request and decodes the response using the provided schema
  */
 export const get = <A, I, R>(url: string, schema: Schema.Schema<A, I, R>, headers?: Record<string, string>) =>
-  HttpClient.get(url, headers ? { headers } : undefined).pipe(
-    Effect.flatMap(filterStatusOk),
-    Effect.flatMap((response) => response.json),
-    Effect.flatMap(Schema.decodeUnknown(schema)),
-    Effect.provide(FetchHttpClient.layer)
-  )
+  withRetry(
+    HttpClient.get(url, headers ? { headers } : undefined).pipe(
+      Effect.flatMap(filterStatusOk),
+      Effect.flatMap((response) => response.json)
+    )
+  ).pipe(Effect.flatMap(Schema.decodeUnknown(schema)), Effect.provide(FetchHttpClient.layer))
 
 /**
  * Performs a POST request with JSON body and decodes the response using the provided schema
@@ -54,9 +189,12 @@ export const postJson = <A, I, R>(
       ...(headers || {})
     })
 
-    const response = yield* HttpClient.execute(request)
-    const filteredResponse = yield* filterStatusOk(response)
-    const json = yield* filteredResponse.json
+    const json = yield* withRetry(
+      HttpClient.execute(request).pipe(
+        Effect.flatMap(filterStatusOk),
+        Effect.flatMap((response) => response.json)
+      )
+    )
     return yield* Schema.decodeUnknown(schema)(json)
   }).pipe(Effect.provide(FetchHttpClient.layer))
 
@@ -78,8 +216,11 @@ export const postUint8Array = <A, I>(
       request = HttpClientRequest.setHeaders(request, headers)
     }
 
-    const response = yield* HttpClient.execute(request)
-    const filteredResponse = yield* filterStatusOk(response)
-    const json = yield* filteredResponse.json
+    const json = yield* withRetry(
+      HttpClient.execute(request).pipe(
+        Effect.flatMap(filterStatusOk),
+        Effect.flatMap((response) => response.json)
+      )
+    )
     return yield* Schema.decodeUnknown(schema)(json)
   }).pipe(Effect.provide(FetchHttpClient.layer))
@@ -1,5 +1,6 @@
 import type { HttpBody, HttpClientError } from "@effect/platform"
 import { FetchHttpClient } from "@effect/platform"
+import type { Cause } from "effect"
 import { Effect, pipe, Schema } from "effect"
 import type { ParseError } from "effect/ParseResult"
 
@@ -324,7 +325,7 @@ export const getUtxosEffect = (
   headers: Record<string, string> | undefined
 ): Effect.Effect<
   Array<UtxO.UTxO>,
-  string | HttpBody.HttpBodyError | HttpClientError.HttpClientError | ParseError,
+  string | HttpBody.HttpBodyError | HttpClientError.HttpClientError | ParseError | Cause.TimeoutException,
   never
 > => {
   const url = `${baseUrl}/address_info`
@@ -23,7 +23,6 @@ export const getProtocolParameters = (baseUrl: string, token?: string) =>
     const [result] = yield* pipe(
       HttpUtils.get(url, schema, bearerToken),
       // Allows for dependency injection and easier testing
-      Effect.timeout(10_000),
       Effect.catchAllCause(
         (cause) => new Provider.ProviderError({ cause, message: "Failed to fetch protocol parameters from Koios" })
       ),
@@ -59,7 +58,6 @@ export const getUtxos =
   (baseUrl: string, token?: string) => (addressOrCredential: Address.Address | Credential.Credential) =>
     pipe(
       _Koios.getUtxosEffect(baseUrl, addressOrCredential, token ? { Authorization: `Bearer ${token}` } : undefined),
-      Effect.timeout(10_000),
       Effect.catchAllCause(
         (cause) => new Provider.ProviderError({ cause, message: "Failed to fetch UTxOs from Koios" })
       )
@@ -76,7 +74,6 @@ export const getUtxosWithUnit =
           return keys.length > 0 && keys.includes(unit)
         })
       ),
-      Effect.timeout(10_000),
       Effect.catchAllCause(
         (cause) => new Provider.ProviderError({ cause, message: "Failed to fetch UTxOs with unit from Koios" })
       )
@@ -126,7 +123,6 @@ export const getUtxoByUnit = (baseUrl: string, token?: string) => (unit: Unit.Un
         )
       )
     }),
-    Effect.timeout(10_000),
     Effect.catchAllCause(
       (cause) => new Provider.ProviderError({ cause, message: "Failed to fetch UTxO by unit from Koios" })
     )
@@ -145,7 +141,6 @@ export const getUtxosByOutRef = (baseUrl: string, token?: string) => (outRefs: R
     const [result] = yield* pipe(
       HttpUtils.postJson(url, body, Schema.Array(_Koios.TxInfoSchema), bearerToken),
       Effect.provide(FetchHttpClient.layer),
-      Effect.timeout(10_000),
       Effect.catchAllCause(
         (cause) => new Provider.ProviderError({ cause, message: "Failed to fetch UTxOs by OutRef from Koios" })
       )
@@ -197,7 +192,6 @@ export const getDelegation = (baseUrl: string, token?: string) => (rewardAddress
             )
           : Effect.succeed(result[0])
       ),
-      Effect.timeout(10_000),
       Effect.catchAllCause(
         (cause) => new Provider.ProviderError({ cause, message: "Failed to fetch delegation from Koios" })
       )
@@ -230,7 +224,6 @@ export const getDatum = (baseUrl: string, token?: string) => (datumHash: string)
             )
           : Effect.succeed(result[0])
       ),
-      Effect.timeout(10_000),
       Effect.catchAllCause(
         (cause) => new Provider.ProviderError({ cause, message: "Failed to fetch datum from Koios" })
       )
@@ -274,7 +267,6 @@ export const submitTx = (baseUrl: string, token?: string) => (tx: string) =>
     const result = yield* pipe(
       HttpUtils.postUint8Array(url, Bytes.fromHex(tx), _Koios.TxHashSchema, bearerToken),
       Effect.provide(FetchHttpClient.layer),
-      Effect.timeout(10_000),
       Effect.catchAllCause((cause) => new Provider.ProviderError({ cause, message: "Failed to submit transaction" }))
     )
 
@@ -304,7 +296,6 @@ export const evaluateTx =
       const { result } = yield* pipe(
         HttpUtils.postJson(url, body, schema, bearerToken),
         Effect.provide(FetchHttpClient.layer),
-        Effect.timeout(10_000),
         Effect.catchAllCause(
           (cause) => new Provider.ProviderError({ cause, message: "Failed to evaluate transaction" })
         )
@@ -16,8 +16,6 @@ import * as HttpUtils from "./HttpUtils.js"
 import * as Kupo from "./Kupo.js"
 import * as Ogmios from "./Ogmios.js"
 
-const TIMEOUT = 10_000
-
 // Internal utility functions (not exported)
 const toProtocolParameters = (result: Ogmios.ProtocolParameters): ProtocolParameters.ProtocolParameters => {
   return {
@@ -165,7 +163,6 @@ export const getProtocolParametersEffect = Effect.fn("getProtocolParameters")(fu
   const schema = Ogmios.JSONRPCSchema(Ogmios.ProtocolParametersSchema)
   const { result } = yield* pipe(
     HttpUtils.postJson(ogmiosUrl, data, schema, headers?.ogmiosHeader),
-    Effect.timeout(TIMEOUT),
     Effect.catchAll((cause) => new ProviderError({ cause, message: "Failed to get protocol parameters" })),
     Effect.provide(FetchHttpClient.layer)
   )
@@ -186,7 +183,6 @@ export const getUtxosEffect = (kupoUrl: string, headers?: { kupoHeader?: Record<
     const utxos = yield* pipe(
       HttpUtils.get(pattern, schema, headers?.kupoHeader),
       Effect.flatMap((u) => toUtxos(u)),
-      Effect.timeout(TIMEOUT),
       Effect.catchAll((cause) => new ProviderError({ cause, message: "Failed to get UTxOs" })),
       Effect.provide(FetchHttpClient.layer)
     )
@@ -204,7 +200,6 @@ export const getUtxoByUnitEffect = (kupoUrl: string, headers?: { kupoHeader?: Re
     const utxos = yield* pipe(
       HttpUtils.get(pattern, schema, headers?.kupoHeader),
       Effect.flatMap((u) => toUtxos(u)),
-      Effect.timeout(TIMEOUT),
       Effect.catchAll((cause) => new ProviderError({ cause, message: "Failed to get UTxO by unit" })),
       Effect.provide(FetchHttpClient.layer)
     )
@@ -240,7 +235,6 @@ export const getUtxosByOutRefEffect = (kupoUrl: string, headers?: { kupoHeader?:
       pipe(
         HttpUtils.get(mkPattern(txHash), schema, headers?.kupoHeader),
         Effect.flatMap((u) => toUtxos(u)),
-        Effect.timeout(TIMEOUT),
         Effect.catchAll((cause) => new ProviderError({ cause, message: "Failed to get UTxOs by OutRef" }))
       )
     )
@@ -274,7 +268,6 @@ export const submitTxEffect = (ogmiosUrl: string, headers?: { ogmiosHeader?: Rec
 
     const { result } = yield* pipe(
       HttpUtils.postJson(ogmiosUrl, data, schema, headers?.ogmiosHeader),
-      Effect.timeout(TIMEOUT),
       Effect.catchAll((cause) => new ProviderError({ cause, message: "Failed to submit transaction" })),
       Effect.provide(FetchHttpClient.layer)
     )
@@ -295,7 +288,6 @@ export const getUtxosWithUnitEffect = (kupoUrl: string, headers?: { kupoHeader?:
     const utxos = yield* pipe(
       HttpUtils.get(pattern, schema, headers?.kupoHeader),
       Effect.flatMap((u) => toUtxos(u)),
-      Effect.timeout(TIMEOUT),
       Effect.catchAll((cause) => new ProviderError({ cause, message: "Failed to get UTxOs with unit" })),
       Effect.provide(FetchHttpClient.layer)
     )
@@ -322,7 +314,6 @@ export const evaluateTxEffect = (ogmiosUrl: string, headers?: { ogmiosHeader?: R
     const { result } = yield* pipe(
       HttpUtils.postJson(ogmiosUrl, data, schema, headers?.ogmiosHeader),
       Effect.provide(FetchHttpClient.layer),
-      Effect.timeout(TIMEOUT),
       Effect.catchAll((cause) => new ProviderError({ cause, message: "Failed to evaluate transaction" }))
     )
 
@@ -371,7 +362,6 @@ export const getDelegationEffect = (ogmiosUrl: string, headers?: { ogmiosHeader?
     const { result } = yield* pipe(
       HttpUtils.postJson(ogmiosUrl, data, schema, headers?.ogmiosHeader),
       Effect.provide(FetchHttpClient.layer),
-      Effect.timeout(TIMEOUT),
       Effect.catchAll((cause) => new ProviderError({ cause, message: "Failed to get delegation" }))
     )
     const delegation = result ? (Object.values(result)[0] as any) : null
@@ -389,7 +379,6 @@ export const getDatumEffect = (kupoUrl: string, headers?: { kupoHeader?: Record<
     const result = yield* pipe(
       HttpUtils.get(pattern, schema, headers?.kupoHeader),
       Effect.provide(FetchHttpClient.layer),
-      Effect.timeout(TIMEOUT),
       Effect.flatMap(Effect.fromNullable),
       Effect.catchAll((cause) => new ProviderError({ cause, message: "Failed to get datum" }))
     )
@@ -43,12 +43,6 @@ const wrapError = (operation: string) => (error: unknown) =>
     cause: error
   })
 
-// ============================================================================
-// Configuration
-// ============================================================================
-
-const TIMEOUT = 10_000 // 10 seconds timeout for requests
-
 // ============================================================================
 // Protocol Parameters
 // ============================================================================
@@ -63,7 +57,6 @@ export const getProtocolParameters = (baseUrl: string, apiKey: string) =>
     createHeaders(apiKey)
   ).pipe(
     Effect.map(Maestro.transformProtocolParameters),
-    Effect.timeout(TIMEOUT),
     Effect.catchAll(wrapError("get protocol parameters"))
   )
 
@@ -128,7 +121,6 @@ export const getUtxosByOutRef = (baseUrl: string, apiKey: string) => (outRefs: R
       Schema.Array(Maestro.MaestroUTxO),
       createHeadersWithAmounts(apiKey)
     ).pipe(
-      Effect.timeout(TIMEOUT),
       Effect.catchAll(wrapError("get UTxOs by outRef"))
     )
     
@@ -149,7 +141,6 @@ export const getDelegation = (baseUrl: string, apiKey: string) => (rewardAddress
     createHeaders(apiKey)
   ).pipe(
     Effect.map(Maestro.transformDelegation),
-    Effect.timeout(TIMEOUT),
     Effect.catchAll(wrapError("get delegation"))
   )
 
@@ -173,7 +164,6 @@ export const submitTx = (baseUrl: string, apiKey: string, turboSubmit?: boolean)
       Schema.String, // Expecting transaction hash as response
       createHeaders(apiKey)
     ).pipe(
-      Effect.timeout(TIMEOUT),
       Effect.catchAll(wrapError("submit transaction"))
     )
     
@@ -205,7 +195,6 @@ export const evaluateTx = (baseUrl: string, apiKey: string) => (tx: string, addi
       Schema.Array(Schema.Any), // Will need proper evaluation response schema
       createHeaders(apiKey)
     ).pipe(
-      Effect.timeout(TIMEOUT),
       Effect.catchAll(wrapError("evaluate transaction"))
     )
     
@@ -224,7 +213,6 @@ export const getUtxoByUnit = (baseUrl: string, apiKey: string) => (unit: string)
       apiKey,
       1 // Just get the first one
     ).pipe(
-      Effect.timeout(TIMEOUT),
       Effect.catchAll(wrapError("get UTxO by unit"))
     )
     
@@ -255,7 +243,6 @@ export const getDatum = (baseUrl: string, apiKey: string) => (datumHash: string)
         'accept': 'application/json'
       }
     ).pipe(
-      Effect.timeout(TIMEOUT),
       Effect.catchAll(wrapError("get datum"))
     )
     
@@ -282,7 +269,6 @@ export const awaitTx = (baseUrl: string, apiKey: string) => (txHash: string, che
         }),
         createHeaders(apiKey)
       ).pipe(
-        Effect.timeout(TIMEOUT),
         Effect.catchAll(wrapError("await transaction")),
         Effect.either
       )
@@ -318,7 +304,6 @@ const getUtxosWithPagination = (url: string, apiKey: string, maxCount?: number)
         Maestro.MaestroPaginatedResponse(Maestro.MaestroUTxO),
         createHeadersWithAmounts(apiKey) // Use amounts-as-strings for better precision
       ).pipe(
-        Effect.timeout(TIMEOUT),
         Effect.catchAll(wrapError("get paginated UTxOs"))
       )
       
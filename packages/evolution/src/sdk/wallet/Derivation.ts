@@ -7,12 +7,18 @@ import * as Schema from "effect/Schema"
 import * as AddressEras from "../../core/AddressEras.js"
 import * as BaseAddress from "../../core/BaseAddress.js"
 import * as Bip32PrivateKey from "../../core/Bip32PrivateKey.js"
+import * as ByronAddress from "../../core/ByronAddress.js"
+import * as Bytes from "../../core/Bytes.js"
 import * as EnterpriseAddress from "../../core/EnterpriseAddress.js"
+import * as HDAddressPayload from "../../core/HDAddressPayload.js"
 import * as KeyHash from "../../core/KeyHash.js"
+import * as NativeScripts from "../../core/NativeScripts.js"
 import * as PrivateKey from "../../core/PrivateKey.js"
 import * as RewardAccount from "../../core/RewardAccount.js"
+import * as ScriptHash from "../../core/ScriptHash.js"
 import type * as SdkAddress from "../Address.js"
 import type * as SdkRewardAddress from "../RewardAddress.js"
+import type * as UTxO from "../UTxO.js"
 
 export class DerivationError extends Data.TaggedError("DerivationError")<{
   readonly message: string
@@ -23,18 +29,23 @@ export class DerivationError extends Data.TaggedError("DerivationError")<{
  * Result of deriving keys and addresses from a seed or Bip32 root
  * - address: bech32 payment address (addr... / addr_test...)
  * - rewardAddress: bech32 reward address (stake... / stake_test...)
- * - paymentKey / stakeKey: ed25519e_sk bech32 private keys
+ * - paymentKey / stakeKey / drepKey: ed25519e_sk bech32 private keys
  * - keyStore: Map of KeyHash hex -> PrivateKey for signing operations
- * - paymentKhHex / stakeKhHex: KeyHash hex strings for quick lookup
+ * - paymentKhHex / stakeKhHex / drepKhHex: KeyHash hex strings for quick lookup
+ * - byronKey: Icarus key at m/44'/1815'/account'/0/0 signing bootstrap witnesses for its Byron address
+ * Seed wallets also derive the CIP-105 DRep key at m/1852'/1815'/account'/3/0.
  */
 export type SeedDerivationResult = {
   address: SdkAddress.Address
   rewardAddress: SdkRewardAddress.RewardAddress | undefined
   paymentKey: string
   stakeKey: string | undefined
+  drepKey: string | undefined
   keyStore: Map<string, PrivateKey.PrivateKey>
   paymentKhHex: string
   stakeKhHex: string | undefined
+  drepKhHex: string | undefined
+  byronKey: Bip32PrivateKey.Bip32PrivateKey | undefined
 }
 
 export const walletFromSeed = (
@@ -61,8 +72,17 @@ export const walletFromSeed = (
       rootXPrv,
       Bip32PrivateKey.CardanoPath.stakeIndices(accountIndex, 0)
     )
+    const drepNode = yield* Bip32PrivateKey.Either.derive(
+      rootXPrv,
+      Bip32PrivateKey.CardanoPath.drepIndices(accountIndex, 0)
+    )
+    const byronKey = yield* Bip32PrivateKey.Either.derive(
+      rootXPrv,
+      Bip32PrivateKey.CardanoPath.icarusIndices(accountIndex, 0, 0)
+    )
     const paymentKey = Bip32PrivateKey.toPrivateKey(paymentNode)
     const stakeKey = Bip32PrivateKey.toPrivateKey(stakeNode)
+    const drepKey = Bip32PrivateKey.toPrivateKey(drepNode)
 
     const paymentKeyHash = KeyHash.fromPrivateKey(paymentKey)
     const stakeKeyHash = KeyHash.fromPrivateKey(stakeKey)
@@ -126,14 +146,20 @@ export const walletFromSeed = (
       keyStore.set(stakeKhHex, stakeKey)
     }
 
+    const drepKhHex = KeyHash.toHex(KeyHash.fromPrivateKey(drepKey))
+    keyStore.set(drepKhHex, drepKey)
+
     return {
       address,
       rewardAddress,
       paymentKey: PrivateKey.toBech32(paymentKey),
       stakeKey: addressType === "Base" ? PrivateKey.toBech32(stakeKey) : undefined,
+      drepKey: PrivateKey.toBech32(drepKey),
       keyStore,
       paymentKhHex,
-      stakeKhHex
+      stakeKhHex,
+      drepKhHex,
+      byronKey
     }
   })
 }
@@ -224,8 +250,11 @@ export function walletFromBip32(
   const { accountIndex = 0, addressType = "Base", network = "Mainnet" } = options
   const paymentNode = Bip32PrivateKey.derive(rootXPrv, Bip32PrivateKey.CardanoPath.paymentIndices(accountIndex, 0))
   const stakeNode = Bip32PrivateKey.derive(rootXPrv, Bip32PrivateKey.CardanoPath.stakeIndices(accountIndex, 0))
+  const drepNode = Bip32PrivateKey.derive(rootXPrv, Bip32PrivateKey.CardanoPath.drepIndices(accountIndex, 0))
+  const byronKey = Bip32PrivateKey.derive(rootXPrv, Bip32PrivateKey.CardanoPath.icarusIndices(accountIndex, 0, 0))
   const paymentKey = Bip32PrivateKey.toPrivateKey(paymentNode)
   const stakeKey = Bip32PrivateKey.toPrivateKey(stakeNode)
+  const drepKey = Bip32PrivateKey.toPrivateKey(drepNode)
 
   const paymentKeyHash = KeyHash.fromPrivateKey(paymentKey)
   const stakeKeyHash = KeyHash.fromPrivateKey(stakeKey)
@@ -268,14 +297,20 @@ export function walletFromBip32(
     keyStore.set(stakeKhHex, stakeKey)
   }
 
+  const drepKhHex = KeyHash.toHex(KeyHash.fromPrivateKey(drepKey))
+  keyStore.set(drepKhHex, drepKey)
+
   return {
     address,
     rewardAddress,
     paymentKey: PrivateKey.toBech32(paymentKey),
     stakeKey: addressType === "Base" ? PrivateKey.toBech32(stakeKey) : undefined,
+    drepKey: PrivateKey.toBech32(drepKey),
     keyStore,
     paymentKhHex,
-    stakeKhHex
+    stakeKhHex,
+    drepKhHex,
+    byronKey
   }
 }
 
@@ -347,9 +382,287 @@ export function walletFromPrivateKey(
       rewardAddress,
       paymentKey: paymentKeyBech32,
       stakeKey: stakeKeyBech32,
+      drepKey: undefined,
       keyStore,
       paymentKhHex,
-      stakeKhHex
+      stakeKhHex,
+      drepKhHex: undefined,
+      byronKey: undefined
+    }
+  })
+}
+
+/**
+ * BIP-44 address gap limit: discovery stops after this many consecutive unused addresses on a chain.
+ */
+export const DEFAULT_GAP_LIMIT = 20
+
+/**
+ * An address derived on the external (role 0) or internal/change (role 1) chain of an account.
+ */
+export type DerivedAddress = {
+  address: SdkAddress.Address
+  role: 0 | 1
+  index: number
+  paymentKhHex: string
+}
+
+/**
+ * Result of address discovery: the first external address and stake key as in walletFromSeed,
+ * plus the used addresses of both chains and their UTxOs.
+ * The keyStore holds the payment key of every scanned address.
+ */
+export type DiscoveryResult = SeedDerivationResult & {
+  addresses: Array<DerivedAddress>
+  utxos: Array<UTxO.UTxO>
+}
+
+/**
+ * Derive external and internal addresses from a seed and discover the used ones.
+ * Each chain is scanned from index 0 until `gapLimit` consecutive addresses are unused.
+ *
+ * BIP-44 counts an address as used once it appears in any transaction. By default an
+ * address is used when it holds UTxOs, so an address whose funds were all spent counts
+ * as unused and can end the scan early. Pass `isUsed` backed by a transaction history
+ * lookup to follow BIP-44 exactly.
+ */
+export const discoverWalletFromSeed = <E, E2 = never>(
+  seed: string,
+  getUtxos: (address: SdkAddress.Address) => Effect.Effect<ReadonlyArray<UTxO.UTxO>, E>,
+  options: {
+    password?: string
+    addressType?: "Base" | "Enterprise"
+    accountIndex?: number
+    network?: "Mainnet" | "Testnet" | "Custom"
+    gapLimit?: number
+    isUsed?: (address: SdkAddress.Address, utxos: ReadonlyArray<UTxO.UTxO>) => Effect.Effect<boolean, E2>
+  } = {}
+): Effect.Effect<DiscoveryResult, DerivationError | Bip32PrivateKey.Bip32PrivateKeyError | E | E2> =>
+  Effect.gen(function* () {
+    const { accountIndex = 0, addressType = "Base", gapLimit = DEFAULT_GAP_LIMIT, network = "Mainnet" } = options
+    if (!Number.isInteger(gapLimit) || gapLimit < 1) {
+      return yield* Effect.fail(new DerivationError({ message: `Invalid gap limit: ${gapLimit}` }))
+    }
+    const entropy = yield* Effect.try({
+      try: () => mnemonicToEntropy(seed, English),
+      catch: (cause) => new DerivationError({ message: "Invalid seed phrase", cause })
+    })
+    const rootXPrv = yield* Bip32PrivateKey.Either.fromBip39Entropy(entropy, options?.password ?? "")
+    const base = yield* Effect.try({
+      try: () => walletFromBip32(rootXPrv, { accountIndex, addressType, network }),
+      catch: (cause) => new DerivationError({ message: (cause as Error).message, cause })
+    })
+    const { harden } = Bip32PrivateKey.CardanoPath
+    const accountNode = yield* Bip32PrivateKey.Either.derive(rootXPrv, [harden(1852), harden(1815), harden(accountIndex)])
+    const stakeCredential = base.stakeKhHex ? KeyHash.fromHex(base.stakeKhHex) : undefined
+    const networkId = network === "Mainnet" ? 1 : 0
+
+    const keyStore = new Map(base.keyStore)
+    const addresses: Array<DerivedAddress> = []
+    const utxos: Array<UTxO.UTxO> = []
+
+    for (const role of [0, 1] as const) {
+      let unused = 0
+      for (let index = 0; unused < gapLimit; index++) {
+        const node = yield* Bip32PrivateKey.Either.derive(accountNode, [role, index])
+        const paymentKey = Bip32PrivateKey.toPrivateKey(node)
+        const paymentKeyHash = KeyHash.fromPrivateKey(paymentKey)
+        const address = AddressEras.toBech32(
+          stakeCredential
+            ? new BaseAddress.BaseAddress({ networkId, paymentCredential: paymentKeyHash, stakeCredential })
+            : new EnterpriseAddress.EnterpriseAddress({ networkId, paymentCredential: paymentKeyHash })
+        )
+        const paymentKhHex = KeyHash.toHex(paymentKeyHash)
+        keyStore.set(paymentKhHex, paymentKey)
+
+        const addressUtxos = yield* getUtxos(address)
+        const used = options.isUsed ? yield* options.isUsed(address, addressUtxos) : addressUtxos.length > 0
+        if (!used) {
+          unused++
+          continue
+        }
+        unused = 0
+        addresses.push({ address, role, index, paymentKhHex })
+        utxos.push(...addressUtxos)
+      }
+    }
+
+    return { ...base, keyStore, addresses, utxos }
+  })
+
+/**
+ * A legacy Byron address together with the extended key that spends it.
+ * Sign for its UTxOs with `BootstrapWitness.make`.
+ */
+export type ByronKey = {
+  address: SdkAddress.Address
+  key: Bip32PrivateKey.Bip32PrivateKey
+}
+
+/**
+ * Derive the Byron address of an Icarus (Yoroi legacy) wallet at m/44'/1815'/account'/role/index.
+ * Testnet addresses carry the network's protocol magic; mainnet ones omit it.
+ */
+export const icarusKeyFromSeed = (
+  seed: string,
+  options: {
+    password?: string
+    accountIndex?: number
+    role?: 0 | 1
+    index?: number
+    protocolMagic?: number
+  } = {}
+): Effect.Effect<ByronKey, DerivationError | Bip32PrivateKey.Bip32PrivateKeyError> =>
+  Effect.gen(function* () {
+    const { accountIndex = 0, index = 0, protocolMagic = ByronAddress.MAINNET_PROTOCOL_MAGIC, role = 0 } = options
+    const entropy = yield* Effect.try({
+      try: () => mnemonicToEntropy(seed, English),
+      catch: (cause) => new DerivationError({ message: "Invalid seed phrase", cause })
+    })
+    const rootXPrv = yield* Bip32PrivateKey.Either.fromBip39Entropy(entropy, options.password ?? "")
+    const key = yield* Bip32PrivateKey.Either.derive(
+      rootXPrv,
+      Bip32PrivateKey.CardanoPath.icarusIndices(accountIndex, role, index)
+    )
+    const publicKey = yield* Bip32PrivateKey.Either.toPublicKey(key)
+    const address = ByronAddress.fromPublicKey(
+      publicKey,
+      protocolMagic === ByronAddress.MAINNET_PROTOCOL_MAGIC ? {} : { protocolMagic }
+    )
+    return { address: ByronAddress.toBase58(address), key }
+  })
+
+/**
+ * Find the key of a Daedalus (random) Byron address from the wallet's 12-word seed.
+ * The address' encrypted derivation path is opened with the wallet's root key, so
+ * addresses of other wallets fail with a DerivationError.
+ */
+export const daedalusKeyFromSeed = (
+  seed: string,
+  address: SdkAddress.Address
+): Effect.Effect<ByronKey, DerivationError | Bip32PrivateKey.Bip32PrivateKeyError> =>
+  Effect.gen(function* () {
+    const entropy = yield* Effect.try({
+      try: () => mnemonicToEntropy(seed, English),
+      catch: (cause) => new DerivationError({ message: "Invalid seed phrase", cause })
+    })
+    const byronAddress = yield* Effect.try({
+      try: () => ByronAddress.fromBase58(address),
+      catch: (cause) => new DerivationError({ message: `Not a Byron address: ${address}`, cause })
+    })
+    const rootXPrv = yield* Bip32PrivateKey.Either.fromDaedalusEntropy(entropy)
+    const rootXPub = yield* Bip32PrivateKey.Either.toPublicKey(rootXPrv)
+    const { derivationPath } = byronAddress.attributes
+    const path = yield* Effect.try({
+      try: () =>
+        derivationPath === undefined ? undefined : HDAddressPayload.decrypt(Bytes.fromHex(derivationPath), rootXPub),
+      catch: (cause) => new DerivationError({ message: "Invalid derivation path payload", cause })
+    })
+    if (path === undefined) {
+      return yield* Effect.fail(new DerivationError({ message: `Address does not belong to this wallet: ${address}` }))
+    }
+    const key = yield* Bip32PrivateKey.Either.deriveV1(rootXPrv, path)
+    if (!ByronAddress.isOwnedBy(byronAddress, yield* Bip32PrivateKey.Either.toPublicKey(key))) {
+      return yield* Effect.fail(new DerivationError({ message: `Derived key does not match address: ${address}` }))
+    }
+    return { address, key }
+  })
+
+/**
+ * Derive the Daedalus (random) Byron address at a derivation path, sealing the path with the wallet's root key.
+ * Daedalus wallets use hardened `[account, index]` paths.
+ */
+export const daedalusAddressFromSeed = (
+  seed: string,
+  path: ReadonlyArray<number>,
+  options: { protocolMagic?: number } = {}
+): Effect.Effect<ByronKey, DerivationError | Bip32PrivateKey.Bip32PrivateKeyError> =>
+  Effect.gen(function* () {
+    const { protocolMagic = ByronAddress.MAINNET_PROTOCOL_MAGIC } = options
+    const entropy = yield* Effect.try({
+      try: () => mnemonicToEntropy(seed, English),
+      catch: (cause) => new DerivationError({ message: "Invalid seed phrase", cause })
+    })
+    const rootXPrv = yield* Bip32PrivateKey.Either.fromDaedalusEntropy(entropy)
+    const rootXPub = yield* Bip32PrivateKey.Either.toPublicKey(rootXPrv)
+    const key = yield* Bip32PrivateKey.Either.deriveV1(rootXPrv, [...path])
+    const address = ByronAddress.fromPublicKey(yield* Bip32PrivateKey.Either.toPublicKey(key), {
+      derivationPath: Bytes.toHex(HDAddressPayload.encrypt(path, rootXPub)),
+      ...(protocolMagic !== ByronAddress.MAINNET_PROTOCOL_MAGIC && { protocolMagic })
+    })
+    return { address: ByronAddress.toBase58(address), key }
+  })
+
+/**
+ * Result of deriving a native-script wallet
+ * - address: script address (base when a stake script is given, enterprise otherwise)
+ * - rewardAddress: script reward address when a stake script is given
+ * - paymentScript / stakeScript: the scripts locking the address credentials
+ * - paymentScriptHash / stakeScriptHash: ScriptHash hex strings
+ * - keyStore: Map of KeyHash hex -> PrivateKey for the co-signer keys held locally
+ */
+export type NativeScriptDerivationResult = {
+  address: SdkAddress.Address
+  rewardAddress: SdkRewardAddress.RewardAddress | undefined
+  paymentScript: NativeScripts.NativeScript
+  stakeScript: NativeScripts.NativeScript | undefined
+  paymentScriptHash: string
+  stakeScriptHash: string | undefined
+  keyStore: Map<string, PrivateKey.PrivateKey>
+}
+
+/**
+ * Derive the address of a native-script wallet from the payment script (and optional stake script),
+ * given as CBOR hex. Signing keys are bech32 ed25519e_sk keys of the co-signers held by this wallet.
+ */
+export function walletFromNativeScript(
+  paymentScriptCbor: string,
+  options: {
+    stakeScriptCbor?: string
+    signingKeys?: ReadonlyArray<string>
+    network?: "Mainnet" | "Testnet" | "Custom"
+  } = {}
+): Effect.Effect<NativeScriptDerivationResult, DerivationError> {
+  return Effect.gen(function* () {
+    const { network = "Mainnet", signingKeys = [], stakeScriptCbor } = options
+    const decodeScript = (cbor: string) =>
+      Effect.mapError(
+        NativeScripts.Either.fromCBORHex(cbor),
+        (cause) => new DerivationError({ message: cause.message, cause })
+      )
+    const paymentScript = yield* decodeScript(paymentScriptCbor)
+    const stakeScript = stakeScriptCbor ? yield* decodeScript(stakeScriptCbor) : undefined
+
+    const paymentCredential = ScriptHash.fromScript(paymentScript)
+    const stakeCredential = stakeScript ? ScriptHash.fromScript(stakeScript) : undefined
+    const networkId = network === "Mainnet" ? 1 : 0
+
+    const address = AddressEras.toBech32(
+      stakeCredential
+        ? new BaseAddress.BaseAddress({ networkId, paymentCredential, stakeCredential })
+        : new EnterpriseAddress.EnterpriseAddress({ networkId, paymentCredential })
+    )
+    const rewardAddress = stakeCredential
+      ? AddressEras.toBech32(new RewardAccount.RewardAccount({ networkId, stakeCredential }))
+      : undefined
+
+    const keyStore = new Map<string, PrivateKey.PrivateKey>()
+    for (const signingKey of signingKeys) {
+      const privateKey = yield* Effect.mapError(
+        PrivateKey.Either.fromBech32(signingKey),
+        (cause) => new DerivationError({ message: cause.message, cause })
+      )
+      keyStore.set(KeyHash.toHex(KeyHash.fromPrivateKey(privateKey)), privateKey)
+    }
+
+    return {
+      address,
+      rewardAddress,
+      paymentScript,
+      stakeScript,
+      paymentScriptHash: ScriptHash.toHex(paymentCredential),
+      stakeScriptHash: stakeCredential ? ScriptHash.toHex(stakeCredential) : undefined,
+      keyStore
     }
   })
 }
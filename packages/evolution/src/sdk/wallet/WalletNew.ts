@@ -8,6 +8,7 @@ import type * as Address from "../Address.js"
 // import type * as Delegation from "../Delegation.js"
 // import type { Provider } from "../provider/Provider.js"
 import type * as RewardAddress from "../RewardAddress.js"
+import type * as Script from "../Script.js"
 import type { EffectToPromiseAPI } from "../Type.js"
 import type * as UTxO from "../UTxO.js"
 // Imported public interfaces from builders & client modules
@@ -36,10 +37,13 @@ export class WalletError extends Data.TaggedError("WalletError")<{
  */
 // External errors (ProviderError, TransactionBuilderError, CoinSelectionError) are defined in their modules
 
+// Message payload: raw bytes, or hex-encoded bytes as CIP-30 `signData` takes them
 export type Payload = string | Uint8Array
+// CIP-30 DataSignature: COSE_Sign1 and COSE_Key as CBOR hex (see Message.signMessage)
 export interface SignedMessage {
   readonly payload: Payload
   readonly signature: string
+  readonly key: string
 }
 
 /**
@@ -52,6 +56,16 @@ export interface SignedMessage {
 export interface ReadOnlyWalletEffect {
   readonly address: () => Effect.Effect<Address.Address, WalletError>
   readonly rewardAddress: () => Effect.Effect<RewardAddress.RewardAddress | null, WalletError>
+  /**
+   * UTxOs across all addresses of a multi-address wallet. Single-address wallets omit it
+   * and their UTxOs are fetched from the provider for `address()`.
+   */
+  readonly utxos?: () => Effect.Effect<ReadonlyArray<UTxO.UTxO>, WalletError>
+  /**
+   * Native script locking the wallet address. The transaction builder witnesses it
+   * whenever the transaction spends from, or mints under, that script.
+   */
+  readonly nativeScript?: () => Effect.Effect<Script.Native, WalletError>
 }
 
 export interface ReadOnlyWallet extends EffectToPromiseAPI<ReadOnlyWalletEffect> {
@@ -80,6 +94,11 @@ export interface SigningWalletEffect extends ReadOnlyWalletEffect {
     address: Address.Address | RewardAddress.RewardAddress,
     payload: Payload
   ) => Effect.Effect<SignedMessage, WalletError>
+  /**
+   * Rescan the addresses of a wallet with address discovery. Discovery results, and the
+   * UTxOs and keys derived from them, are otherwise reused across operations.
+   */
+  readonly refresh?: () => Effect.Effect<void, WalletError>
 }
 
 export interface SigningWallet extends EffectToPromiseAPI<SigningWalletEffect> {
@@ -16,8 +16,9 @@ import * as TransactionHash from "../core/TransactionHash.js"
  * Compute the transaction body hash (blake2b-256 over CBOR of body).
  */
 export const hashTransaction = (body: TransactionBody.TransactionBody): TransactionHash.TransactionHash => {
-  // Encode body using the same options used across the SDK to ensure parity with CML
-  const bytes = TransactionBody.toCBORBytes(body)
+  // Encode body using the same options used across the SDK to ensure parity with CML;
+  // bodies decoded in preserve-encoding mode hash the bytes they were read from
+  const bytes = CBOR.originalEncoding(body) ?? TransactionBody.toCBORBytes(body)
   const digest = blake2b(bytes, { dkLen: 32 })
   return new TransactionHash.TransactionHash({ hash: digest })
 }
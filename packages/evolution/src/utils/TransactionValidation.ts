@@ -0,0 +1,798 @@
+/**
+ * Transaction Validation Utilities
+ *
+ * Phase-1 validation of a transaction against the Conway ledger rules, given the
+ * UTxOs it spends, references and puts up as collateral. Like the ledger's phase-1
+ * checks, no Plutus script is executed: native scripts are evaluated, while Plutus
+ * scripts are only checked for their witnesses, redeemers and datums.
+ *
+ * Every broken rule is reported as a structured failure, so callers can reject a
+ * transaction before submitting it and tell why.
+ *
+ * @since 2.0.0
+ * @category validation
+ */
+
+import { Data } from "effect"
+
+import * as AddressEras from "../core/AddressEras.js"
+import * as AssetName from "../core/AssetName.js"
+import * as Bytes from "../core/Bytes.js"
+import type * as Certificate from "../core/Certificate.js"
+import * as Credential from "../core/Credential.js"
+import * as KeyHash from "../core/KeyHash.js"
+import * as NativeScripts from "../core/NativeScripts.js"
+import * as PolicyId from "../core/PolicyId.js"
+import type * as CoreScript from "../core/Script.js"
+import * as ScriptHash from "../core/ScriptHash.js"
+import type * as Transaction from "../core/Transaction.js"
+import * as TransactionHash from "../core/TransactionHash.js"
+import type * as TransactionInput from "../core/TransactionInput.js"
+import * as TransactionOutput from "../core/TransactionOutput.js"
+import * as Value from "../core/Value.js"
+import * as VKey from "../core/VKey.js"
+import * as Assets from "../sdk/Assets.js"
+import {
+  calculateExecutionFee,
+  calculateReferenceScriptFee,
+  calculateRequiredCollateral,
+  certificateCredential,
+  compareCredentials,
+  proposalPolicyHash,
+  VOTER_ORDER,
+  voterCredential
+} from "../sdk/builders/TxBuilderImpl.js"
+import type * as ProtocolParameters from "../sdk/ProtocolParameters.js"
+import * as Script from "../sdk/Script.js"
+import type * as UTxO from "../sdk/UTxO.js"
+import * as FeeValidation from "./FeeValidation.js"
+import { computeTotalExUnits, hashPlutusData, hashTransaction } from "./Hash.js"
+
+/**
+ * Protocol parameters used by phase-1 validation, as returned by providers.
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export type ValidationProtocolParams = Pick<
+  ProtocolParameters.ProtocolParameters,
+  | "minFeeA"
+  | "minFeeB"
+  | "maxTxSize"
+  | "maxValSize"
+  | "keyDeposit"
+  | "poolDeposit"
+  | "coinsPerUtxoByte"
+  | "collateralPercentage"
+  | "maxCollateralInputs"
+  | "priceMem"
+  | "priceStep"
+  | "maxTxExMem"
+  | "maxTxExSteps"
+  | "minFeeRefScriptCostPerByte"
+>
+
+/**
+ * Chain context the transaction is validated against.
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export interface ValidationOptions {
+  /**
+   * Network id of the target chain (0 testnets, 1 mainnet). When omitted the
+   * body's network id, if any, is used; without either, addresses are not checked.
+   */
+  readonly networkId?: number
+
+  /**
+   * Current slot of the target chain. When omitted only the consistency of the
+   * validity interval is checked.
+   */
+  readonly currentSlot?: bigint
+}
+
+/**
+ * A broken phase-1 rule. Tags follow the ledger's predicate failures; hashes are hex
+ * and inputs are written as `txHash#index`.
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export type ValidationFailure =
+  | { readonly _tag: "InputSetEmpty"; readonly message: string }
+  | { readonly _tag: "BadInputs"; readonly message: string; readonly inputs: ReadonlyArray<string> }
+  | {
+      readonly _tag: "ValueNotConserved"
+      readonly message: string
+      readonly consumed: Assets.Assets
+      readonly produced: Assets.Assets
+    }
+  | { readonly _tag: "FeeTooSmall"; readonly message: string; readonly fee: bigint; readonly minFee: bigint }
+  | { readonly _tag: "MaxTxSizeExceeded"; readonly message: string; readonly size: number; readonly maxSize: number }
+  | {
+      readonly _tag: "ExUnitsTooBig"
+      readonly message: string
+      readonly mem: bigint
+      readonly steps: bigint
+      readonly maxMem: bigint
+      readonly maxSteps: bigint
+    }
+  | {
+      readonly _tag: "OutputTooSmall"
+      readonly message: string
+      readonly output: string
+      readonly coin: bigint
+      readonly minCoin: bigint
+    }
+  | {
+      readonly _tag: "OutputValueTooBig"
+      readonly message: string
+      readonly output: string
+      readonly size: number
+      readonly maxSize: number
+    }
+  | {
+      readonly _tag: "OutsideValidityInterval"
+      readonly message: string
+      readonly validityIntervalStart?: bigint
+      readonly ttl?: bigint
+      readonly currentSlot?: bigint
+    }
+  | {
+      readonly _tag: "WrongNetwork"
+      readonly message: string
+      readonly location: string
+      readonly expected: number
+      readonly actual: number
+    }
+  | { readonly _tag: "NoCollateralInputs"; readonly message: string }
+  | { readonly _tag: "TooManyCollateralInputs"; readonly message: string; readonly count: number; readonly max: number }
+  | { readonly _tag: "ScriptLockedCollateral"; readonly message: string; readonly inputs: ReadonlyArray<string> }
+  | { readonly _tag: "CollateralContainsNonAda"; readonly message: string; readonly balance: Assets.Assets }
+  | {
+      readonly _tag: "InsufficientCollateral"
+      readonly message: string
+      readonly balance: bigint
+      readonly required: bigint
+    }
+  | {
+      readonly _tag: "IncorrectTotalCollateral"
+      readonly message: string
+      readonly balance: bigint
+      readonly declared: bigint
+    }
+  | { readonly _tag: "MissingVKeyWitnesses"; readonly message: string; readonly keyHashes: ReadonlyArray<string> }
+  | { readonly _tag: "InvalidWitnesses"; readonly message: string; readonly vkeys: ReadonlyArray<string> }
+  | { readonly _tag: "MissingScriptWitnesses"; readonly message: string; readonly scriptHashes: ReadonlyArray<string> }
+  | {
+      readonly _tag: "ScriptWitnessNotValidating"
+      readonly message: string
+      readonly scriptHashes: ReadonlyArray<string>
+    }
+  | { readonly _tag: "MissingRedeemers"; readonly message: string; readonly purposes: ReadonlyArray<string> }
+  | { readonly _tag: "MissingRequiredDatums"; readonly message: string; readonly datumHashes: ReadonlyArray<string> }
+
+/**
+ * Result of phase-1 transaction validation.
+ *
+ * @since 2.0.0
+ * @category model
+ */
+export interface TransactionValidationResult {
+  /**
+   * Whether the transaction passes every phase-1 rule
+   */
+  readonly isValid: boolean
+
+  /**
+   * Every broken rule, in the order the rules are checked
+   */
+  readonly failures: ReadonlyArray<ValidationFailure>
+}
+
+/**
+ * Error raised by {@link assertValidTransaction} with the broken rules.
+ *
+ * @since 2.0.0
+ * @category errors
+ */
+export class TransactionValidationError extends Data.TaggedError("TransactionValidationError")<{
+  readonly message?: string
+  readonly failures: ReadonlyArray<ValidationFailure>
+}> {}
+
+// Constant overhead of a ledger UTxO entry counted by the minimum coin rule (CIP-55)
+const UTXO_ENTRY_OVERHEAD = 160n
+
+interface ValidationContext {
+  readonly transaction: Transaction.Transaction
+  readonly protocolParams: ValidationProtocolParams
+  readonly spent: ReadonlyArray<UTxO.UTxO>
+  readonly referenced: ReadonlyArray<UTxO.UTxO>
+  readonly collateral: ReadonlyArray<UTxO.UTxO>
+}
+
+const outRef = (input: TransactionInput.TransactionInput): string =>
+  `${TransactionHash.toHex(input.transactionId)}#${input.index}`
+
+const compareInputs = (a: TransactionInput.TransactionInput, b: TransactionInput.TransactionInput): number => {
+  const left = TransactionHash.toHex(a.transactionId)
+  const right = TransactionHash.toHex(b.transactionId)
+  return left < right ? -1 : left > right ? 1 : Number(a.index - b.index)
+}
+
+const paymentCredential = (address: AddressEras.AddressEras): Credential.CredentialSchema | undefined =>
+  address._tag === "RewardAccount" || address._tag === "ByronAddress" ? undefined : address.paymentCredential
+
+const utxoPaymentCredential = (utxo: UTxO.UTxO): Credential.CredentialSchema | undefined =>
+  paymentCredential(AddressEras.fromString(utxo.address))
+
+const mintAssets = (transaction: Transaction.Transaction): Assets.Assets => {
+  const assets: Assets.Assets = { lovelace: 0n }
+  for (const [policyId, tokens] of transaction.body.mint ?? []) {
+    for (const [assetName, amount] of tokens) {
+      assets[PolicyId.toHex(policyId) + AssetName.toHex(assetName)] = amount
+    }
+  }
+  return assets
+}
+
+/**
+ * Deposit taken and refund paid out by a certificate. Pool registrations are
+ * charged the pool deposit, as for a pool that is not registered yet.
+ */
+const certificateBalance = (
+  certificate: Certificate.Certificate,
+  protocolParams: ValidationProtocolParams
+): { readonly deposit: bigint; readonly refund: bigint } => {
+  switch (certificate._tag) {
+    case "StakeRegistration":
+      return { deposit: protocolParams.keyDeposit, refund: 0n }
+    case "StakeDeregistration":
+      return { deposit: 0n, refund: protocolParams.keyDeposit }
+    case "PoolRegistration":
+      return { deposit: protocolParams.poolDeposit, refund: 0n }
+    case "RegCert":
+    case "StakeRegDelegCert":
+    case "VoteRegDelegCert":
+    case "StakeVoteRegDelegCert":
+    case "RegDrepCert":
+      return { deposit: certificate.coin, refund: 0n }
+    case "UnregCert":
+    case "UnregDrepCert":
+      return { deposit: 0n, refund: certificate.coin }
+    default:
+      return { deposit: 0n, refund: 0n }
+  }
+}
+
+const coreScriptSize = (script: CoreScript.Script): number =>
+  script._tag === "NativeScript" ? NativeScripts.toCBORBytes(script).length : script.bytes.length
+
+const checkInputs = (ctx: ValidationContext, missing: ReadonlyArray<string>): Array<ValidationFailure> => {
+  const failures: Array<ValidationFailure> = []
+  if (ctx.transaction.body.inputs.length === 0) {
+    failures.push({ _tag: "InputSetEmpty", message: "Transaction spends no inputs" })
+  }
+  if (missing.length > 0) {
+    failures.push({
+      _tag: "BadInputs",
+      message: `Inputs not found among the given UTxOs: ${missing.join(", ")}`,
+      inputs: missing
+    })
+  }
+  return failures
+}
+
+const checkFeeAndLimits = (ctx: ValidationContext): Array<ValidationFailure> => {
+  const failures: Array<ValidationFailure> = []
+  const { protocolParams, transaction } = ctx
+
+  const { minRequiredFee, txSizeBytes } = FeeValidation.validateTransactionFee(transaction, {
+    minFeeCoefficient: BigInt(protocolParams.minFeeA),
+    minFeeConstant: BigInt(protocolParams.minFeeB)
+  })
+  if (txSizeBytes > protocolParams.maxTxSize) {
+    failures.push({
+      _tag: "MaxTxSizeExceeded",
+      message: `Transaction size ${txSizeBytes} bytes exceeds the maximum of ${protocolParams.maxTxSize}`,
+      size: txSizeBytes,
+      maxSize: protocolParams.maxTxSize
+    })
+  }
+
+  const [mem, steps] = computeTotalExUnits(transaction.witnessSet.redeemers ?? [])
+  if (mem > protocolParams.maxTxExMem || steps > protocolParams.maxTxExSteps) {
+    failures.push({
+      _tag: "ExUnitsTooBig",
+      message: `Execution units (mem ${mem}, steps ${steps}) exceed the transaction limits (mem ${protocolParams.maxTxExMem}, steps ${protocolParams.maxTxExSteps})`,
+      mem,
+      steps,
+      maxMem: protocolParams.maxTxExMem,
+      maxSteps: protocolParams.maxTxExSteps
+    })
+  }
+
+  const referenceScriptsSize = [...ctx.spent, ...ctx.referenced]
+    .filter((utxo) => utxo.scriptRef !== undefined)
+    .reduce((size, utxo) => size + coreScriptSize(Script.toCoreScript(utxo.scriptRef!)), 0)
+  const minFee =
+    minRequiredFee +
+    calculateExecutionFee({ mem, steps }, protocolParams) +
+    calculateReferenceScriptFee(referenceScriptsSize, protocolParams.minFeeRefScriptCostPerByte)
+  if (transaction.body.fee < minFee) {
+    failures.push({
+      _tag: "FeeTooSmall",
+      message: `Fee ${transaction.body.fee} is below the minimum of ${minFee} lovelace`,
+      fee: transaction.body.fee,
+      minFee
+    })
+  }
+  return failures
+}
+
+const checkValuePreservation = (ctx: ValidationContext): Array<ValidationFailure> => {
+  const { body } = ctx.transaction
+  let deposits = 0n
+  let refunds = 0n
+  for (const certificate of body.certificates ?? []) {
+    const { deposit, refund } = certificateBalance(certificate, ctx.protocolParams)
+    deposits += deposit
+    refunds += refund
+  }
+  for (const proposal of body.proposalProcedures?.procedures ?? []) {
+    deposits += proposal.deposit
+  }
+  let withdrawn = 0n
+  for (const amount of body.withdrawals?.withdrawals.values() ?? []) {
+    withdrawn += amount
+  }
+
+  const mint = mintAssets(ctx.transaction)
+  const consumed = Assets.merge(
+    ...ctx.spent.map((utxo) => utxo.assets),
+    Assets.filter(mint, (_, amount) => amount > 0n),
+    Assets.fromLovelace(withdrawn + refunds)
+  )
+  const produced = Assets.merge(
+    ...body.outputs.map((output) => Assets.valueToAssets(output.amount)),
+    Assets.negate(Assets.filter(mint, (_, amount) => amount < 0n)),
+    Assets.fromLovelace(body.fee + deposits + (body.donation ?? 0n))
+  )
+
+  const difference = Assets.subtract(consumed, produced)
+  if (difference.lovelace === 0n && Assets.getUnits(difference).length === 1) return []
+  return [
+    {
+      _tag: "ValueNotConserved",
+      message: `Consumed value does not equal produced value (consumed - produced: ${Assets.getUnits(difference)
+        .map((unit) => `${Assets.getAsset(difference, unit)} ${unit}`)
+        .join(", ")})`,
+      consumed,
+      produced
+    }
+  ]
+}
+
+const checkOutputs = (ctx: ValidationContext): Array<ValidationFailure> => {
+  const failures: Array<ValidationFailure> = []
+  const { body } = ctx.transaction
+  const outputs: Array<[string, TransactionOutput.TransactionOutput]> = body.outputs.map((output, index) => [
+    `outputs[${index}]`,
+    output
+  ])
+  if (body.collateralReturn) outputs.push(["collateralReturn", body.collateralReturn])
+
+  for (const [location, output] of outputs) {
+    const coin = Value.getAda(output.amount)
+    const minCoin =
+      (UTXO_ENTRY_OVERHEAD + BigInt(TransactionOutput.toCBORBytes(output).length)) *
+      ctx.protocolParams.coinsPerUtxoByte
+    if (coin < minCoin) {
+      failures.push({
+        _tag: "OutputTooSmall",
+        message: `${location} holds ${coin} lovelace, below the minimum of ${minCoin}`,
+        output: location,
+        coin,
+        minCoin
+      })
+    }
+    const valueSize = Value.toCBORBytes(output.amount).length
+    if (valueSize > ctx.protocolParams.maxValSize) {
+      failures.push({
+        _tag: "OutputValueTooBig",
+        message: `${location} value is ${valueSize} bytes, above the maximum of ${ctx.protocolParams.maxValSize}`,
+        output: location,
+        size: valueSize,
+        maxSize: ctx.protocolParams.maxValSize
+      })
+    }
+  }
+  return failures
+}
+
+const checkValidityInterval = (ctx: ValidationContext, currentSlot: bigint | undefined): Array<ValidationFailure> => {
+  const { ttl, validityIntervalStart } = ctx.transaction.body
+  const empty = validityIntervalStart !== undefined && ttl !== undefined && validityIntervalStart >= ttl
+  const outside =
+    currentSlot !== undefined &&
+    ((validityIntervalStart !== undefined && currentSlot < validityIntervalStart) ||
+      (ttl !== undefined && currentSlot >= ttl))
+  if (!empty && !outside) return []
+  return [
+    {
+      _tag: "OutsideValidityInterval",
+      message: empty
+        ? `Validity interval [${validityIntervalStart}, ${ttl}) is empty`
+        : `Current slot ${currentSlot} is outside the validity interval [${validityIntervalStart ?? "-∞"}, ${ttl ?? "∞"})`,
+      validityIntervalStart,
+      ttl,
+      currentSlot
+    }
+  ]
+}
+
+const checkNetwork = (ctx: ValidationContext, networkId: number | undefined): Array<ValidationFailure> => {
+  const failures: Array<ValidationFailure> = []
+  const { body } = ctx.transaction
+  const expected = networkId ?? body.networkId
+  if (expected === undefined) return failures
+
+  const check = (location: string, actual: number) => {
+    if (actual !== expected) {
+      failures.push({
+        _tag: "WrongNetwork",
+        message: `${location} is on network ${actual}, expected ${expected}`,
+        location,
+        expected,
+        actual
+      })
+    }
+  }
+
+  if (body.networkId !== undefined) check("networkId", body.networkId)
+  const outputs: Array<[string, TransactionOutput.TransactionOutput]> = body.outputs.map((output, index) => [
+    `outputs[${index}]`,
+    output
+  ])
+  if (body.collateralReturn) outputs.push(["collateralReturn", body.collateralReturn])
+  for (const [location, output] of outputs) {
+    // Byron addresses carry a protocol magic rather than a network id
+    if (output.address._tag !== "ByronAddress") check(location, output.address.networkId)
+  }
+  for (const rewardAccount of body.withdrawals?.withdrawals.keys() ?? []) {
+    check("withdrawals", rewardAccount.networkId)
+  }
+  return failures
+}
+
+const checkCollateral = (ctx: ValidationContext): Array<ValidationFailure> => {
+  const { body, witnessSet } = ctx.transaction
+  if ((witnessSet.redeemers ?? []).length === 0) return []
+
+  const { collateralPercentage, maxCollateralInputs } = ctx.protocolParams
+  const inputs = body.collateralInputs ?? []
+  if (inputs.length === 0) {
+    return [{ _tag: "NoCollateralInputs", message: "Transaction runs Plutus scripts but has no collateral inputs" }]
+  }
+
+  const failures: Array<ValidationFailure> = []
+  if (inputs.length > maxCollateralInputs) {
+    failures.push({
+      _tag: "TooManyCollateralInputs",
+      message: `${inputs.length} collateral inputs exceed the maximum of ${maxCollateralInputs}`,
+      count: inputs.length,
+      max: maxCollateralInputs
+    })
+  }
+
+  const scriptLocked = ctx.collateral
+    .filter((utxo) => utxoPaymentCredential(utxo)?._tag === "ScriptHash")
+    .map((utxo) => `${utxo.txHash}#${utxo.outputIndex}`)
+  if (scriptLocked.length > 0) {
+    failures.push({
+      _tag: "ScriptLockedCollateral",
+      message: `Collateral inputs locked by scripts: ${scriptLocked.join(", ")}`,
+      inputs: scriptLocked
+    })
+  }
+
+  const balance = Assets.subtract(
+    Assets.merge(...ctx.collateral.map((utxo) => utxo.assets)),
+    body.collateralReturn ? Assets.valueToAssets(body.collateralReturn.amount) : Assets.empty()
+  )
+  if (Assets.getUnits(balance).length > 1) {
+    failures.push({
+      _tag: "CollateralContainsNonAda",
+      message: "Collateral balance holds native assets not sent to the collateral return",
+      balance
+    })
+  }
+
+  const required = calculateRequiredCollateral(body.fee, collateralPercentage)
+  if (balance.lovelace < required) {
+    failures.push({
+      _tag: "InsufficientCollateral",
+      message: `Collateral balance ${balance.lovelace} is below the required ${required} lovelace`,
+      balance: balance.lovelace,
+      required
+    })
+  }
+  if (body.totalCollateral !== undefined && body.totalCollateral !== balance.lovelace) {
+    failures.push({
+      _tag: "IncorrectTotalCollateral",
+      message: `Declared total collateral ${body.totalCollateral} differs from the collateral balance ${balance.lovelace}`,
+      balance: balance.lovelace,
+      declared: body.totalCollateral
+    })
+  }
+  return failures
+}
+
+/**
+ * Check key and script witnesses, redeemers and datums. Script purposes are indexed as
+ * redeemer pointers: sorted inputs, sorted policies, certificates and proposals in body
+ * order, withdrawals and voters in ledger order.
+ */
+const checkWitnesses = (ctx: ValidationContext): Array<ValidationFailure> => {
+  const failures: Array<ValidationFailure> = []
+  const { body, witnessSet } = ctx.transaction
+  const txHash = hashTransaction(body).hash
+
+  // Key witnesses provided, with their signatures checked against the body hash
+  const signers: Array<Uint8Array> = []
+  const invalid: Array<string> = []
+  for (const witness of witnessSet.vkeyWitnesses ?? []) {
+    if (VKey.verify(witness.vkey, txHash, witness.signature.bytes)) {
+      signers.push(KeyHash.fromVKey(witness.vkey).hash)
+    } else {
+      invalid.push(VKey.toHex(witness.vkey))
+    }
+  }
+  for (const witness of witnessSet.bootstrapWitnesses ?? []) {
+    if (!VKey.verify(witness.publicKey, txHash, witness.signature.bytes)) invalid.push(VKey.toHex(witness.publicKey))
+  }
+  if (invalid.length > 0) {
+    failures.push({
+      _tag: "InvalidWitnesses",
+      message: `Signatures do not verify for keys: ${invalid.join(", ")}`,
+      vkeys: invalid
+    })
+  }
+
+  // Scripts provided by the witness set and by reference scripts of spent and referenced UTxOs
+  const scripts = new Map<string, CoreScript.Script>()
+  const provide = (script: CoreScript.Script) => scripts.set(ScriptHash.toHex(ScriptHash.fromScript(script)), script)
+  const witnessScripts = [
+    ...(witnessSet.nativeScripts ?? []),
+    ...(witnessSet.plutusV1Scripts ?? []),
+    ...(witnessSet.plutusV2Scripts ?? []),
+    ...(witnessSet.plutusV3Scripts ?? [])
+  ]
+  witnessScripts.forEach(provide)
+  for (const utxo of [...ctx.spent, ...ctx.referenced]) {
+    if (utxo.scriptRef) provide(Script.toCoreScript(utxo.scriptRef))
+  }
+
+  // Credentials that must witness the transaction, with the redeemer pointer of each script purpose
+  const requiredKeys = new Set<string>()
+  const requiredScripts = new Map<string, Array<string>>()
+  const require = (credential: Credential.CredentialSchema | undefined, purpose: string) => {
+    if (credential === undefined) return
+    const hash = Bytes.toHex(credential.hash)
+    if (credential._tag === "KeyHash") {
+      requiredKeys.add(hash)
+    } else {
+      requiredScripts.set(hash, [...(requiredScripts.get(hash) ?? []), purpose])
+    }
+  }
+
+  const spentByRef = new Map(ctx.spent.map((utxo) => [`${utxo.txHash}#${utxo.outputIndex}`, utxo]))
+  const requiredDatums = new Map<string, string>()
+  const sortedInputs = [...body.inputs].sort(compareInputs)
+  sortedInputs.forEach((input, index) => {
+    const utxo = spentByRef.get(outRef(input))
+    if (utxo === undefined) return
+    const credential = utxoPaymentCredential(utxo)
+    require(credential, `spend:${index}`)
+    if (credential?._tag === "ScriptHash" && utxo.datumOption?.type === "datumHash") {
+      requiredDatums.set(utxo.datumOption.hash, Bytes.toHex(credential.hash))
+    }
+  })
+  // Script-locked collateral is reported by the collateral rules
+  for (const utxo of ctx.collateral) {
+    const credential = utxoPaymentCredential(utxo)
+    if (credential?._tag === "KeyHash") requiredKeys.add(Bytes.toHex(credential.hash))
+  }
+  for (const signer of body.requiredSigners ?? []) requiredKeys.add(KeyHash.toHex(signer))
+
+  const policies = Array.from(body.mint?.keys() ?? [], (policyId) => PolicyId.toHex(policyId)).sort()
+  policies.forEach((policy, index) => require(Credential.makeScriptHash(Bytes.fromHex(policy)), `mint:${index}`))
+
+  const certificates = body.certificates ?? []
+  certificates.forEach((certificate, index) => {
+    require(certificateCredential(certificate), `cert:${index}`)
+    switch (certificate._tag) {
+      case "PoolRegistration":
+        requiredKeys.add(Bytes.toHex(certificate.poolParams.operator.hash))
+        certificate.poolParams.poolOwners.forEach((owner) => requiredKeys.add(KeyHash.toHex(owner)))
+        break
+      case "PoolRetirement":
+        requiredKeys.add(Bytes.toHex(certificate.poolKeyHash.hash))
+        break
+      case "AuthCommitteeHotCert":
+      case "ResignCommitteeColdCert":
+        require(certificate.committeeColdCredential, `cert:${index}`)
+        break
+    }
+  })
+
+  Array.from(body.withdrawals?.withdrawals.keys() ?? [])
+    .sort((a, b) => a.networkId - b.networkId || compareCredentials(a.stakeCredential, b.stakeCredential))
+    .forEach((rewardAccount, index) => require(rewardAccount.stakeCredential, `reward:${index}`))
+
+  Array.from(body.votingProcedures?.procedures.keys() ?? [])
+    .flatMap((voter) => {
+      const credential = voterCredential(voter)
+      return credential ? [{ voter, credential }] : []
+    })
+    .sort(
+      (a, b) => VOTER_ORDER[a.voter._tag] - VOTER_ORDER[b.voter._tag] || compareCredentials(a.credential, b.credential)
+    )
+    .forEach(({ credential }, index) => require(credential, `vote:${index}`))
+
+  const proposals = body.proposalProcedures?.procedures ?? []
+  proposals.forEach((proposal, index) => {
+    const policyHash = proposalPolicyHash(proposal.governanceAction)
+    if (policyHash) require(Credential.makeScriptHash(policyHash.hash), `propose:${index}`)
+  })
+
+  const signerHashes = new Set(signers.map(Bytes.toHex))
+  const missingKeys = Array.from(requiredKeys).filter((hash) => !signerHashes.has(hash))
+  if (missingKeys.length > 0) {
+    failures.push({
+      _tag: "MissingVKeyWitnesses",
+      message: `Missing signatures from key hashes: ${missingKeys.join(", ")}`,
+      keyHashes: missingKeys
+    })
+  }
+
+  const missingScripts: Array<string> = []
+  const failingScripts: Array<string> = []
+  const missingRedeemers: Array<string> = []
+  const redeemers = new Set((witnessSet.redeemers ?? []).map((redeemer) => `${redeemer.tag}:${redeemer.index}`))
+  for (const [hash, purposes] of requiredScripts) {
+    const script = scripts.get(hash)
+    if (script === undefined) {
+      missingScripts.push(hash)
+    } else if (script._tag === "NativeScript") {
+      const satisfied = NativeScripts.isSatisfied(script.script, {
+        signers,
+        validityIntervalStart: body.validityIntervalStart,
+        ttl: body.ttl
+      })
+      if (!satisfied) failingScripts.push(hash)
+    } else {
+      missingRedeemers.push(...purposes.filter((purpose) => !redeemers.has(purpose)))
+    }
+  }
+  if (missingScripts.length > 0) {
+    failures.push({
+      _tag: "MissingScriptWitnesses",
+      message: `Missing scripts for script hashes: ${missingScripts.join(", ")}`,
+      scriptHashes: missingScripts
+    })
+  }
+  if (failingScripts.length > 0) {
+    failures.push({
+      _tag: "ScriptWitnessNotValidating",
+      message: `Native scripts not satisfied by the signatures and validity interval: ${failingScripts.join(", ")}`,
+      scriptHashes: failingScripts
+    })
+  }
+  if (missingRedeemers.length > 0) {
+    failures.push({
+      _tag: "MissingRedeemers",
+      message: `Missing redeemers for Plutus script purposes: ${missingRedeemers.join(", ")}`,
+      purposes: missingRedeemers
+    })
+  }
+
+  const witnessedDatums = new Set((witnessSet.plutusData ?? []).map((datum) => Bytes.toHex(hashPlutusData(datum).hash)))
+  const missingDatums = Array.from(requiredDatums)
+    .filter(([datumHash, scriptHash]) => scripts.get(scriptHash)?._tag !== "NativeScript" && !witnessedDatums.has(datumHash))
+    .map(([datumHash]) => datumHash)
+  if (missingDatums.length > 0) {
+    failures.push({
+      _tag: "MissingRequiredDatums",
+      message: `Missing datums for datum hashes: ${missingDatums.join(", ")}`,
+      datumHashes: missingDatums
+    })
+  }
+  return failures
+}
+
+/**
+ * Validate a transaction against the Conway phase-1 ledger rules:
+ *
+ * - every spent, reference and collateral input is among `utxos`, and some input is spent
+ * - value is preserved: inputs, withdrawals, refunds and minted tokens equal outputs,
+ *   fee, deposits, donation and burned tokens
+ * - the fee covers the size, execution units and reference scripts, and the
+ *   size and execution units stay within the limits
+ * - every output holds the minimum coin and a value no larger than `maxValSize`
+ * - the validity interval is not empty and, with `currentSlot`, contains it
+ * - output, withdrawal and body network ids match the network
+ * - collateral of Plutus transactions is key-locked, pure ADA, within the input limit
+ *   and covers the collateral percentage of the fee, matching `totalCollateral`
+ * - every required key signs with a valid signature, every script is provided,
+ *   native scripts are satisfied, and Plutus purposes have redeemers and datums
+ *
+ * Transactions marked invalid (`isValid: false`) forfeit their collateral instead
+ * of applying their body, so value preservation is not checked for them.
+ * Byron inputs require bootstrap witnesses, which are not matched to their addresses.
+ *
+ * @since 2.0.0
+ * @category validation
+ */
+export const validateTransaction = (
+  transaction: Transaction.Transaction,
+  utxos: ReadonlyArray<UTxO.UTxO>,
+  protocolParams: ValidationProtocolParams,
+  options: ValidationOptions = {}
+): TransactionValidationResult => {
+  const { body } = transaction
+  const byRef = new Map(utxos.map((utxo) => [`${utxo.txHash}#${utxo.outputIndex}`, utxo]))
+  const missing: Array<string> = []
+  const resolve = (inputs: ReadonlyArray<TransactionInput.TransactionInput> | undefined): Array<UTxO.UTxO> =>
+    (inputs ?? []).flatMap((input) => {
+      const utxo = byRef.get(outRef(input))
+      if (utxo === undefined) missing.push(outRef(input))
+      return utxo ? [utxo] : []
+    })
+
+  const ctx: ValidationContext = {
+    transaction,
+    protocolParams,
+    spent: resolve(body.inputs),
+    referenced: resolve(body.referenceInputs),
+    collateral: resolve(body.collateralInputs)
+  }
+
+  const failures = [
+    ...checkInputs(ctx, missing),
+    ...checkFeeAndLimits(ctx),
+    ...(transaction.isValid && missing.length === 0 ? checkValuePreservation(ctx) : []),
+    ...checkOutputs(ctx),
+    ...checkValidityInterval(ctx, options.currentSlot),
+    ...checkNetwork(ctx, options.networkId),
+    ...checkCollateral(ctx),
+    ...checkWitnesses(ctx)
+  ]
+
+  return { isValid: failures.length === 0, failures }
+}
+
+/**
+ * Assert that a transaction passes phase-1 validation, throwing a
+ * {@link TransactionValidationError} with every broken rule if not.
+ *
+ * @since 2.0.0
+ * @category validation
+ */
+export const assertValidTransaction = (
+  transaction: Transaction.Transaction,
+  utxos: ReadonlyArray<UTxO.UTxO>,
+  protocolParams: ValidationProtocolParams,
+  options?: ValidationOptions
+): void => {
+  const { failures, isValid } = validateTransaction(transaction, utxos, protocolParams, options)
+
+  if (!isValid) {
+    throw new TransactionValidationError({
+      message: `Transaction fails phase-1 validation: ${failures.map((failure) => failure.message).join("; ")}`,
+      failures
+    })
+  }
+}
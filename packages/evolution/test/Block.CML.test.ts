@@ -0,0 +1,86 @@
+import * as CML from "@dcspark/cardano-multiplatform-lib-nodejs"
+import { FastCheck } from "effect"
+import { describe, expect, it } from "vitest"
+
+import * as AuxiliaryData from "../src/core/AuxiliaryData.js"
+import * as Block from "../src/core/Block.js"
+import * as Bytes from "../src/core/Bytes.js"
+import * as CBOR from "../src/core/CBOR.js"
+import * as Header from "../src/core/Header.js"
+import * as HeaderBody from "../src/core/HeaderBody.js"
+import * as KesSignature from "../src/core/KesSignature.js"
+import * as Transaction from "../src/core/Transaction.js"
+import * as TransactionBody from "../src/core/TransactionBody.js"
+import * as TransactionHash from "../src/core/TransactionHash.js"
+import * as TransactionWitnessSet from "../src/core/TransactionWitnessSet.js"
+
+const [headerBody] = FastCheck.sample(HeaderBody.arbitrary, { numRuns: 1, seed: 1 })
+const [bodySignature] = FastCheck.sample(KesSignature.arbitrary, { numRuns: 1, seed: 1 })
+const txs = FastCheck.sample(Transaction.arbitrary, { numRuns: 3, seed: 42 })
+
+// Same body as an indefinite-length map: valid on chain, but not what re-encoding produces
+const indefiniteMap = (bytes: Uint8Array) =>
+  new Uint8Array([0xbf, ...CBOR.containerItemBytes(bytes).items.flatMap((item) => [...item]), 0xff])
+
+const bodies = txs.map((tx, i) =>
+  i === 0 ? indefiniteMap(TransactionBody.toCBORBytes(tx.body)) : TransactionBody.toCBORBytes(tx.body)
+)
+const auxiliaryData = AuxiliaryData.toCBORBytes(AuxiliaryData.emptyConwayAuxiliaryData())
+const blockBytes = CBOR.encodeArrayAsDefinite([
+  Header.toCBORBytes(new Header.Header({ headerBody, bodySignature })),
+  CBOR.encodeArrayAsDefinite(bodies),
+  CBOR.encodeArrayAsIndefinite(txs.map((tx) => TransactionWitnessSet.toCBORBytes(tx.witnessSet))),
+  CBOR.encodeMapAsDefinite([[CBOR.toCBORBytes(1n), auxiliaryData]]),
+  CBOR.encodeArrayAsDefinite([CBOR.toCBORBytes(2n)])
+])
+
+describe("Block CML Compatibility", () => {
+  it("round-trips block bytes exactly", () => {
+    const cmlBlock = CML.Block.from_cbor_bytes(blockBytes)
+    expect(cmlBlock.to_cbor_hex()).toBe(Bytes.toHex(blockBytes))
+
+    const block = Block.fromCBORBytes(blockBytes)
+
+    expect(block.transactionBodies).toHaveLength(3)
+    expect(block.transactionWitnessSets).toHaveLength(3)
+    expect(Block.toCBORHex(block)).toBe(Bytes.toHex(blockBytes))
+  })
+
+  it("rebuilds transactions with their on-chain hashes", () => {
+    const cmlBodies = CML.Block.from_cbor_bytes(blockBytes).transaction_bodies()
+    const block = Block.fromCBORBytes(blockBytes)
+
+    const transactions = Block.transactions(block)
+
+    expect(transactions.map(({ hash }) => TransactionHash.toHex(hash))).toEqual(
+      [0, 1, 2].map((i) => CML.hash_transaction(cmlBodies.get(i)).to_hex())
+    )
+    expect(transactions.map(({ transaction }) => transaction.isValid)).toEqual([true, true, false])
+    expect(transactions.map(({ transaction }) => transaction.auxiliaryData !== null)).toEqual([false, true, false])
+    expect(TransactionWitnessSet.toCBORHex(transactions[2].transaction.witnessSet)).toBe(
+      TransactionWitnessSet.toCBORHex(txs[2].witnessSet)
+    )
+    // Re-encoding the indefinite body would change its hash
+    expect(Bytes.toHex(TransactionBody.toCBORBytes(block.transactionBodies[0]))).not.toBe(Bytes.toHex(bodies[0]))
+  })
+
+  it("keeps the original body bytes when other parts change", () => {
+    const block = Block.fromCBORBytes(blockBytes)
+    const modified = new Block.BlockClass({ ...block, invalidTransactions: [] })
+
+    const cmlBlock = CML.Block.from_cbor_bytes(Block.toCBORBytes(modified))
+
+    expect(cmlBlock.invalid_transactions()).toHaveLength(0)
+    expect(Bytes.toHex(cmlBlock.transaction_bodies().get(0).to_cbor_bytes())).toBe(Bytes.toHex(bodies[0]))
+    expect(TransactionHash.toHex(Block.transactionHash(modified, 0))).toBe(
+      TransactionHash.toHex(Block.transactionHash(block, 0))
+    )
+  })
+
+  it("rejects blocks with mismatched witness sets", () => {
+    const items = CBOR.containerItemBytes(blockBytes).items
+    items[2] = CBOR.encodeArrayAsDefinite([])
+
+    expect(() => Block.fromCBORBytes(CBOR.encodeArrayAsDefinite(items))).toThrow(Block.BlockError)
+  })
+})
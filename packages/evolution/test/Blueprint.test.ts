@@ -0,0 +1,229 @@
+import { execFileSync } from "node:child_process"
+import { mkdirSync, rmSync, writeFileSync } from "node:fs"
+import { dirname, join } from "node:path"
+import { fileURLToPath } from "node:url"
+
+import { afterAll, beforeAll, describe, expect, it } from "@effect/vitest"
+import { blake2b } from "@noble/hashes/blake2"
+import ts from "typescript"
+
+import * as Bytes from "../src/core/Bytes.js"
+import * as Data from "../src/core/Data.js"
+import * as Blueprint from "../src/sdk/Blueprint.js"
+
+// Single CBOR-encoded compiled code, as blueprints carry it
+const COMPILED_CODE = "4d01000033222220051200120011"
+
+const V3_HASH = Bytes.toHex(blake2b(new Uint8Array([0x03, ...Bytes.fromHex(COMPILED_CODE)]), { dkLen: 28 }))
+
+const ref = (name: string) => ({ $ref: `#/definitions/${name.replaceAll("/", "~1")}` })
+
+const PLUTUS_JSON: Blueprint.PlutusBlueprint = {
+  preamble: { title: "acme/vesting", version: "0.0.0", plutusVersion: "v3" },
+  validators: [
+    {
+      title: "vesting.vesting.spend",
+      datum: { title: "datum", schema: ref("types/Datum") },
+      redeemer: { title: "redeemer", schema: ref("types/Action") },
+      parameters: [{ title: "owner", schema: ref("ByteArray") }],
+      compiledCode: COMPILED_CODE,
+      hash: V3_HASH
+    }
+  ],
+  definitions: {
+    ByteArray: { dataType: "bytes" },
+    Int: { dataType: "integer" },
+    Data: { title: "Data", description: "Any Plutus data." },
+    Bool: {
+      title: "Bool",
+      anyOf: [
+        { title: "False", dataType: "constructor", index: 0, fields: [] },
+        { title: "True", dataType: "constructor", index: 1, fields: [] }
+      ]
+    },
+    "Option$ByteArray": {
+      title: "Option",
+      anyOf: [
+        { title: "Some", dataType: "constructor", index: 0, fields: [ref("ByteArray")] },
+        { title: "None", dataType: "constructor", index: 1, fields: [] }
+      ]
+    },
+    "List$Int": { dataType: "list", items: ref("Int") },
+    "Pairs$ByteArray_Int": { title: "Pairs<ByteArray, Int>", dataType: "map", keys: ref("ByteArray"), values: ref("Int") },
+    "types/Datum": {
+      title: "Datum",
+      anyOf: [
+        {
+          title: "Datum",
+          dataType: "constructor",
+          index: 0,
+          fields: [
+            { title: "owner", ...ref("ByteArray") },
+            { title: "deadline", ...ref("Int") },
+            { title: "beneficiary", ...ref("Option$ByteArray") },
+            { title: "locked", ...ref("Bool") }
+          ]
+        }
+      ]
+    },
+    "types/Action": {
+      title: "Action",
+      anyOf: [
+        { title: "Cancel", dataType: "constructor", index: 0, fields: [] },
+        { title: "Claim", dataType: "constructor", index: 1, fields: [{ title: "amount", ...ref("Int") }] },
+        { title: "Update", dataType: "constructor", index: 2, fields: [ref("List$Int"), ref("Pairs$ByteArray_Int")] }
+      ]
+    },
+    "types/Tree": {
+      title: "Tree",
+      anyOf: [
+        { title: "Leaf", dataType: "constructor", index: 0, fields: [{ title: "value", ...ref("Int") }] },
+        {
+          title: "Node",
+          dataType: "constructor",
+          index: 1,
+          fields: [
+            { title: "left", ...ref("types/Tree") },
+            { title: "right", ...ref("types/Tree") }
+          ]
+        }
+      ]
+    }
+  }
+}
+
+const constr = (index: bigint, fields: Array<Data.Data>) => new Data.Constr({ index, fields })
+
+describe("Blueprint", () => {
+  const blueprint = Blueprint.fromJson(JSON.stringify(PLUTUS_JSON))
+  const validator = blueprint.validators["vesting.vesting.spend"]
+
+  it("loads validators with their script and hash", () => {
+    expect(validator.script).toEqual({ type: "PlutusV3", script: `4e${COMPILED_CODE}` })
+    expect(validator.hash).toBe(V3_HASH)
+    expect(validator.parameters.map(({ title }) => title)).toEqual(["owner"])
+    expect(validator.parameters[0].toData("abcd")).toEqual(Bytes.fromHex("abcd"))
+  })
+
+  it("encodes a single-constructor datum as its fields", () => {
+    const datum = { owner: "abcd", deadline: 1_000n, beneficiary: "ef", locked: true }
+
+    const data = validator.datum!.toData(datum)
+
+    expect(data).toEqual(
+      constr(0n, [Bytes.fromHex("abcd"), 1_000n, constr(0n, [Bytes.fromHex("ef")]), constr(1n, [])])
+    )
+    expect(validator.datum!.fromCBORHex(validator.datum!.toCBORHex(datum))).toEqual(datum)
+    expect(validator.datum!.toData({ ...datum, beneficiary: null })).toEqual(
+      constr(0n, [Bytes.fromHex("abcd"), 1_000n, constr(1n, []), constr(1n, [])])
+    )
+  })
+
+  it("encodes sum types by constructor index", () => {
+    const { redeemer } = validator
+    const update = { Update: { 0: [1n, 2n], 1: new Map([["ab", 3n]]) } }
+
+    expect(redeemer!.toData("Cancel")).toEqual(constr(0n, []))
+    expect(redeemer!.toData({ Claim: { amount: 5n } })).toEqual(constr(1n, [5n]))
+    expect(redeemer!.toData(update)).toEqual(constr(2n, [[1n, 2n], new Map([[Bytes.fromHex("ab"), 3n]])]))
+
+    expect(redeemer!.fromData(constr(1n, [5n]))).toEqual({ Claim: { amount: 5n } })
+    expect(redeemer!.fromData(redeemer!.toData(update))).toEqual(update)
+    expect(() => redeemer!.fromData(constr(3n, []))).toThrow()
+  })
+
+  it("derives recursive definitions", () => {
+    const tree = Blueprint.makeCodec(blueprint.definitions["types/Tree"])
+    const value = { Node: { left: { Leaf: { value: 1n } }, right: { Node: { left: { Leaf: { value: 2n } }, right: { Leaf: { value: 3n } } } } } }
+
+    expect(tree.toData({ Node: { left: { Leaf: { value: 1n } }, right: { Leaf: { value: 2n } } } })).toEqual(
+      constr(1n, [constr(0n, [1n]), constr(0n, [2n])])
+    )
+    expect(tree.fromCBORHex(tree.toCBORHex(value))).toEqual(value)
+  })
+
+  it("passes opaque data through", () => {
+    const data = Blueprint.makeCodec(blueprint.definitions["Data"])
+
+    expect(data.toData(constr(7n, [1n]))).toEqual(constr(7n, [1n]))
+  })
+
+  it("rejects blueprints whose hashes do not match the compiled code", () => {
+    const [spend] = PLUTUS_JSON.validators
+    const tampered = { ...PLUTUS_JSON, validators: [{ ...spend, hash: "00".repeat(28) }] }
+
+    expect(() => Blueprint.fromJson(tampered)).toThrow(/declares 0000/)
+    expect(() => Blueprint.toSchema(ref("Missing"))).toThrow(Blueprint.BlueprintError)
+  })
+})
+
+describe("Blueprint codegen", () => {
+  const packageDir = join(dirname(fileURLToPath(import.meta.url)), "..")
+  // Inside the package, so the generated imports of @evolution-sdk/evolution resolve to its sources
+  const outDir = join(packageDir, "temp", "codegen")
+  const output = join(outDir, "plutus.ts")
+
+  beforeAll(() => {
+    mkdirSync(outDir, { recursive: true })
+    writeFileSync(join(outDir, "plutus.json"), JSON.stringify(PLUTUS_JSON))
+    execFileSync(process.execPath, [join(packageDir, "scripts", "codegen.mjs"), "blueprint", join(outDir, "plutus.json"), output])
+  })
+
+  afterAll(() => rmSync(outDir, { recursive: true, force: true }))
+
+  it("generates a module that type-checks", () => {
+    const config = ts.getParsedCommandLineOfConfigFile(join(packageDir, "tsconfig.test.json"), {}, {
+      ...ts.sys,
+      onUnRecoverableConfigFileDiagnostic: () => {}
+    })!
+    // Checked as an application module, outside the package's project references
+    const program = ts.createProgram([output], {
+      ...config.options,
+      composite: false,
+      declaration: false,
+      declarationMap: false,
+      noEmit: true
+    })
+
+    const diagnostics = ts.getPreEmitDiagnostics(program, program.getSourceFile(output))
+
+    expect(diagnostics.map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, "\n"))).toEqual([])
+  }, 180_000)
+
+  it("derives the same codecs as the runtime loader", async () => {
+    const generated = await import(output)
+    const runtime = Blueprint.fromJson(PLUTUS_JSON).validators["vesting.vesting.spend"]
+    const datum = { owner: "abcd", deadline: 1_000n, beneficiary: null, locked: true }
+    const update = { Update: { 0: [1n, 2n], 1: new Map([["ab", 3n]]) } }
+
+    const validator: Blueprint.Validator<typeof datum, typeof update> = generated.VestingVestingSpend
+
+    expect(validator.hash).toBe(runtime.hash)
+    expect(validator.datum!.toCBORHex(datum)).toBe(runtime.datum!.toCBORHex(datum))
+    expect(validator.redeemer!.toCBORHex(update)).toBe(runtime.redeemer!.toCBORHex(update))
+  })
+
+  it("rejects definitions the runtime loader rejects", () => {
+    const duplicate: Blueprint.PlutusBlueprint = {
+      ...PLUTUS_JSON,
+      definitions: {
+        ...PLUTUS_JSON.definitions,
+        "types/Action": {
+          anyOf: [
+            { title: "Cancel", dataType: "constructor", index: 0, fields: [] },
+            { title: "Claim", dataType: "constructor", index: 1, fields: [{ title: "a", ...ref("Int") }, { title: "a", ...ref("Int") }] }
+          ]
+        }
+      }
+    }
+    const input = join(outDir, "duplicate.json")
+    writeFileSync(input, JSON.stringify(duplicate))
+
+    expect(() => Blueprint.fromJson(duplicate)).toThrow(/Duplicate field titles/)
+    expect(() =>
+      execFileSync(process.execPath, [join(packageDir, "scripts", "codegen.mjs"), "blueprint", input, join(outDir, "duplicate.ts")], {
+        stdio: "pipe"
+      })
+    ).toThrow(/Duplicate field titles/)
+  })
+})
@@ -0,0 +1,182 @@
+import { createCipheriv } from "node:crypto"
+
+import * as CML from "@dcspark/cardano-multiplatform-lib-nodejs"
+import { describe, expect, it } from "@effect/vitest"
+import { entropyToMnemonic } from "@scure/bip39"
+import { wordlist as English } from "@scure/bip39/wordlists/english"
+import { Effect } from "effect"
+
+import * as AddressEras from "../src/core/AddressEras.js"
+import * as Bip32PrivateKey from "../src/core/Bip32PrivateKey.js"
+import * as Bip32PublicKey from "../src/core/Bip32PublicKey.js"
+import * as BootstrapWitness from "../src/core/BootstrapWitness.js"
+import * as ByronAddress from "../src/core/ByronAddress.js"
+import * as Bytes from "../src/core/Bytes.js"
+import * as CBOR from "../src/core/CBOR.js"
+import * as HDAddressPayload from "../src/core/HDAddressPayload.js"
+import * as TransactionHash from "../src/core/TransactionHash.js"
+import * as Derivation from "../src/sdk/wallet/Derivation.js"
+
+const ENTROPY = new Uint8Array(16).fill(7)
+const SEED = entropyToMnemonic(ENTROPY, English)
+const PREPROD_MAGIC = 1
+const TX_BODY_HASH = "ab".repeat(32)
+
+const cmlKey = CML.Bip32PrivateKey.from_bip39_entropy(ENTROPY, new Uint8Array())
+  .derive(0x8000002c)
+  .derive(0x80000717)
+  .derive(0x80000000)
+  .derive(0)
+  .derive(0)
+const key = Bip32PrivateKey.derive(
+  Bip32PrivateKey.fromBip39Entropy(ENTROPY),
+  Bip32PrivateKey.CardanoPath.icarusIndices(0, 0, 0)
+)
+const publicKey = Bip32PrivateKey.toPublicKey(key)
+
+describe("ByronAddress CML Compatibility", () => {
+  it("builds Icarus addresses like CML", () => {
+    const mainnet = CML.AddressContent.icarus_from_key(
+      cmlKey.to_public(),
+      CML.ProtocolMagic.new(ByronAddress.MAINNET_PROTOCOL_MAGIC)
+    ).to_address()
+    const preprod = CML.AddressContent.icarus_from_key(cmlKey.to_public(), CML.ProtocolMagic.new(PREPROD_MAGIC)).to_address()
+
+    expect(ByronAddress.toBase58(ByronAddress.fromPublicKey(publicKey))).toBe(mainnet.to_base58())
+    expect(ByronAddress.toBase58(ByronAddress.fromPublicKey(publicKey, { protocolMagic: PREPROD_MAGIC }))).toBe(
+      preprod.to_base58()
+    )
+
+    const parsed = ByronAddress.fromBase58(preprod.to_base58())
+    expect(parsed.networkId).toBe(0)
+    expect(parsed.attributes).toEqual({ protocolMagic: PREPROD_MAGIC })
+    expect(parsed.root).toBe(preprod.content().address_id().to_hex())
+    expect(parsed.bytes).toBe(preprod.to_cbor_hex())
+    expect(ByronAddress.fromBase58(mainnet.to_base58()).networkId).toBe(1)
+    expect(ByronAddress.isOwnedBy(parsed, publicKey)).toBe(true)
+  })
+
+  it("commits to the derivation path attribute like CML", () => {
+    const attributes = CML.AddrAttributes.new_bootstrap_era(
+      CML.HDAddressPayload.from_cbor_hex("4401020304"),
+      CML.ProtocolMagic.new(PREPROD_MAGIC)
+    )
+    const expected = CML.AddressContent.hash_and_create(
+      CML.ByronAddrType.PublicKey,
+      CML.SpendingData.new_spending_data_pub_key(cmlKey.to_public()),
+      attributes
+    ).to_address()
+
+    const address = ByronAddress.fromPublicKey(publicKey, { derivationPath: "01020304", protocolMagic: PREPROD_MAGIC })
+
+    expect(ByronAddress.toBase58(address)).toBe(expected.to_base58())
+    expect(ByronAddress.attributesToCBORBytes(address)).toEqual(attributes.to_cbor_bytes())
+  })
+
+  it("reads base58 addresses through AddressEras", () => {
+    const base58 = ByronAddress.toBase58(ByronAddress.fromPublicKey(publicKey))
+
+    const address = AddressEras.fromString(base58)
+
+    expect(address._tag).toBe("ByronAddress")
+    expect(AddressEras.toString(address)).toBe(base58)
+    expect(AddressEras.equals(address, ByronAddress.fromBase58(base58))).toBe(true)
+  })
+
+  it("keeps Bech32 parsing strict", () => {
+    const byron = ByronAddress.fromPublicKey(publicKey)
+    const shelley = "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+    expect(() => AddressEras.fromBech32(ByronAddress.toBase58(byron))).toThrow(AddressEras.AddressError)
+    expect(() => AddressEras.toBech32(byron)).toThrow(AddressEras.AddressError)
+    expect(AddressEras.toString(AddressEras.fromString(shelley))).toBe(shelley)
+  })
+
+  it("rejects addresses with a wrong checksum", () => {
+    const bytes = Bytes.fromHex(ByronAddress.fromPublicKey(publicKey).bytes)
+    bytes[bytes.length - 1] ^= 1
+
+    expect(() => ByronAddress.fromBytes(bytes)).toThrow(ByronAddress.ByronAddressError)
+    expect(ByronAddress.crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926)
+  })
+
+  it("signs bootstrap witnesses like CML", () => {
+    const address = ByronAddress.fromPublicKey(publicKey, { protocolMagic: PREPROD_MAGIC })
+    const expected = CML.make_icarus_bootstrap_witness(
+      CML.TransactionHash.from_hex(TX_BODY_HASH),
+      CML.ByronAddress.from_base58(ByronAddress.toBase58(address)),
+      cmlKey
+    )
+
+    const witness = BootstrapWitness.make(TransactionHash.fromHex(TX_BODY_HASH), address, key)
+
+    expect(BootstrapWitness.toCBORHex(witness)).toBe(expected.to_cbor_hex())
+  })
+})
+
+describe("HDAddressPayload", () => {
+  const rootPublicKey = Bip32PublicKey.fromBytes(new Uint8Array(64).fill(9))
+  const path = [0x80000000, 0x80001234]
+
+  it("seals derivation paths with ChaCha20-Poly1305", () => {
+    const cipher = createCipheriv("chacha20-poly1305", HDAddressPayload.passphrase(rootPublicKey), "serokellfore", {
+      authTagLength: 16
+    })
+    const plaintext = CBOR.encodeArrayAsIndefinite(path.map((index) => CBOR.toCBORBytes(BigInt(index))))
+    const expected = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()])
+
+    const payload = HDAddressPayload.encrypt(path, rootPublicKey)
+
+    expect(Bytes.toHex(payload)).toBe(expected.toString("hex"))
+    expect(HDAddressPayload.decrypt(payload, rootPublicKey)).toEqual(path)
+    expect(HDAddressPayload.decrypt(payload, Bip32PublicKey.fromBytes(new Uint8Array(64).fill(8)))).toBeUndefined()
+  })
+})
+
+describe("Byron key derivation", () => {
+  it.effect("derives Icarus Byron keys from a seed", () =>
+    Effect.gen(function* () {
+      const { address, key: derived } = yield* Derivation.icarusKeyFromSeed(SEED, { protocolMagic: PREPROD_MAGIC })
+
+      expect(address).toBe(ByronAddress.toBase58(ByronAddress.fromPublicKey(publicKey, { protocolMagic: PREPROD_MAGIC })))
+      expect(Bip32PrivateKey.equals(derived, key)).toBe(true)
+    })
+  )
+
+  it.effect("recovers Daedalus keys from their addresses", () =>
+    Effect.gen(function* () {
+      const path = [0x80000000, 0x8badf00d]
+      const created = yield* Derivation.daedalusAddressFromSeed(SEED, path)
+
+      const recovered = yield* Derivation.daedalusKeyFromSeed(SEED, created.address)
+      const other = yield* Effect.flip(
+        Derivation.daedalusKeyFromSeed(entropyToMnemonic(new Uint8Array(16).fill(8), English), created.address)
+      )
+
+      expect(Bip32PrivateKey.equals(recovered.key, created.key)).toBe(true)
+      expect(other.message).toMatch(/does not belong/)
+
+      // The witness signs with the address key and satisfies the address root
+      const address = CML.ByronAddress.from_base58(created.address)
+      const witness = CML.BootstrapWitness.from_cbor_hex(
+        BootstrapWitness.toCBORHex(
+          BootstrapWitness.make(
+            TransactionHash.fromHex(TX_BODY_HASH),
+            ByronAddress.fromBase58(created.address),
+            recovered.key
+          )
+        )
+      )
+      const witnessKey = CML.Bip32PublicKey.from_raw_bytes(
+        new Uint8Array([...witness.public_key().to_raw_bytes(), ...witness.chain_code()])
+      )
+      const root = CML.AddressContent.hash_and_create(
+        CML.ByronAddrType.PublicKey,
+        CML.SpendingData.new_spending_data_pub_key(witnessKey),
+        witness.attributes()
+      ).address_id()
+      expect(root.to_hex()).toBe(address.content().address_id().to_hex())
+      expect(witness.public_key().verify(Bytes.fromHex(TX_BODY_HASH), witness.signature())).toBe(true)
+    })
+  )
+})
@@ -1,7 +1,19 @@
+import { Effect } from "effect"
 import { describe, expect, it } from "vitest"
 
-import type * as Assets from "../src/sdk/Assets.js"
-import { CoinSelectionError, largestFirstSelection } from "../src/sdk/builders/CoinSelection.js"
+import * as TransactionOutput from "../src/core/TransactionOutput.js"
+import * as Assets from "../src/sdk/Assets.js"
+import type { CoinSelectionContext } from "../src/sdk/builders/CoinSelection.js"
+import {
+  CoinSelectionError,
+  largestFirstSelection,
+  makeOptimalSelection,
+  makeRandomImproveSelection,
+  optimalSelection,
+  seededRandom
+} from "../src/sdk/builders/CoinSelection.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import { txOutputToTransactionOutput } from "../src/sdk/builders/TxBuilderImpl.js"
 import type * as UTxO from "../src/sdk/UTxO.js"
 import { createTestUtxo } from "./utils/utxo-helpers.js"
 
@@ -435,3 +447,188 @@ describe("Largest-First Coin Selection", () => {
     })
   })
 })
+
+/**
+ * Unit tests for Random-Improve Coin Selection Algorithm (CIP-2)
+ */
+describe("Random-Improve Coin Selection", () => {
+  const POLICY = "c".repeat(56)
+  const TOKEN = `${POLICY}746f6b656e`
+
+  const lovelaceUtxos = (amounts: ReadonlyArray<bigint>): ReadonlyArray<UTxO.UTxO> =>
+    amounts.map((lovelace, outputIndex) => createTestUtxo({ lovelace, outputIndex }))
+
+  const total = (utxos: ReadonlyArray<UTxO.UTxO>, unit: string): bigint =>
+    utxos.reduce((sum, utxo) => sum + (utxo.assets[unit] ?? 0n), 0n)
+
+  it("is deterministic with a seeded generator", () => {
+    const utxos = lovelaceUtxos([1_000_000n, 2_000_000n, 3_000_000n, 4_000_000n, 5_000_000n, 6_000_000n])
+    const select = () =>
+      makeRandomImproveSelection({ random: seededRandom(42) })(utxos, { lovelace: 5_000_000n }).selectedUtxos
+
+    expect(select()).toEqual(select())
+  })
+
+  it("covers the requirement without exceeding three times the target through improvement", () => {
+    const utxos = lovelaceUtxos(Array.from({ length: 20 }, () => 1_000_000n))
+
+    for (let seed = 0; seed < 10; seed++) {
+      const result = makeRandomImproveSelection({ random: seededRandom(seed) })(utxos, { lovelace: 5_000_000n })
+      const selected = total(result.selectedUtxos, "lovelace")
+
+      // Improvement keeps adding 1 ADA UTxOs until reaching the ideal of twice the target
+      expect(selected).toBe(10_000_000n)
+    }
+  })
+
+  it("leaves change close to the payment instead of dust", () => {
+    const utxos = lovelaceUtxos([5_100_000n, 4_000_000n, 3_000_000n, 2_000_000n])
+
+    const largestFirst = largestFirstSelection(utxos, { lovelace: 5_000_000n })
+    const randomImprove = makeRandomImproveSelection({ random: () => 0 })(utxos, { lovelace: 5_000_000n })
+
+    expect(total(largestFirst.selectedUtxos, "lovelace") - 5_000_000n).toBe(100_000n)
+    expect(total(randomImprove.selectedUtxos, "lovelace") - 5_000_000n).toBeGreaterThan(3_000_000n)
+  })
+
+  it("selects UTxOs holding each required native asset", () => {
+    const utxos: ReadonlyArray<UTxO.UTxO> = [
+      createTestUtxo({ lovelace: 50_000_000n, outputIndex: 0 }),
+      createTestUtxo({ lovelace: 1_500_000n, outputIndex: 1, nativeAssets: { [TOKEN]: 60n } }),
+      createTestUtxo({ lovelace: 1_500_000n, outputIndex: 2, nativeAssets: { [TOKEN]: 70n } })
+    ]
+
+    const result = makeRandomImproveSelection({ random: seededRandom(7) })(utxos, {
+      lovelace: 2_000_000n,
+      [TOKEN]: 100n
+    })
+
+    expect(total(result.selectedUtxos, TOKEN)).toBe(130n)
+    expect(total(result.selectedUtxos, "lovelace")).toBeGreaterThanOrEqual(2_000_000n)
+  })
+
+  it("throws CoinSelectionError when funds are insufficient", () => {
+    const utxos = lovelaceUtxos([1_000_000n, 2_000_000n])
+
+    expect(() => makeRandomImproveSelection({ random: seededRandom(1) })(utxos, { lovelace: 5_000_000n })).toThrow(
+      CoinSelectionError
+    )
+    expect(() => makeRandomImproveSelection()(utxos, { lovelace: 1_000_000n, [TOKEN]: 1n })).toThrow(
+      "Insufficient"
+    )
+  })
+})
+
+/**
+ * Unit tests for Optimal (Branch-and-Bound) Coin Selection Algorithm
+ */
+describe("Optimal Coin Selection", () => {
+  const CHANGE_ADDRESS =
+    "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+  const PROTOCOL_PARAMS = {
+    minFeeCoefficient: 44n,
+    minFeeConstant: 155_381n,
+    coinsPerUtxoByte: 4_310n,
+    maxTxSize: 16_384
+  }
+
+  // Change outputs costed as the builder does
+  const context: CoinSelectionContext = {
+    minFeeCoefficient: PROTOCOL_PARAMS.minFeeCoefficient,
+    changeOutputCost: (assets) => {
+      const output = Effect.runSync(txOutputToTransactionOutput({ address: CHANGE_ADDRESS, assets }))
+      const size = BigInt(TransactionOutput.toCBORBytes(output).length)
+      return { minLovelace: PROTOCOL_PARAMS.coinsPerUtxoByte * size, fee: PROTOCOL_PARAMS.minFeeCoefficient * size }
+    }
+  }
+
+  const lovelaceUtxos = (amounts: ReadonlyArray<bigint>): ReadonlyArray<UTxO.UTxO> =>
+    amounts.map((lovelace, outputIndex) => createTestUtxo({ lovelace, outputIndex }))
+
+  const lovelaceOf = (utxos: ReadonlyArray<UTxO.UTxO>): Array<bigint> => utxos.map((utxo) => utxo.assets.lovelace)
+
+  it("prefers an exact match that avoids change", () => {
+    const utxos = lovelaceUtxos([10_000_000n, 7_000_000n, 3_000_000n, 2_000_000n])
+
+    const result = optimalSelection(utxos, { lovelace: 5_000_000n }, context)
+
+    expect(lovelaceOf(result.selectedUtxos)).toEqual([3_000_000n, 2_000_000n])
+  })
+
+  it("gives up a small excess instead of creating change", () => {
+    const utxos = lovelaceUtxos([10_000_000n, 5_000_100n])
+
+    const result = optimalSelection(utxos, { lovelace: 5_000_000n }, context)
+
+    expect(lovelaceOf(result.selectedUtxos)).toEqual([5_000_100n])
+  })
+
+  it("uses the fewest inputs when change is unavoidable", () => {
+    const utxos = lovelaceUtxos([20_000_000n, 4_000_000n, 4_000_000n, 4_000_000n])
+
+    const result = optimalSelection(utxos, { lovelace: 10_000_000n }, context)
+
+    expect(lovelaceOf(result.selectedUtxos)).toEqual([20_000_000n])
+  })
+
+  it("covers native asset requirements", () => {
+    const token = `${"c".repeat(56)}746f6b656e`
+    const utxos: ReadonlyArray<UTxO.UTxO> = [
+      createTestUtxo({ lovelace: 30_000_000n, outputIndex: 0 }),
+      createTestUtxo({ lovelace: 2_000_000n, outputIndex: 1, nativeAssets: { [token]: 10n } })
+    ]
+
+    const result = optimalSelection(utxos, { lovelace: 1_000_000n, [token]: 10n }, context)
+
+    expect(result.selectedUtxos).toHaveLength(1)
+    expect(result.selectedUtxos[0].assets[token]).toBe(10n)
+  })
+
+  it("costs each distinct change output once", () => {
+    const utxos = lovelaceUtxos(Array.from({ length: 8 }, () => 4_000_000n))
+    const costed: Array<Assets.Assets> = []
+
+    optimalSelection(utxos, { lovelace: 10_000_000n }, {
+      ...context,
+      changeOutputCost: (assets) => {
+        costed.push(assets)
+        return context.changeOutputCost(assets)
+      }
+    })
+
+    expect(costed).toEqual([Assets.fromLovelace(2_000_000n)])
+  })
+
+  it("falls back to largest-first when the iteration budget runs out", () => {
+    const utxos = lovelaceUtxos([10_000_000n, 3_000_000n, 2_000_000n])
+
+    const result = makeOptimalSelection({ maxIterations: 1 })(utxos, { lovelace: 5_000_000n }, context)
+
+    expect(result).toEqual(largestFirstSelection(utxos, { lovelace: 5_000_000n }))
+  })
+
+  it("throws CoinSelectionError when funds are insufficient or the context is missing", () => {
+    const utxos = lovelaceUtxos([1_000_000n])
+
+    expect(() => optimalSelection(utxos, { lovelace: 5_000_000n }, context)).toThrow(CoinSelectionError)
+    expect(() => optimalSelection(utxos, { lovelace: 500_000n })).toThrow(CoinSelectionError)
+  })
+
+  it("is used by the transaction builder", async () => {
+    const utxos = lovelaceUtxos([50_000_000n, 8_000_000n, 3_000_000n])
+
+    const result = await makeTxBuilder({})
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .build({
+        changeAddress: CHANGE_ADDRESS,
+        availableUtxos: utxos,
+        protocolParameters: PROTOCOL_PARAMS,
+        coinSelection: "optimal"
+      })
+
+    const tx = await result.toTransaction()
+    expect(tx.body.inputs).toHaveLength(1)
+    expect(tx.body.outputs).toHaveLength(2)
+  })
+})
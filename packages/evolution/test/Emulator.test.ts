@@ -0,0 +1,170 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import * as PrivateKey from "../src/core/PrivateKey.js"
+import * as Transaction from "../src/core/Transaction.js"
+import * as Assets from "../src/sdk/Assets.js"
+import type { SubmitBuilder } from "../src/sdk/builders/SubmitBuilder.js"
+import type { ChainResult } from "../src/sdk/builders/TransactionBuilder.js"
+import { createClient } from "../src/sdk/client/ClientImpl.js"
+import { Emulator, SLOTS_PER_BLOCK } from "../src/sdk/provider/Emulator.js"
+import * as Time from "../src/sdk/Time.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+
+const RECIPIENT =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+const POOL_ID = "c".repeat(56)
+
+const [paymentKey, stakeKey] = [3, 4].map((fill) => PrivateKey.toBech32(PrivateKey.fromBytes(new Uint8Array(32).fill(fill))))
+
+const makeClient = (emulator: Emulator) =>
+  createClient({
+    network: "preprod",
+    provider: { type: "emulator", emulator },
+    wallet: { type: "private-key", paymentKey, stakeKey, addressType: "Base" }
+  })
+
+// Resolve the wallet address before the emulator exists, to fund it at genesis
+const walletAddress = () => createClient({ network: "preprod", wallet: { type: "private-key", paymentKey, stakeKey, addressType: "Base" } }).address()
+
+// Message of the provider error a rejected submission fails with
+const rejection = (signed: SubmitBuilder) =>
+  Effect.runPromise(Effect.flip(signed.Effect.submit())).then((error) => (error.cause as Error).message)
+
+const setup = async () => {
+  const address = await walletAddress()
+  const emulator = new Emulator([{ address, assets: Assets.fromLovelace(100_000_000n) }])
+  return { address, emulator, client: makeClient(emulator) }
+}
+
+describe("Emulator", () => {
+  it("applies submitted transactions when a block is produced", async () => {
+    const { address, client, emulator } = await setup()
+
+    const signed = await (
+      await client
+        .newTx()
+        .payToAddress({ address: RECIPIENT, assets: Assets.fromLovelace(5_000_000n) })
+        .build()
+    ).sign()
+    const txHash = await signed.submit()
+
+    // Still in the mempool
+    expect(await emulator.getUtxos(RECIPIENT)).toEqual([])
+
+    expect(await emulator.awaitTx(txHash)).toBe(true)
+    expect(emulator.blockHeight).toBe(1)
+    expect(emulator.slot).toBe(SLOTS_PER_BLOCK)
+    expect(await emulator.getUtxos(RECIPIENT)).toEqual([
+      { txHash, outputIndex: 0, address: RECIPIENT, assets: Assets.fromLovelace(5_000_000n) }
+    ])
+
+    const [change] = await emulator.getUtxos(address)
+    expect(change.txHash).toBe(txHash)
+    expect(change.assets.lovelace).toBeLessThan(95_000_000n)
+  })
+
+  it("rejects transactions that fail phase-1 validation", async () => {
+    const { client, emulator } = await setup()
+    const build = (lovelace: bigint) =>
+      client.newTx().payToAddress({ address: RECIPIENT, assets: Assets.fromLovelace(lovelace) }).build()
+
+    const unsigned = await (await build(5_000_000n)).toTransaction()
+    await expect(emulator.submitTx(Transaction.toCBORHex(unsigned))).rejects.toThrow(
+      /Missing signatures/
+    )
+
+    // The pending transaction already spends the genesis output
+    await (await (await build(5_000_000n)).sign()).submit()
+    expect(await rejection(await (await build(6_000_000n)).sign())).toMatch(/Inputs not found/)
+  })
+
+  it("drops pending transactions whose validity interval has passed", async () => {
+    const { client, emulator } = await setup()
+
+    const signed = await (
+      await client
+        .newTx()
+        .payToAddress({ address: RECIPIENT, assets: Assets.fromLovelace(5_000_000n) })
+        .validTo({ unixTime: emulator.now() + 10_000 })
+        .build()
+    ).sign()
+    const txHash = await signed.submit()
+
+    emulator.awaitSlot(100)
+    expect(Time.unixTimeToSlot(emulator.now(), emulator.slotConfig)).toBe(100n)
+    expect(await emulator.awaitTx(txHash)).toBe(false)
+    expect(await emulator.getUtxos(RECIPIENT)).toEqual([])
+  })
+
+  it("accepts transactions spending outputs of pending transactions", async () => {
+    const { address, client, emulator } = await setup()
+    const pay = (availableUtxos?: ReadonlyArray<UTxO.UTxO>) =>
+      client
+        .newTx()
+        .payToAddress({ address: RECIPIENT, assets: Assets.fromLovelace(5_000_000n) })
+        .chain(availableUtxos && { availableUtxos })
+    // Pending outputs are not known to the provider, so the signer is told who owns them
+    const submit = async ({ spentUtxos, transaction }: ChainResult) => {
+      const witnessSet = await client.signTx(transaction, { utxos: spentUtxos })
+      return emulator.submitTx(Transaction.toCBORHex(new Transaction.Transaction({ ...transaction, witnessSet })))
+    }
+
+    const first = await pay()
+    const second = await pay(first.updatedUtxos)
+    expect(second.spentUtxos.map((utxo) => utxo.txHash)).toEqual([first.txHash])
+
+    expect(await submit(first)).toBe(first.txHash)
+    expect(await submit(second)).toBe(second.txHash)
+
+    emulator.awaitBlock()
+    expect(await emulator.awaitTx(first.txHash)).toBe(true)
+    expect(await emulator.awaitTx(second.txHash)).toBe(true)
+    expect((await emulator.getUtxos(RECIPIENT)).map((utxo) => utxo.txHash)).toEqual([first.txHash, second.txHash])
+    expect((await emulator.getUtxos(address)).map((utxo) => utxo.txHash)).toEqual([second.txHash])
+  })
+
+  it("drops pending transactions spending outputs of expired ones", async () => {
+    const { client, emulator } = await setup()
+    const first = await client
+      .newTx()
+      .payToAddress({ address: RECIPIENT, assets: Assets.fromLovelace(5_000_000n) })
+      .validTo({ unixTime: emulator.now() + 10_000 })
+      .chain()
+    const second = await client
+      .newTx()
+      .payToAddress({ address: RECIPIENT, assets: Assets.fromLovelace(5_000_000n) })
+      .chain({ availableUtxos: first.updatedUtxos })
+    for (const { spentUtxos, transaction } of [first, second]) {
+      const witnessSet = await client.signTx(transaction, { utxos: spentUtxos })
+      await emulator.submitTx(Transaction.toCBORHex(new Transaction.Transaction({ ...transaction, witnessSet })))
+    }
+
+    emulator.awaitSlot(100)
+    emulator.awaitBlock()
+
+    expect(await emulator.awaitTx(second.txHash)).toBe(false)
+    expect(await emulator.getUtxos(RECIPIENT)).toEqual([])
+  })
+
+  it("tracks stake registration, delegation and rewards", async () => {
+    const { client, emulator } = await setup()
+    const rewardAddress = (await client.rewardAddress())!
+
+    const delegation = await (
+      await client.newTx().registerStake({ rewardAddress }).delegateTo({ rewardAddress, poolId: POOL_ID }).build()
+    ).sign()
+    await emulator.awaitTx(await delegation.submit())
+
+    emulator.distributeRewards(3_000_000n)
+    expect(await client.getWalletDelegation()).toEqual({ poolId: expect.stringMatching(/^pool1/), rewards: 3_000_000n })
+
+    const partial = await (await client.newTx().withdraw({ rewardAddress, amount: 1_000_000n }).build()).sign()
+    expect(await rejection(partial)).toMatch(/must equal its reward balance/)
+
+    const full = await (await client.newTx().withdraw({ rewardAddress, amount: 3_000_000n }).build()).sign()
+    await emulator.awaitTx(await full.submit())
+    expect((await emulator.getDelegation(rewardAddress)).rewards).toBe(0n)
+  })
+})
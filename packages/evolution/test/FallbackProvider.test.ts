@@ -0,0 +1,102 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import { FallbackProvider } from "../src/sdk/provider/Fallback.js"
+import type { Provider, ProviderEffect } from "../src/sdk/provider/Provider.js"
+import { ProviderError } from "../src/sdk/provider/Provider.js"
+
+// Provider answering getDatum and submitTx with `answer`, counting its calls; the other
+// methods fail as `answer` does, and die when it succeeds
+const makeProvider = (answer: Effect.Effect<string, ProviderError>) => {
+  const calls: Array<keyof ProviderEffect> = []
+  const call = <A>(method: keyof ProviderEffect, result: Effect.Effect<A, ProviderError>) =>
+    Effect.suspend(() => {
+      calls.push(method)
+      return result
+    })
+  const unread = (method: keyof ProviderEffect) =>
+    call(method, Effect.flatMap(answer, () => Effect.dieMessage(`${method} is not mocked`)))
+
+  const effect: ProviderEffect = {
+    getProtocolParameters: () => unread("getProtocolParameters"),
+    getUtxos: () => unread("getUtxos"),
+    getUtxosWithUnit: () => unread("getUtxosWithUnit"),
+    getUtxoByUnit: () => unread("getUtxoByUnit"),
+    getUtxosByOutRef: () => unread("getUtxosByOutRef"),
+    getDelegation: () => unread("getDelegation"),
+    getDatum: () => call("getDatum", answer),
+    awaitTx: () => unread("awaitTx"),
+    submitTx: () => call("submitTx", answer),
+    evaluateTx: () => unread("evaluateTx")
+  }
+  const provider: Provider = {
+    getProtocolParameters: () => Effect.runPromise(effect.getProtocolParameters()),
+    getUtxos: (addressOrCredential) => Effect.runPromise(effect.getUtxos(addressOrCredential)),
+    getUtxosWithUnit: (addressOrCredential, unit) => Effect.runPromise(effect.getUtxosWithUnit(addressOrCredential, unit)),
+    getUtxoByUnit: (unit) => Effect.runPromise(effect.getUtxoByUnit(unit)),
+    getUtxosByOutRef: (outRefs) => Effect.runPromise(effect.getUtxosByOutRef(outRefs)),
+    getDelegation: (rewardAddress) => Effect.runPromise(effect.getDelegation(rewardAddress)),
+    getDatum: (datumHash) => Effect.runPromise(effect.getDatum(datumHash)),
+    awaitTx: (txHash, checkInterval) => Effect.runPromise(effect.awaitTx(txHash, checkInterval)),
+    submitTx: (cbor) => Effect.runPromise(effect.submitTx(cbor)),
+    evaluateTx: (tx, additionalUTxOs) => Effect.runPromise(effect.evaluateTx(tx, additionalUTxOs)),
+    Effect: effect
+  }
+  return { provider, calls }
+}
+
+const answering = (value: string) => makeProvider(Effect.succeed(value))
+const down = (message = "Service unavailable") => makeProvider(Effect.fail(new ProviderError({ cause: null, message })))
+
+describe("FallbackProvider", () => {
+  it("spreads reads round-robin", async () => {
+    const fallback = new FallbackProvider([answering("a").provider, answering("b").provider])
+
+    const datums = [await fallback.getDatum("00"), await fallback.getDatum("00"), await fallback.getDatum("00")]
+
+    expect(datums).toEqual(["a", "b", "a"])
+  })
+
+  it("fails over to the next provider and tries unhealthy providers last", async () => {
+    const failing = down()
+    const healthy = answering("ok")
+    const fallback = new FallbackProvider([failing.provider, healthy.provider], { roundRobin: false })
+
+    for (let call = 0; call < 6; call++) {
+      expect(await fallback.getDatum("00")).toBe("ok")
+    }
+
+    // The score drops below the threshold after four consecutive failures
+    expect(failing.calls).toHaveLength(4)
+    expect(healthy.calls).toHaveLength(6)
+    const [failingHealth, healthyHealth] = fallback.health()
+    expect(failingHealth.failures).toBe(4)
+    expect(failingHealth.score).toBeLessThan(0.5)
+    expect(healthyHealth).toEqual({ score: 1, successes: 6, failures: 0 })
+  })
+
+  it("fails once every provider has failed", async () => {
+    const fallback = new FallbackProvider([down("timeout").provider, down("rate limited").provider])
+
+    const error = await Effect.runPromise(Effect.flip(fallback.Effect.getProtocolParameters()))
+
+    expect(error).toBeInstanceOf(ProviderError)
+    expect(error.message).toBe("All 2 providers failed getProtocolParameters: timeout; rate limited")
+  })
+
+  it("submits to every provider and de-duplicates the hash", async () => {
+    const providers = [answering("ab".repeat(32)), down("already submitted"), answering("ab".repeat(32))]
+    const fallback = new FallbackProvider(providers.map(({ provider }) => provider))
+
+    expect(await fallback.submitTx("84a0")).toBe("ab".repeat(32))
+    expect(providers.map(({ calls }) => calls)).toEqual([["submitTx"], ["submitTx"], ["submitTx"]])
+  })
+
+  it("rejects submissions the providers disagree on", async () => {
+    const fallback = new FallbackProvider([answering("ab".repeat(32)).provider, answering("cd".repeat(32)).provider])
+
+    const error = await Effect.runPromise(Effect.flip(fallback.Effect.submitTx("84a0")))
+
+    expect(error.message).toMatch(/different transaction hashes/)
+  })
+})
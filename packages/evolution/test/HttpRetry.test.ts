@@ -0,0 +1,156 @@
+import { HttpClientError, HttpClientRequest, HttpClientResponse } from "@effect/platform"
+import { describe, expect, it } from "@effect/vitest"
+import { Cause, Effect } from "effect"
+
+import type { RetryPolicy } from "../src/sdk/client/Client.js"
+import * as HttpUtils from "../src/sdk/provider/internal/HttpUtils.js"
+import type { ProviderEffect } from "../src/sdk/provider/Provider.js"
+import { ProviderError } from "../src/sdk/provider/Provider.js"
+
+const POLICY: RetryPolicy = { maxRetries: 3, retryDelayMs: 1, backoffMultiplier: 2, maxRetryDelayMs: 5 }
+
+const responseError = (status: number, headers?: Record<string, string>) => {
+  const request = HttpClientRequest.get("https://provider.test")
+  return new HttpClientError.ResponseError({
+    request,
+    response: HttpClientResponse.fromWeb(request, new Response(null, { status, headers })),
+    reason: "StatusCode"
+  })
+}
+
+// Request failing with the given errors in turn, then succeeding
+const flaky = (errors: Array<HttpClientError.ResponseError>) => {
+  let attempts = 0
+  const request = Effect.suspend(() => {
+    const error = errors[attempts++]
+    return error === undefined ? Effect.succeed("ok") : Effect.fail(error)
+  })
+  return { request, attempts: () => attempts }
+}
+
+describe("HttpUtils.withRetry", () => {
+  it("retries transient failures under the policy", async () => {
+    const { attempts, request } = flaky([responseError(503), responseError(429), responseError(502)])
+
+    const result = await Effect.runPromise(
+      HttpUtils.withRetry(request).pipe(Effect.provideService(HttpUtils.HttpRetryPolicy, POLICY))
+    )
+
+    expect(result).toBe("ok")
+    expect(attempts()).toBe(4)
+  })
+
+  it("gives up after the policy's retries", async () => {
+    const { attempts, request } = flaky(Array.from({ length: 5 }, () => responseError(500)))
+
+    const error = await Effect.runPromise(
+      Effect.flip(HttpUtils.withRetry(request).pipe(Effect.provideService(HttpUtils.HttpRetryPolicy, POLICY)))
+    )
+
+    expect(HttpUtils.isTransientError(error)).toBe(true)
+    expect(attempts()).toBe(4)
+  })
+
+  it("does not retry client errors", async () => {
+    const { attempts, request } = flaky([responseError(400)])
+
+    await Effect.runPromise(
+      Effect.flip(HttpUtils.withRetry(request).pipe(Effect.provideService(HttpUtils.HttpRetryPolicy, POLICY)))
+    )
+
+    expect(attempts()).toBe(1)
+  })
+
+  it("attempts requests once without a policy", async () => {
+    const { attempts, request } = flaky([responseError(503)])
+
+    await Effect.runPromise(Effect.flip(HttpUtils.withRetry(request)))
+
+    expect(attempts()).toBe(1)
+  })
+
+  it("waits as long as Retry-After asks", async () => {
+    const { attempts, request } = flaky([responseError(429, { "retry-after": "1" })])
+
+    const started = Date.now()
+    await Effect.runPromise(
+      HttpUtils.withRetry(request).pipe(Effect.provideService(HttpUtils.HttpRetryPolicy, POLICY))
+    )
+
+    expect(attempts()).toBe(2)
+    expect(Date.now() - started).toBeGreaterThanOrEqual(950)
+  })
+
+  it("times out slow attempts and retries them", async () => {
+    let attempts = 0
+    const request = Effect.suspend(() => (attempts++ === 0 ? Effect.never : Effect.succeed("ok")))
+
+    const result = await Effect.runPromise(
+      HttpUtils.withRetry(request).pipe(
+        Effect.provideService(HttpUtils.HttpRetryPolicy, { ...POLICY, timeoutMs: 20 })
+      )
+    )
+
+    expect(result).toBe("ok")
+    expect(attempts).toBe(2)
+  })
+})
+
+// Provider reading datums and submitting transactions through `request`; other methods are unused
+const httpProvider = (request: Effect.Effect<string, unknown>): ProviderEffect => {
+  const send = () =>
+    HttpUtils.withRetry(request).pipe(Effect.mapError((cause) => new ProviderError({ cause, message: "failed" })))
+  const unused = () => Effect.dieMessage("not used")
+  return {
+    getProtocolParameters: unused,
+    getUtxos: unused,
+    getUtxosWithUnit: unused,
+    getUtxoByUnit: unused,
+    getUtxosByOutRef: unused,
+    getDelegation: unused,
+    getDatum: send,
+    awaitTx: unused,
+    submitTx: send,
+    evaluateTx: unused
+  }
+}
+
+describe("HttpUtils.withRetryPolicy", () => {
+  it("retries reads on server errors", async () => {
+    const { attempts, request } = flaky([responseError(503)])
+
+    const result = await Effect.runPromise(HttpUtils.withRetryPolicy(httpProvider(request), POLICY).getDatum("00"))
+
+    expect(result).toBe("ok")
+    expect(attempts()).toBe(2)
+  })
+
+  it("does not resubmit after a server error the node may have accepted", async () => {
+    const { attempts, request } = flaky([responseError(503)])
+
+    await Effect.runPromise(Effect.flip(HttpUtils.withRetryPolicy(httpProvider(request), POLICY).submitTx("00")))
+
+    expect(attempts()).toBe(1)
+  })
+
+  it("does not resubmit after a timeout", async () => {
+    let attempts = 0
+    const request = Effect.suspend(() => (attempts++ === 0 ? Effect.never : Effect.succeed("ok")))
+
+    const error = await Effect.runPromise(
+      Effect.flip(HttpUtils.withRetryPolicy(httpProvider(request), { ...POLICY, timeoutMs: 20 }).submitTx("00"))
+    )
+
+    expect(Cause.isTimeoutException(error.cause)).toBe(true)
+    expect(attempts).toBe(1)
+  })
+
+  it("resubmits when rate limited", async () => {
+    const { attempts, request } = flaky([responseError(429)])
+
+    const result = await Effect.runPromise(HttpUtils.withRetryPolicy(httpProvider(request), POLICY).submitTx("00"))
+
+    expect(result).toBe("ok")
+    expect(attempts()).toBe(2)
+  })
+})
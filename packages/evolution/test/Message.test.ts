@@ -0,0 +1,112 @@
+import { describe, expect, it } from "@effect/vitest"
+
+import * as AddressEras from "../src/core/AddressEras.js"
+import * as Bytes from "../src/core/Bytes.js"
+import * as CBOR from "../src/core/CBOR.js"
+import * as EnterpriseAddress from "../src/core/EnterpriseAddress.js"
+import * as KeyHash from "../src/core/KeyHash.js"
+import * as PrivateKey from "../src/core/PrivateKey.js"
+import * as RewardAccount from "../src/core/RewardAccount.js"
+import { createClient } from "../src/sdk/client/ClientImpl.js"
+import * as Message from "../src/sdk/Message.js"
+
+const paymentKey = PrivateKey.fromBytes(new Uint8Array(32).fill(7))
+const otherKey = PrivateKey.fromBytes(new Uint8Array(32).fill(8))
+
+const enterpriseAddress = (key: PrivateKey.PrivateKey): string =>
+  AddressEras.toBech32(
+    new EnterpriseAddress.EnterpriseAddress({ networkId: 0, paymentCredential: KeyHash.fromPrivateKey(key) })
+  )
+
+const address = enterpriseAddress(paymentKey)
+
+const hex = (text: string): string => Bytes.toHex(new TextEncoder().encode(text))
+const challenge = hex("login challenge")
+
+// signData result for `address` and the payload "Hello Cardano", built the way Nami and
+// Eternl do with @emurgo/cardano-message-signing (COSESign1Builder, unhashed payload)
+const walletVector = {
+  payload: "48656c6c6f2043617264616e6f",
+  signature:
+    "84582aa201276761646472657373581d608b218424ad74df25d35c2ea8e094a4c5c5aeb2cbb442419331569313a166686173686564f44d48656c6c6f2043617264616e6f5840060f9381c443cc4b45a7c5117634cbb9a0c8cc434c214b716eb649af8598e92aaae8816a23b13ff0bcbd5b233381f864423b070950ec6aa053277a6db6195d04",
+  key: "a4010103272006215820ea4a6c63e29c520abef5507b132ec5f9954776aebebe7b92421eea691446d22c"
+}
+
+describe("CIP-8 message signing", () => {
+  it("produces a COSE_Sign1 with the address in the protected header and an Ed25519 COSE_Key", () => {
+    const signed = Message.signMessage(address, challenge, paymentKey)
+
+    const [protectedHeader, unprotectedHeader, payload, signature] = CBOR.fromCBORHex(
+      signed.signature
+    ) as ReadonlyArray<CBOR.CBOR>
+    const headers = CBOR.fromCBORBytes(protectedHeader as Uint8Array) as ReadonlyMap<CBOR.CBOR, CBOR.CBOR>
+    const key = CBOR.fromCBORHex(signed.key) as ReadonlyMap<CBOR.CBOR, CBOR.CBOR>
+
+    expect(headers.get(1n)).toBe(-8n)
+    expect(headers.get("address")).toEqual(AddressEras.toBytes(AddressEras.fromBech32(address)))
+    expect((unprotectedHeader as ReadonlyMap<CBOR.CBOR, CBOR.CBOR>).get("hashed")).toBe(false)
+    expect(Bytes.toHex(payload as Uint8Array)).toBe(challenge)
+    expect(signature).toHaveLength(64)
+    expect(key.get(1n)).toBe(1n)
+    expect(key.get(-1n)).toBe(6n)
+  })
+
+  it("verifies a message signed for the address", () => {
+    const signed = Message.signMessage(address, challenge, paymentKey)
+
+    expect(Message.verifyMessage(address, challenge, signed)).toBe(true)
+    expect(Message.verifyMessage(address, Bytes.fromHex(challenge), signed)).toBe(true)
+  })
+
+  it("rejects another payload, address or key", () => {
+    const signed = Message.signMessage(address, challenge, paymentKey)
+    const otherAddress = enterpriseAddress(otherKey)
+
+    expect(Message.verifyMessage(address, hex("other challenge"), signed)).toBe(false)
+    expect(Message.verifyMessage(otherAddress, challenge, signed)).toBe(false)
+    // Valid signature, but the key does not hash to the address credential
+    expect(Message.verifyMessage(address, challenge, Message.signMessage(address, challenge, otherKey))).toBe(
+      false
+    )
+    expect(Message.verifyMessage(address, challenge, { ...signed, signature: "00" })).toBe(false)
+  })
+
+  it("verifies and reproduces a CIP-30 wallet signature over a hex payload", () => {
+    expect(Message.verifyMessage(address, walletVector.payload, walletVector)).toBe(true)
+    expect(Message.verifyMessage(address, "Hello Cardano", walletVector)).toBe(false)
+
+    const signed = Message.signMessage(address, walletVector.payload, paymentKey)
+
+    expect(signed.signature).toBe(walletVector.signature)
+    expect(signed.key).toBe(walletVector.key)
+  })
+
+  it("rejects payload strings that are not hex", () => {
+    expect(() => Message.signMessage(address, "login challenge", paymentKey)).toThrow(Message.MessageError)
+  })
+
+  it("checks reward addresses against the stake credential", () => {
+    const rewardAddress = AddressEras.toBech32(
+      new RewardAccount.RewardAccount({ networkId: 0, stakeCredential: KeyHash.fromPrivateKey(otherKey) })
+    )
+
+    const signed = Message.signMessage(rewardAddress, hex("delegate"), otherKey)
+
+    expect(Message.verifyMessage(rewardAddress, hex("delegate"), signed)).toBe(true)
+  })
+
+  it("signs with seed wallets so the result verifies against the wallet address", async () => {
+    const client = createClient({
+      network: "preprod",
+      wallet: { type: "seed", mnemonic: PrivateKey.generateMnemonic() }
+    })
+    const walletAddress = await client.address()
+    const rewardAddress = await client.rewardAddress()
+
+    const signed = await client.signMessage(walletAddress, hex("nonce:42"))
+    const stakeSigned = await client.signMessage(rewardAddress!, hex("nonce:42"))
+
+    expect(Message.verifyMessage(walletAddress, hex("nonce:42"), signed)).toBe(true)
+    expect(Message.verifyMessage(rewardAddress!, hex("nonce:42"), stakeSigned)).toBe(true)
+  })
+})
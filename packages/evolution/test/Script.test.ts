@@ -0,0 +1,63 @@
+import * as CML from "@dcspark/cardano-multiplatform-lib-nodejs"
+import { describe, expect, it } from "vitest"
+
+import * as Bytes from "../src/core/Bytes.js"
+import * as Data from "../src/core/Data.js"
+import * as Script from "../src/sdk/Script.js"
+
+// Single CBOR-encoded flat program `(program 1.1.0 (lam x x))`
+const IDENTITY = "46010100200101"
+
+const PLUTUS_V2 = Script.makePlutusV2Script(`47${IDENTITY}`)
+const NATIVE = Script.makeNativeScript("8200581c" + "ab".repeat(28))
+const STAKE_KEY_HASH = "cd".repeat(28)
+
+const cmlHash = (script: Script.Script) =>
+  script.type === "Native"
+    ? CML.NativeScript.from_cbor_hex(script.script).hash().to_hex()
+    : CML.PlutusV2Script.from_raw_bytes(Bytes.fromHex(IDENTITY)).hash().to_hex()
+
+describe("sdk Script", () => {
+  it("hashes scripts with their language prefix", () => {
+    expect(Script.toScriptHash(PLUTUS_V2)).toEqual({ _tag: "ScriptHash", hash: cmlHash(PLUTUS_V2) })
+    expect(Script.toScriptHash(NATIVE).hash).toBe(cmlHash(NATIVE))
+    // Single CBOR-encoded scripts hash the same
+    expect(Script.toScriptHash(Script.makePlutusV2Script(IDENTITY))).toEqual(Script.toScriptHash(PLUTUS_V2))
+    expect(Script.toScriptHash(Script.makePlutusV3Script(IDENTITY)).hash).not.toBe(cmlHash(PLUTUS_V2))
+    expect(Script.mintingPolicyToId(NATIVE)).toBe(cmlHash(NATIVE))
+  })
+
+  it("derives validator addresses", () => {
+    const payment = CML.Credential.new_script(CML.ScriptHash.from_hex(cmlHash(PLUTUS_V2)))
+    const stake = CML.Credential.new_pub_key(CML.Ed25519KeyHash.from_hex(STAKE_KEY_HASH))
+
+    expect(Script.validatorToAddress("Preprod", PLUTUS_V2)).toBe(
+      CML.EnterpriseAddress.new(0, payment).to_address().to_bech32()
+    )
+    expect(Script.validatorToAddress("Mainnet", PLUTUS_V2, { _tag: "KeyHash", hash: STAKE_KEY_HASH })).toBe(
+      CML.BaseAddress.new(1, payment, stake).to_address().to_bech32()
+    )
+    expect(Script.validatorToRewardAddress("Preview", PLUTUS_V2)).toBe(
+      CML.RewardAddress.new(0, payment).to_address().to_bech32()
+    )
+  })
+
+  it("applies parameters as data constants", () => {
+    const applied = Script.applyParamsToScript(PLUTUS_V2, [42n])
+
+    // (program 1.1.0 [(lam x x) (con data (I 42))])
+    expect(applied).toEqual(Script.makePlutusV2Script("4d4c010100320014c102182a0001"))
+    expect(Script.applyParamsToScript(PLUTUS_V2, [])).toEqual(PLUTUS_V2)
+  })
+
+  it("applies parameters one after another", () => {
+    const datum = new Data.Constr({ index: 0n, fields: [Bytes.fromHex("ab".repeat(40))] })
+
+    const once = Script.applyParamsToScript(PLUTUS_V2, [42n, datum])
+    const twice = Script.applyParamsToScript(Script.applyParamsToScript(PLUTUS_V2, [42n]), [datum])
+
+    expect(twice).toEqual(once)
+    expect(Script.toScriptHash(once)).not.toEqual(Script.toScriptHash(PLUTUS_V2))
+    expect(() => Script.applyParamsToScript(NATIVE, [42n])).toThrow()
+  })
+})
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import * as PrivateKey from "../src/core/PrivateKey.js"
+import * as Transaction from "../src/core/Transaction.js"
+import * as TransactionBody from "../src/core/TransactionBody.js"
+import * as TransactionWitnessSet from "../src/core/TransactionWitnessSet.js"
+import * as VKey from "../src/core/VKey.js"
+import * as Assets from "../src/sdk/Assets.js"
+import { makeSignBuilder, makeVKeyWitness } from "../src/sdk/builders/SignBuilderImpl.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import type * as Provider from "../src/sdk/provider/Provider.js"
+import type * as WalletNew from "../src/sdk/wallet/WalletNew.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const PROTOCOL_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384
+}
+
+const CHANGE_ADDRESS =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+const alice = PrivateKey.fromBytes(new Uint8Array(32).fill(1))
+const bob = PrivateKey.fromBytes(new Uint8Array(32).fill(2))
+const carol = PrivateKey.fromBytes(new Uint8Array(32).fill(3))
+
+const buildTransaction = async (): Promise<Transaction.Transaction> => {
+  const result = await makeTxBuilder({})
+    .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+    .build({
+      changeAddress: CHANGE_ADDRESS,
+      availableUtxos: [createTestUtxo({ txHash: "a".repeat(64), lovelace: 10_000_000n })],
+      protocolParameters: PROTOCOL_PARAMS
+    })
+  return result.toTransaction()
+}
+
+// Wallet holding a single key that signs every transaction it is given
+const makeKeyWallet = (privateKey: PrivateKey.PrivateKey): WalletNew.SigningWallet =>
+  ({
+    type: "signing",
+    Effect: {
+      signTx: (tx: Transaction.Transaction | string) =>
+        Effect.sync(() =>
+          TransactionWitnessSet.fromVKeyWitnesses([
+            makeVKeyWitness(typeof tx === "string" ? Transaction.fromCBORHex(tx) : tx, privateKey)
+          ])
+        )
+    }
+  }) as unknown as WalletNew.SigningWallet
+
+const makeProvider = (submitted: Array<string>): Provider.Provider =>
+  ({
+    Effect: {
+      submitTx: (cbor: string) =>
+        Effect.sync(() => {
+          submitted.push(cbor)
+          return "f".repeat(64)
+        })
+    }
+  }) as unknown as Provider.Provider
+
+const makeBuilder = (transaction: Transaction.Transaction, submitted: Array<string> = []) =>
+  makeSignBuilder({
+    transaction,
+    transactionWithFakeWitnesses: transaction,
+    fee: transaction.body.fee,
+    utxos: [],
+    provider: makeProvider(submitted),
+    wallet: makeKeyWallet(alice)
+  })
+
+const signerKeys = (transaction: Transaction.Transaction): Array<string> =>
+  (transaction.witnessSet.vkeyWitnesses ?? []).map((witness) => VKey.toHex(witness.vkey)).sort()
+
+describe("SignBuilder multi-signature", () => {
+  it("partialSign returns the wallet witnesses without assembling", async () => {
+    const transaction = await buildTransaction()
+
+    const witnessSet = await makeBuilder(transaction).partialSign()
+
+    expect(witnessSet.vkeyWitnesses).toHaveLength(1)
+    expect(VKey.toHex(witnessSet.vkeyWitnesses![0].vkey)).toBe(VKey.toHex(VKey.fromPrivateKey(alice)))
+  })
+
+  it("assembles witnesses from several signers without duplicates and submits", async () => {
+    const transaction = await buildTransaction()
+    const submitted: Array<string> = []
+    const builder = makeBuilder(transaction, submitted)
+
+    const aliceWitnesses = await builder.partialSign()
+    const bobWitnesses = TransactionWitnessSet.fromVKeyWitnesses([makeVKeyWitness(transaction, bob)])
+    const carolWitnesses = TransactionWitnessSet.fromVKeyWitnesses([
+      makeVKeyWitness(transaction, carol),
+      makeVKeyWitness(transaction, bob)
+    ])
+
+    const submitBuilder = await builder.assemble([aliceWitnesses, bobWitnesses, carolWitnesses])
+    const txHash = await submitBuilder.submit()
+
+    expect(txHash).toBe("f".repeat(64))
+    expect(submitted).toHaveLength(1)
+
+    const signed = Transaction.fromCBORHex(submitted[0])
+    expect(signed.body).toEqual(transaction.body)
+    expect(signerKeys(signed)).toEqual(
+      [alice, bob, carol].map((key) => VKey.toHex(VKey.fromPrivateKey(key))).sort()
+    )
+  })
+
+  it("signWithWitness adds an externally created witness", async () => {
+    const transaction = await buildTransaction()
+    const submitted: Array<string> = []
+
+    const submitBuilder = await makeBuilder(transaction, submitted).signWithWitness(
+      TransactionWitnessSet.fromVKeyWitnesses([makeVKeyWitness(transaction, bob)])
+    )
+    await submitBuilder.submit()
+
+    expect(signerKeys(Transaction.fromCBORHex(submitted[0]))).toEqual([VKey.toHex(VKey.fromPrivateKey(bob))])
+  })
+
+  it("rejects witnesses that do not sign this transaction", async () => {
+    const transaction = await buildTransaction()
+    const otherTransaction = new Transaction.Transaction({
+      ...transaction,
+      body: new TransactionBody.TransactionBody({ ...transaction.body, fee: transaction.body.fee + 1n })
+    })
+
+    await expect(
+      makeBuilder(transaction).assemble([
+        TransactionWitnessSet.fromVKeyWitnesses([makeVKeyWitness(otherTransaction, bob)])
+      ])
+    ).rejects.toThrow()
+  })
+})
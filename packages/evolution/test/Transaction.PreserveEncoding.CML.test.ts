@@ -0,0 +1,100 @@
+import * as CML from "@dcspark/cardano-multiplatform-lib-nodejs"
+import { Either, FastCheck } from "effect"
+import { describe, expect, it } from "vitest"
+
+import * as Bytes from "../src/core/Bytes.js"
+import * as CBOR from "../src/core/CBOR.js"
+import * as Ed25519Signature from "../src/core/Ed25519Signature.js"
+import * as Transaction from "../src/core/Transaction.js"
+import * as TransactionBody from "../src/core/TransactionBody.js"
+import * as TransactionHash from "../src/core/TransactionHash.js"
+import * as TransactionWitnessSet from "../src/core/TransactionWitnessSet.js"
+import * as VKey from "../src/core/VKey.js"
+import { hashTransaction } from "../src/utils/Hash.js"
+
+const [sample] = FastCheck.sample(
+  Transaction.arbitrary.filter(
+    (tx) => (tx.witnessSet.redeemers?.length ?? 0) > 0 && (tx.witnessSet.vkeyWitnesses?.length ?? 0) > 0
+  ),
+  { numRuns: 1, seed: 7 }
+)
+const [extraWitness] = FastCheck.sample(
+  FastCheck.record({ vkey: VKey.arbitrary, signature: Ed25519Signature.arbitrary }),
+  { numRuns: 1, seed: 8 }
+).map((witness) => new TransactionWitnessSet.VKeyWitness(witness))
+
+// Encodings another wallet may produce: indefinite-length maps and arrays
+const indefiniteMap = (bytes: Uint8Array, value = (_key: bigint, item: Uint8Array) => item) => {
+  const { items } = CBOR.containerItemBytes(bytes)
+  const entries = items.flatMap((item, i) =>
+    i % 2 === 0 ? [...item] : [...value(CBOR.fromCBORBytes(items[i - 1]) as bigint, item)]
+  )
+  return new Uint8Array([0xbf, ...entries, 0xff])
+}
+const indefiniteRedeemers = (key: bigint, item: Uint8Array) =>
+  key === 5n ? CBOR.encodeArrayAsIndefinite(CBOR.containerItemBytes(item).items) : item
+
+const txBytes = CBOR.encodeArrayAsIndefinite([
+  indefiniteMap(TransactionBody.toCBORBytes(sample.body)),
+  indefiniteMap(TransactionWitnessSet.toCBORBytes(sample.witnessSet), indefiniteRedeemers),
+  CBOR.toCBORBytes(sample.isValid),
+  CBOR.toCBORBytes(null)
+])
+const cmlTx = CML.Transaction.from_cbor_bytes(txBytes)
+
+describe("Transaction preserve-encoding mode", () => {
+  it("re-encodes decoded transactions byte-for-byte", () => {
+    const tx = Transaction.fromCBORBytes(txBytes, CBOR.PRESERVE_ENCODING_OPTIONS)
+
+    expect(Transaction.toCBORHex(tx, CBOR.PRESERVE_ENCODING_OPTIONS)).toBe(Bytes.toHex(txBytes))
+    expect(Bytes.toHex(TransactionBody.toCBORBytes(tx.body, CBOR.PRESERVE_ENCODING_OPTIONS))).toBe(
+      cmlTx.body().to_cbor_hex()
+    )
+    expect(TransactionHash.toHex(hashTransaction(tx.body))).toBe(CML.hash_transaction(cmlTx.body()).to_hex())
+  })
+
+  it("re-encodes with the default encoding outside preserve-encoding mode", () => {
+    const tx = Transaction.fromCBORBytes(txBytes)
+    const preserved = Transaction.fromCBORHex(Bytes.toHex(txBytes), CBOR.PRESERVE_ENCODING_OPTIONS)
+
+    expect(Transaction.toCBORHex(tx)).not.toBe(Bytes.toHex(txBytes))
+    expect(Transaction.toCBORHex(preserved)).toBe(Transaction.toCBORHex(tx))
+    expect(Transaction.toCBORHex(preserved, CBOR.CML_DEFAULT_OPTIONS)).toBe(Transaction.toCBORHex(tx))
+    expect(TransactionBody.toCBORHex(preserved.body)).toBe(TransactionBody.toCBORHex(tx.body))
+    expect(Transaction.equals(preserved, tx)).toBe(true)
+  })
+
+  it("keeps the body hash and script data when a witness is added", () => {
+    const tx = Transaction.fromCBORBytes(txBytes, CBOR.PRESERVE_ENCODING_OPTIONS)
+    const signed = new Transaction.Transaction({
+      ...tx,
+      witnessSet: new TransactionWitnessSet.TransactionWitnessSet({
+        ...tx.witnessSet,
+        vkeyWitnesses: [...(tx.witnessSet.vkeyWitnesses ?? []), extraWitness]
+      })
+    })
+
+    const cmlSigned = CML.Transaction.from_cbor_bytes(
+      Transaction.toCBORBytes(signed, CBOR.PRESERVE_ENCODING_OPTIONS)
+    )
+
+    expect(CML.hash_transaction(cmlSigned.body()).to_hex()).toBe(CML.hash_transaction(cmlTx.body()).to_hex())
+    expect(cmlSigned.witness_set().redeemers()!.to_cbor_hex()).toBe(cmlTx.witness_set().redeemers()!.to_cbor_hex())
+    expect(cmlSigned.witness_set().vkeywitnesses()!.len()).toBe(cmlTx.witness_set().vkeywitnesses()!.len() + 1)
+  })
+
+  it("preserves standalone bodies and witness sets", () => {
+    const bodyHex = cmlTx.body().to_cbor_hex()
+    const witnessSetHex = cmlTx.witness_set().to_cbor_hex()
+
+    const body = TransactionBody.fromCBORHex(bodyHex, CBOR.PRESERVE_ENCODING_OPTIONS)
+    const witnessSet = TransactionWitnessSet.fromCBORHex(witnessSetHex, CBOR.PRESERVE_ENCODING_OPTIONS)
+
+    expect(TransactionBody.toCBORHex(body, CBOR.PRESERVE_ENCODING_OPTIONS)).toBe(bodyHex)
+    expect(TransactionWitnessSet.toCBORHex(witnessSet, CBOR.PRESERVE_ENCODING_OPTIONS)).toBe(witnessSetHex)
+    expect(Either.getOrThrow(TransactionBody.Either.toCBORBytes(body, CBOR.PRESERVE_ENCODING_OPTIONS))).toEqual(
+      Bytes.fromHex(bodyHex)
+    )
+    expect(TransactionBody.toCBORHex(body)).not.toBe(bodyHex)
+  })
+})
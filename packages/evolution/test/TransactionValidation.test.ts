@@ -0,0 +1,279 @@
+import { describe, expect, it } from "@effect/vitest"
+
+import * as AddressStructure from "../src/core/AddressStructure.js"
+import * as Certificate from "../src/core/Certificate.js"
+import * as Credential from "../src/core/Credential.js"
+import * as PlutusData from "../src/core/Data.js"
+import * as KeyHash from "../src/core/KeyHash.js"
+import * as NativeScripts from "../src/core/NativeScripts.js"
+import * as PrivateKey from "../src/core/PrivateKey.js"
+import * as Redeemer from "../src/core/Redeemer.js"
+import * as ScriptHash from "../src/core/ScriptHash.js"
+import * as Transaction from "../src/core/Transaction.js"
+import * as TransactionBody from "../src/core/TransactionBody.js"
+import * as TransactionWitnessSet from "../src/core/TransactionWitnessSet.js"
+import * as VKey from "../src/core/VKey.js"
+import * as Address from "../src/sdk/Address.js"
+import * as Assets from "../src/sdk/Assets.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import * as Script from "../src/sdk/Script.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+import { hashTransaction } from "../src/utils/Hash.js"
+import * as TransactionValidation from "../src/utils/TransactionValidation.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const PROTOCOL_PARAMS: TransactionValidation.ValidationProtocolParams = {
+  minFeeA: 44,
+  minFeeB: 155_381,
+  maxTxSize: 16_384,
+  maxValSize: 5_000,
+  keyDeposit: 2_000_000n,
+  poolDeposit: 500_000_000n,
+  coinsPerUtxoByte: 4_310n,
+  collateralPercentage: 150,
+  maxCollateralInputs: 3,
+  priceMem: 0.0577,
+  priceStep: 0.0000721,
+  maxTxExMem: 14_000_000n,
+  maxTxExSteps: 10_000_000_000n,
+  minFeeRefScriptCostPerByte: 15
+}
+
+const BUILD_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384,
+  keyDeposit: 2_000_000n
+}
+
+const RECIPIENT =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+const keys = [7, 8].map((fill) => PrivateKey.fromBytes(new Uint8Array(32).fill(fill)))
+
+const addressOf = (paymentCredential: Credential.CredentialSchema) =>
+  Address.fromAddressStructure(new AddressStructure.AddressStructure({ networkId: 0, paymentCredential }))
+
+const KEY_ADDRESS = addressOf(Credential.makeKeyHash(KeyHash.fromPrivateKey(keys[0]).hash))
+
+const withBody = (tx: Transaction.Transaction, fields: Partial<TransactionBody.TransactionBody>) =>
+  new Transaction.Transaction({
+    body: new TransactionBody.TransactionBody({ ...tx.body, ...fields }),
+    witnessSet: tx.witnessSet,
+    isValid: tx.isValid,
+    auxiliaryData: tx.auxiliaryData
+  })
+
+const withWitnesses = (tx: Transaction.Transaction, fields: Partial<TransactionWitnessSet.TransactionWitnessSet>) =>
+  new Transaction.Transaction({
+    body: tx.body,
+    witnessSet: new TransactionWitnessSet.TransactionWitnessSet({ ...tx.witnessSet, ...fields }),
+    isValid: tx.isValid,
+    auxiliaryData: tx.auxiliaryData
+  })
+
+const sign = (tx: Transaction.Transaction, signers: ReadonlyArray<PrivateKey.PrivateKey> = [keys[0]]) =>
+  withWitnesses(tx, {
+    vkeyWitnesses: signers.map(
+      (key) =>
+        new TransactionWitnessSet.VKeyWitness({
+          vkey: VKey.fromPrivateKey(key),
+          signature: PrivateKey.sign(key, hashTransaction(tx.body).hash)
+        })
+    )
+  })
+
+const buildPayment = async (utxo: UTxO.UTxO) => {
+  const result = await makeTxBuilder({ network: "Preprod" })
+    .payToAddress({ address: RECIPIENT, assets: Assets.fromLovelace(2_000_000n) })
+    .build({ changeAddress: utxo.address, availableUtxos: [utxo], protocolParameters: BUILD_PARAMS })
+  return result.toTransaction()
+}
+
+const failureTags = (result: TransactionValidation.TransactionValidationResult) =>
+  result.failures.map((failure) => failure._tag)
+
+describe("validateTransaction", () => {
+  const utxo = createTestUtxo({ txHash: "a".repeat(64), address: KEY_ADDRESS, lovelace: 10_000_000n })
+
+  it("accepts a balanced transaction signed by its input keys", async () => {
+    const tx = sign(await buildPayment(utxo))
+
+    const result = TransactionValidation.validateTransaction(tx, [utxo], PROTOCOL_PARAMS, {
+      networkId: 0,
+      currentSlot: 1_000n
+    })
+
+    expect(result).toEqual({ isValid: true, failures: [] })
+    expect(() => TransactionValidation.assertValidTransaction(tx, [utxo], PROTOCOL_PARAMS)).not.toThrow()
+  })
+
+  it("reports inputs missing from the given UTxOs", async () => {
+    const tx = sign(await buildPayment(utxo))
+
+    const result = TransactionValidation.validateTransaction(tx, [], PROTOCOL_PARAMS)
+
+    expect(result.failures).toContainEqual(expect.objectContaining({ _tag: "BadInputs", inputs: ["a".repeat(64) + "#0"] }))
+    expect(failureTags(result)).not.toContain("ValueNotConserved")
+  })
+
+  it("balances deposits against inputs and outputs", async () => {
+    const tx = await buildPayment(utxo)
+    const registration = new Certificate.StakeRegistration({
+      stakeCredential: Credential.makeKeyHash(KeyHash.fromPrivateKey(keys[1]).hash)
+    })
+
+    const result = TransactionValidation.validateTransaction(
+      sign(withBody(tx, { certificates: [registration] })),
+      [utxo],
+      PROTOCOL_PARAMS
+    )
+
+    const failure = result.failures.find((failure) => failure._tag === "ValueNotConserved")
+    expect(failure?._tag === "ValueNotConserved" && failure.produced.lovelace - failure.consumed.lovelace).toBe(
+      PROTOCOL_PARAMS.keyDeposit
+    )
+  })
+
+  it("requires the fee to cover the transaction size", async () => {
+    const tx = sign(await buildPayment(utxo))
+
+    const result = TransactionValidation.validateTransaction(tx, [utxo], { ...PROTOCOL_PARAMS, minFeeB: 1_000_000 })
+
+    expect(failureTags(result)).toEqual(["FeeTooSmall"])
+  })
+
+  it("checks the minimum coin and value size of every output", async () => {
+    const tx = sign(await buildPayment(utxo))
+
+    expect(
+      failureTags(
+        TransactionValidation.validateTransaction(tx, [utxo], { ...PROTOCOL_PARAMS, coinsPerUtxoByte: 100_000n })
+      )
+    ).toEqual(["OutputTooSmall", "OutputTooSmall"])
+    expect(
+      failureTags(TransactionValidation.validateTransaction(tx, [utxo], { ...PROTOCOL_PARAMS, maxValSize: 4 }))
+    ).toEqual(["OutputValueTooBig", "OutputValueTooBig"])
+  })
+
+  it("checks the validity interval and network", async () => {
+    const tx = await buildPayment(utxo)
+    // The built fee does not cover the validity interval fields added below
+    const params = { ...PROTOCOL_PARAMS, minFeeA: 40 }
+
+    const expired = sign(withBody(tx, { ttl: 500n }))
+    expect(
+      failureTags(TransactionValidation.validateTransaction(expired, [utxo], params, { currentSlot: 500n }))
+    ).toEqual(["OutsideValidityInterval"])
+
+    const empty = sign(withBody(tx, { validityIntervalStart: 500n, ttl: 500n }))
+    expect(failureTags(TransactionValidation.validateTransaction(empty, [utxo], params))).toEqual([
+      "OutsideValidityInterval"
+    ])
+
+    const result = TransactionValidation.validateTransaction(sign(tx), [utxo], PROTOCOL_PARAMS, { networkId: 1 })
+    expect(result.failures.map((failure) => failure._tag === "WrongNetwork" && failure.location)).toEqual([
+      "outputs[0]",
+      "outputs[1]"
+    ])
+  })
+
+  it("requires valid signatures from input keys", async () => {
+    const tx = await buildPayment(utxo)
+
+    expect(TransactionValidation.validateTransaction(tx, [utxo], PROTOCOL_PARAMS).failures).toEqual([
+      expect.objectContaining({ _tag: "MissingVKeyWitnesses", keyHashes: [KeyHash.toHex(KeyHash.fromPrivateKey(keys[0]))] })
+    ])
+
+    // Signed before the fee was changed, so the signature no longer matches the body
+    const tampered = new Transaction.Transaction({
+      body: withBody(tx, { fee: tx.body.fee + 1n }).body,
+      witnessSet: sign(tx).witnessSet,
+      isValid: true,
+      auxiliaryData: null
+    })
+    expect(failureTags(TransactionValidation.validateTransaction(tampered, [utxo], PROTOCOL_PARAMS))).toEqual([
+      "ValueNotConserved",
+      "InvalidWitnesses",
+      "MissingVKeyWitnesses"
+    ])
+  })
+
+  it("checks the collateral of transactions with redeemers", async () => {
+    const redeemer = new Redeemer.Redeemer({
+      tag: "spend",
+      index: 0n,
+      data: PlutusData.constr(0n, []),
+      exUnits: [0n, 0n]
+    })
+    const tx = await buildPayment(utxo)
+    // The built fee does not cover the redeemer and collateral fields added below
+    const params = { ...PROTOCOL_PARAMS, minFeeA: 30 }
+    const withRedeemer = (body: Partial<TransactionBody.TransactionBody>) =>
+      withWitnesses(sign(withBody(tx, body)), { redeemers: [redeemer] })
+
+    expect(failureTags(TransactionValidation.validateTransaction(withRedeemer({}), [utxo], params))).toEqual(
+      ["NoCollateralInputs"]
+    )
+
+    const collateralized = withRedeemer({ collateralInputs: [tx.body.inputs[0]], totalCollateral: 1n })
+    expect(
+      failureTags(TransactionValidation.validateTransaction(collateralized, [utxo], params))
+    ).toEqual(["IncorrectTotalCollateral"])
+    expect(
+      failureTags(
+        TransactionValidation.validateTransaction(collateralized, [utxo], { ...params, collateralPercentage: 10_000 })
+      )
+    ).toEqual(["InsufficientCollateral", "IncorrectTotalCollateral"])
+  })
+
+  it("evaluates native scripts against the signatures and validity interval", async () => {
+    const script = NativeScripts.makeScriptAll([
+      NativeScripts.makeScriptPubKey(KeyHash.fromPrivateKey(keys[1]).hash).script,
+      NativeScripts.makeInvalidHereafter(50_000n).script
+    ])
+    const scriptUtxo = createTestUtxo({
+      txHash: "b".repeat(64),
+      address: addressOf(Credential.makeScriptHash(ScriptHash.fromScript(script).hash)),
+      lovelace: 10_000_000n
+    })
+    // Built as a key spend and resolved to the script address, so the fee leaves out the script
+    const tx = await buildPayment({ ...scriptUtxo, address: KEY_ADDRESS })
+    const params = { ...PROTOCOL_PARAMS, minFeeA: 30 }
+
+    expect(failureTags(TransactionValidation.validateTransaction(sign(tx, []), [scriptUtxo], params))).toEqual([
+      "MissingScriptWitnesses"
+    ])
+
+    const witnessed = withWitnesses(withBody(tx, { ttl: 40_000n }), { nativeScripts: [script] })
+    expect(
+      failureTags(TransactionValidation.validateTransaction(sign(witnessed, [keys[0]]), [scriptUtxo], params))
+    ).toEqual(["ScriptWitnessNotValidating"])
+    expect(
+      TransactionValidation.validateTransaction(sign(witnessed, [keys[1]]), [scriptUtxo], params).isValid
+    ).toBe(true)
+  })
+
+  it("requires redeemers and datums for Plutus script inputs", async () => {
+    const plutusScript = Script.makePlutusV2Script(Script.applyDoubleCborEncoding("49480100002221200101"))
+    const lockedUtxo: UTxO.UTxO = {
+      ...createTestUtxo({
+        txHash: "c".repeat(64),
+        address: addressOf(Credential.makeScriptHash(ScriptHash.fromScript(Script.toCoreScript(plutusScript)).hash)),
+        lovelace: 10_000_000n,
+        datumOption: { type: "datumHash", hash: "d".repeat(64) }
+      }),
+      scriptRef: plutusScript
+    }
+    const tx = sign(await buildPayment({ ...lockedUtxo, address: KEY_ADDRESS }))
+
+    const result = TransactionValidation.validateTransaction(tx, [lockedUtxo], PROTOCOL_PARAMS)
+
+    expect(result.failures).toEqual([
+      expect.objectContaining({ _tag: "FeeTooSmall" }),
+      expect.objectContaining({ _tag: "MissingRedeemers", purposes: ["spend:0"] }),
+      expect.objectContaining({ _tag: "MissingRequiredDatums", datumHashes: ["d".repeat(64)] })
+    ])
+  })
+})
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "@effect/vitest"
+
+import * as TransactionHash from "../src/core/TransactionHash.js"
+import * as Assets from "../src/sdk/Assets.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+import { hashTransaction } from "../src/utils/Hash.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const PROTOCOL_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384
+}
+
+const CHANGE_ADDRESS =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+const RECIPIENT_ADDRESS = "addr_test1vrm9x2zsux7va6w892g38tvchnzahvcd9tykqf3ygnmwtaqyfg52x"
+
+describe("TxBuilder chain", () => {
+  const utxos: Array<UTxO.UTxO> = [
+    createTestUtxo({ txHash: "a".repeat(64), outputIndex: 0, address: CHANGE_ADDRESS, lovelace: 20_000_000n }),
+    createTestUtxo({ txHash: "b".repeat(64), outputIndex: 3, address: CHANGE_ADDRESS, lovelace: 5_000_000n })
+  ]
+
+  const pay = (lovelace: bigint) =>
+    makeTxBuilder({}).payToAddress({ address: RECIPIENT_ADDRESS, assets: Assets.fromLovelace(lovelace) })
+
+  it("returns the new outputs indexed under the transaction hash", async () => {
+    const result = await pay(3_000_000n).chain({
+      changeAddress: CHANGE_ADDRESS,
+      availableUtxos: utxos,
+      protocolParameters: PROTOCOL_PARAMS
+    })
+
+    expect(result.txHash).toBe(TransactionHash.toHex(hashTransaction(result.transaction.body)))
+    expect(result.newOutputs).toHaveLength(result.transaction.body.outputs.length)
+    result.newOutputs.forEach((utxo, index) => {
+      expect(utxo.txHash).toBe(result.txHash)
+      expect(utxo.outputIndex).toBe(index)
+      expect(utxo.assets.lovelace).toBe(result.transaction.body.outputs[index].amount.coin)
+    })
+    expect(result.newOutputs[0].address).toBe(RECIPIENT_ADDRESS)
+  })
+
+  it("replaces spent UTxOs with the change in the updated set", async () => {
+    const result = await pay(3_000_000n).chain({
+      changeAddress: CHANGE_ADDRESS,
+      availableUtxos: utxos,
+      protocolParameters: PROTOCOL_PARAMS
+    })
+
+    expect(result.spentUtxos).toEqual([utxos[0]])
+    expect(result.updatedUtxos).toEqual([utxos[1], result.newOutputs[1]])
+    expect(result.updatedUtxos.some((utxo) => utxo.address === RECIPIENT_ADDRESS)).toBe(false)
+  })
+
+  it("builds dependent transactions from unsubmitted outputs", async () => {
+    let availableUtxos: ReadonlyArray<UTxO.UTxO> = [utxos[0]]
+    const hashes: Array<string> = []
+
+    for (let i = 0; i < 5; i++) {
+      const result = await pay(2_000_000n).chain({
+        changeAddress: CHANGE_ADDRESS,
+        availableUtxos,
+        protocolParameters: PROTOCOL_PARAMS
+      })
+
+      const spentHashes = result.transaction.body.inputs.map((input) => TransactionHash.toHex(input.transactionId))
+      expect(spentHashes).toEqual([i === 0 ? "a".repeat(64) : hashes[i - 1]])
+
+      hashes.push(result.txHash)
+      availableUtxos = result.updatedUtxos
+    }
+
+    expect(new Set(hashes).size).toBe(5)
+    expect(availableUtxos).toHaveLength(1)
+  })
+
+  it("returns a Left when the transaction cannot be built", async () => {
+    const result = await pay(100_000_000n).chainEither({
+      changeAddress: CHANGE_ADDRESS,
+      availableUtxos: utxos,
+      protocolParameters: PROTOCOL_PARAMS
+    })
+
+    expect(result._tag).toBe("Left")
+  })
+})
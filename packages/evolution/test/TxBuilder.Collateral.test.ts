@@ -0,0 +1,144 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import * as AddressStructure from "../src/core/AddressStructure.js"
+import * as CostModel from "../src/core/CostModel.js"
+import * as PlutusData from "../src/core/Data.js"
+import * as ScriptHash from "../src/core/ScriptHash.js"
+import * as Transaction from "../src/core/Transaction.js"
+import * as TransactionHash from "../src/core/TransactionHash.js"
+import * as Address from "../src/sdk/Address.js"
+import * as Assets from "../src/sdk/Assets.js"
+import type { Evaluator } from "../src/sdk/builders/TransactionBuilder.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import { calculateRequiredCollateral } from "../src/sdk/builders/TxBuilderImpl.js"
+import * as Script from "../src/sdk/Script.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const costModel = new CostModel.CostModel({ costs: [0n] })
+
+const PROTOCOL_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384,
+  costModels: new CostModel.CostModels({ PlutusV1: costModel, PlutusV2: costModel, PlutusV3: costModel }),
+  priceMem: 0.0577,
+  priceStep: 0.0000721,
+  maxTxExMem: 14_000_000n,
+  maxTxExSteps: 10_000_000_000n,
+  collateralPercentage: 150,
+  maxCollateralInputs: 3
+}
+
+const CHANGE_ADDRESS =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+// Always-succeeds PlutusV2 script, double CBOR encoded as returned by providers
+const plutusScript = Script.makePlutusV2Script(Script.applyDoubleCborEncoding("49480100002221200101"))
+const scriptAddress = Address.fromAddressStructure(
+  new AddressStructure.AddressStructure({
+    networkId: 0,
+    paymentCredential: ScriptHash.fromScript(Script.toCoreScript(plutusScript))
+  })
+)
+
+const UNIT_REDEEMER = PlutusData.toCBORHex(PlutusData.constr(0n, []))
+
+const evaluator: Evaluator = {
+  evaluate: (tx) =>
+    Effect.sync(() =>
+      (Transaction.fromCBORHex(tx).witnessSet.redeemers ?? []).map((redeemer) => ({
+        ex_units: { mem: 1_000_000, steps: 400_000_000 },
+        redeemer_index: Number(redeemer.index),
+        redeemer_tag: "spend" as const
+      }))
+    )
+}
+
+const scriptInput = createTestUtxo({
+  txHash: "c".repeat(64),
+  outputIndex: 0,
+  address: scriptAddress,
+  lovelace: 5_000_000n,
+  datumOption: { type: "inlineDatum", inline: UNIT_REDEEMER }
+})
+
+const spendScript = () =>
+  makeTxBuilder({ network: "Preprod" })
+    .attachScript({ script: plutusScript })
+    .collectFrom({ inputs: [scriptInput], redeemer: UNIT_REDEEMER })
+
+const walletUtxo = (txHash: string, lovelace: bigint, nativeAssets?: Record<string, bigint>): UTxO.UTxO =>
+  createTestUtxo({ txHash, outputIndex: 0, address: CHANGE_ADDRESS, lovelace, nativeAssets })
+
+describe("calculateRequiredCollateral", () => {
+  it("rounds the percentage of the fee up", () => {
+    expect(calculateRequiredCollateral(200_000n, 150)).toBe(300_000n)
+    expect(calculateRequiredCollateral(200_001n, 150)).toBe(300_002n)
+  })
+})
+
+describe("TxBuilder collateral", () => {
+  const buildOptions = { changeAddress: CHANGE_ADDRESS, protocolParameters: PROTOCOL_PARAMS, evaluator }
+
+  it("picks pure-ADA collateral and returns the excess", async () => {
+    const tokenUnit = "b".repeat(56) + "4d79546f6b656e"
+    const result = await spendScript().build({
+      ...buildOptions,
+      availableUtxos: [walletUtxo("a".repeat(64), 50_000_000n, { [tokenUnit]: 1n }), walletUtxo("d".repeat(64), 8_000_000n)]
+    })
+
+    const tx = await result.toTransaction()
+    const collateralInputs = tx.body.collateralInputs ?? []
+
+    expect(collateralInputs.map((input) => TransactionHash.toHex(input.transactionId))).toEqual(["d".repeat(64)])
+    expect(tx.body.totalCollateral).toBe(calculateRequiredCollateral(tx.body.fee, 150))
+    expect(tx.body.collateralReturn?.amount.coin).toBe(8_000_000n - tx.body.totalCollateral!)
+  })
+
+  it("adds no collateral to transactions without Plutus scripts", async () => {
+    const result = await makeTxBuilder({})
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .build({ ...buildOptions, availableUtxos: [walletUtxo("a".repeat(64), 10_000_000n)] })
+
+    const tx = await result.toTransaction()
+    expect(tx.body.collateralInputs).toBeUndefined()
+    expect(tx.body.totalCollateral).toBeUndefined()
+  })
+
+  it("uses manual collateral from build options", async () => {
+    const manual = walletUtxo("e".repeat(64), 7_000_000n)
+    const result = await spendScript().build({
+      ...buildOptions,
+      availableUtxos: [walletUtxo("a".repeat(64), 20_000_000n)],
+      collateral: [manual]
+    })
+
+    const tx = await result.toTransaction()
+    expect(tx.body.collateralInputs?.map((input) => TransactionHash.toHex(input.transactionId))).toEqual([
+      "e".repeat(64)
+    ])
+  })
+
+  it("fails when no pure-ADA UTxOs can cover the collateral", async () => {
+    const tokenUnit = "b".repeat(56) + "4d79546f6b656e"
+    await expect(
+      spendScript().build({
+        ...buildOptions,
+        availableUtxos: [walletUtxo("a".repeat(64), 50_000_000n, { [tokenUnit]: 1n })]
+      })
+    ).rejects.toThrow()
+  })
+
+  it("rejects more manual collateral inputs than allowed", async () => {
+    await expect(
+      spendScript().build({
+        ...buildOptions,
+        availableUtxos: [walletUtxo("a".repeat(64), 20_000_000n)],
+        collateral: ["1", "2", "3", "4"].map((digit) => walletUtxo(digit.repeat(64), 2_000_000n))
+      })
+    ).rejects.toThrow()
+  })
+})
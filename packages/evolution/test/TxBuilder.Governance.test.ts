@@ -0,0 +1,227 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Schema } from "effect"
+
+import * as Anchor from "../src/core/Anchor.js"
+import * as Bech32 from "../src/core/Bech32.js"
+import * as DRep from "../src/core/DRep.js"
+import * as GovernanceAction from "../src/core/GovernanceAction.js"
+import * as KeyHash from "../src/core/KeyHash.js"
+import * as NativeScripts from "../src/core/NativeScripts.js"
+import * as RewardAccount from "../src/core/RewardAccount.js"
+import * as ScriptHash from "../src/core/ScriptHash.js"
+import * as TransactionHash from "../src/core/TransactionHash.js"
+import * as TransactionIndex from "../src/core/TransactionIndex.js"
+import * as Url from "../src/core/Url.js"
+import * as VotingProcedures from "../src/core/VotingProcedures.js"
+import * as Address from "../src/sdk/Address.js"
+import * as Assets from "../src/sdk/Assets.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import * as Script from "../src/sdk/Script.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const DREP_DEPOSIT = 500_000_000n
+const GOV_ACTION_DEPOSIT = 100_000_000_000n
+
+const PROTOCOL_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384,
+  drepDeposit: DREP_DEPOSIT,
+  govActionDeposit: GOV_ACTION_DEPOSIT
+}
+
+const CHANGE_ADDRESS =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+const stakeCredential = Address.toAddressStructure(CHANGE_ADDRESS).stakingCredential!
+
+// Reward address sharing the stake credential of the change address
+const REWARD_ADDRESS = RewardAccount.toBech32(RewardAccount.make({ networkId: 0, stakeCredential }))
+
+const ANCHOR = new Anchor.Anchor({
+  anchorUrl: Url.make({ href: "https://example.com/metadata.json" }),
+  anchorDataHash: new Uint8Array(32).fill(3)
+})
+
+const drepKeyHash = KeyHash.make({ hash: stakeCredential.hash })
+
+const drepId = (prefix: "drep" | "drep_script", bytes: Uint8Array) => Schema.decodeSync(Bech32.FromBytes(prefix))(bytes)
+
+const govActionId = (index: bigint) =>
+  new GovernanceAction.GovActionId({
+    transactionId: TransactionHash.make({ hash: new Uint8Array(32).fill(1) }),
+    govActionIndex: TransactionIndex.make(index)
+  })
+
+const drepVoter = VotingProcedures.makeDRepVoter(DRep.fromKeyHash(drepKeyHash))
+
+const drepScript = NativeScripts.makeScriptPubKey(new Uint8Array(28).fill(9))
+const scriptDRepVoter = VotingProcedures.makeDRepVoter(DRep.fromScriptHash(ScriptHash.fromScript(drepScript)))
+
+const totalLovelaceOut = (outputs: ReadonlyArray<{ amount: Parameters<typeof Assets.valueToAssets>[0] }>) =>
+  outputs.reduce((total, output) => total + Assets.valueToAssets(output.amount).lovelace, 0n)
+
+describe("TxBuilder governance operations", () => {
+  const utxos: Array<UTxO.UTxO> = [
+    createTestUtxo({ txHash: "a".repeat(64), outputIndex: 0, address: CHANGE_ADDRESS, lovelace: 200_000_000_000n })
+  ]
+  const buildOptions = { changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS }
+
+  it("registers a DRep, paying the DRep deposit", async () => {
+    const result = await makeTxBuilder({})
+      .registerDRep({ drep: drepKeyHash, anchor: ANCHOR })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+    const certificate = tx.body.certificates?.[0]
+
+    expect(certificate?._tag).toBe("RegDrepCert")
+    expect(certificate?._tag === "RegDrepCert" && certificate.coin).toBe(DREP_DEPOSIT)
+    expect(totalLovelaceOut(tx.body.outputs) + tx.body.fee + DREP_DEPOSIT).toBe(200_000_000_000n)
+  })
+
+  it("registers DReps given by CIP-105 and CIP-129 ids", async () => {
+    const scriptHash = ScriptHash.fromScript(drepScript)
+    const ids = [
+      drepId("drep", drepKeyHash.hash),
+      drepId("drep", new Uint8Array([0x22, ...drepKeyHash.hash])),
+      drepId("drep_script", scriptHash.hash),
+      drepId("drep", new Uint8Array([0x23, ...scriptHash.hash]))
+    ]
+
+    const credentials = await Promise.all(
+      ids.map(async (drep) => {
+        const result = await makeTxBuilder({})
+          .registerDRep({ drep })
+          .attachScript({ script: Script.makeNativeScript(NativeScripts.toCBORHex(drepScript)) })
+          .build(buildOptions)
+        const tx = await result.toTransaction()
+        const certificate = tx.body.certificates?.[0]
+        return certificate?._tag === "RegDrepCert" ? certificate.drepCredential : undefined
+      })
+    )
+
+    expect(credentials).toEqual([drepKeyHash, drepKeyHash, scriptHash, scriptHash])
+  })
+
+  it("rejects malformed DRep ids", async () => {
+    await expect(
+      makeTxBuilder({})
+        .registerDRep({ drep: drepId("drep", new Uint8Array([0x24, ...drepKeyHash.hash])) })
+        .build(buildOptions)
+    ).rejects.toThrow()
+  })
+
+  it("refunds the DRep deposit on retirement", async () => {
+    const result = await makeTxBuilder({})
+      .retireDRep({ drep: drepKeyHash })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+
+    expect(tx.body.certificates?.[0]._tag).toBe("UnregDrepCert")
+    expect(totalLovelaceOut(tx.body.outputs) + tx.body.fee).toBe(200_000_000_000n + DREP_DEPOSIT)
+  })
+
+  it("updates a DRep and delegates votes", async () => {
+    const result = await makeTxBuilder({})
+      .updateDRep({ drep: drepKeyHash, anchor: ANCHOR })
+      .delegateVote({ rewardAddress: REWARD_ADDRESS, drep: DRep.alwaysAbstain() })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+
+    expect(tx.body.certificates?.map((cert) => cert._tag)).toEqual(["UpdateDrepCert", "VoteDelegCert"])
+  })
+
+  it("groups votes of one voter into a single voting procedures entry", async () => {
+    const result = await makeTxBuilder({})
+      .vote({ voter: drepVoter, govActionId: govActionId(0n), vote: VotingProcedures.yes() })
+      .vote({ voter: drepVoter, govActionId: govActionId(1n), vote: VotingProcedures.no(), anchor: ANCHOR })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+    const procedures = tx.body.votingProcedures?.procedures
+
+    expect(procedures?.size).toBe(1)
+    expect(Array.from(procedures!.values())[0].size).toBe(2)
+
+    // The change address key and the DRep key (here the stake key) both sign
+    const fakeWitnessTx = await result.toTransactionWithFakeWitnesses()
+    expect(fakeWitnessTx.witnessSet.vkeyWitnesses).toHaveLength(2)
+  })
+
+  it("rejects a second vote by the same voter on the same action", async () => {
+    await expect(
+      makeTxBuilder({})
+        .vote({ voter: drepVoter, govActionId: govActionId(0n), vote: VotingProcedures.yes() })
+        .vote({ voter: drepVoter, govActionId: govActionId(0n), vote: VotingProcedures.no() })
+        .build(buildOptions)
+    ).rejects.toThrow()
+  })
+
+  it("requires the script of script-based voters", async () => {
+    await expect(
+      makeTxBuilder({})
+        .vote({ voter: scriptDRepVoter, govActionId: govActionId(0n), vote: VotingProcedures.abstain() })
+        .build(buildOptions)
+    ).rejects.toThrow()
+
+    const result = await makeTxBuilder({})
+      .attachScript({ script: Script.makeNativeScript(NativeScripts.toCBORHex(drepScript)) })
+      .vote({ voter: scriptDRepVoter, govActionId: govActionId(0n), vote: VotingProcedures.abstain() })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+    expect(tx.witnessSet.nativeScripts).toHaveLength(1)
+  })
+
+  it("debits the governance action deposit for proposals", async () => {
+    const result = await makeTxBuilder({})
+      .propose({ rewardAddress: REWARD_ADDRESS, governanceAction: GovernanceAction.makeInfo(), anchor: ANCHOR })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+
+    expect(tx.body.proposalProcedures?.procedures).toHaveLength(1)
+    expect(tx.body.proposalProcedures?.procedures[0].deposit).toBe(GOV_ACTION_DEPOSIT)
+    expect(totalLovelaceOut(tx.body.outputs) + tx.body.fee + GOV_ACTION_DEPOSIT).toBe(200_000_000_000n)
+  })
+
+  it("rejects redeemers for proposals without a guardrail script", async () => {
+    await expect(
+      makeTxBuilder({})
+        .propose({
+          rewardAddress: REWARD_ADDRESS,
+          governanceAction: GovernanceAction.makeInfo(),
+          anchor: ANCHOR,
+          redeemer: "d87980"
+        })
+        .build(buildOptions)
+    ).rejects.toThrow()
+  })
+
+  it("fails to register a DRep without drepDeposit in protocol parameters", async () => {
+    const { drepDeposit: _, ...withoutDeposit } = PROTOCOL_PARAMS
+
+    await expect(
+      makeTxBuilder({})
+        .registerDRep({ drep: drepKeyHash })
+        .build({ ...buildOptions, protocolParameters: withoutDeposit })
+    ).rejects.toThrow()
+  })
+
+  it("rejects votes from predefined DReps", async () => {
+    await expect(
+      makeTxBuilder({})
+        .vote({
+          voter: VotingProcedures.makeDRepVoter(DRep.alwaysAbstain()),
+          govActionId: govActionId(0n),
+          vote: VotingProcedures.yes()
+        })
+        .build(buildOptions)
+    ).rejects.toThrow()
+  })
+})
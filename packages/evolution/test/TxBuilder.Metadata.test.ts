@@ -0,0 +1,121 @@
+import { describe, expect, it } from "@effect/vitest"
+
+import * as PlutusData from "../src/core/Data.js"
+import type * as TransactionMetadatum from "../src/core/TransactionMetadatum.js"
+import * as Assets from "../src/sdk/Assets.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import * as Metadata from "../src/sdk/Metadata.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+import { hashAuxiliaryData } from "../src/utils/Hash.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const PROTOCOL_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384
+}
+
+const CHANGE_ADDRESS =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+describe("Metadata helpers", () => {
+  it("chunks long strings into 64-byte pieces without splitting characters", () => {
+    const text = "é".repeat(40) // 80 bytes
+
+    const chunks = Metadata.chunkString(text)
+
+    expect(chunks).toHaveLength(2)
+    expect(chunks.join("")).toBe(text)
+    expect(chunks.every((chunk) => new TextEncoder().encode(chunk).length <= 64)).toBe(true)
+  })
+
+  it("converts plain values to metadatums", () => {
+    const metadatum = Metadata.toMetadatum({ name: "x".repeat(100), count: 3, skipped: undefined })
+
+    expect(metadatum._tag).toBe("MetadatumMap")
+    const entries = (metadatum as TransactionMetadatum.MetadatumMap).value
+    expect(entries.size).toBe(2)
+
+    const name = Array.from(entries.values())[0]
+    expect(name._tag).toBe("ArrayMetadatum")
+    expect((name as TransactionMetadatum.ArrayMetadatum).value).toHaveLength(2)
+  })
+
+  it("rejects map keys longer than 64 bytes", () => {
+    expect(() => Metadata.toMetadatum({ ["k".repeat(65)]: 1 })).toThrow()
+  })
+
+  it("builds CIP-20 messages under label 674", () => {
+    const { label, metadata } = Metadata.cip20(["hello", "m".repeat(70)])
+
+    expect(label).toBe(674n)
+    expect(metadata).toEqual({ msg: ["hello", "m".repeat(64), "m".repeat(6)] })
+  })
+
+  it("builds CIP-25 v2 metadata with byte keys", () => {
+    const policyId = "c".repeat(56)
+    const { label, metadata } = Metadata.cip25({ [policyId]: { "4e4654": { name: "NFT", image: "ipfs://x" } } }, 2)
+    const entries = metadata as ReadonlyMap<Metadata.MetadataValue, Metadata.MetadataValue>
+
+    expect(label).toBe(721n)
+    expect(entries.get("version")).toBe(2n)
+    expect(Array.from(entries.keys())[0]).toBeInstanceOf(Uint8Array)
+  })
+
+  it("builds CIP-68 datums", () => {
+    const datum = Metadata.cip68Datum({ name: "NFT" })
+
+    expect(datum.type).toBe("inlineDatum")
+    const expected = PlutusData.constr(0n, [
+      PlutusData.map([[PlutusData.bytearray("6e616d65"), PlutusData.bytearray("4e4654")]]),
+      PlutusData.int(1n),
+      PlutusData.constr(0n, [])
+    ])
+    expect(datum.type === "inlineDatum" && datum.inline).toBe(PlutusData.toCBORHex(expected))
+  })
+})
+
+describe("TxBuilder attachMetadata", () => {
+  const utxos: Array<UTxO.UTxO> = [
+    createTestUtxo({ txHash: "a".repeat(64), outputIndex: 0, address: CHANGE_ADDRESS, lovelace: 10_000_000n })
+  ]
+  const buildOptions = { changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS }
+
+  it("attaches auxiliary data and its hash", async () => {
+    const result = await makeTxBuilder({})
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .attachMetadata(Metadata.cip20("Invoice #42"))
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+
+    expect(tx.auxiliaryData).not.toBeNull()
+    expect(tx.body.auxiliaryDataHash?.bytes).toEqual(hashAuxiliaryData(tx.auxiliaryData!).bytes)
+  })
+
+  it("counts the auxiliary data size in the fee", async () => {
+    const plain = await makeTxBuilder({})
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .build(buildOptions)
+    const withMetadata = await makeTxBuilder({})
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .attachMetadata({ label: 1, metadata: "m".repeat(500) })
+      .build(buildOptions)
+
+    const plainTx = await plain.toTransaction()
+    const metadataTx = await withMetadata.toTransaction()
+
+    expect(metadataTx.body.fee - plainTx.body.fee).toBeGreaterThan(44n * 500n)
+  })
+
+  it("rejects a label attached twice", async () => {
+    await expect(
+      makeTxBuilder({})
+        .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+        .attachMetadata({ label: 674, metadata: "a" })
+        .attachMetadata({ label: 674n, metadata: "b" })
+        .build(buildOptions)
+    ).rejects.toThrow()
+  })
+})
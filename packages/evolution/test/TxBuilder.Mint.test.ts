@@ -0,0 +1,199 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import * as AssetName from "../src/core/AssetName.js"
+import * as CostModel from "../src/core/CostModel.js"
+import type * as Mint from "../src/core/Mint.js"
+import * as NativeScripts from "../src/core/NativeScripts.js"
+import * as PolicyId from "../src/core/PolicyId.js"
+import * as ScriptHash from "../src/core/ScriptHash.js"
+import * as Assets from "../src/sdk/Assets.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import * as Script from "../src/sdk/Script.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const PROTOCOL_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384
+}
+
+const CHANGE_ADDRESS =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+const RECEIVER_ADDRESS =
+  "addr_test1qpw0djgj0x59ngrjvqthn7enhvruxnsavsw5th63la3mjel3tkc974sr23jmlzgq5zda4gtv8k9cy38756r9y3qgmkqqjz6aa7"
+
+// sig-based native policy over an arbitrary key hash
+const nativePolicy = NativeScripts.makeScriptPubKey(new Uint8Array(28).fill(7))
+const nativeScript = Script.makeNativeScript(NativeScripts.toCBORHex(nativePolicy))
+const nativePolicyId = ScriptHash.toHex(ScriptHash.fromScript(nativePolicy))
+
+// Always-succeeds PlutusV2 script, double CBOR encoded as returned by providers
+const plutusScript = Script.makePlutusV2Script(Script.applyDoubleCborEncoding("49480100002221200101"))
+
+const TOKEN_NAME = "4d79546f6b656e" // "MyToken"
+
+// Mint maps are keyed by PolicyId/AssetName instances, so look entries up by hex
+const mintAmount = (mint: Mint.Mint | undefined, policyId: string, assetName: string) => {
+  for (const [policy, assets] of mint ?? []) {
+    if (PolicyId.toHex(policy) !== policyId) continue
+    for (const [name, amount] of assets) {
+      if (AssetName.toHex(name) === assetName) return amount
+    }
+  }
+  return undefined
+}
+
+describe("TxBuilder mintAssets / burnAssets", () => {
+  const utxos: Array<UTxO.UTxO> = [
+    createTestUtxo({ txHash: "a".repeat(64), outputIndex: 0, address: CHANGE_ADDRESS, lovelace: 10_000_000n })
+  ]
+
+  it("mints tokens under a native policy and routes them to change", async () => {
+    const unit = nativePolicyId + TOKEN_NAME
+
+    const result = await makeTxBuilder({})
+      .attachScript({ script: nativeScript })
+      .mintAssets({ assets: Assets.make(0n, { [unit]: 1_000n }) })
+      .build({ changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS })
+
+    const tx = await result.toTransaction()
+
+    expect(tx.body.mint?.size).toBe(1)
+    expect(mintAmount(tx.body.mint, nativePolicyId, TOKEN_NAME)).toBe(1_000n)
+    expect(tx.witnessSet.nativeScripts).toHaveLength(1)
+
+    const changeAssets = Assets.valueToAssets(tx.body.outputs[0].amount)
+    expect(changeAssets[unit]).toBe(1_000n)
+    expect(changeAssets.lovelace + tx.body.fee).toBe(10_000_000n)
+  })
+
+  it("pays minted tokens to a receiver", async () => {
+    const unit = nativePolicyId + TOKEN_NAME
+
+    const result = await makeTxBuilder({})
+      .attachScript({ script: nativeScript })
+      .mintAssets({ assets: Assets.make(0n, { [unit]: 5n }) })
+      .payToAddress({ address: RECEIVER_ADDRESS, assets: Assets.make(2_000_000n, { [unit]: 5n }) })
+      .build({ changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS })
+
+    const tx = await result.toTransaction()
+
+    expect(Assets.valueToAssets(tx.body.outputs[0].amount)[unit]).toBe(5n)
+    // Change holds no leftover (zero-amount) token entry
+    expect(Assets.valueToAssets(tx.body.outputs[1].amount)[unit]).toBeUndefined()
+  })
+
+  it("burns tokens by selecting the UTxO that holds them", async () => {
+    const unit = nativePolicyId + TOKEN_NAME
+    const walletUtxos: Array<UTxO.UTxO> = [
+      ...utxos,
+      createTestUtxo({
+        txHash: "b".repeat(64),
+        outputIndex: 1,
+        address: CHANGE_ADDRESS,
+        lovelace: 2_000_000n,
+        nativeAssets: { [unit]: 10n }
+      })
+    ]
+
+    const result = await makeTxBuilder({})
+      .attachScript({ script: nativeScript })
+      .burnAssets({ assets: Assets.make(0n, { [unit]: 4n }) })
+      .build({ changeAddress: CHANGE_ADDRESS, availableUtxos: walletUtxos, protocolParameters: PROTOCOL_PARAMS })
+
+    const tx = await result.toTransaction()
+
+    expect(mintAmount(tx.body.mint, nativePolicyId, TOKEN_NAME)).toBe(-4n)
+    const tokenInChange = tx.body.outputs.reduce(
+      (total, output) => total + (Assets.valueToAssets(output.amount)[unit] ?? 0n),
+      0n
+    )
+    expect(tokenInChange).toBe(6n)
+  })
+
+  it("omits the mint field when a mint is fully burned again", async () => {
+    const unit = nativePolicyId + TOKEN_NAME
+
+    const result = await makeTxBuilder({})
+      .attachScript({ script: nativeScript })
+      .mintAssets({ assets: Assets.make(0n, { [unit]: 3n }) })
+      .burnAssets({ assets: Assets.make(0n, { [unit]: 3n }) })
+      .build({ changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS })
+
+    const tx = await result.toTransaction()
+    expect(tx.body.mint).toBeUndefined()
+  })
+
+  it("attaches Plutus minting policies to the witness set", async () => {
+    const policyId = ScriptHash.toHex(ScriptHash.fromScript(Script.toCoreScript(plutusScript)))
+    const unit = policyId + TOKEN_NAME
+
+    const costModel = new CostModel.CostModel({ costs: [0n] })
+    const result = await makeTxBuilder({ network: "Preprod" })
+      .attachScript({ script: plutusScript })
+      .mintAssets({ assets: Assets.make(0n, { [unit]: 1n }), redeemer: "d87980" })
+      .build({
+        changeAddress: CHANGE_ADDRESS,
+        availableUtxos: utxos,
+        protocolParameters: {
+          ...PROTOCOL_PARAMS,
+          costModels: new CostModel.CostModels({ PlutusV1: costModel, PlutusV2: costModel, PlutusV3: costModel }),
+          priceMem: 0.0577,
+          priceStep: 0.0000721,
+          maxTxExMem: 14_000_000n,
+          maxTxExSteps: 10_000_000_000n,
+          collateralPercentage: 150
+        },
+        evaluator: {
+          evaluate: () =>
+            Effect.succeed([{ ex_units: { mem: 1_000, steps: 1_000 }, redeemer_index: 0, redeemer_tag: "mint" as const }])
+        }
+      })
+
+    const tx = await result.toTransaction()
+
+    expect(mintAmount(tx.body.mint, policyId, TOKEN_NAME)).toBe(1n)
+    expect(tx.witnessSet.plutusV2Scripts).toHaveLength(1)
+  })
+
+  it("fails when the policy script is not attached", async () => {
+    const unit = nativePolicyId + TOKEN_NAME
+
+    await expect(
+      makeTxBuilder({})
+        .mintAssets({ assets: Assets.make(0n, { [unit]: 1n }) })
+        .build({ changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS })
+    ).rejects.toThrow()
+  })
+
+  it("fails when a Plutus policy has no redeemer", async () => {
+    const policyId = ScriptHash.toHex(ScriptHash.fromScript(Script.toCoreScript(plutusScript)))
+
+    await expect(
+      makeTxBuilder({})
+        .attachScript({ script: plutusScript })
+        .mintAssets({ assets: Assets.make(0n, { [policyId + TOKEN_NAME]: 1n }) })
+        .build({ changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS })
+    ).rejects.toThrow()
+  })
+
+  it("rejects lovelace and non-positive burn amounts", async () => {
+    const unit = nativePolicyId + TOKEN_NAME
+
+    await expect(
+      makeTxBuilder({})
+        .mintAssets({ assets: Assets.fromLovelace(1n) })
+        .build({ changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS })
+    ).rejects.toThrow()
+
+    await expect(
+      makeTxBuilder({})
+        .attachScript({ script: nativeScript })
+        .burnAssets({ assets: Assets.make(0n, { [unit]: -1n }) })
+        .build({ changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS })
+    ).rejects.toThrow()
+  })
+})
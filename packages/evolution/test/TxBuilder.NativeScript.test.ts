@@ -0,0 +1,150 @@
+import { describe, expect, it } from "@effect/vitest"
+
+import * as Bytes from "../src/core/Bytes.js"
+import * as KeyHash from "../src/core/KeyHash.js"
+import * as NativeScripts from "../src/core/NativeScripts.js"
+import * as PrivateKey from "../src/core/PrivateKey.js"
+import * as Transaction from "../src/core/Transaction.js"
+import * as TransactionWitnessSet from "../src/core/TransactionWitnessSet.js"
+import * as Assets from "../src/sdk/Assets.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import { createClient } from "../src/sdk/client/ClientImpl.js"
+import type * as WalletNew from "../src/sdk/wallet/WalletNew.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const PROTOCOL_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384
+}
+
+const CHANGE_ADDRESS =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+const keys = [1, 2, 3].map((fill) => PrivateKey.fromBytes(new Uint8Array(32).fill(fill)))
+const signers = keys.map((key) => NativeScripts.makeScriptPubKey(KeyHash.fromPrivateKey(key).hash).script)
+
+// 2-of-3 multisig that is only valid between slots 1_000 and 50_000
+const multisig = NativeScripts.makeScriptAll([
+  NativeScripts.makeScriptNOfK(2n, signers).script,
+  NativeScripts.makeInvalidBefore(1_000n).script,
+  NativeScripts.makeInvalidHereafter(50_000n).script
+])
+
+const makeWallet = (signingKeys: ReadonlyArray<PrivateKey.PrivateKey>): WalletNew.SigningWallet => {
+  const client = createClient({
+    network: "preprod",
+    wallet: {
+      type: "native-script",
+      script: NativeScripts.toCBORHex(multisig),
+      signingKeys: signingKeys.map(PrivateKey.toBech32)
+    }
+  })
+  // The builder takes the wallet itself, not the client around it
+  return {
+    type: "signing",
+    address: client.address,
+    rewardAddress: client.rewardAddress,
+    signTx: client.signTx,
+    signMessage: client.signMessage,
+    Effect: client.Effect
+  }
+}
+
+describe("NativeScripts analysis", () => {
+  it("lists every referenced key hash once", () => {
+    const script = NativeScripts.makeScriptAny([signers[0], NativeScripts.makeScriptAll([signers[1], signers[0]]).script])
+
+    expect(NativeScripts.keyHashes(script.script).map(Bytes.toHex)).toEqual([
+      Bytes.toHex(KeyHash.fromPrivateKey(keys[0]).hash),
+      Bytes.toHex(KeyHash.fromPrivateKey(keys[1]).hash)
+    ])
+  })
+
+  it("reports only timelocks every branch must satisfy", () => {
+    expect(NativeScripts.requiredValidityInterval(multisig.script)).toEqual({
+      invalidBefore: 1_000n,
+      invalidHereafter: 50_000n
+    })
+
+    const optional = NativeScripts.makeScriptAny([signers[0], NativeScripts.makeInvalidBefore(5n).script])
+    expect(NativeScripts.requiredValidityInterval(optional.script)).toEqual({
+      invalidBefore: undefined,
+      invalidHereafter: undefined
+    })
+  })
+})
+
+describe("Native script wallet", () => {
+  it("derives an enterprise script address", async () => {
+    const wallet = makeWallet([])
+
+    const address = await wallet.address()
+
+    expect(address.startsWith("addr_test1w")).toBe(true)
+    expect(await wallet.rewardAddress()).toBeNull()
+  })
+
+  it("witnesses the script, folds its timelocks and sizes the fee for every signer", async () => {
+    const wallet = makeWallet([keys[0]])
+    const address = await wallet.address()
+    const utxo = createTestUtxo({ txHash: "a".repeat(64), address, lovelace: 10_000_000n })
+
+    const result = await makeTxBuilder({ wallet, network: "Preprod" })
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .build({ changeAddress: address, availableUtxos: [utxo], protocolParameters: PROTOCOL_PARAMS })
+    const tx = await result.toTransaction()
+
+    expect(tx.witnessSet.nativeScripts).toEqual([multisig])
+    expect(tx.body.validityIntervalStart).toBe(1_000n)
+    expect(tx.body.ttl).toBe(50_000n)
+
+    // Fully signed by all three co-signers the transaction still fits the fee
+    const witnesses = await Promise.all(
+      keys.map((key) => makeWallet([key]).signTx(tx, { utxos: [utxo] }))
+    )
+    const signed = new Transaction.Transaction({
+      body: tx.body,
+      witnessSet: new TransactionWitnessSet.TransactionWitnessSet({
+        ...tx.witnessSet,
+        vkeyWitnesses: witnesses.flatMap((witnessSet) => witnessSet.vkeyWitnesses ?? [])
+      }),
+      isValid: tx.isValid,
+      auxiliaryData: tx.auxiliaryData
+    })
+    expect(tx.body.fee).toBeGreaterThanOrEqual(44n * BigInt(Transaction.toCBORBytes(signed).length) + 155_381n)
+  })
+
+  it("signs only with the co-signer keys it holds", async () => {
+    const wallet = makeWallet([keys[0], keys[1]])
+    const address = await wallet.address()
+    const utxo = createTestUtxo({ txHash: "a".repeat(64), address, lovelace: 10_000_000n })
+
+    const result = await makeTxBuilder({ wallet, network: "Preprod" })
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .build({ changeAddress: address, availableUtxos: [utxo], protocolParameters: PROTOCOL_PARAMS })
+    const tx = await result.toTransaction()
+
+    const witnessSet = await wallet.signTx(tx, { utxos: [utxo] })
+
+    expect(witnessSet.vkeyWitnesses?.map((witness) => KeyHash.fromVKey(witness.vkey).hash)).toEqual([
+      KeyHash.fromPrivateKey(keys[0]).hash,
+      KeyHash.fromPrivateKey(keys[1]).hash
+    ])
+    expect((await wallet.signTx(tx, { utxos: [] })).vkeyWitnesses ?? []).toHaveLength(0)
+  })
+
+  it("leaves the script out when no wallet UTxO is spent", async () => {
+    const wallet = makeWallet([keys[0]])
+    const keyUtxo = createTestUtxo({ txHash: "b".repeat(64), address: CHANGE_ADDRESS, lovelace: 10_000_000n })
+
+    const result = await makeTxBuilder({ wallet, network: "Preprod" })
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .build({ changeAddress: CHANGE_ADDRESS, availableUtxos: [keyUtxo], protocolParameters: PROTOCOL_PARAMS })
+    const tx = await result.toTransaction()
+
+    expect(tx.witnessSet.nativeScripts ?? []).toHaveLength(0)
+    expect(tx.body.ttl).toBeUndefined()
+  })
+})
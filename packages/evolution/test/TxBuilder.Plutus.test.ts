@@ -0,0 +1,364 @@
+import { describe, expect, it } from "@effect/vitest"
+import { Effect } from "effect"
+
+import * as AddressStructure from "../src/core/AddressStructure.js"
+import * as CostModel from "../src/core/CostModel.js"
+import * as PlutusData from "../src/core/Data.js"
+import * as Redeemer from "../src/core/Redeemer.js"
+import * as ScriptHash from "../src/core/ScriptHash.js"
+import * as Transaction from "../src/core/Transaction.js"
+import * as TransactionHash from "../src/core/TransactionHash.js"
+import * as TransactionInput from "../src/core/TransactionInput.js"
+import * as TransactionOutput from "../src/core/TransactionOutput.js"
+import * as Address from "../src/sdk/Address.js"
+import * as Assets from "../src/sdk/Assets.js"
+import type { EvaluationContext, Evaluator, UPLCEvalFunction } from "../src/sdk/builders/TransactionBuilder.js"
+import { createUPLCEvaluator, EvaluationError, makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import { calculateExecutionFee } from "../src/sdk/builders/TxBuilderImpl.js"
+import type { EvalRedeemer } from "../src/sdk/EvalRedeemer.js"
+import * as Script from "../src/sdk/Script.js"
+import * as Time from "../src/sdk/Time.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+import { hashPlutusData, hashScriptData } from "../src/utils/Hash.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const emptyCostModel = new CostModel.CostModel({ costs: [] })
+const COST_MODELS = new CostModel.CostModels({
+  PlutusV1: new CostModel.CostModel({ costs: [1n, 2n, 3n] }),
+  PlutusV2: new CostModel.CostModel({ costs: [4n, 5n, 6n] }),
+  PlutusV3: emptyCostModel
+})
+
+const PROTOCOL_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384,
+  costModels: COST_MODELS,
+  priceMem: 0.0577,
+  priceStep: 0.0000721,
+  maxTxExMem: 14_000_000n,
+  maxTxExSteps: 10_000_000_000n,
+  collateralPercentage: 150
+}
+
+const CHANGE_ADDRESS =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+// Always-succeeds PlutusV2 script, double CBOR encoded as returned by providers
+const plutusScript = Script.makePlutusV2Script(Script.applyDoubleCborEncoding("49480100002221200101"))
+const scriptHash = ScriptHash.fromScript(Script.toCoreScript(plutusScript))
+const scriptAddress = Address.fromAddressStructure(
+  new AddressStructure.AddressStructure({ networkId: 0, paymentCredential: scriptHash })
+)
+
+const UNIT_REDEEMER = PlutusData.toCBORHex(PlutusData.constr(0n, []))
+const EX_UNITS = { mem: 1_000_000, steps: 400_000_000 }
+
+const TAGS: Record<string, EvalRedeemer["redeemer_tag"]> = {
+  spend: "spend",
+  mint: "mint",
+  cert: "publish",
+  reward: "withdraw",
+  vote: "vote",
+  propose: "propose"
+}
+
+// Returns fixed execution units for every redeemer of the transaction
+const makeEvaluator = (contexts: Array<EvaluationContext> = []): Evaluator => ({
+  evaluate: (tx, _additionalUtxos, context) =>
+    Effect.sync(() => {
+      contexts.push(context)
+      return (Transaction.fromCBORHex(tx).witnessSet.redeemers ?? []).map((redeemer) => ({
+        ex_units: EX_UNITS,
+        redeemer_index: Number(redeemer.index),
+        redeemer_tag: TAGS[redeemer.tag]
+      }))
+    })
+})
+
+const walletUtxo = createTestUtxo({
+  txHash: "a".repeat(64),
+  outputIndex: 0,
+  address: CHANGE_ADDRESS,
+  lovelace: 20_000_000n
+})
+
+const scriptUtxo = (txHash: string, datumOption?: UTxO.UTxO["datumOption"]): UTxO.UTxO =>
+  createTestUtxo({ txHash, outputIndex: 1, address: scriptAddress, lovelace: 5_000_000n, datumOption })
+
+const inlineDatum = { type: "inlineDatum" as const, inline: UNIT_REDEEMER }
+
+describe("calculateExecutionFee", () => {
+  it("prices memory and steps and rounds up", () => {
+    // 1_000_000 * 0.0577 + 400_000_000 * 0.0000721 = 57_700 + 28_840
+    expect(calculateExecutionFee({ mem: 1_000_000n, steps: 400_000_000n }, PROTOCOL_PARAMS)).toBe(86_540n)
+    expect(calculateExecutionFee({ mem: 1n, steps: 1n }, PROTOCOL_PARAMS)).toBe(1n)
+    expect(calculateExecutionFee({ mem: 0n, steps: 0n }, PROTOCOL_PARAMS)).toBe(0n)
+  })
+})
+
+describe("TxBuilder Plutus spending", () => {
+  const buildOptions = {
+    changeAddress: CHANGE_ADDRESS,
+    availableUtxos: [walletUtxo],
+    protocolParameters: PROTOCOL_PARAMS,
+    evaluator: makeEvaluator()
+  }
+
+  it("indexes spend redeemers by sorted input order and fills ExUnits", async () => {
+    const late = scriptUtxo("f".repeat(64), inlineDatum)
+    const early = scriptUtxo("1".repeat(64), inlineDatum)
+
+    const result = await makeTxBuilder({ network: "Preprod" })
+      .attachScript({ script: plutusScript })
+      .collectFrom({ inputs: [late, early], redeemer: UNIT_REDEEMER })
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+    const inputHashes = tx.body.inputs.map((input) => TransactionHash.toHex(input.transactionId))
+    const redeemers = tx.witnessSet.redeemers ?? []
+
+    expect(redeemers.map((redeemer) => redeemer.index)).toEqual([
+      BigInt(inputHashes.indexOf("1".repeat(64))),
+      BigInt(inputHashes.indexOf("f".repeat(64)))
+    ])
+    expect(redeemers.every((redeemer) => redeemer.tag === "spend")).toBe(true)
+    expect(redeemers.every((redeemer) => redeemer.exUnits[0] === BigInt(EX_UNITS.mem))).toBe(true)
+    expect(tx.witnessSet.plutusV2Scripts).toHaveLength(1)
+  })
+
+  it("computes the script data hash over the used language cost models", async () => {
+    const result = await makeTxBuilder({ network: "Preprod" })
+      .attachScript({ script: plutusScript })
+      .collectFrom({ inputs: [scriptUtxo("c".repeat(64), inlineDatum)], redeemer: UNIT_REDEEMER })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+    const usedCostModels = new CostModel.CostModels({
+      PlutusV1: emptyCostModel,
+      PlutusV2: COST_MODELS.PlutusV2,
+      PlutusV3: emptyCostModel
+    })
+
+    expect(tx.body.scriptDataHash?.hash).toEqual(hashScriptData(tx.witnessSet.redeemers!, usedCostModels).hash)
+  })
+
+  it("includes the execution cost in the fee", async () => {
+    const result = await makeTxBuilder({ network: "Preprod" })
+      .attachScript({ script: plutusScript })
+      .collectFrom({ inputs: [scriptUtxo("c".repeat(64), inlineDatum)], redeemer: UNIT_REDEEMER })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+    const sizeFee = 44n * BigInt(Transaction.toCBORBytes(tx).length) + 155_381n
+    const executionFee = calculateExecutionFee({ mem: 1_000_000n, steps: 400_000_000n }, PROTOCOL_PARAMS)
+
+    expect(tx.body.fee).toBeGreaterThanOrEqual(sizeFee + executionFee)
+  })
+
+  it("passes cost models, limits and slot config to the evaluator", async () => {
+    const contexts: Array<EvaluationContext> = []
+
+    await makeTxBuilder({ network: "Preprod" })
+      .attachScript({ script: plutusScript })
+      .collectFrom({ inputs: [scriptUtxo("c".repeat(64), inlineDatum)], redeemer: UNIT_REDEEMER })
+      .build({ ...buildOptions, evaluator: makeEvaluator(contexts) })
+
+    expect(contexts).toHaveLength(1)
+    expect(contexts[0].costModels).toEqual(CostModel.toCBOR(COST_MODELS))
+    expect(contexts[0].maxTxExMem).toBe(14_000_000n)
+    expect(contexts[0].slotConfig).toEqual(Time.SLOT_CONFIG_NETWORK.Preprod)
+  })
+
+  it("witnesses datums of inputs locked by datum hash", async () => {
+    const datum = PlutusData.toCBORHex(PlutusData.int(42n))
+    const datumHash = Buffer.from(hashPlutusData(PlutusData.fromCBORHex(datum)).hash).toString("hex")
+    const input = scriptUtxo("c".repeat(64), { type: "datumHash", hash: datumHash })
+
+    const result = await makeTxBuilder({ network: "Preprod" })
+      .attachScript({ script: plutusScript })
+      .collectFrom({ inputs: [input], redeemer: UNIT_REDEEMER, datums: [datum] })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+    expect(tx.witnessSet.plutusData).toEqual([PlutusData.int(42n)])
+
+    await expect(
+      makeTxBuilder({ network: "Preprod" })
+        .attachScript({ script: plutusScript })
+        .collectFrom({ inputs: [input], redeemer: UNIT_REDEEMER })
+        .build(buildOptions)
+    ).rejects.toThrow()
+  })
+
+  it("indexes and evaluates Plutus minting redeemers", async () => {
+    const unit = ScriptHash.toHex(scriptHash) + "4d79546f6b656e"
+
+    const result = await makeTxBuilder({ network: "Preprod" })
+      .attachScript({ script: plutusScript })
+      .mintAssets({ assets: Assets.make(0n, { [unit]: 1n }), redeemer: UNIT_REDEEMER })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+    const [redeemer] = tx.witnessSet.redeemers ?? []
+
+    expect(redeemer.tag).toBe("mint")
+    expect(redeemer.index).toBe(0n)
+    expect(redeemer.exUnits).toEqual([BigInt(EX_UNITS.mem), BigInt(EX_UNITS.steps)])
+  })
+
+  it("fails without a cost model for the script language", async () => {
+    await expect(
+      makeTxBuilder({ network: "Preprod" })
+        .attachScript({ script: plutusScript })
+        .collectFrom({ inputs: [scriptUtxo("c".repeat(64), inlineDatum)], redeemer: UNIT_REDEEMER })
+        .build({
+          ...buildOptions,
+          protocolParameters: {
+            ...PROTOCOL_PARAMS,
+            costModels: new CostModel.CostModels({ ...COST_MODELS, PlutusV2: emptyCostModel })
+          }
+        })
+    ).rejects.toThrow()
+  })
+
+  it("fails without an evaluator or provider", async () => {
+    await expect(
+      makeTxBuilder({ network: "Preprod" })
+        .attachScript({ script: plutusScript })
+        .collectFrom({ inputs: [scriptUtxo("c".repeat(64), inlineDatum)], redeemer: UNIT_REDEEMER })
+        .build({ ...buildOptions, evaluator: undefined })
+    ).rejects.toThrow()
+  })
+
+  it("requires a redeemer for Plutus script inputs", async () => {
+    await expect(
+      makeTxBuilder({ network: "Preprod" })
+        .attachScript({ script: plutusScript })
+        .collectFrom({ inputs: [scriptUtxo("c".repeat(64), inlineDatum)] })
+        .build(buildOptions)
+    ).rejects.toThrow()
+  })
+})
+
+// Flat-encoded PlutusV2 validators: `\_ _ _ -> ()`, and one that traces a message and fails
+const succeedingScript = Script.makePlutusV2Script(Script.applyDoubleCborEncoding("010000222499"))
+const tracingScript = Script.makePlutusV2Script(
+  Script.applyDoubleCborEncoding(
+    "0100002223263357389201176f776e6572207369676e6174757265206d697373696e67004981"
+  )
+)
+
+// The machine charges by the cost model, so any complete one evaluates
+const MACHINE_PROTOCOL_PARAMS = {
+  ...PROTOCOL_PARAMS,
+  costModels: new CostModel.CostModels({
+    ...COST_MODELS,
+    PlutusV2: new CostModel.CostModel({ costs: Array.from({ length: 175 }, () => 1n) })
+  })
+}
+
+const spendFrom = (script: Script.Script) => {
+  const address = Address.fromAddressStructure(
+    new AddressStructure.AddressStructure({
+      networkId: 0,
+      paymentCredential: ScriptHash.fromScript(Script.toCoreScript(script))
+    })
+  )
+  return makeTxBuilder({ network: "Preprod" })
+    .attachScript({ script })
+    .collectFrom({
+      inputs: [createTestUtxo({ txHash: "e".repeat(64), outputIndex: 0, address, lovelace: 5_000_000n, datumOption: inlineDatum })],
+      redeemer: UNIT_REDEEMER
+    })
+    .build({
+      changeAddress: CHANGE_ADDRESS,
+      availableUtxos: [walletUtxo],
+      protocolParameters: MACHINE_PROTOCOL_PARAMS,
+      evaluator: createUPLCEvaluator()
+    })
+}
+
+describe("createUPLCEvaluator", () => {
+  it("evaluates scripts on the bundled UPLC machine", async () => {
+    const tx = await (await spendFrom(succeedingScript)).toTransaction()
+
+    const [redeemer] = tx.witnessSet.redeemers ?? []
+    expect(redeemer.tag).toBe("spend")
+    expect(redeemer.exUnits[0]).toBeGreaterThan(0n)
+    expect(redeemer.exUnits[1]).toBeGreaterThan(0n)
+  })
+
+  it("reports the traces of a script failing on the bundled UPLC machine", async () => {
+    const error = await spendFrom(tracingScript).catch((error: unknown) => error)
+
+    expect(error).toBeInstanceOf(EvaluationError)
+    expect((error as EvaluationError).message).toContain("the validator crashed")
+    expect((error as EvaluationError).logs).toEqual(["owner signature missing"])
+  })
+
+  it("runs the machine over the transaction and its UTxOs and decodes the redeemers", async () => {
+    const calls: Array<ReadonlyArray<unknown>> = []
+    const evaluator = createUPLCEvaluator((...args) => {
+      calls.push(args)
+      return (Transaction.fromCBORBytes(args[0]).witnessSet.redeemers ?? []).map((redeemer) =>
+        Redeemer.toCBORBytes(new Redeemer.Redeemer({ ...redeemer, exUnits: [2_000n, 3_000n] }))
+      )
+    })
+    const input = scriptUtxo("c".repeat(64), inlineDatum)
+    const referenceUtxo = {
+      ...createTestUtxo({ txHash: "d".repeat(64), address: CHANGE_ADDRESS, lovelace: 10_000_000n }),
+      scriptRef: plutusScript
+    }
+
+    const result = await makeTxBuilder({ network: "Preprod" })
+      .readFrom({ referenceInputs: [referenceUtxo] })
+      .collectFrom({ inputs: [input], redeemer: UNIT_REDEEMER })
+      .build({
+        changeAddress: CHANGE_ADDRESS,
+        availableUtxos: [walletUtxo],
+        protocolParameters: PROTOCOL_PARAMS,
+        evaluator
+      })
+    const tx = await result.toTransaction()
+
+    const [, inputs, outputs, costModels, steps, mem, zeroTime, zeroSlot, slotLength] = calls[0] as Parameters<UPLCEvalFunction>
+    const outRefs = inputs.map((bytes) => {
+      const { index, transactionId } = TransactionInput.fromCBORBytes(bytes)
+      return `${TransactionHash.toHex(transactionId)}#${index}`
+    })
+    expect(outRefs).toEqual(expect.arrayContaining(["c".repeat(64) + "#1", "d".repeat(64) + "#0"]))
+    // Only Babbage outputs carry reference scripts
+    const hasScriptRef = (bytes: Uint8Array) => {
+      const output = TransactionOutput.fromCBORBytes(bytes)
+      return output._tag === "BabbageTransactionOutput" && output.scriptRef !== undefined
+    }
+    expect(outputs.map(hasScriptRef)).toEqual(outRefs.map((outRef) => outRef.startsWith("d")))
+    expect(costModels).toEqual(CostModel.toCBOR(COST_MODELS))
+    expect([steps, mem]).toEqual([10_000_000_000n, 14_000_000n])
+    expect([zeroTime, zeroSlot, slotLength]).toEqual([1655769600000n, 86400n, 1000])
+    expect(tx.witnessSet.redeemers?.map((redeemer) => redeemer.exUnits)).toEqual([[2_000n, 3_000n]])
+  })
+
+  it("reports the script traces of a failed evaluation", async () => {
+    const evaluator = createUPLCEvaluator(() => {
+      throw "the validator crashed / exited prematurely\n        Trace owner signature missing\n        Trace deadline passed"
+    })
+
+    const error = await Effect.runPromise(
+      Effect.flip(
+        evaluator.evaluate("80", [], {
+          costModels: CostModel.toCBOR(COST_MODELS),
+          maxTxExMem: 14_000_000n,
+          maxTxExSteps: 10_000_000_000n,
+          slotConfig: Time.SLOT_CONFIG_NETWORK.Preprod
+        })
+      )
+    )
+
+    expect(error.logs).toEqual(["owner signature missing", "deadline passed"])
+    expect(error.message).toContain("the validator crashed")
+  })
+})
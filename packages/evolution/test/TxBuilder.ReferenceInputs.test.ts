@@ -0,0 +1,124 @@
+import { describe, expect, it } from "@effect/vitest"
+
+import * as NativeScripts from "../src/core/NativeScripts.js"
+import * as ScriptHash from "../src/core/ScriptHash.js"
+import * as TransactionHash from "../src/core/TransactionHash.js"
+import * as Assets from "../src/sdk/Assets.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import { calculateReferenceScriptFee } from "../src/sdk/builders/TxBuilderImpl.js"
+import * as Script from "../src/sdk/Script.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const PROTOCOL_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384,
+  minFeeRefScriptCostPerByte: 15
+}
+
+const CHANGE_ADDRESS =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+const nativePolicy = NativeScripts.makeScriptPubKey(new Uint8Array(28).fill(7))
+const nativeScript = Script.makeNativeScript(NativeScripts.toCBORHex(nativePolicy))
+const nativePolicyId = ScriptHash.toHex(ScriptHash.fromScript(nativePolicy))
+const nativeScriptSize = NativeScripts.toCBORBytes(nativePolicy).length
+
+const referenceUtxo: UTxO.UTxO = {
+  ...createTestUtxo({ txHash: "b".repeat(64), outputIndex: 0, address: CHANGE_ADDRESS, lovelace: 5_000_000n }),
+  scriptRef: nativeScript
+}
+
+describe("calculateReferenceScriptFee", () => {
+  it("prices the first 25 KiB at the base price", () => {
+    expect(calculateReferenceScriptFee(0, 15)).toBe(0n)
+    expect(calculateReferenceScriptFee(1_000, 15)).toBe(15_000n)
+    expect(calculateReferenceScriptFee(25_600, 15)).toBe(384_000n)
+  })
+
+  it("raises the price by 1.2x per tier", () => {
+    // 25600 * 15 + 25600 * 18 + 100 * 21.6
+    expect(calculateReferenceScriptFee(51_300, 15)).toBe(384_000n + 460_800n + 2_160n)
+  })
+
+  it("rounds the total down", () => {
+    // 25600 * 15 + 25600 * 18 + 25600 * 21.6 + 1 * 25.92
+    expect(calculateReferenceScriptFee(76_801, 15)).toBe(384_000n + 460_800n + 552_960n + 25n)
+  })
+})
+
+describe("TxBuilder readFrom", () => {
+  const utxos: Array<UTxO.UTxO> = [
+    createTestUtxo({ txHash: "a".repeat(64), outputIndex: 0, address: CHANGE_ADDRESS, lovelace: 10_000_000n }),
+    referenceUtxo
+  ]
+  const buildOptions = { changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS }
+
+  it("adds reference inputs without spending them", async () => {
+    const result = await makeTxBuilder({})
+      .readFrom({ referenceInputs: [referenceUtxo] })
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+    const referenceHash = TransactionHash.toHex(tx.body.referenceInputs![0].transactionId)
+
+    expect(tx.body.referenceInputs).toHaveLength(1)
+    expect(referenceHash).toBe("b".repeat(64))
+    expect(tx.body.inputs.map((input) => TransactionHash.toHex(input.transactionId))).not.toContain("b".repeat(64))
+  })
+
+  it("uses reference scripts instead of witness set scripts", async () => {
+    const result = await makeTxBuilder({})
+      .readFrom({ referenceInputs: [referenceUtxo] })
+      .mintAssets({ assets: { lovelace: 0n, [`${nativePolicyId}4e4654`]: 1n } })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+
+    expect(tx.witnessSet.nativeScripts ?? []).toHaveLength(0)
+    expect(tx.body.mint).toBeDefined()
+  })
+
+  it("leaves attached scripts out of the witness set when they are referenced", async () => {
+    const result = await makeTxBuilder({})
+      .attachScript({ script: nativeScript })
+      .readFrom({ referenceInputs: [referenceUtxo] })
+      .mintAssets({ assets: { lovelace: 0n, [`${nativePolicyId}4e4654`]: 1n } })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+
+    expect(tx.witnessSet.nativeScripts ?? []).toHaveLength(0)
+  })
+
+  it("charges the reference script fee", async () => {
+    const { minFeeRefScriptCostPerByte: _, ...withoutRefScriptCost } = PROTOCOL_PARAMS
+    const build = (protocolParameters: typeof withoutRefScriptCost) =>
+      makeTxBuilder({})
+        .readFrom({ referenceInputs: [referenceUtxo] })
+        .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+        .build({ ...buildOptions, protocolParameters })
+
+    const uncharged = await (await build(withoutRefScriptCost)).toTransaction()
+    const charged = await (await build(PROTOCOL_PARAMS)).toTransaction()
+
+    expect(charged.body.fee - uncharged.body.fee).toBe(BigInt(nativeScriptSize * 15))
+  })
+
+  it("rejects a UTxO that is both spent and referenced", async () => {
+    await expect(
+      makeTxBuilder({})
+        .collectFrom({ inputs: [referenceUtxo] })
+        .readFrom({ referenceInputs: [referenceUtxo] })
+        .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+        .build(buildOptions)
+    ).rejects.toThrow()
+  })
+
+  it("rejects an empty reference input list", async () => {
+    await expect(makeTxBuilder({}).readFrom({ referenceInputs: [] }).build(buildOptions)).rejects.toThrow()
+  })
+})
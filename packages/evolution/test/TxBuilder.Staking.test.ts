@@ -0,0 +1,133 @@
+import { describe, expect, it } from "@effect/vitest"
+
+import * as Credential from "../src/core/Credential.js"
+import * as NativeScripts from "../src/core/NativeScripts.js"
+import * as RewardAccount from "../src/core/RewardAccount.js"
+import * as ScriptHash from "../src/core/ScriptHash.js"
+import * as Address from "../src/sdk/Address.js"
+import * as Assets from "../src/sdk/Assets.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import * as Script from "../src/sdk/Script.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const KEY_DEPOSIT = 2_000_000n
+
+const PROTOCOL_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384,
+  keyDeposit: KEY_DEPOSIT
+}
+
+const CHANGE_ADDRESS =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+// Reward address sharing the stake credential of the change address
+const REWARD_ADDRESS = RewardAccount.toBech32(
+  RewardAccount.make({ networkId: 0, stakeCredential: Address.toAddressStructure(CHANGE_ADDRESS).stakingCredential! })
+)
+
+const POOL_ID = "c".repeat(56)
+
+const stakeScript = NativeScripts.makeScriptPubKey(new Uint8Array(28).fill(9))
+const SCRIPT_REWARD_ADDRESS = RewardAccount.toBech32(
+  RewardAccount.make({
+    networkId: 0,
+    stakeCredential: Credential.makeScriptHash(ScriptHash.fromScript(stakeScript).hash)
+  })
+)
+
+const totalLovelaceOut = (outputs: ReadonlyArray<{ amount: Parameters<typeof Assets.valueToAssets>[0] }>) =>
+  outputs.reduce((total, output) => total + Assets.valueToAssets(output.amount).lovelace, 0n)
+
+describe("TxBuilder staking operations", () => {
+  const utxos: Array<UTxO.UTxO> = [
+    createTestUtxo({ txHash: "a".repeat(64), outputIndex: 0, address: CHANGE_ADDRESS, lovelace: 10_000_000n })
+  ]
+  const buildOptions = { changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS }
+
+  it("registers and delegates, paying the key deposit", async () => {
+    const result = await makeTxBuilder({})
+      .registerStake({ rewardAddress: REWARD_ADDRESS })
+      .delegateTo({ rewardAddress: REWARD_ADDRESS, poolId: POOL_ID })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+
+    expect(tx.body.certificates?.map((cert) => cert._tag)).toEqual(["RegCert", "StakeDelegation"])
+    expect(totalLovelaceOut(tx.body.outputs) + tx.body.fee + KEY_DEPOSIT).toBe(10_000_000n)
+  })
+
+  it("refunds the key deposit on deregistration", async () => {
+    const result = await makeTxBuilder({})
+      .deregisterStake({ rewardAddress: REWARD_ADDRESS })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+
+    expect(tx.body.certificates?.[0]._tag).toBe("UnregCert")
+    expect(totalLovelaceOut(tx.body.outputs) + tx.body.fee).toBe(10_000_000n + KEY_DEPOSIT)
+  })
+
+  it("adds withdrawn rewards to the input side", async () => {
+    const result = await makeTxBuilder({})
+      .withdraw({ rewardAddress: REWARD_ADDRESS, amount: 1_500_000n })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+
+    expect(tx.body.withdrawals?.withdrawals.size).toBe(1)
+    expect(totalLovelaceOut(tx.body.outputs) + tx.body.fee).toBe(11_500_000n)
+  })
+
+  it("counts the stake key witness in the fee", async () => {
+    const plain = await makeTxBuilder({})
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .build(buildOptions)
+    const withWithdrawal = await makeTxBuilder({})
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .withdraw({ rewardAddress: REWARD_ADDRESS, amount: 0n })
+      .build(buildOptions)
+
+    const plainTx = await plain.toTransactionWithFakeWitnesses()
+    const withdrawalTx = await withWithdrawal.toTransactionWithFakeWitnesses()
+
+    expect(plainTx.witnessSet.vkeyWitnesses).toHaveLength(1)
+    expect(withdrawalTx.witnessSet.vkeyWitnesses).toHaveLength(2)
+  })
+
+  it("requires the script for script stake credentials", async () => {
+    await expect(
+      makeTxBuilder({}).delegateTo({ rewardAddress: SCRIPT_REWARD_ADDRESS, poolId: POOL_ID }).build(buildOptions)
+    ).rejects.toThrow()
+
+    const result = await makeTxBuilder({})
+      .attachScript({ script: Script.makeNativeScript(NativeScripts.toCBORHex(stakeScript)) })
+      .delegateTo({ rewardAddress: SCRIPT_REWARD_ADDRESS, poolId: POOL_ID })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+    expect(tx.witnessSet.nativeScripts).toHaveLength(1)
+  })
+
+  it("fails to register without keyDeposit in protocol parameters", async () => {
+    const { keyDeposit: _, ...withoutDeposit } = PROTOCOL_PARAMS
+
+    await expect(
+      makeTxBuilder({})
+        .registerStake({ rewardAddress: REWARD_ADDRESS })
+        .build({ ...buildOptions, protocolParameters: withoutDeposit })
+    ).rejects.toThrow()
+  })
+
+  it("rejects duplicate withdrawals from one reward account", async () => {
+    await expect(
+      makeTxBuilder({})
+        .withdraw({ rewardAddress: REWARD_ADDRESS, amount: 1n })
+        .withdraw({ rewardAddress: REWARD_ADDRESS, amount: 1n })
+        .build(buildOptions)
+    ).rejects.toThrow()
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "@effect/vitest"
+
+import * as Assets from "../src/sdk/Assets.js"
+import { makeTxBuilder } from "../src/sdk/builders/TransactionBuilder.js"
+import * as Time from "../src/sdk/Time.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
+
+const PROTOCOL_PARAMS = {
+  minFeeCoefficient: 44n,
+  minFeeConstant: 155_381n,
+  coinsPerUtxoByte: 4_310n,
+  maxTxSize: 16_384
+}
+
+const CHANGE_ADDRESS =
+  "addr_test1qz2fxv2umyhttkxyxp8x0dlpdt3k6cwng5pxj3jhsydzer3n0d3vllmyqwsx5wktcd8cc3sq835lu7drv2xwl2wywfgs68faae"
+
+describe("Time slot conversion", () => {
+  it("converts POSIX time to slots on public networks", () => {
+    const { Mainnet, Preprod, Preview } = Time.SLOT_CONFIG_NETWORK
+
+    expect(Time.unixTimeToSlot(1596059091000, Mainnet)).toBe(4_492_800n)
+    expect(Time.unixTimeToSlot(1666656000000 + 12_345_678, Preview)).toBe(12_345n)
+    expect(Time.unixTimeToSlot(1655769600000 + 1_999, Preprod)).toBe(86_401n)
+  })
+
+  it("round-trips slots through POSIX time", () => {
+    const slot = 123_456_789n
+    const unixTime = Time.slotToUnixTime(slot, Time.SLOT_CONFIG_NETWORK.Mainnet)
+
+    expect(Time.unixTimeToSlot(unixTime, Time.SLOT_CONFIG_NETWORK.Mainnet)).toBe(slot)
+  })
+
+  it("derives devnet slot configs from the Shelley genesis", () => {
+    const slotConfig = Time.fromShelleyGenesis({ systemStart: "2024-01-01T00:00:00Z", slotLength: 0.1 })
+
+    expect(slotConfig).toEqual({ zeroTime: 1704067200000n, zeroSlot: 0n, slotLength: 100 })
+    expect(Time.unixTimeToSlot(1704067200000 + 1_000, slotConfig)).toBe(10n)
+  })
+})
+
+describe("TxBuilder validFrom / validTo", () => {
+  const utxos: Array<UTxO.UTxO> = [
+    createTestUtxo({ txHash: "a".repeat(64), outputIndex: 0, address: CHANGE_ADDRESS, lovelace: 10_000_000n })
+  ]
+  const buildOptions = { changeAddress: CHANGE_ADDRESS, availableUtxos: utxos, protocolParameters: PROTOCOL_PARAMS }
+
+  it("sets the validity interval from slots", async () => {
+    const result = await makeTxBuilder({})
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .validFrom({ slot: 1_000n })
+      .validTo({ slot: 2_000n })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+
+    expect(tx.body.validityIntervalStart).toBe(1_000n)
+    expect(tx.body.ttl).toBe(2_000n)
+  })
+
+  it("converts POSIX times with the network slot config", async () => {
+    const now = 1_700_000_000_000
+    const result = await makeTxBuilder({ network: "Preprod" })
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .validFrom({ unixTime: now })
+      .validTo({ unixTime: now + 600_000 })
+      .build(buildOptions)
+
+    const tx = await result.toTransaction()
+
+    expect(tx.body.validityIntervalStart).toBe(Time.unixTimeToSlot(now, Time.SLOT_CONFIG_NETWORK.Preprod))
+    expect(tx.body.ttl! - tx.body.validityIntervalStart!).toBe(600n)
+  })
+
+  it("prefers the per-build slot config", async () => {
+    const result = await makeTxBuilder({ network: "Mainnet" })
+      .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+      .validTo({ unixTime: 5_000 })
+      .build({ ...buildOptions, slotConfig: { zeroTime: 0n, zeroSlot: 0n, slotLength: 1000 } })
+
+    const tx = await result.toTransaction()
+    expect(tx.body.ttl).toBe(5n)
+  })
+
+  it("requires a slot config for POSIX times", async () => {
+    await expect(
+      makeTxBuilder({ network: "Custom" })
+        .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+        .validTo({ unixTime: Date.now() })
+        .build(buildOptions)
+    ).rejects.toThrow()
+  })
+
+  it("rejects an empty validity interval", async () => {
+    await expect(
+      makeTxBuilder({})
+        .payToAddress({ address: CHANGE_ADDRESS, assets: Assets.fromLovelace(2_000_000n) })
+        .validFrom({ slot: 2_000n })
+        .validTo({ slot: 2_000n })
+        .build(buildOptions)
+    ).rejects.toThrow()
+  })
+})
@@ -1,7 +1,17 @@
-import { describe, expect, it } from "@effect/vitest"
+import { describe, expect, it, vi } from "@effect/vitest"
+import { mnemonicToEntropy } from "@scure/bip39"
+import { wordlist as English } from "@scure/bip39/wordlists/english"
 import { Effect } from "effect"
 
-import { walletFromSeed } from "../src/sdk/wallet/Derivation.js"
+import * as Bip32PrivateKey from "../src/core/Bip32PrivateKey.js"
+import * as KeyHash from "../src/core/KeyHash.js"
+import * as PrivateKey from "../src/core/PrivateKey.js"
+import * as Assets from "../src/sdk/Assets.js"
+import { createClient } from "../src/sdk/client/ClientImpl.js"
+import { Emulator } from "../src/sdk/provider/Emulator.js"
+import type * as UTxO from "../src/sdk/UTxO.js"
+import { discoverWalletFromSeed, icarusKeyFromSeed, walletFromSeed } from "../src/sdk/wallet/Derivation.js"
+import { createTestUtxo } from "./utils/utxo-helpers.js"
 
 const seedPhrase =
   "zebra short room flavor rival capital fortune hip profit trust melody office depend adapt visa cycle february link tornado whisper physical kiwi film voyage"
@@ -74,6 +84,59 @@ describe("WalletFromSeed", () => {
     })
   )
 
+  it.effect("derives the DRep key on role 3", () =>
+    Effect.gen(function* () {
+      const rootXPrv = Bip32PrivateKey.fromBip39Entropy(mnemonicToEntropy(seedPhrase, English), "")
+      const drepKey = Bip32PrivateKey.toPrivateKey(
+        Bip32PrivateKey.derive(rootXPrv, Bip32PrivateKey.CardanoPath.drepIndices(0, 0))
+      )
+
+      const result = yield* walletFromSeed(seedPhrase, { addressType: "Enterprise" })
+
+      expect(result.drepKey).toBe(PrivateKey.toBech32(drepKey))
+      expect(result.drepKhHex).toBe(KeyHash.toHex(KeyHash.fromPrivateKey(drepKey)))
+      expect(result.keyStore.get(result.drepKhHex!)).toEqual(drepKey)
+    })
+  )
+
+  it("signs DRep certificates with the DRep key", async () => {
+    const { address, drepKhHex } = await Effect.runPromise(walletFromSeed(seedPhrase, { network: "Testnet" }))
+    const emulator = new Emulator([{ address, assets: Assets.fromLovelace(1_000_000_000n) }])
+    const client = createClient({
+      network: "preprod",
+      provider: { type: "emulator", emulator },
+      wallet: { type: "seed", mnemonic: seedPhrase }
+    })
+
+    const signed = await (await client.newTx().registerDRep({ drep: KeyHash.fromHex(drepKhHex!) }).build()).sign()
+
+    expect(await emulator.awaitTx(await signed.submit())).toBe(true)
+  })
+
+  it("builds and signs transactions spending the legacy Byron address", async () => {
+    const { address } = await Effect.runPromise(walletFromSeed(seedPhrase, { network: "Testnet" }))
+    const byron = await Effect.runPromise(icarusKeyFromSeed(seedPhrase, { protocolMagic: 1 }))
+    const emulator = new Emulator([{ address: byron.address, assets: Assets.fromLovelace(10_000_000n) }])
+    const client = createClient({
+      network: "preprod",
+      provider: { type: "emulator", emulator },
+      wallet: { type: "seed", mnemonic: seedPhrase }
+    })
+
+    const signed = await (
+      await client
+        .newTx()
+        .collectFrom({ inputs: await emulator.getUtxos(byron.address) })
+        .payToAddress({ address, assets: Assets.fromLovelace(5_000_000n) })
+        .build()
+    ).sign()
+
+    expect(signed.witnessSet.vkeyWitnesses).toBeUndefined()
+    expect(signed.witnessSet.bootstrapWitnesses).toHaveLength(1)
+    expect(await emulator.awaitTx(await signed.submit())).toBe(true)
+    expect(await emulator.getUtxos(byron.address)).toEqual([])
+  })
+
   it.effect("Address Enterprise", () =>
     Effect.gen(function* () {
       const result1 = yield* walletFromSeed(seedPhrase, {
@@ -97,3 +160,137 @@ describe("WalletFromSeed", () => {
     })
   )
 })
+
+describe("discoverWalletFromSeed", () => {
+  // Scan both chains without any used address to learn the address at each role/index
+  const scanned: Array<string> = []
+  const record = (address: string) =>
+    Effect.sync(() => {
+      scanned.push(address)
+      return []
+    })
+
+  const chains = Effect.runSync(
+    Effect.map(discoverWalletFromSeed(seedPhrase, record, { network: "Testnet", gapLimit: 40 }), () => ({
+      external: scanned.slice(0, 40),
+      internal: scanned.slice(40, 80)
+    }))
+  )
+
+  const fundedAt = (addresses: ReadonlyArray<string>) => {
+    const queried: Array<string> = []
+    const getUtxos = (address: string) =>
+      Effect.sync((): ReadonlyArray<UTxO.UTxO> => {
+        queried.push(address)
+        return addresses.includes(address)
+          ? [createTestUtxo({ txHash: String(queried.length).padStart(64, "0"), address, lovelace: 1_000_000n })]
+          : []
+      })
+    return { getUtxos, queried }
+  }
+
+  it.effect("discovers used external and change addresses within the gap limit", () =>
+    Effect.gen(function* () {
+      const used = [chains.external[0], chains.external[15], chains.internal[2]]
+      const { getUtxos, queried } = fundedAt(used)
+
+      const result = yield* discoverWalletFromSeed(seedPhrase, getUtxos, { network: "Testnet" })
+
+      expect(result.address).toBe(chains.external[0])
+      expect(result.addresses.map(({ index, role }) => [role, index])).toEqual([
+        [0, 0],
+        [0, 15],
+        [1, 2]
+      ])
+      expect(result.utxos.map((utxo) => utxo.address)).toEqual(used)
+      // 16 + 20 external and 3 + 20 internal addresses scanned
+      expect(queried).toHaveLength(59)
+      for (const { paymentKhHex } of result.addresses) {
+        expect(result.keyStore.has(paymentKhHex)).toBe(true)
+      }
+      expect(result.keyStore.has(result.stakeKhHex!)).toBe(true)
+    })
+  )
+
+  it.effect("ignores addresses beyond the gap", () =>
+    Effect.gen(function* () {
+      const { getUtxos } = fundedAt([chains.external[25]])
+
+      const result = yield* discoverWalletFromSeed(seedPhrase, getUtxos, { network: "Testnet", gapLimit: 20 })
+
+      expect(result.addresses).toEqual([])
+      expect(result.utxos).toEqual([])
+    })
+  )
+
+  it.effect("keeps scanning past spent addresses reported used by a history predicate", () =>
+    Effect.gen(function* () {
+      // external[3] was used and spent; only external[20] still holds funds
+      const { getUtxos } = fundedAt([chains.external[20]])
+      const withHistory = new Set([chains.external[3], chains.external[20]])
+
+      const byUtxos = yield* discoverWalletFromSeed(seedPhrase, getUtxos, { network: "Testnet" })
+      const byHistory = yield* discoverWalletFromSeed(seedPhrase, getUtxos, {
+        network: "Testnet",
+        isUsed: (address) => Effect.succeed(withHistory.has(address))
+      })
+
+      expect(byUtxos.addresses).toEqual([])
+      expect(byHistory.addresses.map(({ index, role }) => [role, index])).toEqual([
+        [0, 3],
+        [0, 20]
+      ])
+      expect(byHistory.utxos.map((utxo) => utxo.address)).toEqual([chains.external[20]])
+    })
+  )
+
+  it.effect("derives change addresses on role 1", () =>
+    Effect.gen(function* () {
+      const { getUtxos } = fundedAt([chains.internal[0]])
+      const rootXPrv = Bip32PrivateKey.fromBip39Entropy(mnemonicToEntropy(seedPhrase, English), "")
+      const changeKey = Bip32PrivateKey.toPrivateKey(
+        Bip32PrivateKey.derive(rootXPrv, Bip32PrivateKey.CardanoPath.changeIndices(0, 0))
+      )
+
+      const result = yield* discoverWalletFromSeed(seedPhrase, getUtxos, { network: "Testnet", gapLimit: 1 })
+
+      expect(result.addresses).toEqual([
+        {
+          address: chains.internal[0],
+          role: 1,
+          index: 0,
+          paymentKhHex: KeyHash.toHex(KeyHash.fromPrivateKey(changeKey))
+        }
+      ])
+    })
+  )
+
+  it("scans once per seed wallet client and rescans on refresh", async () => {
+    const emulator = new Emulator([{ address: chains.external[1], assets: Assets.fromLovelace(5_000_000n) }])
+    const getUtxos = vi.spyOn(emulator.Effect, "getUtxos")
+    const client = createClient({
+      network: "preprod",
+      provider: { type: "emulator", emulator },
+      wallet: { type: "seed", mnemonic: seedPhrase, addressDiscovery: true }
+    })
+
+    const utxos = await client.getWalletUtxos()
+    const scans = getUtxos.mock.calls.length
+    await client.signMessage(chains.external[1], "00")
+    await client.getWalletUtxos()
+
+    expect(utxos.map((utxo) => utxo.address)).toEqual([chains.external[1]])
+    expect(getUtxos).toHaveBeenCalledTimes(scans)
+
+    await client.refresh!()
+
+    expect(getUtxos).toHaveBeenCalledTimes(2 * scans)
+  })
+
+  it.effect("rejects an invalid gap limit", () =>
+    Effect.gen(function* () {
+      const error = yield* Effect.flip(discoverWalletFromSeed(seedPhrase, record, { gapLimit: 0 }))
+      expect(error._tag).toBe("DerivationError")
+    })
+  )
+})